@@ -0,0 +1,167 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { isDeepStrictEqual } from "node:util";
+import Database from "better-sqlite3";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { ShelbyAptosClient } from "../aptos-client";
+import { loadConfig } from "../config";
+import type { IndexerTransport } from "../indexer-transport";
+import { runMigrations } from "../migrate";
+import { MIGRATIONS } from "../migrations";
+
+// db.ts reads DATA_DIR when it is first imported, so the modules are loaded after it is set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "activity-sync-test-"));
+process.env.DATA_DIR = dataDir;
+const db = await import("../db");
+const { backfillActivities, incrementalSync } = await import("../sync-service");
+
+const ALICE = "0x5d4c3b2a19f8e7d6c5b4a39281706f5e4d3c2b1a09f8e7d6c5b4a3928170a11c";
+const BOB = "0x9e8d7c6b5a4f3e2d1c0b9a8f7e6d5c4b3a2f1e0d9c8b7a6f5e4d3c2b1a090b0b";
+const CAROL = "0x3c4d5e6f708192a3b4c5d6e7f8091a2b3c4d5e6f708192a3b4c5d6e7f80c0de1";
+
+interface RecordedExchange {
+  variables: Record<string, unknown>;
+  response: unknown;
+}
+
+// Hand-written indexer responses for a mint and three transfers (each transfer
+// is a withdraw and a deposit in the same transaction)
+const recorded: RecordedExchange[] = JSON.parse(
+  fs.readFileSync(path.join(import.meta.dirname, "fixtures/indexer/shelbyusd-activities.json"), "utf8")
+);
+
+/**
+ * A client whose indexer answers from recorded exchanges, matched on their variables
+ */
+function replayIndexer(exchanges: RecordedExchange[]): ShelbyAptosClient {
+  const transport: IndexerTransport = {
+    graphql: async (_query, variables) => {
+      const exchange = exchanges.find((e) => isDeepStrictEqual(e.variables, variables));
+      if (!exchange) throw new Error(`No recorded indexer response for ${JSON.stringify(variables)}`);
+      return Response.json(exchange.response);
+    },
+    rest: async (path) => {
+      throw new Error(`Unexpected fullnode request ${path}`);
+    },
+  };
+  return new ShelbyAptosClient(loadConfig(), transport);
+}
+
+/**
+ * A database synced before activities were keyed by event index: only the
+ * first event of each transaction made it in
+ */
+function seedLegacyDatabase(filePath: string): void {
+  const legacy = new Database(filePath);
+  runMigrations(legacy, MIGRATIONS, 1);
+  legacy.exec(`
+    INSERT INTO shelbyusd_activities VALUES
+      (4000100, 0, '${ALICE}', 500000000, 'mint', 1773064931481),
+      (4000250, 0, '${ALICE}', 120000000, 'withdraw', 1773065265902),
+      (4000310, 0, '${BOB}', 20000000, 'withdraw', 1773065463217);
+    INSERT INTO address_stats (address, tx_count, total_withdrawn, total_minted, last_version) VALUES
+      ('${ALICE}', 2, 120000000, 500000000, 4000250),
+      ('${BOB}', 1, 20000000, 0, 4000310);
+  `);
+  legacy.close();
+}
+
+function getStats(address: string) {
+  return db
+    .getDatabase()
+    .prepare("SELECT tx_count, total_deposited, total_withdrawn, total_minted FROM address_stats WHERE address = ?")
+    .get(address);
+}
+
+describe("ShelbyUSD activity sync", () => {
+  beforeAll(() => {
+    seedLegacyDatabase(path.join(dataDir, "shelby-pulse.db"));
+    db.initDatabase();
+  });
+
+  afterAll(() => {
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("the migration keys activities by event and queues the stored versions for backfill", () => {
+    const keyColumns = (db.getDatabase().pragma("table_info(shelbyusd_activities)") as Array<{ name: string; pk: number }>)
+      .filter((column) => column.pk > 0)
+      .sort((a, b) => a.pk - b.pk)
+      .map((column) => column.name);
+
+    expect(keyColumns).toEqual(["transaction_version", "event_index"]);
+    expect(db.getActivityCount()).toBe(3);
+    expect(db.getPendingActivityBackfillRanges()).toMatchObject([{ from_version: 4000100, to_version: 4000310 }]);
+  });
+
+  test("keeps a range queued when the indexer fails", async () => {
+    const failing = replayIndexer([
+      { variables: { ...recorded[0].variables }, response: { errors: [{ message: "statement timeout" }] } },
+    ]);
+
+    await expect(backfillActivities(failing)).resolves.toBe(0);
+
+    expect(db.getActivityCount()).toBe(3);
+    expect(db.getPendingActivityBackfillRanges()).toHaveLength(1);
+  });
+
+  test("restores the dropped events and rebuilds address stats", async () => {
+    const aptosClient = replayIndexer(recorded);
+    db.setCachedLeaderboard("spenders", "[]");
+
+    await expect(backfillActivities(aptosClient)).resolves.toBe(2);
+
+    expect(db.getActivityCount()).toBe(5);
+    expect(db.getPendingActivityBackfillRanges()).toEqual([]);
+    expect(getStats(ALICE)).toEqual({ tx_count: 2, total_deposited: 0, total_withdrawn: 120000000, total_minted: 500000000 });
+    expect(getStats(BOB)).toEqual({ tx_count: 2, total_deposited: 120000000, total_withdrawn: 20000000, total_minted: 0 });
+    expect(getStats(CAROL)).toEqual({ tx_count: 1, total_deposited: 20000000, total_withdrawn: 0, total_minted: 0 });
+    expect(db.getCachedLeaderboard("spenders")).toBeNull();
+
+    // Nothing left to do
+    await expect(backfillActivities(aptosClient)).resolves.toBe(0);
+  });
+
+  test("stores both sides of new transfers", async () => {
+    const aptosClient = replayIndexer(recorded);
+
+    await expect(incrementalSync(aptosClient)).resolves.toBe(2);
+
+    expect(db.getRecentActivities(2)).toMatchObject([
+      { transaction_version: 4000420, event_index: 1, address: CAROL, type: "deposit", amount: 30000000 },
+      { transaction_version: 4000420, event_index: 0, address: ALICE, type: "withdraw", amount: 30000000 },
+    ]);
+    expect(getStats(ALICE)).toMatchObject({ tx_count: 3, total_withdrawn: 150000000 });
+    expect(getStats(CAROL)).toMatchObject({ tx_count: 2, total_deposited: 50000000 });
+
+    await expect(incrementalSync(aptosClient)).resolves.toBe(0);
+  });
+
+  test("leaves a transaction split by a failed page for the next sync", async () => {
+    const activity = (version: number, eventIndex: number, owner: string, type: string) => ({
+      owner_address: owner,
+      type: `0x1::fungible_asset::${type}`,
+      amount: 1000,
+      transaction_version: version,
+      transaction_timestamp: "2026-03-09T14:20:00.000000",
+      event_index: eventIndex,
+    });
+    const page = (sinceVersion: string, offset: number, rows: unknown[]): RecordedExchange => ({
+      variables: { ...recorded[0].variables, offset, versions: { _gt: sinceVersion } },
+      response: { data: { fungible_asset_activities: rows } },
+    });
+    // A full page of single-event mints ending in the withdraw half of a transfer
+    const mints = Array.from({ length: 99 }, (_, i) => activity(4000500 + i, 0, ALICE, "Mint"));
+    const withdraw = activity(4000700, 0, ALICE, "Withdraw");
+    const deposit = activity(4000700, 1, BOB, "Deposit");
+
+    // Only the first page is recorded, so fetching the second one fails
+    await expect(incrementalSync(replayIndexer([page("4000420", 0, [...mints, withdraw])]))).resolves.toBe(99);
+    expect(db.getLastSyncedVersion()).toBe(4000598);
+
+    await expect(incrementalSync(replayIndexer([page("4000598", 0, [withdraw, deposit])]))).resolves.toBe(2);
+    expect(getStats(BOB)).toMatchObject({ total_deposited: 120001000 });
+  });
+});
@@ -0,0 +1,270 @@
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { StorageProvider } from "../aptos-client";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { createAlertRule, evaluateAlertRules } = await import("../alert-rules");
+const { deliverDueWebhooks, queueWebhook, verifyWebhookSignature, WEBHOOK_RETRY_DELAYS_MS } = await import(
+  "../webhooks"
+);
+
+const ALICE = `0x${"a1".repeat(32)}`;
+const BOB = `0x${"b0".repeat(32)}`;
+const NOW = 1773100800000;
+const MINUTE = 60 * 1000;
+
+interface ReceivedWebhook {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+/**
+ * A local HTTP server standing in for a webhook endpoint. It answers with
+ * `status` and keeps every request it gets.
+ */
+const receiver = {
+  server: null as Server | null,
+  url: "",
+  status: 200,
+  received: [] as ReceivedWebhook[],
+};
+
+function blob(version: number, owner: string, name: string, createdAt = NOW) {
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `@${owner}/${name}`,
+    owner_address: owner,
+    size_bytes: 2048,
+    encoding: "clay",
+    blob_name: `@${owner}/${name}`,
+    creation_timestamp: createdAt,
+    expiration_timestamp: null,
+  };
+}
+
+function activity(version: number, type: "deposit" | "withdraw" | "mint" | "burn", amount: number) {
+  return { transaction_version: version, event_index: 0, address: ALICE, amount, type, timestamp: NOW };
+}
+
+function createRule(type: string, params: Record<string, unknown>) {
+  const result = createAlertRule({ name: `${type} rule`, type, params, webhookUrl: receiver.url }, NOW);
+  if ("error" in result) throw new Error(result.error);
+  return result.rule;
+}
+
+function evaluate(now = NOW, providers: Array<Pick<StorageProvider, "address" | "datacenter">> = []) {
+  return evaluateAlertRules({
+    now,
+    blobSyncCaughtUp: true,
+    getStorageProviders: async () => providers as StorageProvider[],
+  });
+}
+
+function receivedPayloads() {
+  return receiver.received.map((webhook) => JSON.parse(webhook.body));
+}
+
+beforeEach(async () => {
+  db.initDatabase();
+  receiver.status = 200;
+  receiver.received = [];
+  receiver.server = createServer((req, res) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      receiver.received.push({ headers: req.headers, body });
+      res.writeHead(receiver.status).end();
+    });
+  });
+  await new Promise<void>((resolve) => receiver.server?.listen(0, "127.0.0.1", resolve));
+  receiver.url = `http://127.0.0.1:${(receiver.server.address() as AddressInfo).port}/hooks`;
+});
+
+afterEach(async () => {
+  db.closeDatabase();
+  await new Promise((resolve) => receiver.server?.close(resolve));
+});
+
+describe("alert rules", () => {
+  test("fire on a watched address's uploads and send signed webhooks", async () => {
+    db.insertBlobEvents([blob(100, ALICE, "before.png")]);
+    const rule = createRule("address_upload", { address: ALICE.toUpperCase() });
+
+    // A new rule starts from what is already stored
+    expect(await evaluate()).toBe(0);
+    db.insertBlobEvents([blob(101, BOB, "other.png"), blob(102, ALICE, "cat.png"), blob(103, ALICE, "dog.png")]);
+    expect(await evaluate()).toBe(1);
+    expect(await evaluate()).toBe(0);
+
+    expect(await deliverDueWebhooks(NOW)).toEqual({ delivered: 1, retrying: 0, deadLettered: 0 });
+    const [webhook] = receiver.received;
+    expect(JSON.parse(webhook.body)).toMatchObject({
+      type: "address_upload",
+      rule: { id: rule.id, name: "address_upload rule" },
+      createdAt: NOW,
+      data: { address: ALICE, count: 2, blobs: [{ version: "102", name: "cat.png" }, { version: "103", name: "dog.png" }] },
+    });
+    expect(webhook.headers["x-pulse-delivery"]).toBe(JSON.parse(webhook.body).id);
+
+    const signature = String(webhook.headers["x-pulse-signature"]);
+    expect(verifyWebhookSignature(rule.secret, signature, webhook.body)).toBe(true);
+    expect(verifyWebhookSignature(rule.secret, signature, webhook.body.replace("cat", "cow"))).toBe(false);
+    expect(verifyWebhookSignature("whsec_other", signature, webhook.body)).toBe(false);
+    expect(db.getAlertRule(rule.id)?.last_triggered_at).toBe(NOW);
+  });
+
+  test("fire on ShelbyUSD activities over the threshold", async () => {
+    createRule("large_transfer", { minAmount: 1000 });
+    createRule("large_transfer", { minAmount: 1000, types: ["mint"] });
+    await evaluate();
+
+    db.insertActivities([activity(200, "withdraw", 999), activity(201, "withdraw", 5000), activity(202, "mint", 1000)]);
+    expect(await evaluate()).toBe(2);
+    await deliverDueWebhooks(NOW);
+
+    expect(receivedPayloads().map((payload) => payload.data)).toEqual([
+      {
+        minAmount: 1000,
+        count: 1,
+        activities: [{ version: "201", eventIndex: 0, address: ALICE, type: "withdraw", amount: 5000, timestamp: NOW }],
+      },
+      {
+        minAmount: 1000,
+        count: 1,
+        activities: [{ version: "202", eventIndex: 0, address: ALICE, type: "mint", amount: 1000, timestamp: NOW }],
+      },
+    ]);
+  });
+
+  test("fire when uploads stop and again when they resume", async () => {
+    db.insertBlobEvents([blob(100, ALICE, "cat.png")]);
+    createRule("upload_rate_zero", { windowMinutes: 30 });
+
+    expect(await evaluate(NOW + 10 * MINUTE)).toBe(0);
+    expect(await evaluate(NOW + 30 * MINUTE)).toBe(1);
+    expect(await evaluate(NOW + 40 * MINUTE)).toBe(0);
+    db.insertBlobEvents([blob(101, ALICE, "dog.png", NOW + 45 * MINUTE)]);
+    expect(await evaluate(NOW + 46 * MINUTE)).toBe(1);
+
+    await deliverDueWebhooks(NOW + 46 * MINUTE);
+    expect(receivedPayloads().map((payload) => payload.data)).toEqual([
+      { status: "stalled", windowMinutes: 30, lastUploadAt: NOW },
+      { status: "resumed", windowMinutes: 30, lastUploadAt: NOW + 45 * MINUTE },
+    ]);
+  });
+
+  test("fire when a storage provider leaves the registry", async () => {
+    createRule("provider_missing", {});
+    const providers = [
+      { address: "0x5001", datacenter: "dc_us_west" },
+      { address: "0x5002", datacenter: "dc_europe" },
+    ];
+
+    await evaluate(NOW, providers);
+    // An empty registry is taken as unreadable
+    expect(await evaluate(NOW, [])).toBe(0);
+    expect(await evaluate(NOW, providers.slice(0, 1))).toBe(1);
+    expect(await evaluate(NOW, providers.slice(0, 1))).toBe(0);
+
+    await deliverDueWebhooks(NOW);
+    expect(receivedPayloads()[0].data).toEqual({
+      missing: [{ address: `0x${"5002".padStart(64, "0")}`, datacenter: "dc_europe" }],
+      remaining: 1,
+    });
+  });
+
+  test("reject invalid rules", () => {
+    const invalid = (body: Record<string, unknown>) =>
+      createAlertRule({ name: "rule", webhookUrl: receiver.url, ...body });
+
+    expect(invalid({ type: "address_upload", params: { address: "alice" } })).toEqual({
+      error: "params.address: must be a hex address",
+    });
+    expect(invalid({ type: "large_transfer", params: {} })).toEqual({ error: "params.minAmount: Required" });
+    expect(invalid({ type: "upload_rate_zero", webhookUrl: "ftp://example.com" })).toEqual({
+      error: "webhookUrl: must be an http or https URL",
+    });
+    expect(invalid({ type: "price_drop" })).toMatchObject({ error: expect.stringMatching(/^type: /) });
+    expect(db.getAlertRules()).toEqual([]);
+  });
+});
+
+describe("webhook delivery", () => {
+  test("retries failed deliveries, then moves them to the dead letters", async () => {
+    const rule = createRule("upload_rate_zero", {});
+    receiver.status = 500;
+    const payload = queueWebhook(rule, "upload_rate_zero", { status: "stalled" }, NOW);
+
+    let now = NOW;
+    expect(await deliverDueWebhooks(now)).toEqual({ delivered: 0, retrying: 1, deadLettered: 0 });
+    // Not due again until its retry delay has passed
+    expect(await deliverDueWebhooks(now + WEBHOOK_RETRY_DELAYS_MS[0] - 1)).toMatchObject({ retrying: 0 });
+
+    for (const delay of WEBHOOK_RETRY_DELAYS_MS) {
+      now += delay;
+      await deliverDueWebhooks(now);
+    }
+    expect(receiver.received).toHaveLength(WEBHOOK_RETRY_DELAYS_MS.length + 1);
+    expect(db.getWebhookDelivery(payload.id)).toBeNull();
+    expect(db.getWebhookDeadLetter(payload.id)).toMatchObject({
+      rule_id: rule.id,
+      attempts: 5,
+      last_status: 500,
+      last_error: "Receiver answered 500",
+      failed_at: now,
+    });
+
+    // A requeued dead letter goes out again with the same id
+    receiver.status = 204;
+    expect(db.requeueWebhookDeadLetter(payload.id, now)).toBe(true);
+    expect(await deliverDueWebhooks(now)).toEqual({ delivered: 1, retrying: 0, deadLettered: 0 });
+    expect(db.getWebhookDelivery(payload.id)).toMatchObject({ status: "delivered", attempts: 1, last_status: 204 });
+    expect(receivedPayloads().at(-1)).toMatchObject({ id: payload.id });
+  });
+
+  test("doesn't hold other receivers' webhooks behind a slow one", async () => {
+    const rule = createRule("upload_rate_zero", {});
+    let answerSlow = () => {};
+    const slow = createServer((_req, res) => {
+      answerSlow = () => res.writeHead(200).end();
+    });
+    await new Promise<void>((resolve) => slow.listen(0, "127.0.0.1", resolve));
+    const slowUrl = `http://127.0.0.1:${(slow.address() as AddressInfo).port}/hooks`;
+
+    try {
+      queueWebhook({ ...rule, webhook_url: slowUrl }, "test", {}, NOW);
+      const fast = queueWebhook(rule, "test", {}, NOW + 1);
+
+      const run = deliverDueWebhooks(NOW + 1);
+      await vi.waitFor(() => expect(db.getWebhookDelivery(fast.id)).toMatchObject({ status: "delivered" }));
+      answerSlow();
+      expect(await run).toEqual({ delivered: 2, retrying: 0, deadLettered: 0 });
+    } finally {
+      slow.closeAllConnections();
+      await new Promise((resolve) => slow.close(resolve));
+    }
+  });
+
+  test("records unreachable receivers and drops a deleted rule's pending webhooks", async () => {
+    const rule = createRule("upload_rate_zero", {});
+    const unreachable = queueWebhook({ ...rule, webhook_url: "http://127.0.0.1:1/hooks" }, "test", {}, NOW);
+
+    await deliverDueWebhooks(NOW);
+    expect(db.getWebhookDelivery(unreachable.id)).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      last_status: null,
+      next_attempt_at: NOW + WEBHOOK_RETRY_DELAYS_MS[0],
+    });
+
+    expect(db.deleteAlertRule(rule.id)).toBe(true);
+    expect(db.getWebhookDelivery(unreachable.id)).toBeNull();
+  });
+});
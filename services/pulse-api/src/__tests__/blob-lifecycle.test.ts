@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { ShelbyAptosClient } from "../aptos-client";
+import { loadConfig } from "../config";
+import type { BlobEventRecord, BlobLifecycleKind, BlobLifecycleRecord } from "../db";
+import type { IndexerTransport } from "../indexer-transport";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { incrementalBlobSync } = await import("../blob-sync-service");
+
+const ALICE = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000000000000000000000000000b0b";
+
+const EVENT_TYPES: Record<BlobLifecycleKind, string> = {
+  written: "0xc63d::blob_metadata::BlobWrittenEvent",
+  deleted: "0xc63d::blob_metadata::BlobDeletedEvent",
+  expiration_extended: "0xc63d::blob_metadata::BlobExpirationExtendedEvent",
+};
+
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function registered(version: number, owner: string, name: string, size: number): BlobEventRecord {
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `@${owner}/${name}`,
+    owner_address: owner,
+    size_bytes: size,
+    encoding: null,
+    blob_name: `@${owner}/${name}`,
+    creation_timestamp: NOW - DAY,
+    expiration_timestamp: NOW + 30 * DAY,
+  };
+}
+
+function lifecycle(
+  version: number,
+  owner: string,
+  name: string,
+  kind: BlobLifecycleKind,
+  expiration: number | null = null
+): BlobLifecycleRecord {
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `@${owner}/${name}`,
+    owner_address: owner,
+    event_type: EVENT_TYPES[kind],
+    kind,
+    expiration_timestamp: expiration,
+  };
+}
+
+function statuses(): Array<[number, string]> {
+  return db
+    .getDatabase()
+    .prepare("SELECT transaction_version, status FROM blob_states ORDER BY transaction_version")
+    .all()
+    .map((row) => {
+      const { transaction_version, status } = row as { transaction_version: number; status: string };
+      return [transaction_version, status];
+    });
+}
+
+beforeEach(() => {
+  db.initDatabase();
+  db.insertBlobEvents([
+    registered(10, ALICE, "kept.png", 100),
+    registered(11, ALICE, "deleted.png", 200),
+    registered(13, BOB, "reused.txt", 800),
+  ]);
+  db.insertBlobLifecycleEvents([
+    lifecycle(20, ALICE, "kept.png", "written"),
+    lifecycle(21, ALICE, "deleted.png", "written"),
+    lifecycle(22, ALICE, "deleted.png", "deleted"),
+    lifecycle(24, BOB, "reused.txt", "deleted"),
+  ]);
+});
+
+afterEach(() => {
+  db.closeDatabase();
+});
+
+describe("blob lifecycle", () => {
+  test("derives each registration's status from its latest lifecycle event", () => {
+    expect(statuses()).toEqual([
+      [10, "written"],
+      [11, "deleted"],
+      [13, "deleted"],
+    ]);
+  });
+
+  test("applies lifecycle events to the registration they follow", () => {
+    // Bob registers the deleted name again; the old deletion stays with the old registration
+    db.insertBlobEvents([registered(30, BOB, "reused.txt", 1600)]);
+    expect(statuses().slice(-2)).toEqual([
+      [13, "deleted"],
+      [30, "registered"],
+    ]);
+
+    // A lifecycle event synced before its registration applies once the registration arrives
+    db.insertBlobLifecycleEvents([lifecycle(41, ALICE, "late.bin", "written")]);
+    db.insertBlobEvents([registered(40, ALICE, "late.bin", 3200)]);
+    expect(statuses().at(-1)).toEqual([40, "written"]);
+  });
+
+  test("counts only the blobs still stored in totals and feeds", () => {
+    expect(db.getBlobExpirationStats(NOW, NOW + 60 * DAY)).toMatchObject({
+      live_blobs: 1,
+      live_bytes: 100,
+      expiring_blobs: 1,
+      deleted_blobs: 2,
+      deleted_bytes: 1000,
+    });
+    expect(db.getTotalBlobStorage(NOW)).toBe(100);
+    expect(db.getStoredBlobStats()).toEqual({ total_blobs: 1, total_bytes: 100, unique_owners: 1 });
+    expect(db.getRecentBlobEvents(10).map((blob) => blob.transaction_version)).toEqual([10]);
+    expect(db.getTopUploaders(10).map((uploader) => uploader.address)).toEqual([ALICE]);
+    expect(db.getOwnerBlobStats(BOB, NOW)).toMatchObject({ blob_count: 1, active_blobs: 0 });
+    expect(db.getAddressRanks(BOB).storage).toBeNull();
+    expect(db.getBlobStatusCounts()).toEqual({ registered: 0, written: 1, deleted: 2 });
+  });
+
+  test("moves a blob's expiration to the latest extension of its registration", () => {
+    db.insertBlobEvents([{ ...registered(30, BOB, "lapsed.csv", 400), expiration_timestamp: NOW - DAY }]);
+    expect(db.getBlobExpirationStats(NOW, NOW)).toMatchObject({ live_blobs: 1, expired_blobs: 1, expired_bytes: 400 });
+
+    // Extended after it expired: live again, and expiring within the 60 days
+    db.insertBlobLifecycleEvents([
+      lifecycle(31, BOB, "lapsed.csv", "expiration_extended", NOW + 5 * DAY),
+      lifecycle(32, BOB, "lapsed.csv", "expiration_extended", NOW + 45 * DAY),
+    ]);
+    expect(db.getBlobExpirationStats(NOW, NOW + 60 * DAY)).toMatchObject({
+      live_blobs: 2,
+      live_bytes: 500,
+      expired_blobs: 0,
+      expiring_blobs: 2,
+      expiring_bytes: 500,
+    });
+    expect(db.getTotalBlobStorage(NOW)).toBe(500);
+    expect(db.getExpiringBlobs(NOW, NOW + 60 * DAY, 10, 0).map((blob) => [blob.blob_name, blob.expiration_timestamp])).toEqual([
+      [`@${ALICE}/kept.png`, NOW + 30 * DAY],
+      [`@${BOB}/lapsed.csv`, NOW + 45 * DAY],
+    ]);
+    expect(db.getBlobsByOwner(BOB, 1, 0)[0]).toMatchObject({ status: "registered", expiration_timestamp: NOW + 45 * DAY });
+    // An extension changes the expiration, not the status
+    expect(db.getBlobStatusCounts()).toEqual({ registered: 1, written: 1, deleted: 2 });
+
+    // A new registration of the name starts from its own expiration
+    db.insertBlobEvents([{ ...registered(40, BOB, "lapsed.csv", 400), expiration_timestamp: NOW + DAY }]);
+    expect(db.getBlobsByOwner(BOB, 2, 0).map((blob) => blob.expiration_timestamp)).toEqual([NOW + DAY, NOW + 45 * DAY]);
+  });
+
+  test("matches lifecycle events without a blob_id to their registration", async () => {
+    const module = "0xc63d6a5efb0080a6029403131715bd4971e1149f7cc099aac69bb0069b3ddbf5::blob_metadata";
+    const name = `@${BOB}/notes.md`;
+    const events: Record<string, unknown[]> = {
+      GetBlobEvents: [
+        {
+          transaction_version: 50,
+          event_index: 0,
+          type: `${module}::BlobRegisteredEvent`,
+          data: { blob_name: name, blob_commitment: "0xfeed", owner: BOB, blob_size: "64" },
+        },
+      ],
+      GetBlobLifecycleEvents: [
+        {
+          transaction_version: 51,
+          event_index: 0,
+          type: `${module}::BlobWrittenEvent`,
+          data: { blob_name: name, owner: BOB },
+        },
+      ],
+    };
+    const transport: IndexerTransport = {
+      graphql: async (query) => {
+        const operation = Object.keys(events).find((op) => query.includes(`query ${op}(`));
+        if (!operation) throw new Error(`Unexpected indexer query ${query}`);
+        return Response.json({ data: { events: events[operation] } });
+      },
+      rest: async (path) => {
+        throw new Error(`Unexpected fullnode request ${path}`);
+      },
+    };
+
+    await expect(incrementalBlobSync(new ShelbyAptosClient(loadConfig(), transport))).resolves.toBe(2);
+    expect(statuses().at(-1)).toEqual([50, "written"]);
+    expect(db.getBlobsByOwner(BOB, 1, 0)[0]).toMatchObject({ blob_id: name, blob_name: name });
+  });
+});
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import type { BlobEventRecord, BlobSearchFilters, BlobSearchSort } from "../db";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { decodeBlobCursor, encodeBlobCursor } = await import("../blob-search");
+
+const ALICE = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000000000000000000000000000b0b";
+
+function blob(
+  version: number,
+  owner: string,
+  name: string | null,
+  size: number,
+  extra: Partial<BlobEventRecord> = {}
+): BlobEventRecord {
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `${owner}/${name ?? version}`,
+    owner_address: owner,
+    size_bytes: size,
+    encoding: "clay",
+    blob_name: name === null ? null : `@${owner}/${name}`,
+    creation_timestamp: Date.parse("2026-03-01T00:00:00Z") + version * 60_000,
+    expiration_timestamp: null,
+    ...extra,
+  };
+}
+
+function versions(filters: BlobSearchFilters, sort: BlobSearchSort = "newest") {
+  return db.searchBlobEvents(filters, sort, 100).map((row) => row.transaction_version);
+}
+
+beforeEach(() => {
+  db.initDatabase();
+  db.insertBlobEvents([
+    blob(1, ALICE, "photos/Harbor.JPG", 4000),
+    blob(2, ALICE, "photos/harbor-thumb.png", 300, { expiration_timestamp: Date.parse("2026-03-15T00:00:00Z") }),
+    blob(3, BOB, "datasets/trips.csv", 9000, { encoding: "raw" }),
+    blob(4, BOB, "notes/harbour.md", 300),
+    blob(5, BOB, "a.b", 50),
+    blob(6, BOB, null, 10),
+  ]);
+});
+
+afterEach(() => {
+  db.closeDatabase();
+});
+
+describe("blob search", () => {
+  test("matches names by substring or prefix, ignoring case and the owner prefix", () => {
+    expect(versions({ name: "harbor" })).toEqual([2, 1]);
+    expect(versions({ name: "HARB" })).toEqual([4, 2, 1]);
+    // Shorter than a trigram
+    expect(versions({ name: ".b" })).toEqual([5]);
+    expect(versions({ namePrefix: "photos/h" })).toEqual([2, 1]);
+    expect(versions({ namePrefix: "no" })).toEqual([4]);
+    expect(versions({ namePrefix: "harbor" })).toEqual([]);
+    // The owner prefix isn't part of the indexed name
+    expect(versions({ name: "0x000" })).toEqual([]);
+    expect(versions({ name: 'har"bor' })).toEqual([]);
+  });
+
+  test("filters by owner, extension, category, size, dates and encoding", () => {
+    expect(versions({ owner: ALICE })).toEqual([2, 1]);
+    expect(versions({ extension: "jpg" })).toEqual([1]);
+    expect(versions({ category: "Images" })).toEqual([2, 1]);
+    expect(versions({ category: "Other" })).toEqual([6, 5]);
+    expect(versions({ minSize: 300, maxSize: 4000 })).toEqual([4, 2, 1]);
+    expect(
+      versions({
+        createdAfter: Date.parse("2026-03-01T00:02:00Z"),
+        createdBefore: Date.parse("2026-03-01T00:05:00Z"),
+      })
+    ).toEqual([4, 3, 2]);
+    expect(versions({ encoding: "raw" })).toEqual([3]);
+    expect(versions({ expiringBefore: Date.parse("2026-04-01T00:00:00Z") })).toEqual([2]);
+    expect(versions({ owner: BOB, category: "Documents", maxSize: 1000 })).toEqual([4]);
+  });
+
+  test.each([
+    ["newest", [6, 5, 4, 3, 2, 1]],
+    ["oldest", [1, 2, 3, 4, 5, 6]],
+    ["largest", [3, 1, 4, 2, 5, 6]],
+    ["smallest", [6, 5, 2, 4, 1, 3]],
+  ] as const)("pages through every blob sorted %s", (sort, expected) => {
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const after = cursor === undefined ? undefined : (decodeBlobCursor(cursor) ?? undefined);
+      const page = db.searchBlobEvents({}, sort, 2, after);
+      seen.push(...page.map((row) => row.transaction_version));
+      cursor = page.length === 2 ? encodeBlobCursor(page[1]) : undefined;
+    } while (cursor !== undefined);
+
+    expect(seen).toEqual(expected);
+  });
+
+  test("rejects cursors it didn't make", () => {
+    expect(decodeBlobCursor(encodeBlobCursor({ transaction_version: 9, event_index: 1, size_bytes: 20 }))).toEqual({
+      transaction_version: 9,
+      event_index: 1,
+      size_bytes: 20,
+    });
+    expect(decodeBlobCursor("not-a-cursor")).toBeNull();
+    expect(decodeBlobCursor(Buffer.from("[1,2]").toString("base64url"))).toBeNull();
+    expect(decodeBlobCursor(Buffer.from('[1,2,"3"]').toString("base64url"))).toBeNull();
+  });
+
+  test("keeps the name index in step with deletes, re-syncs and vacuums", () => {
+    db.deleteSyncedRows("blob_events", 1, 2);
+    expect(versions({ name: "harbor" })).toEqual([]);
+
+    db.insertBlobEvents([blob(2, ALICE, "photos/harbor-thumb.png", 300)]);
+    expect(versions({ name: "harbor" })).toEqual([2]);
+
+    db.vacuumDatabase();
+    expect(versions({ name: "harbo" })).toEqual([4, 2]);
+    expect(versions({ namePrefix: "data" })).toEqual([3]);
+  });
+});
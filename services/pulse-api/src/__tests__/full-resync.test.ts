@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { ShelbyAptosClient } from "../aptos-client";
+import { loadConfig } from "../config";
+import type { IndexerTransport } from "../indexer-transport";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { fullSync, getSyncStatus } = await import("../sync-service");
+
+const ALICE = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000000000000000000000000000b0b";
+
+type VersionFilter = { _gt?: string; _gte?: string; _lte?: string };
+
+function activity(version: number, eventIndex: number, owner: string, type: string, amount: number) {
+  return {
+    owner_address: owner,
+    type: `0x1::fungible_asset::${type}`,
+    amount,
+    transaction_version: version,
+    transaction_timestamp: "2026-03-09T14:00:00.000000",
+    event_index: eventIndex,
+  };
+}
+
+/**
+ * The indexer's ShelbyUSD activities. Pages wait for `release` while it is
+ * set, so a test can look at the database in the middle of a resync.
+ */
+const indexer = {
+  activities: [] as ReturnType<typeof activity>[],
+  // Added to every count, to fake an indexer that disagrees with its own pages
+  countSkew: 0,
+  // Off for an indexer that doesn't serve fungible_asset_activities_aggregate
+  aggregates: true,
+  failing: false,
+  release: null as Promise<void> | null,
+};
+
+function inRange(version: number, versions: VersionFilter): boolean {
+  return (
+    (versions._gt === undefined || version > Number(versions._gt)) &&
+    (versions._gte === undefined || version >= Number(versions._gte)) &&
+    (versions._lte === undefined || version <= Number(versions._lte))
+  );
+}
+
+const indexerTransport: IndexerTransport = {
+  graphql: async (query, variables = {}) => {
+    const operation = /query (\w+)/.exec(query)?.[1];
+    const { versions, offset = 0, limit = 0 } = variables as { versions: VersionFilter; offset?: number; limit?: number };
+    const rows = indexer.activities.filter((row) => inRange(row.transaction_version, versions));
+
+    if (operation === "GetActivities") {
+      await indexer.release;
+      if (indexer.failing) return Response.json({ errors: [{ message: "upstream request timeout" }] });
+      return Response.json({ data: { fungible_asset_activities: rows.slice(offset, offset + limit) } });
+    }
+    if (operation === "CountActivities") {
+      if (!indexer.aggregates) {
+        return Response.json({
+          errors: [{ message: "field 'fungible_asset_activities_aggregate' not found in type: 'query_root'" }],
+        });
+      }
+      const count = rows.length + indexer.countSkew;
+      return Response.json({ data: { fungible_asset_activities_aggregate: { aggregate: { count } } } });
+    }
+    throw new Error(`Unexpected indexer query ${operation}`);
+  },
+  rest: async (path) => {
+    throw new Error(`Unexpected fullnode request ${path}`);
+  },
+};
+const aptosClient = new ShelbyAptosClient(loadConfig(), indexerTransport);
+
+function storedActivities(): Array<[number, number, string]> {
+  return db.getRecentActivities(100).map((row) => [row.transaction_version, row.event_index, row.type]);
+}
+
+beforeEach(async () => {
+  db.initDatabase();
+  indexer.activities = [activity(100, 0, ALICE, "Mint", 500)];
+  indexer.countSkew = 0;
+  indexer.aggregates = true;
+  indexer.failing = false;
+  indexer.release = null;
+  // The live data a resync replaces
+  await fullSync(aptosClient);
+});
+
+afterEach(() => {
+  db.closeDatabase();
+});
+
+describe("full resync", () => {
+  test("keeps serving the current data until the resynced data is swapped in", async () => {
+    indexer.activities = [
+      activity(100, 0, ALICE, "Mint", 500),
+      activity(200, 0, ALICE, "Withdraw", 120),
+      activity(200, 1, BOB, "Deposit", 120),
+    ];
+    let release = () => {};
+    indexer.release = new Promise((resolve) => {
+      release = resolve;
+    });
+
+    const resync = fullSync(aptosClient);
+    expect(storedActivities()).toEqual([[100, 0, "mint"]]);
+    expect(getSyncStatus()).toMatchObject({ syncInProgress: true, resync: { phase: "fetching", finishedAt: null } });
+
+    release();
+    await expect(resync).resolves.toBe(3);
+
+    expect(storedActivities()).toEqual([
+      [200, 1, "deposit"],
+      [200, 0, "withdraw"],
+      [100, 0, "mint"],
+    ]);
+    expect(db.getAddressStats(BOB)).toMatchObject({ tx_count: 1, total_deposited: 120 });
+    expect(db.getResyncActivityCount()).toBe(0);
+    expect(getSyncStatus()).toMatchObject({
+      syncInProgress: false,
+      resync: { phase: "completed", fetchedActivities: 3, shadowActivities: 3, indexerActivities: 3, error: null },
+    });
+  });
+
+  test("keeps the current data when the row counts don't match", async () => {
+    indexer.activities.push(activity(200, 0, BOB, "Deposit", 120));
+    indexer.countSkew = 1;
+
+    await expect(fullSync(aptosClient)).rejects.toThrow("Full sync row counts don't match");
+
+    expect(storedActivities()).toEqual([[100, 0, "mint"]]);
+    expect(db.getAddressStats(BOB)).toBeNull();
+    expect(db.getResyncActivityCount()).toBe(0);
+    expect(getSyncStatus().resync).toMatchObject({
+      phase: "failed",
+      shadowActivities: 2,
+      indexerActivities: 3,
+      error: "Full sync row counts don't match: fetched 2, stored 2, indexer 3",
+    });
+  });
+
+  test("checks against the fetched rows when the indexer can't count them", async () => {
+    db.closeDatabase();
+    db.initDatabase();
+    indexer.activities.push(activity(200, 0, BOB, "Deposit", 120));
+    indexer.aggregates = false;
+
+    await expect(fullSync(aptosClient)).resolves.toBe(2);
+
+    expect(storedActivities()).toEqual([
+      [200, 0, "deposit"],
+      [100, 0, "mint"],
+    ]);
+    expect(getSyncStatus().resync).toMatchObject({
+      phase: "completed",
+      shadowActivities: 2,
+      indexerActivities: null,
+      error: null,
+    });
+  });
+
+  test("keeps the current data when the fetch fails", async () => {
+    indexer.failing = true;
+
+    await expect(fullSync(aptosClient)).rejects.toThrow("Full sync fetched only 0 activities before stopping");
+
+    expect(storedActivities()).toEqual([[100, 0, "mint"]]);
+    expect(getSyncStatus().resync).toMatchObject({ phase: "failed", fetchedActivities: 0 });
+  });
+});
@@ -0,0 +1,264 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, test, vi } from "vitest";
+import { computeAnalyticsFromEvents } from "../analytics-service";
+import { ShelbyAptosClient } from "../aptos-client";
+import { loadConfig } from "../config";
+import { FixtureIndexerTransport, FixtureNotFoundError, type IndexerTransport } from "../indexer-transport";
+
+// Written by hand in the indexer's response format, not recorded from the live
+// network; a query change needs its fixture rewritten (or recorded)
+const FIXTURES_DIR = path.join(import.meta.dirname, "fixtures/indexer/synthetic");
+
+// db.ts reads DATA_DIR when it is first imported, so the modules are loaded after it is set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-replay-test-"));
+process.env.DATA_DIR = dataDir;
+process.env.INDEXER_TRANSPORT = "replay";
+process.env.INDEXER_FIXTURES_DIR = FIXTURES_DIR;
+const { DataService } = await import("../data-service");
+const { incrementalBlobSync } = await import("../blob-sync-service");
+const { incrementalSync } = await import("../sync-service");
+const { verifySyncCheckpoints } = await import("../sync-verifier");
+const { decodeBlobCursor } = await import("../blob-search");
+const { metricsRegistry } = await import("../metrics");
+
+const ALICE = "0x7c3b1a9f4e2d8c6b5a4f3e2d1c0b9a8f7e6d5c4b3a2f1e0d9c8b7a6f5e4d3c2b";
+const BOB = "0x2e91f0c7d6b5a4938271605f4e3d2c1b0a9f8e7d6c5b4a3928170f6e5d4c3b2a";
+const CAROL = "0x5f6e7d8c9b0a1f2e3d4c5b6a79880716253443526170819a0b1c2d3e4f5a6b7c";
+const FAUCET = "0x0f3d9a5c6e7b8a9d0c1b2a3f4e5d6c7b8a9f0e1d2c3b4a5f6e7d8c9b0a1f2e3d";
+
+const SETTLED = 11 * 60 * 1000;
+
+describe("indexer replay", () => {
+  const config = loadConfig();
+  let dataService: InstanceType<typeof DataService>;
+
+  beforeAll(() => {
+    // Nothing here may reach the network
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        throw new Error(`Unexpected network request to ${url}`);
+      })
+    );
+    dataService = new DataService(config, { backgroundSync: false });
+  });
+
+  afterAll(() => {
+    dataService.shutdown();
+    vi.unstubAllGlobals();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("selects the replay transport from the config", () => {
+    expect(config.INDEXER_TRANSPORT).toBe("replay");
+    expect(new ShelbyAptosClient(config).getIndexerTransport()).toBeInstanceOf(FixtureIndexerTransport);
+  });
+
+  test("syncs blob events and ShelbyUSD activities from the fixtures", async () => {
+    await dataService.runSync();
+
+    const status = dataService.getSyncStatus();
+    expect(status.dbStats).toMatchObject({ activityCount: 10, addressCount: 4, lastSyncedVersion: 5124022 });
+    expect(status.blobSync.stats).toEqual({
+      totalBlobs: 5,
+      totalStorage: 63352435,
+      uniqueOwners: 3,
+      lastVersion: 5124022,
+    });
+    // Bob deleted his dataset; Carol extended her readme's expiration, which leaves it registered
+    expect(status.blobSync.statuses).toEqual({ registered: 2, written: 2, deleted: 1 });
+    expect(status.verification.checkpoints).toEqual({
+      activities: { open: 1, verified: 0, repaired: 0 },
+      blobEvents: { open: 1, verified: 0, repaired: 0 },
+      blobLifecycle: { open: 1, verified: 0, repaired: 0 },
+    });
+    // Every fixture blob expired in April 2026 but Carol's readme, extended to 2036
+    await expect(dataService.getNetworkStats()).resolves.toMatchObject({
+      totalBlobs: 5,
+      totalStorage: 63352435,
+      liveBlobs: 1,
+      liveStorage: 3104,
+      expiredBlobs: 3,
+      expiredStorage: 44474963,
+      deletedBlobs: 1,
+      deletedStorage: 18874368,
+    });
+
+    // The fixture indexer head is a little past the newest synced events
+    const lag = await metricsRegistry.getSingleMetric("pulse_sync_lag_versions")?.get();
+    expect(lag?.values).toEqual([
+      { value: 28, labels: { stream: "activities" } },
+      { value: 68, labels: { stream: "blobs" } },
+    ]);
+  });
+
+  test("finds nothing new on the next sync", async () => {
+    const aptosClient = new ShelbyAptosClient(config);
+
+    await expect(incrementalBlobSync(aptosClient)).resolves.toBe(0);
+    await expect(incrementalSync(aptosClient)).resolves.toBe(0);
+  });
+
+  test("verifies the synced ranges against the indexer's counts", async () => {
+    const aptosClient = new ShelbyAptosClient(config);
+
+    await expect(verifySyncCheckpoints(aptosClient, Date.now() + SETTLED)).resolves.toEqual({
+      verified: 3,
+      repaired: 0,
+      failed: 0,
+    });
+  });
+
+  test("serves recent blobs, storage providers and deposits", async () => {
+    // The deleted blob is left out
+    const blobs = await dataService.getRecentBlobs(10);
+    expect(blobs.map((blob) => blob.version)).toEqual(["5124022", "5123510", "5120344", "5120344"]);
+    expect(blobs[0]).toMatchObject({ owner: "0x2e91...c3b2a", ownerAddress: BOB, name: "launch.mp4" });
+
+    // The second provider's resource is missing (404), so it is left out
+    await expect(dataService.getStorageProviders()).resolves.toEqual([
+      expect.objectContaining({
+        address: "0x9a1b2c3d4e5f60718293a4b5c6d7e8f9a0b1c2d3e4f5061728394a5b6c7d8e9f",
+        datacenter: "dc_us_west",
+        chunks_stored: 18342,
+      }),
+    ]);
+
+    await expect(dataService.getUserDeposits(ALICE)).resolves.toEqual([
+      {
+        txHash: "0x004e1f7e4be1c0d7a9e5f3b2d1c0a9e8f7d6c5b4a3f2e1d0c9b8a7f6e5d4c3b2",
+        amount: 1000000000,
+        version: "5119870",
+      },
+    ]);
+  });
+
+  test("builds the economy data from the balances and synced activities", async () => {
+    const economy = await dataService.getEconomyData();
+
+    expect(economy.leaderboard.map((entry) => entry.address)).toEqual([FAUCET, CAROL, ALICE, BOB]);
+    expect(economy.allTimeStats).toMatchObject({ totalHolders: 4, totalTransactions: 10, totalSupply: 998682412960 });
+    expect(economy.topSpenders[0]).toMatchObject({ address: FAUCET, totalSpent: 3000000000 });
+    await expect(metricsRegistry.getSingleMetricAsString("pulse_shelbyusd_supply")).resolves.toMatch(
+      /^pulse_shelbyusd_supply 998682412960$/m
+    );
+  });
+
+  test("describes an address from its blobs, activity and balance", async () => {
+    const details = await dataService.getAddressDetails(ALICE, { blobsLimit: 1 });
+
+    expect(details.stats).toMatchObject({
+      blobCount: 2,
+      totalBytes: 2531923,
+      txCount: 2,
+      totalDeposited: 1000000000,
+      totalWithdrawn: 12500000,
+      balance: 987500000,
+    });
+    expect(details.ranks).toEqual({ holders: 3, mostActive: 3, topSpenders: 3, topMinters: null, storage: 2 });
+    expect(details.blobs).toMatchObject({ total: 2, limit: 1, offset: 0 });
+    expect(details.blobs.items).toEqual([
+      expect.objectContaining({ sizeBytes: 48211, encoding: "ClayCode_16Total_10Data_13Helper", version: 5120344 }),
+    ]);
+    expect(details.activity.items.map((item) => [item.version, item.type, item.amount])).toEqual([
+      [5120344, "withdraw", 12500000],
+      [5119870, "deposit", 1000000000],
+    ]);
+
+    const bob = await dataService.getAddressDetails(BOB, { blobsOffset: 1 });
+    expect(bob.ranks).toMatchObject({ mostActive: 1, storage: 1 });
+    expect(bob.blobs.items.map((blob) => blob.version)).toEqual([5121907]);
+  });
+
+  test("searches the synced blobs by name and category", () => {
+    const filters = { name: "harbor", category: "Images" };
+    const first = dataService.searchBlobs(filters, { sort: "largest", limit: 1 });
+
+    expect(first.blobs).toEqual([
+      expect.objectContaining({
+        owner: ALICE,
+        name: `@${ALICE}/photos/harbor.jpg`,
+        sizeBytes: 2483712,
+        extension: "jpg",
+        category: "Images",
+      }),
+    ]);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = dataService.searchBlobs(filters, {
+      sort: "largest",
+      limit: 1,
+      after: decodeBlobCursor(first.nextCursor ?? "") ?? undefined,
+    });
+    expect(second.blobs.map((blob) => [blob.sizeBytes, blob.extension])).toEqual([[48211, "png"]]);
+    expect(second.nextCursor).toBeNull();
+
+    expect(dataService.searchBlobs({ owner: BOB, namePrefix: "clips/" }, { sort: "newest", limit: 10 }).blobs).toEqual([
+      expect.objectContaining({ owner: BOB, category: "Media", size: "40.00 MB" }),
+    ]);
+  });
+
+  test("counts only the blobs still stored in the analytics", async () => {
+    const analytics = await dataService.getAnalytics();
+
+    expect(analytics).toMatchObject({ totalBlobs: 4, totalSize: 44478067, uniqueOwners: 3 });
+    expect(analytics.storageLeaders.map((leader) => [leader.address, leader.blobCount])).toEqual([
+      [BOB, 1],
+      [ALICE, 2],
+      [CAROL, 1],
+    ]);
+    expect(analytics.expiration).toMatchObject({ liveBlobs: 1, expiredBlobs: 3, deletedBlobs: 1 });
+  });
+
+  test("computes analytics from the fixture blob events", async () => {
+    const events = await dataService.getAllBlobEvents(100);
+    const analytics = computeAnalyticsFromEvents(events, 0, 0);
+
+    expect(analytics).toMatchObject({ totalBlobs: 5, totalSize: 63352435, uniqueOwners: 3, blobsPerHour: 2 });
+    expect(analytics.storageLeaders.map((leader) => [leader.address, leader.blobCount])).toEqual([
+      [BOB, 2],
+      [ALICE, 2],
+      [CAROL, 1],
+    ]);
+    expect(analytics.fileTypes.reduce((sum, type) => sum + type.count, 0)).toBe(5);
+  });
+
+  test("fails loudly on a request that has no fixture", async () => {
+    const transport = new FixtureIndexerTransport(FIXTURES_DIR);
+
+    await expect(transport.graphql("query GetBlobEvents($limit: Int!) { events { data } }", { limit: 1 })).rejects.toThrow(
+      FixtureNotFoundError
+    );
+    await expect(transport.rest("/transactions/by_version/1")).rejects.toThrow(/No indexer fixture for GET/);
+  });
+});
+
+describe("FixtureIndexerTransport", () => {
+  const recordDir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-record-test-"));
+
+  afterAll(() => {
+    fs.rmSync(recordDir, { recursive: true, force: true });
+  });
+
+  test("replays what it recorded, whatever the query's formatting", async () => {
+    const upstream: IndexerTransport = {
+      graphql: async () => Response.json({ data: { events: [{ transaction_version: 7 }] } }),
+      rest: async () => new Response("Service Unavailable", { status: 503 }),
+    };
+    const recorder = new FixtureIndexerTransport(recordDir, upstream);
+    await expect((await recorder.graphql("query Latest {\n  events { transaction_version }\n}")).json()).resolves.toEqual({
+      data: { events: [{ transaction_version: 7 }] },
+    });
+    await recorder.rest("/-/healthy");
+
+    const replay = new FixtureIndexerTransport(recordDir);
+    await expect((await replay.graphql("query Latest { events { transaction_version } }")).json()).resolves.toEqual({
+      data: { events: [{ transaction_version: 7 }] },
+    });
+    const unavailable = await replay.rest("/-/healthy");
+    expect(unavailable.status).toBe(503);
+    await expect(unavailable.text()).resolves.toBe("Service Unavailable");
+  });
+});
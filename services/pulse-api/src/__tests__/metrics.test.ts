@@ -0,0 +1,190 @@
+import express from "express";
+import request from "supertest";
+import { afterAll, afterEach, beforeAll, describe, expect, test, vi } from "vitest";
+import { loadConfig } from "../config";
+import type { IndexerTransport } from "../indexer-transport";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { DataService } = await import("../data-service");
+const { HttpIndexerTransport } = await import("../indexer-transport");
+const { metricsHandler, metricsMiddleware, metricsRegistry } = await import("../metrics");
+const { createApiKey, requireRole } = await import("../admin-auth");
+
+const OWNER = `0x${"a1".repeat(32)}`;
+
+/**
+ * Current value of a metric's series with exactly these labels, or undefined
+ * if the series doesn't exist yet
+ */
+async function metricValue(name: string, labels: Record<string, string> = {}): Promise<number | undefined> {
+  const metric = await metricsRegistry.getSingleMetric(name)?.get();
+  return metric?.values.find(
+    (value) =>
+      Object.keys(value.labels).length === Object.keys(labels).length &&
+      Object.entries(labels).every(([key, label]) => value.labels[key] === label)
+  )?.value;
+}
+
+function createApp() {
+  const app = express();
+  app.use(metricsMiddleware);
+  const api = express.Router();
+  api.get("/address/:address", (req, res) => {
+    res.json({ address: req.params.address });
+  });
+  app.use("/api", api);
+  app.get("/metrics", requireRole("read-only"), metricsHandler);
+  return app;
+}
+
+describe("metrics", () => {
+  // Providers come back after a tick, so overlapping requests share one fetch
+  const transport: IndexerTransport = {
+    graphql: async () => Response.json({ data: { processor_status: [] } }),
+    rest: async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return new Response("Not Found", { status: 404 });
+    },
+  };
+  let dataService: InstanceType<typeof DataService>;
+
+  beforeAll(() => {
+    dataService = new DataService(loadConfig(), { transport, backgroundSync: false });
+  });
+
+  afterAll(() => {
+    dataService.shutdown();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  test("serves the Prometheus text format with request latency by route pattern", async () => {
+    const app = createApp();
+    await request(app).get(`/api/address/${OWNER}`).expect(200);
+    await request(app).get("/api/nowhere").expect(404);
+
+    await request(app).get("/metrics").expect(401);
+    const { key } = createApiKey("prometheus", "read-only");
+    const response = await request(app).get("/metrics").set("Authorization", `Bearer ${key}`).expect(200);
+    expect(response.headers["content-type"]).toMatch(/^text\/plain;.* version=0\.0\.4/);
+    expect(response.text).toContain("# TYPE pulse_http_request_duration_seconds histogram");
+    expect(response.text).toMatch(
+      /^pulse_http_request_duration_seconds_count\{method="GET",route="\/api\/address\/:address",status="200"\} 1$/m
+    );
+    expect(response.text).toMatch(
+      /^pulse_http_request_duration_seconds_count\{method="GET",route="unmatched",status="404"\} 1$/m
+    );
+    expect(response.text).not.toContain(OWNER);
+    expect(response.text).toContain("pulse_process_cpu_seconds_total");
+  });
+
+  test("counts cache hits and misses and coalesced fetches", async () => {
+    const misses = (await metricValue("pulse_cache_lookups_total", { result: "miss" })) ?? 0;
+    const hits = (await metricValue("pulse_cache_lookups_total", { result: "hit" })) ?? 0;
+    const fetched = (await metricValue("pulse_coalesced_requests_total", { result: "fetched" })) ?? 0;
+    const shared = (await metricValue("pulse_coalesced_requests_total", { result: "shared" })) ?? 0;
+
+    await Promise.all([dataService.getStorageProviders(), dataService.getStorageProviders()]);
+    await dataService.getStorageProviders();
+
+    expect(await metricValue("pulse_cache_lookups_total", { result: "miss" })).toBe(misses + 2);
+    expect(await metricValue("pulse_cache_lookups_total", { result: "hit" })).toBe(hits + 1);
+    expect(await metricValue("pulse_coalesced_requests_total", { result: "fetched" })).toBe(fetched + 1);
+    expect(await metricValue("pulse_coalesced_requests_total", { result: "shared" })).toBe(shared + 1);
+  });
+
+  test("times each sync step", async () => {
+    await dataService.runSync();
+
+    const durations = await metricsRegistry.getSingleMetricAsString("pulse_sync_step_duration_seconds");
+    for (const step of ["blobs", "activities_full", "indexer_head", "verification", "timeseries", "webhooks"]) {
+      expect(durations).toMatch(new RegExp(`^pulse_sync_step_duration_seconds_count\\{step="${step}"\\} 1$`, "m"));
+    }
+    // The indexer reported no processors, so there is no lag to show
+    expect(await metricValue("pulse_sync_lag_versions", { stream: "activities" })).toBeUndefined();
+  });
+
+  test("reads the database gauges when scraped", async () => {
+    const now = Date.now();
+    db.insertBlobEvents([
+      {
+        transaction_version: 100,
+        event_index: 0,
+        blob_id: `@${OWNER}/cat.png`,
+        owner_address: OWNER,
+        size_bytes: 2048,
+        encoding: "clay",
+        blob_name: `@${OWNER}/cat.png`,
+        creation_timestamp: now,
+        expiration_timestamp: now + 60 * 60 * 1000,
+      },
+      {
+        transaction_version: 101,
+        event_index: 0,
+        blob_id: `@${OWNER}/old.png`,
+        owner_address: OWNER,
+        size_bytes: 512,
+        encoding: "clay",
+        blob_name: `@${OWNER}/old.png`,
+        creation_timestamp: now - 60 * 60 * 1000,
+        expiration_timestamp: now - 1,
+      },
+    ]);
+
+    expect(await metricValue("pulse_blobs", { state: "live" })).toBe(1);
+    expect(await metricValue("pulse_blobs", { state: "expired" })).toBe(1);
+    expect(await metricValue("pulse_blob_storage_bytes", { state: "live" })).toBe(2048);
+    expect(await metricValue("pulse_blob_storage_bytes", { state: "deleted" })).toBe(0);
+    expect(await metricValue("pulse_shelbyusd_activities")).toBe(0);
+    expect(await metricValue("pulse_live_stream_clients")).toBe(0);
+
+    // One scrape reads the blob stats once for both blob gauges
+    db.insertBlobEvents([
+      {
+        transaction_version: 102,
+        event_index: 0,
+        blob_id: `@${OWNER}/dog.png`,
+        owner_address: OWNER,
+        size_bytes: 1024,
+        encoding: "clay",
+        blob_name: `@${OWNER}/dog.png`,
+        creation_timestamp: now,
+        expiration_timestamp: now + 60 * 60 * 1000,
+      },
+    ]);
+    const scrape = await metricsRegistry.metrics();
+    expect(scrape).toMatch(/^pulse_blobs\{state="live"\} 2$/m);
+    expect(scrape).toMatch(/^pulse_blob_storage_bytes\{state="live"\} 3072$/m);
+  });
+
+  test("counts indexer GraphQL errors by operation", async () => {
+    const indexer = new HttpIndexerTransport({
+      APTOS_INDEXER_URL: "http://indexer.test/v1/graphql",
+      APTOS_NODE_URL: "http://node.test/v1",
+      APTOS_API_KEY: "",
+    });
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(Response.json({ data: { events: [] } }))
+      .mockResolvedValueOnce(Response.json({ errors: [{ message: "rate limited", extensions: { code: "429" } }] }))
+      .mockResolvedValueOnce(new Response("Bad Gateway", { status: 502 }))
+      .mockRejectedValueOnce(new TypeError("fetch failed"));
+    vi.stubGlobal("fetch", fetchMock);
+
+    const query = "query GetBlobEvents { events { data } }";
+    await indexer.graphql(query);
+    // The caller still gets to read the response
+    await expect((await indexer.graphql(query)).json()).resolves.toMatchObject({ errors: [{ message: "rate limited" }] });
+    await indexer.graphql(query);
+    await expect(indexer.graphql(query)).rejects.toThrow("fetch failed");
+
+    expect(await metricValue("pulse_graphql_requests_total", { operation: "GetBlobEvents" })).toBe(4);
+    for (const kind of ["graphql", "http", "network"]) {
+      expect(await metricValue("pulse_graphql_errors_total", { operation: "GetBlobEvents", kind })).toBe(1);
+    }
+  });
+});
@@ -0,0 +1,170 @@
+import Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import {
+  getMigrationStates,
+  MigrationError,
+  rollbackMigrations,
+  runMigrations,
+  type Migration,
+} from "../migrate";
+import { MIGRATIONS } from "../migrations";
+
+function tableNames(db: Database.Database): string[] {
+  const rows = db
+    .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+    .all() as Array<{ name: string }>;
+  return rows.map((row) => row.name);
+}
+
+function columnNames(db: Database.Database, table: string): string[] {
+  return (db.pragma(`table_info(${table})`) as Array<{ name: string }>).map((column) => column.name);
+}
+
+const createNotes: Migration = {
+  version: 1,
+  name: "create_notes",
+  up: (db) => db.exec("CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT NOT NULL)"),
+  down: (db) => db.exec("DROP TABLE notes"),
+};
+
+const addNoteTitle: Migration = {
+  version: 2,
+  name: "add_note_title",
+  up: (db) => db.exec("ALTER TABLE notes ADD COLUMN title TEXT"),
+  down: (db) => db.exec("ALTER TABLE notes DROP COLUMN title"),
+};
+
+describe("migrations", () => {
+  let db: Database.Database;
+
+  beforeEach(() => {
+    db = new Database(":memory:");
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  test("applies pending migrations in order and records them", () => {
+    const applied = runMigrations(db, [createNotes, addNoteTitle]);
+
+    expect(applied.map((m) => m.version)).toEqual([1, 2]);
+    expect(columnNames(db, "notes")).toEqual(["id", "body", "title"]);
+    expect(getMigrationStates(db, [createNotes, addNoteTitle])).toMatchObject([
+      { version: 1, name: "create_notes", status: "applied" },
+      { version: 2, name: "add_note_title", status: "applied" },
+    ]);
+
+    // Nothing left to do on the next boot
+    expect(runMigrations(db, [createNotes, addNoteTitle])).toEqual([]);
+  });
+
+  test("stops at a target version and rolls back one step at a time", () => {
+    runMigrations(db, [createNotes, addNoteTitle], 1);
+    expect(getMigrationStates(db, [createNotes, addNoteTitle]).map((s) => s.status)).toEqual(["applied", "pending"]);
+
+    runMigrations(db, [createNotes, addNoteTitle]);
+    expect(rollbackMigrations(db, [createNotes, addNoteTitle]).map((m) => m.version)).toEqual([2]);
+    expect(columnNames(db, "notes")).toEqual(["id", "body"]);
+
+    expect(rollbackMigrations(db, [createNotes, addNoteTitle], 0).map((m) => m.version)).toEqual([1]);
+    expect(tableNames(db)).toEqual(["schema_migrations"]);
+  });
+
+  test("undoes a failed migration entirely", () => {
+    const broken: Migration = {
+      version: 2,
+      name: "broken",
+      up: (db) => {
+        db.exec("ALTER TABLE notes ADD COLUMN title TEXT");
+        db.exec("INSERT INTO missing_table VALUES (1)");
+      },
+      down: () => {},
+    };
+
+    expect(() => runMigrations(db, [createNotes, broken])).toThrow("no such table: missing_table");
+
+    expect(columnNames(db, "notes")).toEqual(["id", "body"]);
+    expect(getMigrationStates(db, [createNotes, broken]).map((s) => s.status)).toEqual(["applied", "pending"]);
+  });
+
+  test("refuses to run after a non-transactional migration failed part way", () => {
+    const backfill: Migration = {
+      version: 2,
+      name: "backfill_notes",
+      transactional: false,
+      up: (db) => {
+        db.exec("INSERT INTO notes (body) VALUES ('first batch')");
+        throw new Error("interrupted");
+      },
+      down: (db) => db.exec("DELETE FROM notes"),
+    };
+    runMigrations(db, [createNotes]);
+
+    expect(() => runMigrations(db, [createNotes, backfill])).toThrow("interrupted");
+    expect(() => runMigrations(db, [createNotes, backfill])).toThrow(MigrationError);
+    expect(() => runMigrations(db, [createNotes, backfill])).toThrow(/Migration 2 \(backfill_notes\) was started/);
+
+    // Rolling it back clears the way
+    expect(rollbackMigrations(db, [createNotes, backfill]).map((m) => m.version)).toEqual([2]);
+    expect(db.prepare("SELECT COUNT(*) AS c FROM notes").get()).toEqual({ c: 0 });
+    expect(getMigrationStates(db, [createNotes, backfill]).map((s) => s.status)).toEqual(["applied", "pending"]);
+  });
+
+  test("refuses a database migrated by a newer build", () => {
+    runMigrations(db, [createNotes, addNoteTitle]);
+
+    expect(() => runMigrations(db, [createNotes])).toThrow(
+      "Database has migration 2 (add_note_title) applied, which this build doesn't know about"
+    );
+    expect(getMigrationStates(db, [createNotes]).at(-1)).toMatchObject({ version: 2, status: "applied" });
+  });
+
+  test("rejects migrations listed out of order", () => {
+    expect(() => runMigrations(db, [addNoteTitle, createNotes])).toThrow(MigrationError);
+    expect(tableNames(db)).toEqual([]);
+  });
+
+  describe("schema migrations", () => {
+    test("adopt a database created before migrations existed without losing data", () => {
+      db.exec(`
+        CREATE TABLE shelbyusd_activities (
+          transaction_version INTEGER PRIMARY KEY,
+          event_index INTEGER DEFAULT 0,
+          address TEXT NOT NULL,
+          amount INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          timestamp INTEGER NOT NULL
+        );
+        INSERT INTO shelbyusd_activities VALUES (100, 0, '0xabc', 5, 'mint', 1700000000000);
+        CREATE TABLE share_blob_index (
+          owner_address TEXT NOT NULL,
+          blob_name TEXT NOT NULL,
+          content_hash TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          url TEXT NOT NULL,
+          viewer_url TEXT NOT NULL,
+          expires_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL,
+          PRIMARY KEY (owner_address, blob_name)
+        );
+      `);
+
+      runMigrations(db, MIGRATIONS);
+
+      expect(db.prepare("SELECT address, amount FROM shelbyusd_activities").all()).toEqual([
+        { address: "0xabc", amount: 5 },
+      ]);
+      expect(columnNames(db, "share_blob_index")).toEqual(expect.arrayContaining(["content_type", "thumbnail_url"]));
+      expect(getMigrationStates(db, MIGRATIONS).every((s) => s.status === "applied")).toBe(true);
+    });
+
+    test("roll all the way back to an empty database", () => {
+      runMigrations(db, MIGRATIONS);
+
+      rollbackMigrations(db, MIGRATIONS, 0);
+
+      expect(tableNames(db)).toEqual(["schema_migrations"]);
+    });
+  });
+});
@@ -0,0 +1,1459 @@
+import type { AddressInfo } from "node:net";
+import express from "express";
+import request from "supertest";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { RouterDeps } from "../routes";
+import type { PendingWalletUpload, UploadResult } from "../upload-service";
+
+// Each test gets a fresh in-memory database (db.ts reads DB_PATH when it is first imported)
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { createRouter } = await import("../routes");
+const { createApiKey } = await import("../admin-auth");
+const { publishActivities, publishBlobEvents, getLiveStreamCount } = await import("../live-feed");
+const { verifyWebhookSignature } = await import("../webhooks");
+const { ShareQuotaService } = await import("../share-quota");
+const { UploadJobService } = await import("../upload-jobs");
+const { WalletUploadLimitError } = await import("../upload-service");
+
+const OWNER = `0x${"a1".repeat(32)}`;
+const WALLET = `0x${"5e".repeat(32)}`;
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+function uploadResult(blobName: string, size: number): UploadResult {
+  return {
+    url: `https://api.shelbynet.shelby.xyz/shelby/v1/blobs/${OWNER}/${blobName}`,
+    viewerUrl: `/api/share/viewer/${OWNER}/${blobName}`,
+    blobName,
+    owner: OWNER,
+    size,
+    expiresAt: "2027-03-10T00:00:00.000Z",
+    contentHash: "ab".repeat(32),
+    contentType: "image/png",
+    thumbnailUrl: null,
+    deduplicated: false,
+  };
+}
+
+function fakeDataService() {
+  return {
+    getNetworkStats: vi.fn(async () => ({ totalBlobs: 5, totalStorage: 2048, uploadRate: 0 })),
+    getRecentBlobs: vi.fn(async () => [{ id: "blob-1", name: "cat.png" }]),
+    getAllBlobEvents: vi.fn(async () => [{ version: "42" }]),
+    getStorageProviders: vi.fn(async () => [{ address: OWNER, datacenter: "dc_us_west" }]),
+    healthCheck: vi.fn(async () => ({ status: "healthy", timestamp: 1 })),
+    getAnalytics: vi.fn(async () => ({ totalBlobs: 5 })),
+    getEconomyData: vi.fn(async () => ({ leaderboard: [] })),
+    getUserDeposits: vi.fn(async () => [{ txHash: "0x1", amount: 10, version: "7" }]),
+    getTimeseries: vi.fn((metric: string, bucket: string) => ({
+      metric,
+      bucket,
+      from: 0,
+      to: 3_600_000,
+      points: [{ timestamp: 0, value: 5 }],
+    })),
+    getAddressDetails: vi.fn(async (address: string) => ({ address, blobs: { items: [] } })),
+    searchBlobs: vi.fn((_filters: unknown, options: { sort: string; limit: number }) => ({
+      blobs: [],
+      sort: options.sort,
+      limit: options.limit,
+      nextCursor: null,
+    })),
+    getExpiringBlobs: vi.fn((within: number, options: { limit: number; offset: number }) => ({
+      until: within,
+      total: 0,
+      ...options,
+      blobs: [],
+    })),
+    getStorageProjection: vi.fn(() => ({ liveBytes: 1500, horizons: [] })),
+    clearCache: vi.fn(),
+    getSyncStatus: vi.fn(() => ({ initialSyncComplete: true })),
+    forceResync: vi.fn(async () => 12),
+  };
+}
+
+function fakeFarmingService() {
+  return {
+    startFarming: vi.fn(async (walletAddress: string, numNodes: number) => {
+      if (!walletAddress.startsWith("0x")) throw new Error("Invalid wallet address");
+      return { id: "farm-1", walletAddress, numNodes, status: "running" };
+    }),
+    getFarmingStatus: vi.fn(async (sessionId?: string) => {
+      if (sessionId && sessionId !== "farm-1") throw new Error(`Session ${sessionId} not found`);
+      return sessionId ? { id: sessionId } : [{ id: "farm-1" }];
+    }),
+    getSessionsOverview: vi.fn(() => ({ activeSessions: 1 })),
+    stopFarming: vi.fn(async () => ({ deleted: 3 })),
+    cleanupAllFarmingNodes: vi.fn(async () => ({ deleted: 4 })),
+    clearOldSessions: vi.fn(() => ({ cleared: 2 })),
+    requestFaucet: vi.fn(async () => ({ txn_hashes: ["0xfeed"] })),
+  };
+}
+
+function fakeGitHubFarmingService() {
+  const job = { id: "job-1", wallet_address: WALLET, status: "active" };
+  return {
+    isAvailable: vi.fn(() => true),
+    startFarming: vi.fn((walletAddress: string, _config?: object) => {
+      if (!walletAddress.startsWith("0x")) throw new Error("Invalid wallet address");
+      return job;
+    }),
+    getJobStatus: vi.fn((jobId: string) => (jobId === job.id ? { job, waves: [], runningTime: "5m" } : null)),
+    getActiveJob: vi.fn((walletAddress: string) => (walletAddress === WALLET ? job : null)),
+    getSummary: vi.fn(() => ({ activeJobs: 1 })),
+    stopFarming: vi.fn((jobId: string) => {
+      if (jobId !== job.id) throw new Error(`Job ${jobId} not found`);
+    }),
+    getHistory: vi.fn(() => [job]),
+  };
+}
+
+function fakeUploadService() {
+  const pending: PendingWalletUpload = {
+    id: "upload-1",
+    owner: WALLET,
+    clientIp: "127.0.0.1",
+    filePath: "/tmp/prepared",
+    originalName: "cat.png",
+    contentType: "image/png",
+    blobName: "cat.png",
+    blobMerkleRoot: "0xroot",
+    size: PNG.length,
+    contentHash: "ab".repeat(32),
+    expirationMicros: 1_800_000_000_000_000,
+    createdAt: 1,
+  };
+  return {
+    isAvailable: vi.fn(() => true),
+    getAddress: vi.fn(() => OWNER),
+    uploadFile: vi.fn(async (_path: string, name: string) => uploadResult(name, PNG.length)),
+    prepareWalletUpload: vi.fn(async () => ({
+      status: "awaiting_signature" as const,
+      uploadId: pending.id,
+      owner: WALLET,
+      blobName: "cat.png",
+      size: PNG.length,
+      contentHash: pending.contentHash,
+      expiresAt: "2027-03-10T00:00:00.000Z",
+      payload: { function: "0x1::blob_metadata::register_blob", typeArguments: [], functionArguments: [] },
+    })),
+    claimWalletUpload: vi.fn((uploadId: string) => (uploadId === pending.id ? pending : null)),
+    cancelWalletUpload: vi.fn(),
+    releaseWalletUpload: vi.fn(),
+    completeWalletUpload: vi.fn(async () => ({ ...uploadResult("cat.png", PNG.length), owner: WALLET })),
+  };
+}
+
+/**
+ * An app wired like index.ts, with every service but the data service left out unless given
+ */
+function buildApp(deps: Partial<Record<keyof RouterDeps, unknown>> = {}) {
+  const app = express();
+  app.use(express.json());
+  app.use(
+    "/api",
+    createRouter({ dataService: fakeDataService(), ...deps } as unknown as RouterDeps)
+  );
+  return app;
+}
+
+/**
+ * Upload, job and quota services backed by the in-memory database
+ */
+function shareDeps(quota: { bytesPerDay?: number; filesPerHour?: number } = {}) {
+  return {
+    uploadService: fakeUploadService(),
+    uploadJobService: new UploadJobService(),
+    shareQuotaService: new ShareQuotaService({ bytesPerDay: 0, filesPerHour: 0, ...quota }),
+  };
+}
+
+function createFolder(sessionId: string, options: { title?: string; expiresAt?: number } = {}) {
+  const { session } = db.createShareSession(sessionId, options);
+  db.addShareSessionFile({
+    session_id: sessionId,
+    blob_name: "cat.png",
+    original_name: "cat.png",
+    size: PNG.length,
+    url: `https://api.shelbynet.shelby.xyz/shelby/v1/blobs/${OWNER}/cat.png`,
+    viewer_url: `/api/share/viewer/${OWNER}/cat.png`,
+    owner_address: OWNER,
+    uploaded_at: Date.now(),
+    relative_path: null,
+    content_hash: "ab".repeat(32),
+    content_type: "image/png",
+    thumbnail_url: null,
+  });
+  return session;
+}
+
+/**
+ * Attach options for a file picked from a folder, which browsers send with its
+ * relative path. form-data only keeps the directory for `filepath`, which
+ * superagent's types leave out.
+ */
+function inFolder(filepath: string, contentType: string) {
+  return { filepath, contentType } as { contentType: string };
+}
+
+interface StreamEvent {
+  id?: string;
+  event?: string;
+  data: unknown;
+}
+
+/**
+ * Open an event stream on a listening copy of the app. supertest waits for
+ * the response to end, which a stream never does.
+ */
+async function openStream(app: express.Express, path: string, headers: Record<string, string> = {}) {
+  const server = app.listen(0);
+  const { port } = server.address() as AddressInfo;
+  const controller = new AbortController();
+  const response = await fetch(`http://127.0.0.1:${port}${path}`, { headers, signal: controller.signal });
+  const reader = response.body?.pipeThrough(new TextDecoderStream()).getReader();
+  const events: StreamEvent[] = [];
+  let buffer = "";
+
+  return {
+    response,
+    /** Read until `count` events (not counting comments and the retry line) have arrived */
+    async events(count: number): Promise<StreamEvent[]> {
+      while (events.length < count && reader) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          const fields = Object.fromEntries(
+            block.split("\n").filter((line) => !line.startsWith(":")).map((line) => {
+              const colon = line.indexOf(":");
+              return [line.slice(0, colon), line.slice(colon + 1).trim()];
+            })
+          );
+          if (fields.data !== undefined) events.push({ id: fields.id, event: fields.event, data: JSON.parse(fields.data) });
+        }
+      }
+      return events.splice(0, count);
+    },
+    async close() {
+      controller.abort();
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+function blobRecord(version: number, name: string) {
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `@${OWNER}/${name}`,
+    owner_address: OWNER,
+    size_bytes: 2048,
+    encoding: "clay",
+    blob_name: `@${OWNER}/${name}`,
+    creation_timestamp: 1773100800000,
+    expiration_timestamp: null,
+  };
+}
+
+function activityRecord(version: number, eventIndex: number, type: "deposit" | "withdraw" | "mint" | "burn") {
+  return { transaction_version: version, event_index: eventIndex, address: WALLET, amount: 500, type, timestamp: 1773100800000 };
+}
+
+beforeEach(() => {
+  db.initDatabase();
+});
+
+afterEach(() => {
+  db.closeDatabase();
+  vi.unstubAllGlobals();
+});
+
+describe("data routes", () => {
+  test("serve what the data service returns", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app).get("/api/network/stats").expect(200, { totalBlobs: 5, totalStorage: 2048, uploadRate: 0 });
+    await request(app).get("/api/providers").expect(200, [{ address: OWNER, datacenter: "dc_us_west" }]);
+    await request(app).get("/api/health").expect(200, { status: "healthy", timestamp: 1 });
+    await request(app).get("/api/analytics").expect(200, { totalBlobs: 5 });
+    await request(app).get("/api/sync/status").expect(200, { initialSyncComplete: true });
+  });
+
+  test("cap and default the requested limits", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app).get("/api/blobs/recent?limit=1000").expect(200, [{ id: "blob-1", name: "cat.png" }]);
+    await request(app).get("/api/blobs/recent?limit=abc").expect(200);
+    await request(app).get("/api/events/recent?limit=9999").expect(200, [{ version: "42" }]);
+    await request(app).get("/api/events/recent").expect(200);
+
+    expect(dataService.getRecentBlobs.mock.calls).toEqual([[100], [20]]);
+    expect(dataService.getAllBlobEvents.mock.calls).toEqual([[500], [100]]);
+  });
+
+  test("pass the refresh flag through to the economy data", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app).get("/api/economy").expect(200, { leaderboard: [] });
+    await request(app).get("/api/economy?refresh=true").expect(200);
+
+    expect(dataService.getEconomyData.mock.calls).toEqual([[false], [true]]);
+  });
+
+  test("require an address for user deposits", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app).get("/api/user/deposits").expect(400, { error: "address query parameter is required" });
+    await request(app)
+      .get(`/api/user/deposits?address=${WALLET}&since_version=123&limit=80`)
+      .expect(200, [{ txHash: "0x1", amount: 10, version: "7" }]);
+
+    expect(dataService.getUserDeposits).toHaveBeenCalledExactlyOnceWith(WALLET, "123", 50);
+  });
+
+  test("normalize the address and clamp the page sizes for address details", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app).get("/api/address/0xA11CE").expect(200, { address: `0x${"0".repeat(59)}a11ce`, blobs: { items: [] } });
+    await request(app).get(`/api/address/${WALLET}?blobs_limit=500&blobs_offset=-3&activity_limit=0&activity_offset=40`);
+    await request(app).get("/api/address/alice").expect(400, { error: "Invalid address" });
+    await request(app).get(`/api/address/0x${"f".repeat(65)}`).expect(400, { error: "Invalid address" });
+
+    expect(dataService.getAddressDetails.mock.calls).toEqual([
+      [`0x${"0".repeat(59)}a11ce`, { blobsLimit: 20, blobsOffset: 0, activityLimit: 20, activityOffset: 0 }],
+      [WALLET, { blobsLimit: 100, blobsOffset: 0, activityLimit: 20, activityOffset: 40 }],
+    ]);
+  });
+
+  test("parse blob search filters and reject invalid ones", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+    // [transaction_version, event_index, size_bytes] of the last blob on a page
+    const cursor = Buffer.from(JSON.stringify([5121907, 1, 2048])).toString("base64url");
+
+    await request(app).get("/api/blobs").expect(200, { blobs: [], sort: "newest", limit: 20, nextCursor: null });
+    await request(app)
+      .get(
+        `/api/blobs?owner=0xA11CE&name=%20harbor%20&name_prefix=photos/&extension=.JPG&category=images&min_size=1024` +
+          `&max_size=4096&created_after=2026-03-01T00:00:00Z&created_before=1773100800000&expiring_before=2026-04-01` +
+          `&encoding=clay&sort=largest&limit=500&cursor=${cursor}`
+      )
+      .expect(200);
+
+    await request(app)
+      .get("/api/blobs?sort=popular")
+      .expect(400, { error: "sort must be one of: newest, oldest, largest, smallest" });
+    await request(app).get("/api/blobs?owner=alice").expect(400, { error: "Invalid owner address" });
+    await request(app).get("/api/blobs?category=fonts").expect(400, {
+      error: "category must be one of: Images, Documents, Data, Media, Archives, Code, Ebooks, Binary, Other",
+    });
+    await request(app).get("/api/blobs?min_size=-1").expect(400, { error: "min_size and max_size must be byte counts" });
+    await request(app).get("/api/blobs?created_after=soon").expect(400, {
+      error: "created_after, created_before and expiring_before must be ISO dates or epoch milliseconds",
+    });
+    await request(app).get("/api/blobs?cursor=not-a-cursor").expect(400, { error: "Invalid cursor" });
+
+    expect(dataService.searchBlobs.mock.calls).toEqual([
+      [
+        {
+          name: undefined,
+          namePrefix: undefined,
+          extension: undefined,
+          encoding: undefined,
+          minSize: undefined,
+          maxSize: undefined,
+          createdAfter: undefined,
+          createdBefore: undefined,
+          expiringBefore: undefined,
+        },
+        { sort: "newest", limit: 20, after: undefined },
+      ],
+      [
+        {
+          owner: `0x${"0".repeat(59)}a11ce`,
+          name: "harbor",
+          namePrefix: "photos/",
+          extension: "jpg",
+          category: "Images",
+          encoding: "clay",
+          minSize: 1024,
+          maxSize: 4096,
+          createdAfter: Date.parse("2026-03-01T00:00:00Z"),
+          createdBefore: 1773100800000,
+          expiringBefore: Date.parse("2026-04-01"),
+        },
+        { sort: "largest", limit: 100, after: { transaction_version: 5121907, event_index: 1, size_bytes: 2048 } },
+      ],
+    ]);
+  });
+
+  test("list expiring blobs within a duration", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+    const DAY = 24 * 60 * 60 * 1000;
+
+    await request(app).get("/api/blobs/expiring").expect(200, { until: 7 * DAY, total: 0, limit: 50, offset: 0, blobs: [] });
+    await request(app).get("/api/blobs/expiring?within=24h&limit=500&offset=10").expect(200);
+    await request(app).get("/api/blobs/expiring?within=90m&limit=-5").expect(200);
+    await request(app).get("/api/blobs/expiring?within=365d").expect(200);
+    await request(app).get("/api/blobs/expiring?within=3600000").expect(200);
+
+    for (const within of ["366d", "0h", "soon", "7w", "-1d"]) {
+      await request(app)
+        .get(`/api/blobs/expiring?within=${within}`)
+        .expect(400, { error: "within must be a duration like 24h or 7d, up to 365d" });
+    }
+
+    expect(dataService.getExpiringBlobs.mock.calls).toEqual([
+      [7 * DAY, { limit: 50, offset: 0 }],
+      [DAY, { limit: 200, offset: 10 }],
+      [90 * 60 * 1000, { limit: 1, offset: 0 }],
+      [365 * DAY, { limit: 50, offset: 0 }],
+      [3_600_000, { limit: 50, offset: 0 }],
+    ]);
+    await request(app).get("/api/storage/projection").expect(200, { liveBytes: 1500, horizons: [] });
+  });
+
+  test("validate timeseries queries before reading the buckets", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    await request(app)
+      .get("/api/timeseries?metric=blob_count")
+      .expect(200, { metric: "blob_count", bucket: "hour", from: 0, to: 3_600_000, points: [{ timestamp: 0, value: 5 }] });
+    await request(app)
+      .get("/api/timeseries?metric=shelbyusd_volume&bucket=day&from=2026-03-01T00:00:00Z&to=1773100800000")
+      .expect(200);
+
+    await request(app).get("/api/timeseries").expect(400, {
+      error: "metric must be one of: blob_count, bytes_stored, unique_owners, shelbyusd_volume, shelbyusd_mints",
+    });
+    await request(app)
+      .get("/api/timeseries?metric=blob_count&bucket=minute")
+      .expect(400, { error: "bucket must be 'hour' or 'day'" });
+    await request(app)
+      .get("/api/timeseries?metric=blob_count&from=yesterday")
+      .expect(400, { error: "from and to must be ISO dates or epoch milliseconds" });
+    await request(app)
+      .get("/api/timeseries?metric=blob_count&from=2026-03-02&to=2026-03-01")
+      .expect(400, { error: "from must not be after to" });
+    await request(app)
+      .get("/api/timeseries?metric=blob_count&from=2025-01-01&to=2026-01-01")
+      .expect(400, { error: "Range covers more than 1000 buckets" });
+
+    expect(dataService.getTimeseries.mock.calls).toEqual([
+      ["blob_count", "hour", { from: undefined, to: undefined }],
+      ["shelbyusd_volume", "day", { from: Date.parse("2026-03-01T00:00:00Z"), to: 1773100800000 }],
+    ]);
+  });
+
+  test("clear the cache and force a resync", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+
+    const { key } = createApiKey("ops", "admin");
+
+    await request(app)
+      .post("/api/cache/clear")
+      .set("Authorization", `Bearer ${key}`)
+      .expect(200, { message: "Cache cleared successfully" });
+    await request(app)
+      .post("/api/sync/force")
+      .set("X-API-Key", key)
+      .expect(200, { message: "Full resync completed", activitiesSynced: 12 });
+
+    expect(dataService.clearCache).toHaveBeenCalledOnce();
+  });
+
+  test("respond 500 when the data service fails", async () => {
+    const dataService = fakeDataService();
+    const failure = new Error("indexer down");
+    dataService.getNetworkStats.mockRejectedValue(failure);
+    dataService.getRecentBlobs.mockRejectedValue(failure);
+    dataService.getAllBlobEvents.mockRejectedValue(failure);
+    dataService.getStorageProviders.mockRejectedValue(failure);
+    dataService.healthCheck.mockRejectedValue(failure);
+    dataService.getAnalytics.mockRejectedValue(failure);
+    dataService.getEconomyData.mockRejectedValue(failure);
+    dataService.getUserDeposits.mockRejectedValue(failure);
+    dataService.forceResync.mockRejectedValue(failure);
+    dataService.clearCache.mockImplementation(() => {
+      throw failure;
+    });
+    dataService.getSyncStatus.mockImplementation(() => {
+      throw failure;
+    });
+    dataService.getTimeseries.mockImplementation(() => {
+      throw failure;
+    });
+    dataService.getAddressDetails.mockRejectedValue(failure);
+    dataService.searchBlobs.mockImplementation(() => {
+      throw failure;
+    });
+    dataService.getExpiringBlobs.mockImplementation(() => {
+      throw failure;
+    });
+    dataService.getStorageProjection.mockImplementation(() => {
+      throw failure;
+    });
+    const app = buildApp({ dataService });
+    const { key } = createApiKey("ops", "admin");
+
+    await request(app).get("/api/network/stats").expect(500, { error: "Failed to fetch network statistics" });
+    await request(app).get("/api/blobs/recent").expect(500, { error: "Failed to fetch recent blobs" });
+    await request(app).get("/api/blobs").expect(500, { error: "Failed to search blobs" });
+    await request(app).get("/api/blobs/expiring").expect(500, { error: "Failed to fetch expiring blobs" });
+    await request(app).get("/api/storage/projection").expect(500, { error: "Failed to fetch storage projection" });
+    await request(app).get("/api/events/recent").expect(500, { error: "Failed to fetch events" });
+    await request(app).get("/api/providers").expect(500, { error: "Failed to fetch storage providers" });
+    const health = await request(app).get("/api/health").expect(500);
+    expect(health.body.status).toBe("unhealthy");
+    await request(app).get("/api/analytics").expect(500, { error: "Failed to fetch analytics data" });
+    await request(app).get("/api/economy").expect(500, { error: "Failed to fetch economy data" });
+    await request(app).get("/api/timeseries?metric=blob_count").expect(500, { error: "Failed to fetch timeseries" });
+    await request(app).get(`/api/address/${WALLET}`).expect(500, { error: "Failed to fetch address details" });
+    await request(app).get(`/api/user/deposits?address=${WALLET}`).expect(500, { error: "Failed to fetch user deposits" });
+    await request(app).post("/api/cache/clear").set("X-API-Key", key).expect(500, { error: "Failed to clear cache" });
+    await request(app).get("/api/sync/status").expect(500, { error: "Failed to get sync status" });
+    await request(app).post("/api/sync/force").set("X-API-Key", key).expect(500, { error: "Failed to force resync" });
+  });
+});
+
+describe("admin auth", () => {
+  test("reject admin routes without a valid, active key", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+    const { record, key } = createApiKey("ops", "admin");
+
+    await request(app).post("/api/sync/force").expect(401, { error: "Invalid or missing API key" });
+    await request(app)
+      .post("/api/sync/force")
+      .set("Authorization", `Bearer ${key.slice(0, -1)}x`)
+      .expect(401, { error: "Invalid or missing API key" });
+    await request(app).post("/api/sync/force").set("X-API-Key", "not-a-key").expect(401);
+
+    db.revokeApiKey(record.id);
+    await request(app).post("/api/sync/force").set("X-API-Key", key).expect(401);
+    expect(dataService.forceResync).not.toHaveBeenCalled();
+  });
+
+  test("require a role at least as privileged as the route's", async () => {
+    const dataService = fakeDataService();
+    const app = buildApp({ dataService });
+    const readOnly = createApiKey("dashboard", "read-only").key;
+    const operator = createApiKey("on-call", "operator").key;
+
+    await request(app).post("/api/cache/clear").set("X-API-Key", readOnly).expect(403, {
+      error: "Requires the operator role",
+      role: "read-only",
+    });
+    await request(app).post("/api/cache/clear").set("X-API-Key", operator).expect(200);
+    await request(app).post("/api/sync/force").set("X-API-Key", operator).expect(403);
+    await request(app).post("/api/farming/reset-stats").set("X-API-Key", operator).expect(403);
+
+    expect(dataService.clearCache).toHaveBeenCalledOnce();
+    expect(dataService.forceResync).not.toHaveBeenCalled();
+  });
+
+  test("record admin actions in the audit log", async () => {
+    const dataService = fakeDataService();
+    dataService.forceResync.mockRejectedValueOnce(new Error("indexer down"));
+    const app = buildApp({ dataService });
+    const admin = createApiKey("ops", "admin");
+    const readOnly = createApiKey("dashboard", "read-only");
+
+    await request(app).post("/api/cache/clear?reason=stale").set("X-API-Key", admin.key).expect(200);
+    await request(app).post("/api/sync/force").set("X-API-Key", admin.key).expect(500);
+    await request(app).post("/api/farming/reset-stats").set("X-API-Key", readOnly.key).expect(403);
+    await request(app).post("/api/sync/force").expect(401);
+
+    const res = await request(app).get("/api/admin/audit").set("X-API-Key", readOnly.key).expect(200);
+    const entries = res.body.entries as Array<{ actor: string; route: string; status: number; result: string }>;
+    expect(entries.map(({ actor, route, status, result }) => [actor, route, status, result])).toEqual([
+      ["anonymous", "/api/sync/force", 401, "denied"],
+      ["dashboard", "/api/farming/reset-stats", 403, "denied"],
+      ["ops", "/api/sync/force", 500, "failed"],
+      ["ops", "/api/cache/clear", 200, "ok"],
+    ]);
+    expect(res.body.entries[0]).toMatchObject({ keyId: null, method: "POST", params: { query: {}, body: {} } });
+    expect(res.body.entries[3]).toMatchObject({ keyId: admin.record.id, params: { query: { reason: "stale" }, body: {} } });
+
+    // Reading the log is not itself logged, and needs a key
+    const page = await request(app).get("/api/admin/audit?limit=1").set("X-API-Key", readOnly.key).expect(200);
+    expect(page.body.entries).toHaveLength(1);
+    await request(app).get("/api/admin/audit").expect(401);
+    expect(db.getAdminAuditLog(10)).toHaveLength(4);
+    expect(db.getApiKey(readOnly.record.id)?.last_used_at).not.toBeNull();
+  });
+});
+
+describe("live stream", () => {
+  test("sends newly synced events on the requested topics", async () => {
+    db.insertBlobEvents([blobRecord(100, "old.png")]);
+    db.insertActivities([activityRecord(90, 0, "mint")]);
+    const stream = await openStream(buildApp(), "/api/stream?topics=blobs");
+
+    try {
+      expect(stream.response.headers.get("content-type")).toBe("text/event-stream");
+      await vi.waitFor(() => expect(getLiveStreamCount()).toBe(1));
+
+      publishActivities([activityRecord(120, 0, "deposit")]);
+      publishBlobEvents([blobRecord(130, "new.png"), blobRecord(100, "old.png")]);
+
+      expect(await stream.events(1)).toEqual([
+        {
+          id: "130.0:90",
+          event: "blobs",
+          data: {
+            version: "130",
+            eventIndex: 0,
+            blobId: `@${OWNER}/new.png`,
+            owner: OWNER,
+            name: "new.png",
+            sizeBytes: 2048,
+            encoding: "clay",
+            createdAt: 1773100800000,
+            expiresAt: null,
+          },
+        },
+      ]);
+    } finally {
+      await stream.close();
+    }
+    await vi.waitFor(() => expect(getLiveStreamCount()).toBe(0));
+  });
+
+  test("resumes from a version or the last event id", async () => {
+    db.insertBlobEvents([blobRecord(100, "a.png"), blobRecord(140, "b.png")]);
+    db.insertActivities([activityRecord(110, 0, "withdraw"), activityRecord(110, 1, "deposit"), activityRecord(150, 0, "mint")]);
+
+    const fromVersion = await openStream(buildApp(), "/api/stream?since=105");
+    try {
+      const events = await fromVersion.events(4);
+      expect(events.map(({ id, event }) => [id, event])).toEqual([
+        ["105:110.0", "activities"],
+        ["105:110.1", "activities"],
+        ["140.0:110.1", "blobs"],
+        ["140.0:150.0", "activities"],
+      ]);
+      expect(events[0].data).toMatchObject({ version: "110", eventIndex: 0, address: WALLET, type: "withdraw", amount: 500 });
+    } finally {
+      await fromVersion.close();
+    }
+
+    // Dropped between two events of transaction 110: the second one was missed, the blobs are up to date
+    const reconnect = await openStream(buildApp(), "/api/stream", { "Last-Event-ID": "140.0:110.0" });
+    try {
+      publishBlobEvents([blobRecord(160, "c.png")]);
+      publishActivities([activityRecord(150, 1, "burn")]);
+      expect((await reconnect.events(4)).map(({ id, event }) => [id, event])).toEqual([
+        ["140.0:110.1", "activities"],
+        ["140.0:150.0", "activities"],
+        ["160.0:150.0", "blobs"],
+        ["160.0:150.1", "activities"],
+      ]);
+    } finally {
+      await reconnect.close();
+    }
+  });
+
+  test("resets a topic that missed too many events", async () => {
+    db.insertActivities(Array.from({ length: 1001 }, (_, i) => activityRecord(200 + i, 0, "mint")));
+    db.insertBlobEvents([blobRecord(100, "a.png")]);
+
+    const stream = await openStream(buildApp(), "/api/stream?since=50");
+    try {
+      expect(await stream.events(2)).toEqual([
+        { id: "50:1200", event: "reset", data: { topics: ["activities"] } },
+        { id: "100.0:1200", event: "blobs", data: expect.objectContaining({ name: "a.png" }) },
+      ]);
+    } finally {
+      await stream.close();
+    }
+  });
+
+  test("refuses streams past the limit", async () => {
+    const app = buildApp({ maxLiveStreams: 1 });
+    const stream = await openStream(app, "/api/stream");
+    try {
+      await vi.waitFor(() => expect(getLiveStreamCount()).toBe(1));
+      const refused = await request(app).get("/api/stream").expect(503, { error: "Too many live streams open", limit: 1 });
+      expect(refused.headers["retry-after"]).toBe("5");
+    } finally {
+      await stream.close();
+    }
+    await vi.waitFor(() => expect(getLiveStreamCount()).toBe(0));
+  });
+
+  test("rejects unknown topics and malformed versions", async () => {
+    const app = buildApp();
+
+    await request(app)
+      .get("/api/stream?topics=blobs,farming")
+      .expect(400, { error: "topics must be a comma-separated list of blobs, activities" });
+    await request(app)
+      .get("/api/stream?since=latest")
+      .expect(400, { error: "since must be a transaction version or event id" });
+    await request(app).get("/api/stream?since=105.").expect(400);
+    await request(app).get("/api/stream").set("Last-Event-ID", "1:2:3").expect(400);
+  });
+});
+
+describe("alert rule routes", () => {
+  test("create, update and delete rules with an operator key", async () => {
+    const app = buildApp();
+    const operator = createApiKey("on-call", "operator").key;
+    const readOnly = createApiKey("dashboard", "read-only").key;
+    const body = {
+      name: "Whale watch",
+      type: "large_transfer",
+      params: { minAmount: 10_000_000_000 },
+      webhookUrl: "https://hooks.example.com/pulse",
+    };
+
+    await request(app).post("/api/alerts/rules").set("X-API-Key", readOnly).send(body).expect(403);
+    await request(app)
+      .post("/api/alerts/rules")
+      .set("X-API-Key", operator)
+      .send({ ...body, params: { minAmount: -1 } })
+      .expect(400, { error: "params.minAmount: Number must be greater than 0" });
+
+    const created = await request(app).post("/api/alerts/rules").set("X-API-Key", operator).send(body).expect(201);
+    const id = created.body.rule.id;
+    expect(created.body).toEqual({
+      rule: {
+        id,
+        name: "Whale watch",
+        type: "large_transfer",
+        params: { minAmount: 10_000_000_000, types: ["withdraw"] },
+        webhookUrl: "https://hooks.example.com/pulse",
+        enabled: true,
+        createdAt: expect.any(Number),
+        updatedAt: expect.any(Number),
+        lastTriggeredAt: null,
+      },
+      secret: expect.stringMatching(/^whsec_/),
+    });
+
+    const updated = await request(app)
+      .patch(`/api/alerts/rules/${id}`)
+      .set("X-API-Key", operator)
+      .send({ enabled: false, rotateSecret: true })
+      .expect(200);
+    expect(updated.body.rule).toMatchObject({ enabled: false });
+    expect(updated.body.secret).not.toBe(created.body.secret);
+    await request(app)
+      .patch(`/api/alerts/rules/${id}`)
+      .set("X-API-Key", operator)
+      .send({ type: "provider_missing" })
+      .expect(400);
+
+    const listed = await request(app).get("/api/alerts/rules").set("X-API-Key", readOnly).expect(200);
+    expect(listed.body.rules).toEqual([updated.body.rule]);
+    expect(JSON.stringify(listed.body)).not.toContain("whsec_");
+
+    await request(app).delete(`/api/alerts/rules/${id}`).set("X-API-Key", operator).expect(200, { success: true, id });
+    await request(app).get(`/api/alerts/rules/${id}`).set("X-API-Key", readOnly).expect(404);
+  });
+
+  test("send a test webhook and list the deliveries", async () => {
+    const received: Array<{ signature: string | undefined; body: string }> = [];
+    const receiver = express();
+    receiver.post("/hooks", express.text({ type: "*/*" }), (req, res) => {
+      received.push({ signature: req.get("x-pulse-signature"), body: req.body });
+      res.sendStatus(204);
+    });
+    const server = receiver.listen(0, "127.0.0.1");
+    await new Promise((resolve) => server.once("listening", resolve));
+
+    try {
+      const app = buildApp();
+      const operator = createApiKey("on-call", "operator").key;
+      const webhookUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+      const created = await request(app)
+        .post("/api/alerts/rules")
+        .set("X-API-Key", operator)
+        .send({ name: "Quiet network", type: "upload_rate_zero", webhookUrl })
+        .expect(201);
+
+      const res = await request(app)
+        .post(`/api/alerts/rules/${created.body.rule.id}/test`)
+        .set("X-API-Key", operator)
+        .expect(200);
+      expect(res.body.delivery).toMatchObject({ status: "delivered", attempts: 1, lastStatus: 204, payload: { type: "test" } });
+      expect(received).toHaveLength(1);
+      expect(verifyWebhookSignature(created.body.secret, received[0].signature ?? "", received[0].body)).toBe(true);
+
+      const deliveries = await request(app)
+        .get("/api/alerts/deliveries?status=delivered")
+        .set("X-API-Key", operator)
+        .expect(200);
+      expect(deliveries.body.deliveries.map((delivery: { id: string }) => delivery.id)).toEqual([res.body.delivery.id]);
+      await request(app).get("/api/alerts/deliveries?status=failed").set("X-API-Key", operator).expect(400);
+      await request(app)
+        .get("/api/alerts/dead-letters")
+        .set("X-API-Key", operator)
+        .expect(200, { deadLetters: [], limit: 50, offset: 0 });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+});
+
+describe("farming routes", () => {
+  // Starting and stopping farming needs an operator key
+  let operator = "";
+  beforeEach(() => {
+    operator = createApiKey("on-call", "operator").key;
+  });
+
+  test.each([
+    ["post", "/api/farming/start"],
+    ["get", "/api/farming/status"],
+    ["get", "/api/farming/overview"],
+    ["post", "/api/farming/stop"],
+    ["post", "/api/farming/cleanup"],
+    ["post", "/api/farming/clear-sessions"],
+    ["post", "/api/farming/faucet"],
+  ] as const)("%s %s responds 503 without the farming service", async (method, route) => {
+    await request(buildApp())[method](route).set("X-API-Key", operator).expect(503, { error: "Farming service not available" });
+  });
+
+  test("require an operator key to start, stop or clean up farming", async () => {
+    const farmingService = fakeFarmingService();
+    const githubFarmingService = fakeGitHubFarmingService();
+    const app = buildApp({ farmingService, githubFarmingService });
+    const readOnly = createApiKey("dashboard", "read-only").key;
+
+    for (const route of [
+      "/api/farming/start",
+      "/api/farming/stop",
+      "/api/farming/cleanup",
+      "/api/farming/clear-sessions",
+      "/api/farming/faucet",
+      "/api/farming/continuous/start",
+      "/api/farming/continuous/stop",
+    ]) {
+      await request(app).post(route).send({ walletAddress: WALLET }).expect(401, { error: "Invalid or missing API key" });
+    }
+    await request(app).post("/api/farming/cleanup").set("X-API-Key", readOnly).expect(403);
+    await request(app).post("/api/farming/cleanup").set("X-API-Key", operator).expect(200);
+
+    expect(farmingService.startFarming).not.toHaveBeenCalled();
+    expect(githubFarmingService.startFarming).not.toHaveBeenCalled();
+    expect(farmingService.cleanupAllFarmingNodes).toHaveBeenCalledOnce();
+    expect(db.getAdminAuditLog(3).map(({ actor, route, result }) => [actor, route, result])).toEqual([
+      ["on-call", "/api/farming/cleanup", "ok"],
+      ["dashboard", "/api/farming/cleanup", "denied"],
+      ["anonymous", "/api/farming/continuous/stop", "denied"],
+    ]);
+  });
+
+  test("reset the stored farming stats", async () => {
+    const { key } = createApiKey("ops", "admin");
+
+    await request(buildApp())
+      .post("/api/farming/reset-stats")
+      .set("X-API-Key", key)
+      .expect(200, { message: "Farming stats reset complete", jobsReset: 0, wavesDeleted: 0 });
+  });
+
+  test("start a session for a wallet", async () => {
+    const farmingService = fakeFarmingService();
+    const app = buildApp({ farmingService });
+
+    await request(app).post("/api/farming/start").set("X-API-Key", operator).send({}).expect(400, { error: "walletAddress is required" });
+    await request(app)
+      .post("/api/farming/start").set("X-API-Key", operator)
+      .send({ walletAddress: "not-a-wallet" })
+      .expect(500, { error: "Invalid wallet address" });
+    await request(app)
+      .post("/api/farming/start").set("X-API-Key", operator)
+      .send({ walletAddress: WALLET, numDroplets: 3 })
+      .expect(200, { id: "farm-1", walletAddress: WALLET, numNodes: 3, status: "running" });
+
+    expect(farmingService.startFarming).toHaveBeenLastCalledWith(WALLET, 3);
+  });
+
+  test("report session status, including unknown sessions", async () => {
+    const app = buildApp({ farmingService: fakeFarmingService() });
+
+    await request(app).get("/api/farming/status").expect(200, [{ id: "farm-1" }]);
+    await request(app).get("/api/farming/status?sessionId=farm-1").expect(200, { id: "farm-1" });
+    await request(app)
+      .get("/api/farming/status?sessionId=farm-404")
+      .expect(500, { error: "Session farm-404 not found" });
+    await request(app).get("/api/farming/overview").expect(200, { activeSessions: 1 });
+  });
+
+  test("stop, clean up and clear sessions", async () => {
+    const app = buildApp({ farmingService: fakeFarmingService() });
+
+    await request(app).post("/api/farming/stop").set("X-API-Key", operator).send({}).expect(400, { error: "sessionId is required" });
+    await request(app)
+      .post("/api/farming/stop").set("X-API-Key", operator)
+      .send({ sessionId: "farm-1" })
+      .expect(200, { message: "Stopped session and terminated 3 nodes" });
+    await request(app).post("/api/farming/cleanup").set("X-API-Key", operator).expect(200, { message: "Terminated 4 farming nodes" });
+    await request(app).post("/api/farming/clear-sessions").set("X-API-Key", operator).expect(200, { message: "Cleared 2 old sessions" });
+  });
+
+  test("request the faucet for a wallet", async () => {
+    const farmingService = fakeFarmingService();
+    farmingService.requestFaucet.mockRejectedValueOnce(new Error("Faucet rate limited"));
+    const app = buildApp({ farmingService });
+
+    await request(app).post("/api/farming/faucet").set("X-API-Key", operator).send({}).expect(400, { error: "walletAddress is required" });
+    await request(app)
+      .post("/api/farming/faucet").set("X-API-Key", operator)
+      .send({ walletAddress: WALLET })
+      .expect(500, { error: "Faucet rate limited" });
+    await request(app).post("/api/farming/faucet").set("X-API-Key", operator).send({ walletAddress: WALLET }).expect(200, { txn_hashes: ["0xfeed"] });
+  });
+});
+
+describe("continuous farming routes", () => {
+  // Starting and stopping farming needs an operator key
+  let operator = "";
+  beforeEach(() => {
+    operator = createApiKey("on-call", "operator").key;
+  });
+
+  test("respond 503 without the GitHub farming service", async () => {
+    const app = buildApp();
+    const unavailable = { error: "GitHub Actions farming not available" };
+
+    await request(app)
+      .post("/api/farming/continuous/start").set("X-API-Key", operator)
+      .send({ walletAddress: WALLET })
+      .expect(503, { error: "GitHub Actions farming not available (GITHUB_TOKEN not set)" });
+    await request(app).get("/api/farming/continuous/status").expect(503, unavailable);
+    await request(app).post("/api/farming/continuous/stop").set("X-API-Key", operator).send({ jobId: "job-1" }).expect(503, unavailable);
+    await request(app).get(`/api/farming/continuous/history?walletAddress=${WALLET}`).expect(503, unavailable);
+    const info = await request(app).get("/api/farming/continuous/info").expect(200);
+    expect(info.body).toMatchObject({ type: "github-actions", available: false });
+  });
+
+  test("start a job once GITHUB_TOKEN is set", async () => {
+    const githubFarmingService = fakeGitHubFarmingService();
+    const app = buildApp({ githubFarmingService });
+
+    githubFarmingService.isAvailable.mockReturnValueOnce(false);
+    await request(app).post("/api/farming/continuous/start").set("X-API-Key", operator).send({ walletAddress: WALLET }).expect(503);
+    await request(app).post("/api/farming/continuous/start").set("X-API-Key", operator).send({}).expect(400, { error: "walletAddress is required" });
+    await request(app)
+      .post("/api/farming/continuous/start").set("X-API-Key", operator)
+      .send({ walletAddress: "wallet" })
+      .expect(500, { error: "Invalid wallet address" });
+    await request(app)
+      .post("/api/farming/continuous/start").set("X-API-Key", operator)
+      .send({ walletAddress: WALLET, waveIntervalMinutes: 30, maxWaves: 4 })
+      .expect(200, { id: "job-1", wallet_address: WALLET, status: "active" });
+
+    expect(githubFarmingService.startFarming).toHaveBeenLastCalledWith(WALLET, { waveIntervalMs: 1_800_000, maxWaves: 4 });
+  });
+
+  test("report a job, a wallet's active job or the summary", async () => {
+    const app = buildApp({ githubFarmingService: fakeGitHubFarmingService() });
+    const job = { id: "job-1", wallet_address: WALLET, status: "active" };
+
+    await request(app).get("/api/farming/continuous/status?jobId=job-1").expect(200, { job, waves: [], runningTime: "5m" });
+    await request(app).get("/api/farming/continuous/status?jobId=job-404").expect(404, { error: "Job not found" });
+    await request(app)
+      .get(`/api/farming/continuous/status?walletAddress=${WALLET}`)
+      .expect(200, { active: true, job, waves: [], runningTime: "5m" });
+    await request(app)
+      .get(`/api/farming/continuous/status?walletAddress=${OWNER}`)
+      .expect(200, { active: false, job: null });
+    await request(app).get("/api/farming/continuous/status").expect(200, { activeJobs: 1 });
+    const info = await request(app).get("/api/farming/continuous/info").expect(200);
+    expect(info.body.available).toBe(true);
+  });
+
+  test("stop a job and list a wallet's history", async () => {
+    const app = buildApp({ githubFarmingService: fakeGitHubFarmingService() });
+
+    await request(app).post("/api/farming/continuous/stop").set("X-API-Key", operator).send({}).expect(400, { error: "jobId is required" });
+    await request(app)
+      .post("/api/farming/continuous/stop").set("X-API-Key", operator)
+      .send({ jobId: "job-404" })
+      .expect(500, { error: "Job job-404 not found" });
+    await request(app).post("/api/farming/continuous/stop").set("X-API-Key", operator).send({ jobId: "job-1" }).expect(200, {
+      message: "Job stopped successfully",
+    });
+    await request(app).get("/api/farming/continuous/history").expect(400, { error: "walletAddress is required" });
+    const history = await request(app).get(`/api/farming/continuous/history?walletAddress=${WALLET}`).expect(200);
+    expect(history.body).toHaveLength(1);
+  });
+});
+
+describe("share upload routes", () => {
+  const unavailable = { error: "Upload service not available", message: "SHELBY_PRIVATE_KEY not configured" };
+
+  test("respond 503 without the upload service", async () => {
+    const app = buildApp();
+
+    await request(app).post("/api/share/upload").attach("file", PNG, "cat.png").expect(503, unavailable);
+    await request(app).post("/api/share/upload-batch").attach("files", PNG, "cat.png").expect(503, unavailable);
+    await request(app).post("/api/share/wallet/prepare").attach("file", PNG, "cat.png").expect(503, unavailable);
+    await request(app)
+      .post("/api/share/wallet/complete")
+      .send({ uploadId: "upload-1", transactionHash: "0xabc" })
+      .expect(503, unavailable);
+    await request(app).get("/api/share/uploads/job-1").expect(503, { error: "Upload service not available" });
+    await request(app).get("/api/share/uploads/job-1/events").expect(503, { error: "Upload service not available" });
+  });
+
+  test("upload a file into a new folder in the background", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+
+    await request(app).post("/api/share/upload").field("sessionId", "trip").expect(400, { error: "No file provided" });
+    const res = await request(app)
+      .post("/api/share/upload")
+      .field("sessionId", "trip")
+      .field("title", "Road trip")
+      .attach("file", PNG, { filename: "cat.png", contentType: "image/png" })
+      .expect(202);
+
+    expect(res.body).toMatchObject({ success: true, sessionId: "trip", statusUrl: `/api/share/uploads/${res.body.jobId}` });
+    expect(res.body.manageToken).toEqual(expect.any(String));
+    await vi.waitFor(() => expect(deps.uploadJobService.getJob(res.body.jobId)?.status).toBe("done"));
+    expect(deps.uploadService.uploadFile).toHaveBeenCalledWith(expect.any(String), "cat.png", "image/png", expect.any(Function));
+    expect(db.getShareSession("trip")?.title).toBe("Road trip");
+    expect(db.getShareSessionFiles("trip").map((file) => file.blob_name)).toEqual(["cat.png"]);
+
+    const job = await request(app).get(`/api/share/uploads/${res.body.jobId}`).expect(200);
+    expect(job.body).toMatchObject({ status: "done", progress: 100, result: { blobName: "cat.png" } });
+    await request(app).get("/api/share/uploads/no-such-job").expect(404, { error: "Upload job not found" });
+  });
+
+  test("refuse uploads into a folder without its token, an expired folder or a bad expiry", async () => {
+    const app = buildApp(shareDeps());
+    const { session } = db.createShareSession("mine");
+    db.createShareSession("old", { expiresAt: Date.now() - 1000 });
+    const png = { filename: "cat.png", contentType: "image/png" };
+
+    await request(app)
+      .post("/api/share/upload")
+      .field("sessionId", "mine")
+      .attach("file", PNG, png)
+      .expect(403, { error: "Invalid or missing share token for this folder" });
+    await request(app)
+      .post("/api/share/upload")
+      .field("sessionId", "old")
+      .attach("file", PNG, png)
+      .expect(410, { error: "Folder has expired" });
+    await request(app)
+      .post("/api/share/upload")
+      .field("expiresAt", "next tuesday")
+      .attach("file", PNG, png)
+      .expect(400, { error: "Invalid expiresAt" });
+    await request(app)
+      .post("/api/share/upload")
+      .set("X-Share-Token", session.manage_token)
+      .field("sessionId", "mine")
+      .attach("file", PNG, png)
+      .expect(202);
+  });
+
+  test("reject files whose contents don't match their type", async () => {
+    const app = buildApp(shareDeps());
+
+    const res = await request(app)
+      .post("/api/share/upload")
+      .attach("file", Buffer.from("<html>not a png</html>"), { filename: "cat.png", contentType: "image/png" })
+      .expect(415);
+    expect(res.body.error).toEqual(expect.any(String));
+  });
+
+  test("reject a declared file type that isn't allowed with 415", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+    const script = { filename: "run.sh", contentType: "text/x-sh" };
+
+    await request(app)
+      .post("/api/share/upload")
+      .attach("file", Buffer.from("#!/bin/sh\n"), script)
+      .expect(415, { error: "File type text/x-sh not allowed" });
+    await request(app)
+      .post("/api/share/wallet/prepare")
+      .set("X-Wallet-Address", WALLET)
+      .attach("file", Buffer.from("#!/bin/sh\n"), script)
+      .expect(415, { error: "File type text/x-sh not allowed" });
+    expect(deps.uploadService.prepareWalletUpload).not.toHaveBeenCalled();
+  });
+
+  test("enforce the upload quota", async () => {
+    const app = buildApp(shareDeps({ filesPerHour: 1 }));
+    const png = { filename: "cat.png", contentType: "image/png" };
+
+    await request(app).post("/api/share/upload").attach("file", PNG, png).expect(202);
+    const res = await request(app).post("/api/share/upload").attach("file", PNG, png).expect(429);
+    expect(res.body).toMatchObject({ reason: "files_per_hour" });
+  });
+
+  test("hold the quota for uploads in flight and refund rejected ones", async () => {
+    const app = buildApp(shareDeps({ filesPerHour: 1 }));
+    // Each case uploads from its own address, so earlier uploads don't count
+    app.set("trust proxy", true);
+    const png = { filename: "cat.png", contentType: "image/png" };
+    const upload = (ip: string) => request(app).post("/api/share/upload").set("X-Forwarded-For", ip);
+
+    // Both arrive before either finishes; only one gets the last file
+    const responses = await Promise.all([upload("10.9.9.1").attach("file", PNG, png), upload("10.9.9.1").attach("file", PNG, png)]);
+    expect(responses.map((res) => res.status).sort()).toEqual([202, 429]);
+
+    await upload("10.9.9.2").attach("file", Buffer.from("<html>not a png</html>"), png).expect(415);
+    // The rejected file gave its reservation back
+    await upload("10.9.9.2").attach("file", PNG, png).expect(202);
+  });
+
+  test("upload a batch into one folder, reporting rejected files", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+
+    await request(app).post("/api/share/upload-batch").expect(400, { error: "No files provided" });
+    const res = await request(app)
+      .post("/api/share/upload-batch")
+      .attach("files", PNG, inFolder("photos/cat.png", "image/png"))
+      .attach("files", Buffer.from("#!/bin/sh\n"), inFolder("photos/run.sh", "text/x-sh"))
+      .expect(202);
+
+    expect(res.body).toMatchObject({ accepted: 1, rejected: 1, folderUrl: `/api/share/folder/${res.body.sessionId}` });
+    expect(res.body.files).toMatchObject([
+      { relativePath: "photos/cat.png", status: "accepted" },
+      { relativePath: "photos/run.sh", status: "rejected" },
+    ]);
+    await vi.waitFor(() => expect(db.getShareSessionFiles(res.body.sessionId)).toHaveLength(1));
+    expect(db.getShareSessionFiles(res.body.sessionId)[0]).toMatchObject({ relative_path: "photos/cat.png" });
+
+    const rejected = await request(app)
+      .post("/api/share/upload-batch")
+      .attach("files", Buffer.from("#!/bin/sh\n"), { filename: "run.sh", contentType: "text/x-sh" })
+      .expect(400);
+    expect(rejected.body.error).toBe("No files could be uploaded");
+  });
+
+  test("prepare a wallet upload for a valid wallet address only", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+    const png = { filename: "cat.png", contentType: "image/png" };
+
+    await request(app).post("/api/share/wallet/prepare").set("X-Wallet-Address", WALLET).expect(400, {
+      error: "No file provided",
+    });
+    await request(app)
+      .post("/api/share/wallet/prepare")
+      .set("X-Wallet-Address", "0xnot-a-wallet")
+      .attach("file", PNG, png)
+      .expect(400, { error: "X-Wallet-Address header with a wallet address is required" });
+    const res = await request(app)
+      .post("/api/share/wallet/prepare")
+      .set("X-Wallet-Address", WALLET)
+      .attach("file", PNG, png)
+      .expect(200);
+
+    expect(res.body).toMatchObject({
+      status: "awaiting_signature",
+      uploadId: "upload-1",
+      completeUrl: "/api/share/wallet/complete",
+      manageToken: expect.any(String),
+    });
+    expect(db.getShareSession(res.body.sessionId)).not.toBeNull();
+    expect(deps.uploadService.prepareWalletUpload).toHaveBeenCalledWith(
+      expect.any(String),
+      "cat.png",
+      "image/png",
+      WALLET,
+      expect.any(String)
+    );
+  });
+
+  test("refuse a folder another upload created after it was looked up", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+    let created: string | undefined;
+    deps.uploadService.prepareWalletUpload.mockImplementationOnce(async () => {
+      // Another upload creates the folder while this one is being prepared
+      created = db.createShareSession("race").session.manage_token;
+      return fakeUploadService().prepareWalletUpload();
+    });
+
+    const res = await request(app)
+      .post("/api/share/wallet/prepare")
+      .set("X-Wallet-Address", WALLET)
+      .field("sessionId", "race")
+      .attach("file", PNG, { filename: "cat.png", contentType: "image/png" })
+      .expect(409, { error: "Folder was created by another upload" });
+
+    expect(res.text).not.toContain(created);
+    expect(deps.uploadService.cancelWalletUpload).toHaveBeenCalledWith("upload-1");
+    // Creating it again keeps the first creator's token
+    expect(db.createShareSession("race")).toMatchObject({ created: false, session: { manage_token: created } });
+  });
+
+  test("count wallet prepares against the IP quota and cap the uploads awaiting a signature", async () => {
+    const deps = shareDeps({ filesPerHour: 1 });
+    const app = buildApp(deps);
+    app.set("trust proxy", true);
+    const png = { filename: "cat.png", contentType: "image/png" };
+    const prepare = (ip: string) =>
+      request(app)
+        .post("/api/share/wallet/prepare")
+        .set("X-Forwarded-For", ip)
+        .set("X-Wallet-Address", WALLET)
+        .attach("file", PNG, png);
+
+    deps.uploadService.prepareWalletUpload.mockRejectedValueOnce(new WalletUploadLimitError("wallet", 10));
+    const capped = await prepare("198.51.100.20").expect(429);
+    expect(capped.body).toMatchObject({ reason: "pending_wallet_uploads", scope: "wallet", limit: 10 });
+    // A capped prepare doesn't use up the quota
+    await prepare("198.51.100.20").expect(200);
+
+    const limited = await prepare("198.51.100.20").expect(429);
+    expect(limited.body).toMatchObject({ reason: "files_per_hour", scope: "ip" });
+    expect(deps.uploadService.prepareWalletUpload).toHaveBeenLastCalledWith(
+      expect.any(String),
+      "cat.png",
+      "image/png",
+      WALLET,
+      "198.51.100.20"
+    );
+    expect(deps.uploadService.prepareWalletUpload).toHaveBeenCalledTimes(2);
+  });
+
+  test("complete a prepared wallet upload", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+
+    await request(app)
+      .post("/api/share/wallet/complete")
+      .send({ uploadId: "upload-1", transactionHash: "not-a-hash" })
+      .expect(400, { error: "uploadId and transactionHash are required" });
+    await request(app)
+      .post("/api/share/wallet/complete")
+      .send({ uploadId: "upload-404", transactionHash: "0xabc" })
+      .expect(404, { error: "Upload not found, expired or already completing" });
+    const res = await request(app)
+      .post("/api/share/wallet/complete")
+      .send({ uploadId: "upload-1", transactionHash: "0xabc", sessionId: "wallet-folder" })
+      .expect(202);
+
+    expect(res.body).toMatchObject({ success: true, owner: WALLET, blobName: "cat.png", sessionId: "wallet-folder" });
+    await vi.waitFor(() => expect(db.getShareSessionFiles("wallet-folder")).toHaveLength(1));
+    expect(deps.uploadService.completeWalletUpload).toHaveBeenCalledWith(
+      expect.objectContaining({ id: "upload-1" }),
+      "0xabc",
+      expect.any(Function)
+    );
+  });
+
+  test("count a wallet upload against the wallet's quota once its registration checks out", async () => {
+    const deps = shareDeps({ filesPerHour: 1 });
+    const app = buildApp(deps);
+    const wallet = `0x${"c4".repeat(32)}`;
+    const pending = { ...deps.uploadService.claimWalletUpload("upload-1"), owner: wallet } as PendingWalletUpload;
+    deps.uploadService.claimWalletUpload.mockImplementation(() => pending);
+    const complete = () =>
+      request(app).post("/api/share/wallet/complete").send({ uploadId: "upload-1", transactionHash: "0xabc" });
+    const filesUsed = () => deps.shareQuotaService.getQuota({ scope: "wallet", key: wallet }).filesPerHour.used;
+
+    // A transaction that didn't register the blob proves nothing and costs nothing
+    deps.uploadService.completeWalletUpload.mockRejectedValueOnce(new Error("Transaction did not register the blob"));
+    const failed = await complete().expect(202);
+    await vi.waitFor(() => expect(deps.uploadJobService.getJob(failed.body.jobId)?.status).toBe("failed"));
+    expect(filesUsed()).toBe(0);
+
+    const done = await complete().expect(202);
+    await vi.waitFor(() => expect(deps.uploadJobService.getJob(done.body.jobId)?.status).toBe("done"));
+    expect(filesUsed()).toBe(1);
+
+    const res = await complete().expect(429);
+    expect(res.body).toMatchObject({ reason: "files_per_hour", scope: "wallet" });
+    expect(deps.uploadService.releaseWalletUpload).toHaveBeenCalledWith(pending);
+  });
+
+  test("finish a job whose upload succeeded even if its follow-up step throws", async () => {
+    const deps = shareDeps();
+    const onSettled = vi.fn();
+    const [job] = deps.uploadJobService.createJobs([{ fileName: "cat.png", totalBytes: PNG.length }]);
+    deps.uploadJobService.run(job.id, async () => uploadResult("cat.png", PNG.length), {
+      onSuccess: () => {
+        throw new Error("Folder not found");
+      },
+      onSettled,
+    });
+
+    await vi.waitFor(() => expect(onSettled).toHaveBeenCalledOnce());
+    expect(deps.uploadJobService.getJob(job.id)).toMatchObject({
+      status: "done",
+      error: null,
+      result: { blobName: "cat.png" },
+    });
+  });
+
+  test("stream a job's progress as server-sent events", async () => {
+    const deps = shareDeps();
+    const app = buildApp(deps);
+    const [job] = deps.uploadJobService.createJobs([{ fileName: "cat.png", totalBytes: PNG.length }]);
+    deps.uploadJobService.run(job.id, async () => uploadResult("cat.png", PNG.length));
+    await vi.waitFor(() => expect(deps.uploadJobService.getJob(job.id)?.status).toBe("done"));
+
+    const res = await request(app).get(`/api/share/uploads/${job.id}/events`).expect(200);
+
+    expect(res.headers["content-type"]).toBe("text/event-stream");
+    expect(res.text).toMatch(/^event: progress\ndata: \{.*"status":"done".*\}\n\n$/);
+    await request(app).get("/api/share/uploads/no-such-job/events").expect(404, { error: "Upload job not found" });
+  });
+});
+
+describe("share info and admin routes", () => {
+  test("report availability and the caller's remaining quota", async () => {
+    await request(buildApp())
+      .get("/api/share/info")
+      .expect(200)
+      .expect((res) => expect(res.body).toMatchObject({ available: false, uploaderAddress: null, quota: null }));
+
+    const res = await request(buildApp(shareDeps({ filesPerHour: 10 }))).get("/api/share/info").expect(200);
+    expect(res.body).toMatchObject({ available: true, uploaderAddress: OWNER, quota: { filesPerHour: { remaining: 10 } } });
+  });
+
+  test("require a read-only API key for usage reports", async () => {
+    const { key } = createApiKey("viewer", "read-only");
+    await request(buildApp())
+      .get("/api/share/admin/usage")
+      .set("X-API-Key", key)
+      .expect(503, { error: "Upload service not available", message: "SHELBY_PRIVATE_KEY not configured" });
+
+    const app = buildApp(shareDeps());
+    await request(app).get("/api/share/admin/usage").expect(401, { error: "Invalid or missing API key" });
+    await request(app)
+      .get("/api/share/admin/usage?scope=planet")
+      .set("X-API-Key", key)
+      .expect(400, { error: "scope must be 'ip' or 'wallet'" });
+    const res = await request(app).get("/api/share/admin/usage?scope=ip").set("X-API-Key", key).expect(200);
+    expect(res.body).toEqual({ limits: { bytesPerDay: null, filesPerHour: null }, clients: [] });
+  });
+});
+
+describe("share folder routes", () => {
+  test("render a folder and a not-found page for unknown sessions", async () => {
+    const app = buildApp();
+    createFolder("trip", { title: "Road trip" });
+    db.createShareSession("empty");
+
+    const res = await request(app).get("/api/share/folder/trip").expect(200);
+    expect(res.headers["content-type"]).toMatch(/^text\/html/);
+    expect(res.text).toContain("cat.png");
+
+    await request(app).get("/api/share/folder/no-such-folder").expect(404).expect(/Folder Not Found/);
+    await request(app).get("/api/share/folder/empty").expect(404);
+  });
+
+  test("update a folder's title and expiry with its manage token", async () => {
+    const app = buildApp();
+    const session = createFolder("trip");
+    const expiresAt = "2030-01-01T00:00:00.000Z";
+
+    await request(app).patch("/api/share/folder/no-such-folder").send({ title: "x" }).expect(404, {
+      error: "Folder not found",
+    });
+    await request(app).patch("/api/share/folder/trip").send({ title: "x" }).expect(403, {
+      error: "Invalid or missing share token for this folder",
+    });
+    await request(app)
+      .patch("/api/share/folder/trip")
+      .set("X-Share-Token", session.manage_token)
+      .send({ expiresAt: "soon" })
+      .expect(400, { error: "Invalid expiresAt" });
+    await request(app)
+      .patch("/api/share/folder/trip")
+      .send({ manageToken: session.manage_token, title: "  Road trip  ", expiresAt })
+      .expect(200, { sessionId: "trip", title: "Road trip", expiresAt });
+  });
+
+  test("delete a folder with its manage token", async () => {
+    const app = buildApp();
+    const session = createFolder("trip");
+
+    await request(app).delete("/api/share/folder/no-such-folder").expect(404, { error: "Folder not found" });
+    await request(app).delete("/api/share/folder/trip").set("X-Share-Token", "wrong").expect(403);
+    await request(app)
+      .delete("/api/share/folder/trip")
+      .set("X-Share-Token", session.manage_token)
+      .expect(200, { success: true, sessionId: "trip", filesDeleted: 1 });
+    expect(db.getShareSession("trip")).toBeNull();
+  });
+});
+
+describe("share view routes", () => {
+  test("proxy a blob from Shelby with the stored content type", async () => {
+    const upstream = vi.fn(async () => new Response(PNG, { headers: { "Content-Length": String(PNG.length) } }));
+    vi.stubGlobal("fetch", upstream);
+    db.addShareBlobToIndex({
+      owner_address: OWNER,
+      blob_name: "cat",
+      content_hash: "ab".repeat(32),
+      content_type: "image/png",
+      size: PNG.length,
+      url: `https://api.shelbynet.shelby.xyz/shelby/v1/blobs/${OWNER}/cat`,
+      viewer_url: `/api/share/viewer/${OWNER}/cat`,
+      thumbnail_url: null,
+      expires_at: Date.now() + 60_000,
+      created_at: Date.now(),
+    });
+
+    const res = await request(buildApp()).get(`/api/share/view/${OWNER}/cat`).expect(200);
+
+    expect(res.headers["content-type"]).toBe("image/png");
+    expect(res.headers["content-disposition"]).toBe("inline; filename=\"cat\"; filename*=UTF-8''cat");
+    expect(upstream).toHaveBeenCalledWith(
+      `https://api.shelbynet.shelby.xyz/shelby/v1/blobs/${OWNER}/cat`,
+      expect.anything()
+    );
+  });
+
+  test("escape the file name in Content-Disposition", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(PNG)));
+    const name = 'café "1"\\(2).png';
+
+    const res = await request(buildApp())
+      .get(`/api/share/view/${OWNER}/${encodeURIComponent(name)}`)
+      .expect(200);
+
+    expect(res.headers["content-disposition"]).toBe(
+      "inline; filename=\"caf_ \\\"1\\\"\\\\(2).png\"; filename*=UTF-8''caf%C3%A9%20%221%22%5C%282%29.png"
+    );
+  });
+
+  test("pass Shelby errors through", async () => {
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 404, statusText: "Not Found" })));
+
+    await request(buildApp())
+      .get(`/api/share/view/${OWNER}/missing.png`)
+      .expect(404, { error: "Failed to fetch file: Not Found" });
+  });
+
+  test("render a viewer page that embeds the file by type", async () => {
+    const app = buildApp();
+
+    const image = await request(app).get(`/api/share/viewer/${OWNER}/cat.png`).expect(200);
+    expect(image.text).toContain(`<img src="/api/share/view/${OWNER}/cat.png"`);
+
+    const video = await request(app).get(`/api/share/viewer/${OWNER}/clip.mp4`).expect(200);
+    expect(video.text).toContain(`<video src="/api/share/view/${OWNER}/clip.mp4"`);
+
+    const other = await request(app).get(`/api/share/viewer/${OWNER}/notes.bin`).expect(200);
+    expect(other.text).toContain("Preview not available");
+  });
+});
@@ -0,0 +1,125 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import yazl from "yazl";
+import { extractZipArchive, normalizeRelativePath, type ZipExtractOptions } from "../share-batch";
+
+const defaultOptions: ZipExtractOptions = {
+  maxEntries: 100,
+  maxEntryBytes: 1024 * 1024,
+  maxTotalBytes: 10 * 1024 * 1024,
+  validateEntry: (relativePath) => (relativePath.endsWith(".exe") ? "File type .exe not allowed" : null),
+};
+
+describe("normalizeRelativePath", () => {
+  test("normalizes separators and dot segments", () => {
+    expect(normalizeRelativePath("photos\\2024/./cat.png")).toBe("photos/2024/cat.png");
+    expect(normalizeRelativePath("/trip//day1.mp4")).toBe("trip/day1.mp4");
+  });
+
+  test("rejects empty paths and paths that escape the folder", () => {
+    expect(normalizeRelativePath("")).toBeNull();
+    expect(normalizeRelativePath("./")).toBeNull();
+    expect(normalizeRelativePath("../secret.png")).toBeNull();
+    expect(normalizeRelativePath("a/../../b.png")).toBeNull();
+  });
+});
+
+describe("extractZipArchive", () => {
+  let tmpDir: string;
+  let extracted: string[];
+
+  const writeZip = async (entries: Record<string, Buffer | null>): Promise<string> => {
+    const zip = new yazl.ZipFile();
+    for (const [name, data] of Object.entries(entries)) {
+      if (data === null) {
+        zip.addEmptyDirectory(name);
+      } else {
+        zip.addBuffer(data, name);
+      }
+    }
+    zip.end();
+
+    const zipPath = path.join(tmpDir, `archive-${Date.now()}.zip`);
+    await new Promise<void>((resolve, reject) => {
+      zip.outputStream.pipe(fs.createWriteStream(zipPath)).on("close", resolve).on("error", reject);
+    });
+    return zipPath;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "share-batch-test-"));
+    extracted = [];
+  });
+
+  afterEach(() => {
+    for (const tempPath of extracted) fs.rmSync(tempPath, { force: true });
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("unpacks files with their relative paths and skips directories and junk", async () => {
+    const zipPath = await writeZip({
+      "photos/": null,
+      "photos/cat.png": Buffer.from("cat"),
+      "photos/2024/dog.jpg": Buffer.from("dog!"),
+      "readme.pdf": Buffer.from("pdf"),
+      "__MACOSX/photos/._cat.png": Buffer.from("junk"),
+      "photos/.DS_Store": Buffer.from("junk"),
+    });
+
+    const { files, rejected } = await extractZipArchive(zipPath, defaultOptions);
+    extracted = files.map((file) => file.tempPath);
+
+    expect(rejected).toEqual([]);
+    expect(files.map((file) => [file.relativePath, file.size])).toEqual([
+      ["photos/cat.png", 3],
+      ["photos/2024/dog.jpg", 4],
+      ["readme.pdf", 3],
+    ]);
+    expect(fs.readFileSync(files[1].tempPath, "utf8")).toBe("dog!");
+  });
+
+  test("reports entries that fail validation or exceed the limits without extracting them", async () => {
+    const zipPath = await writeZip({
+      "ok.png": Buffer.alloc(10),
+      "tool.exe": Buffer.alloc(10),
+      "huge.mp4": Buffer.alloc(2048),
+      "extra.png": Buffer.alloc(10),
+    });
+
+    const { files, rejected } = await extractZipArchive(zipPath, {
+      ...defaultOptions,
+      maxEntries: 1,
+      maxEntryBytes: 1024,
+    });
+    extracted = files.map((file) => file.tempPath);
+
+    expect(files.map((file) => file.relativePath)).toEqual(["ok.png"]);
+    expect(rejected).toEqual([
+      { relativePath: "tool.exe", error: "File type .exe not allowed" },
+      { relativePath: "huge.mp4", error: "File too large" },
+      { relativePath: "extra.png", error: "Too many files in archive (max 1)" },
+    ]);
+  });
+
+  test("caps the total unpacked size", async () => {
+    const zipPath = await writeZip({
+      "a.png": Buffer.alloc(600),
+      "b.png": Buffer.alloc(600),
+    });
+
+    const { files, rejected } = await extractZipArchive(zipPath, { ...defaultOptions, maxTotalBytes: 1000 });
+    extracted = files.map((file) => file.tempPath);
+
+    expect(files.map((file) => file.relativePath)).toEqual(["a.png"]);
+    expect(rejected).toEqual([{ relativePath: "b.png", error: "Archive too large when unpacked" }]);
+  });
+
+  test("throws for a file that is not a zip archive", async () => {
+    const notZip = path.join(tmpDir, "fake.zip");
+    fs.writeFileSync(notZip, "definitely not a zip");
+
+    await expect(extractZipArchive(notZip, defaultOptions)).rejects.toThrow();
+  });
+});
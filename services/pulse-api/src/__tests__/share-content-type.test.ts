@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { checkShareFileContent, detectContentType } from "../share-content-type";
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+const PDF = Buffer.from("%PDF-1.7\n%\xe2\xe3\xcf\xd3\n", "latin1");
+
+function ftyp(majorBrand: string, compatibleBrands: string[]): Buffer {
+  const size = 16 + compatibleBrands.length * 4;
+  const box = Buffer.alloc(size);
+  box.writeUInt32BE(size, 0);
+  box.write("ftyp", 4, "latin1");
+  box.write(majorBrand, 8, "latin1");
+  compatibleBrands.forEach((brand, i) => box.write(brand, 16 + i * 4, "latin1"));
+  return box;
+}
+
+function ebml(docType: string): Buffer {
+  return Buffer.concat([
+    Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x86, 0x81, 0x01, 0x42, 0x82, 0x80 | docType.length]),
+    Buffer.from(docType, "latin1"),
+  ]);
+}
+
+describe("detectContentType", () => {
+  test("recognises image signatures", () => {
+    expect(detectContentType(PNG)).toBe("image/png");
+    expect(detectContentType(Buffer.from([0xff, 0xd8, 0xff, 0xe0]))).toBe("image/jpeg");
+    expect(detectContentType(Buffer.from("GIF89a\x01\x00", "latin1"))).toBe("image/gif");
+    expect(detectContentType(Buffer.from("RIFF\x00\x00\x00\x00WEBPVP8 ", "latin1"))).toBe("image/webp");
+    expect(detectContentType(Buffer.from([0x00, 0x00, 0x01, 0x00, 0x01, 0x00]))).toBe("image/x-icon");
+    expect(detectContentType(ftyp("avif", ["mif1", "miaf"]))).toBe("image/avif");
+  });
+
+  test("tells container formats apart by brand and doc type", () => {
+    expect(detectContentType(ftyp("isom", ["isom", "mp41"]))).toBe("video/mp4");
+    expect(detectContentType(ftyp("qt  ", ["qt  "]))).toBe("video/quicktime");
+    expect(detectContentType(ftyp("heic", ["mif1", "heic"]))).toBeNull();
+    expect(detectContentType(ebml("webm"))).toBe("video/webm");
+    expect(detectContentType(ebml("matroska"))).toBe("video/x-matroska");
+    expect(detectContentType(Buffer.from("RIFF\x00\x00\x00\x00AVI LIST", "latin1"))).toBe("video/x-msvideo");
+  });
+
+  test("recognises PDFs and SVGs behind an XML prolog", () => {
+    expect(detectContentType(PDF)).toBe("application/pdf");
+    expect(detectContentType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe("image/svg+xml");
+    expect(
+      detectContentType(
+        Buffer.from(
+          '\uFEFF<?xml version="1.0"?>\n<!-- icon -->\n<!DOCTYPE svg PUBLIC "-//W3C//DTD SVG 1.1//EN" "x">\n<svg>'
+        )
+      )
+    ).toBe("image/svg+xml");
+  });
+
+  test("returns null for anything else", () => {
+    expect(detectContentType(Buffer.from("<html><body><svg></svg></body></html>"))).toBeNull();
+    expect(detectContentType(Buffer.from("MZ\x90\x00", "latin1"))).toBeNull();
+    expect(detectContentType(Buffer.alloc(0))).toBeNull();
+  });
+});
+
+describe("checkShareFileContent", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "share-content-type-test-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  function writeFile(name: string, content: Buffer): string {
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  }
+
+  test("returns the detected type when it matches the claimed type", async () => {
+    const filePath = writeFile("upload", PNG);
+
+    await expect(checkShareFileContent(filePath, { name: "cat.png", mimetype: "image/png" })).resolves.toEqual({
+      contentType: "image/png",
+      error: null,
+    });
+    // Generic MIME types (and zip entries, which have none) only have the extension to check
+    await expect(checkShareFileContent(filePath, { name: "cat.png", mimetype: "" })).resolves.toMatchObject({
+      contentType: "image/png",
+    });
+  });
+
+  test("rejects content that doesn't match the MIME type or extension", async () => {
+    const filePath = writeFile("upload", PNG);
+
+    await expect(
+      checkShareFileContent(filePath, { name: "report.pdf", mimetype: "application/octet-stream" })
+    ).resolves.toEqual({
+      contentType: null,
+      error: "File content (image/png) does not match its type (application/pdf)",
+    });
+    await expect(checkShareFileContent(filePath, { name: "cat.png", mimetype: "image/gif" })).resolves.toMatchObject({
+      error: "File content (image/png) does not match its type (image/gif)",
+    });
+  });
+
+  test("rejects unsupported content whatever it claims to be", async () => {
+    const filePath = writeFile("upload", Buffer.from("<html><script>alert(1)</script></html>"));
+
+    await expect(checkShareFileContent(filePath, { name: "page.png", mimetype: "image/png" })).resolves.toEqual({
+      contentType: null,
+      error: "File content is not a supported type",
+    });
+  });
+
+  test("accepts types that share a container format", async () => {
+    const filePath = writeFile("upload", ftyp("qt  ", ["qt  "]));
+
+    await expect(checkShareFileContent(filePath, { name: "clip.mp4", mimetype: "video/mp4" })).resolves.toEqual({
+      contentType: "video/quicktime",
+      error: null,
+    });
+  });
+});
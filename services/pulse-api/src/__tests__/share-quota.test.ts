@@ -0,0 +1,121 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import type { ShareClient } from "../share-quota";
+
+// db.ts reads DATA_DIR when it is first imported, so the modules are loaded after it is set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "share-quota-test-"));
+process.env.DATA_DIR = dataDir;
+const { closeDatabase, initDatabase } = await import("../db");
+const { ShareQuotaService } = await import("../share-quota");
+
+const HOUR_MS = 60 * 60 * 1000;
+// 2026-03-10T10:15:00Z
+const now = Date.UTC(2026, 2, 10, 10, 15);
+
+describe("ShareQuotaService", () => {
+  beforeAll(() => {
+    initDatabase();
+  });
+
+  afterAll(() => {
+    closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("reports the full quota with reset times for a new client", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 1000, filesPerHour: 5 });
+
+    const quota = service.getQuota({ scope: "ip", key: "10.0.0.1" }, now);
+
+    expect(quota.bytesPerDay).toEqual({
+      limit: 1000,
+      used: 0,
+      remaining: 1000,
+      resetAt: "2026-03-11T00:00:00.000Z",
+      scope: "ip",
+    });
+    expect(quota.filesPerHour).toMatchObject({ remaining: 5, resetAt: "2026-03-10T11:00:00.000Z" });
+  });
+
+  test("counts bytes for the whole day but files only for the current hour", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 1000, filesPerHour: 5 });
+    const client: ShareClient = { scope: "ip", key: "10.0.0.2" };
+
+    service.recordUsage(client, { bytes: 300, files: 3 }, now - HOUR_MS);
+    service.recordUsage(client, { bytes: 200, files: 1 }, now);
+    // Yesterday's usage no longer counts
+    service.recordUsage(client, { bytes: 900, files: 4 }, now - 12 * HOUR_MS);
+
+    const quota = service.getQuota(client, now);
+    expect(quota.bytesPerDay).toMatchObject({ used: 500, remaining: 500 });
+    expect(quota.filesPerHour).toMatchObject({ used: 1, remaining: 4 });
+  });
+
+  test("keeps a wallet's quota apart from the IPs it uploads from", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 1000, filesPerHour: 5 });
+    const wallet: ShareClient = { scope: "wallet", key: "0xabc" };
+    const ip: ShareClient = { scope: "ip", key: "10.0.0.4" };
+
+    service.recordUsage(wallet, { bytes: 800, files: 1 }, now);
+    service.recordUsage(ip, { bytes: 0, files: 4 }, now);
+
+    expect(service.getQuota(wallet, now).bytesPerDay).toMatchObject({ used: 800, remaining: 200, scope: "wallet" });
+    expect(service.getQuota(ip, now)).toMatchObject({
+      bytesPerDay: { used: 0, remaining: 1000, scope: "ip" },
+      filesPerHour: { used: 4, remaining: 1, scope: "ip" },
+    });
+  });
+
+  test("reserves quota for requests in flight and settles it with what they used", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 1000, filesPerHour: 5 });
+    const client: ShareClient = { scope: "ip", key: "10.0.0.6" };
+
+    const first = service.reserve(client, { bytes: 600, maxFiles: 1 }, now);
+    expect(first.reservation?.usage).toEqual({ bytes: 600, files: 1 });
+    // A second request sees the first one's reservation
+    expect(service.reserve(client, { bytes: 600, maxFiles: 1 }, now)).toMatchObject({
+      reservation: null,
+      reason: "bytes_per_day",
+      quota: { bytesPerDay: { used: 600, remaining: 400 } },
+    });
+
+    // The first upload turned out smaller, so the rest is refunded
+    if (!first.reservation) throw new Error("expected a reservation");
+    service.settle(first.reservation, { bytes: 450, files: 1 }, now);
+    expect(service.getQuota(client, now).bytesPerDay).toMatchObject({ used: 450, remaining: 550 });
+
+    // A batch holds every file and byte left for it, up to its own file limit
+    const batch = service.reserve(client, { bytes: 100, maxFiles: 100, unpacks: true }, now);
+    expect(batch.reservation?.usage).toEqual({ bytes: 550, files: 4 });
+    if (!batch.reservation) throw new Error("expected a reservation");
+    service.settle(batch.reservation, { bytes: 0, files: 0 }, now);
+    expect(service.getQuota(client, now).filesPerHour).toMatchObject({ used: 1, remaining: 4 });
+  });
+
+  test("treats a limit of 0 as unlimited", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 0, filesPerHour: 0 });
+    const client: ShareClient = { scope: "ip", key: "10.0.0.5" };
+    service.recordUsage(client, { bytes: 10_000, files: 50 }, now);
+
+    const quota = service.getQuota(client, now);
+    expect(quota.bytesPerDay).toMatchObject({ limit: null, used: 10_000, remaining: null });
+    expect(quota.filesPerHour).toMatchObject({ limit: null, remaining: null });
+  });
+
+  test("lists today's usage per client, heaviest first", () => {
+    const service = new ShareQuotaService({ bytesPerDay: 1000, filesPerHour: 5 });
+    const later = now + 24 * HOUR_MS;
+    service.recordUsage({ scope: "ip", key: "10.0.1.1" }, { bytes: 10, files: 1 }, later);
+    service.recordUsage({ scope: "ip", key: "10.0.1.2" }, { bytes: 50, files: 2 }, later);
+    service.recordUsage({ scope: "wallet", key: "0xdef" }, { bytes: 50, files: 2 }, later);
+
+    expect(service.getUsageReport({ limit: 10 }, later)).toEqual([
+      { scope: "ip", client_key: "10.0.1.2", bytes_today: 50, files_this_hour: 2 },
+      { scope: "wallet", client_key: "0xdef", bytes_today: 50, files_this_hour: 2 },
+      { scope: "ip", client_key: "10.0.1.1", bytes_today: 10, files_this_hour: 1 },
+    ]);
+    expect(service.getUsageReport({ scope: "wallet", limit: 10 }, later)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,112 @@
+import { execFileSync } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import sharp from "sharp";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { generateThumbnail, THUMBNAIL_SIZE } from "../share-thumbnail";
+
+/**
+ * A one-page PDF with a filled rectangle, with a valid xref table
+ */
+function buildPdf(width: number, height: number): Buffer {
+  const content = "1 0 0 rg 10 10 100 50 re f";
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Contents 4 0 R >>`,
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets = objects.map((object, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+describe("generateThumbnail", () => {
+  let tmpDir: string;
+
+  beforeAll(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "share-thumbnail-test-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("scales images down to fit the thumbnail size", async () => {
+    const filePath = path.join(tmpDir, "wide.png");
+    await sharp({ create: { width: 1600, height: 800, channels: 3, background: "#ff1493" } })
+      .png()
+      .toFile(filePath);
+
+    const thumbnail = await generateThumbnail(filePath, "image/png");
+
+    const metadata = await sharp(thumbnail ?? Buffer.alloc(0)).metadata();
+    expect(metadata).toMatchObject({ format: "webp", width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE / 2 });
+  });
+
+  test("does not enlarge small images", async () => {
+    const filePath = path.join(tmpDir, "small.png");
+    await sharp({ create: { width: 40, height: 30, channels: 4, background: "#00000000" } })
+      .png()
+      .toFile(filePath);
+
+    const thumbnail = await generateThumbnail(filePath, "image/png");
+
+    expect(await sharp(thumbnail ?? Buffer.alloc(0)).metadata()).toMatchObject({ width: 40, height: 30 });
+  });
+
+  test("renders the first page of a PDF", async () => {
+    const filePath = path.join(tmpDir, "doc.pdf");
+    fs.writeFileSync(filePath, buildPdf(200, 400));
+
+    const thumbnail = await generateThumbnail(filePath, "application/pdf");
+
+    expect(await sharp(thumbnail ?? Buffer.alloc(0)).metadata()).toMatchObject({
+      format: "webp",
+      width: THUMBNAIL_SIZE / 2,
+      height: THUMBNAIL_SIZE,
+    });
+  });
+
+  test("takes a poster frame from a video, even one shorter than the poster offset", async () => {
+    const filePath = path.join(tmpDir, "clip.mp4");
+    execFileSync(ffmpeg.path, [
+      "-hide_banner",
+      "-loglevel",
+      "error",
+      "-f",
+      "lavfi",
+      "-i",
+      "testsrc=duration=0.5:size=640x360:rate=10",
+      "-pix_fmt",
+      "yuv420p",
+      filePath,
+    ]);
+
+    const thumbnail = await generateThumbnail(filePath, "video/mp4");
+
+    expect(await sharp(thumbnail ?? Buffer.alloc(0)).metadata()).toMatchObject({
+      format: "webp",
+      width: THUMBNAIL_SIZE,
+      height: 180,
+    });
+  });
+
+  test("skips types without a preview", async () => {
+    const filePath = path.join(tmpDir, "favicon.ico");
+    fs.writeFileSync(filePath, Buffer.from([0x00, 0x00, 0x01, 0x00, 0x01, 0x00]));
+
+    await expect(generateThumbnail(filePath, "image/x-icon")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import type { BlobEventRecord } from "../db";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { getStorageProjection } = await import("../storage-projection");
+
+const OWNER = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-10T12:00:00Z");
+
+let nextVersion = 100;
+
+function blob(size: number, createdAt: number, expiresAt: number | null): BlobEventRecord {
+  const version = nextVersion++;
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `${OWNER}/blob-${version}`,
+    owner_address: OWNER,
+    size_bytes: size,
+    encoding: null,
+    blob_name: `blob-${version}`,
+    creation_timestamp: createdAt,
+    expiration_timestamp: expiresAt,
+  };
+}
+
+beforeEach(() => {
+  db.initDatabase();
+  db.insertBlobEvents([
+    // Expired
+    blob(5000, NOW - 400 * DAY, NOW - 10 * DAY),
+    blob(700, NOW - 40 * DAY, NOW),
+    // Live: expiring on day 1, day 30, day 200 and never
+    blob(100, NOW - 20 * DAY, NOW + 1),
+    blob(200, NOW - 10 * DAY, NOW + 30 * DAY),
+    blob(400, NOW - 50 * DAY, NOW + 200 * DAY),
+    blob(800, NOW - 1 * DAY, null),
+  ]);
+});
+
+afterEach(() => {
+  db.closeDatabase();
+});
+
+describe("blob expiration", () => {
+  test("splits storage into live and expired", () => {
+    expect(db.getBlobExpirationStats(NOW, NOW + 30 * DAY)).toEqual({
+      live_blobs: 4,
+      live_bytes: 1500,
+      expired_blobs: 2,
+      expired_bytes: 5700,
+      expiring_blobs: 2,
+      expiring_bytes: 300,
+      deleted_blobs: 0,
+      deleted_bytes: 0,
+    });
+    expect(db.getTotalBlobStorage(NOW)).toBe(1500);
+    expect(db.getTotalBlobStorage(NOW + 31 * DAY)).toBe(1200);
+  });
+
+  test("lists the live blobs expiring in a window, soonest first", () => {
+    const sizes = (until: number, limit = 10, offset = 0) =>
+      db.getExpiringBlobs(NOW, until, limit, offset).map((row) => row.size_bytes);
+
+    expect(sizes(NOW + 365 * DAY)).toEqual([100, 200, 400]);
+    expect(sizes(NOW + 365 * DAY, 1, 1)).toEqual([200]);
+    expect(sizes(NOW + 29 * DAY)).toEqual([100]);
+  });
+
+  test("projects live storage a year ahead", () => {
+    const projection = getStorageProjection(NOW);
+
+    expect(projection.liveBytes).toBe(1500);
+    // 100 + 200 + 800 bytes were created in the last 30 days
+    expect(projection.dailyUploadBytes).toBe(Math.round(1100 / 30));
+    expect(projection.points).toHaveLength(366);
+    expect(projection.points[0]).toEqual({ timestamp: NOW, retainedBytes: 1500, projectedBytes: 1500, expiringBytes: 0 });
+    expect(projection.points[1]).toMatchObject({ retainedBytes: 1400, expiringBytes: 100 });
+    expect(projection.points[200]).toMatchObject({ retainedBytes: 800, expiringBytes: 400 });
+
+    expect(projection.horizons).toEqual([
+      { days: 30, retainedBytes: 1200, projectedBytes: 1200 + 37 * 30, expiringBlobs: 2, expiringBytes: 300 },
+      { days: 90, retainedBytes: 1200, projectedBytes: 1200 + 37 * 90, expiringBlobs: 2, expiringBytes: 300 },
+      { days: 365, retainedBytes: 800, projectedBytes: 800 + 37 * 365, expiringBlobs: 3, expiringBytes: 700 },
+    ]);
+  });
+});
@@ -0,0 +1,274 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "vitest";
+import { ShelbyAptosClient } from "../aptos-client";
+import { loadConfig } from "../config";
+import type { IndexerTransport } from "../indexer-transport";
+import { checkpointRanges, dropPartialTransaction } from "../sync-checkpoints";
+
+// db.ts reads DATA_DIR when it is first imported, so the modules are loaded after it is set
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "sync-verifier-test-"));
+process.env.DATA_DIR = dataDir;
+const db = await import("../db");
+const { incrementalSync } = await import("../sync-service");
+const { incrementalBlobSync } = await import("../blob-sync-service");
+const { verifySyncCheckpoints, getSyncVerificationStatus } = await import("../sync-verifier");
+
+const ALICE = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000000000000000000000000000b0b";
+const CAROL = "0x00000000000000000000000000000000000000000000000000000000000ca201";
+
+const SETTLED = 11 * 60 * 1000;
+
+type VersionFilter = { _gt?: string; _gte?: string; _lte?: string };
+
+interface IndexedRow {
+  transaction_version: number;
+  event_index: number;
+}
+
+/**
+ * Just enough of the indexer's GraphQL API to answer the sync queries
+ */
+const indexer = {
+  activities: [] as Array<IndexedRow & Record<string, unknown>>,
+  blobEvents: [] as Array<IndexedRow & { data: Record<string, unknown> }>,
+  blobLifecycle: [] as Array<IndexedRow & { type: string; data: Record<string, unknown> }>,
+  aggregates: true,
+  failing: false,
+};
+
+function inRange(version: number, versions: VersionFilter): boolean {
+  return (
+    (versions._gt === undefined || version > Number(versions._gt)) &&
+    (versions._gte === undefined || version >= Number(versions._gte)) &&
+    (versions._lte === undefined || version <= Number(versions._lte))
+  );
+}
+
+async function answerIndexer(query: string, variables: Record<string, unknown> = {}): Promise<Response> {
+  const operation = /query (\w+)/.exec(query)?.[1] ?? "";
+  if (indexer.failing || (operation.startsWith("Count") && !indexer.aggregates)) {
+    return Response.json({ errors: [{ message: "upstream request timeout" }] });
+  }
+
+  const source: IndexedRow[] = operation.includes("BlobLifecycle")
+    ? indexer.blobLifecycle
+    : operation.includes("Blob")
+      ? indexer.blobEvents
+      : indexer.activities;
+  const { versions, offset = 0, limit = 0 } = variables as { versions: VersionFilter; offset?: number; limit?: number };
+  const rows = source
+    .filter((row) => inRange(row.transaction_version, versions))
+    .sort((a, b) => a.transaction_version - b.transaction_version || a.event_index - b.event_index);
+  const page = rows.slice(offset, offset + limit);
+
+  switch (operation) {
+    case "GetActivities":
+      return Response.json({ data: { fungible_asset_activities: page } });
+    case "CountActivities":
+      return Response.json({ data: { fungible_asset_activities_aggregate: { aggregate: { count: rows.length } } } });
+    case "GetBlobEvents":
+    case "GetBlobLifecycleEvents":
+      return Response.json({ data: { events: page } });
+    case "CountBlobEvents":
+    case "CountBlobLifecycleEvents":
+      return Response.json({ data: { events_aggregate: { aggregate: { count: rows.length } } } });
+    default:
+      throw new Error(`Unexpected indexer query ${operation}`);
+  }
+}
+
+const indexerTransport: IndexerTransport = {
+  graphql: answerIndexer,
+  rest: async (path) => {
+    throw new Error(`Unexpected fullnode request ${path}`);
+  },
+};
+const aptosClient = new ShelbyAptosClient(loadConfig(), indexerTransport);
+
+function activity(version: number, eventIndex: number, owner: string, type: string, amount: number) {
+  return {
+    owner_address: owner,
+    type: `0x1::fungible_asset::${type}`,
+    amount,
+    transaction_version: version,
+    transaction_timestamp: "2026-03-09T14:00:00.000000",
+    event_index: eventIndex,
+  };
+}
+
+function blobEvent(version: number, eventIndex: number, name: string) {
+  return {
+    transaction_version: version,
+    event_index: eventIndex,
+    data: {
+      blob_id: `${ALICE}/${name}`,
+      owner: ALICE,
+      blob_size: "2048",
+      encoding: { __variant__: "ClayCode_16Total_10Data_13Helper" },
+      blob_name: name,
+      creation_micros: "1773064800000000",
+      expiration_micros: "1775656800000000",
+    },
+  };
+}
+
+function blobDeleted(version: number, eventIndex: number, name: string) {
+  return {
+    transaction_version: version,
+    event_index: eventIndex,
+    type: "0xc63d6a5efb0080a6029403131715bd4971e1149f7cc099aac69bb0069b3ddbf5::blob_metadata::BlobDeletedEvent",
+    data: { blob_name: `${ALICE}/${name}`, owner: ALICE },
+  };
+}
+
+describe("checkpointRanges", () => {
+  const rows = (...versions: number[]) => versions.map((transaction_version) => ({ transaction_version }));
+
+  test("covers every version after the last sync, including ones without rows", () => {
+    expect(checkpointRanges(99, rows(120, 130, 130))).toEqual([{ from_version: 100, to_version: 130, row_count: 3 }]);
+    expect(checkpointRanges(99, [])).toEqual([]);
+  });
+
+  test("splits large syncs into contiguous ranges without splitting a transaction", () => {
+    expect(checkpointRanges(0, rows(1, 2, 2, 2, 5, 6, 7), 2)).toEqual([
+      { from_version: 1, to_version: 2, row_count: 4 },
+      { from_version: 3, to_version: 6, row_count: 2 },
+      { from_version: 7, to_version: 7, row_count: 1 },
+    ]);
+  });
+
+  test("drops the trailing transaction of an incomplete fetch", () => {
+    expect(dropPartialTransaction(rows(1, 2, 2))).toEqual(rows(1));
+    expect(dropPartialTransaction(rows(3, 3))).toEqual([]);
+  });
+});
+
+describe("sync checkpoint verification", () => {
+  let now: number;
+
+  beforeAll(() => {
+    db.initDatabase();
+  });
+
+  beforeEach(() => {
+    now = Date.now();
+  });
+
+  afterAll(() => {
+    db.closeDatabase();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test("records what each sync covered", async () => {
+    // The indexer hasn't processed the transfer at version 200 yet
+    indexer.activities = [
+      activity(100, 0, ALICE, "Mint", 1000),
+      activity(300, 0, BOB, "Withdraw", 50),
+      activity(300, 1, CAROL, "Deposit", 50),
+    ];
+
+    await expect(incrementalSync(aptosClient)).resolves.toBe(3);
+
+    expect(getSyncVerificationStatus().checkpoints.activities).toEqual({ open: 1, verified: 0, repaired: 0 });
+  });
+
+  test("leaves ranges alone until they have settled", async () => {
+    await expect(verifySyncCheckpoints(aptosClient, now)).resolves.toEqual({ verified: 0, repaired: 0, failed: 0 });
+  });
+
+  test("repairs a range the sync skipped rows in, and drops rows the indexer no longer has", async () => {
+    indexer.activities.push(activity(200, 0, ALICE, "Withdraw", 400), activity(200, 1, BOB, "Deposit", 400));
+    // A row from a transaction the indexer has since dropped
+    db.insertActivities([
+      { transaction_version: 250, event_index: 0, address: CAROL, amount: 9, type: "deposit", timestamp: now },
+    ]);
+    db.updateAddressStats([
+      { transaction_version: 250, event_index: 0, address: CAROL, amount: 9, type: "deposit", timestamp: now },
+    ]);
+
+    await expect(verifySyncCheckpoints(aptosClient, now + SETTLED)).resolves.toEqual({
+      verified: 0,
+      repaired: 1,
+      failed: 0,
+    });
+
+    expect(db.getSyncedRowKeys("activities", 0, 1000).sort()).toEqual(["100:0", "200:0", "200:1", "300:0", "300:1"]);
+    expect(db.getDatabase().prepare("SELECT total_deposited FROM address_stats WHERE address = ?").get(CAROL)).toEqual({
+      total_deposited: 50,
+    });
+    expect(db.getDatabase().prepare("SELECT total_withdrawn FROM address_stats WHERE address = ?").get(ALICE)).toEqual({
+      total_withdrawn: 400,
+    });
+
+    const status = getSyncVerificationStatus();
+    expect(status.checkpoints.activities).toEqual({ open: 0, verified: 0, repaired: 1 });
+    expect(status.discrepancies).toMatchObject([
+      {
+        stream: "activities",
+        fromVersion: 1,
+        toVersion: 300,
+        status: "repaired",
+        syncedCount: 3,
+        indexerCount: 5,
+        localCount: 4,
+        missing: 2,
+        extra: 1,
+        error: null,
+      },
+    ]);
+  });
+
+  test("keeps a range open and reports the error when the indexer fails", async () => {
+    indexer.blobEvents = [blobEvent(500, 0, "photos/cat.png"), blobEvent(500, 1, "photos/dog.png")];
+    await expect(incrementalBlobSync(aptosClient)).resolves.toBe(2);
+
+    indexer.failing = true;
+    await expect(verifySyncCheckpoints(aptosClient, now + SETTLED)).resolves.toMatchObject({ failed: 1 });
+
+    const status = getSyncVerificationStatus();
+    expect(status.checkpoints.blobEvents).toEqual({ open: 1, verified: 0, repaired: 0 });
+    expect(status.discrepancies[0]).toMatchObject({
+      stream: "blob_events",
+      fromVersion: 1,
+      toVersion: 500,
+      status: "open",
+      error: "Couldn't fetch blob events for versions 1-500",
+    });
+  });
+
+  test("counts the rows themselves when the indexer has no aggregates", async () => {
+    indexer.failing = false;
+    indexer.aggregates = false;
+
+    await expect(verifySyncCheckpoints(aptosClient, now + SETTLED)).resolves.toEqual({
+      verified: 1,
+      repaired: 0,
+      failed: 0,
+    });
+
+    const status = getSyncVerificationStatus();
+    expect(status.checkpoints.blobEvents).toEqual({ open: 0, verified: 1, repaired: 0 });
+    expect(status.discrepancies.map((d) => d.stream)).toEqual(["activities"]);
+  });
+
+  test("repairs the blob lifecycle stream like the others", async () => {
+    indexer.aggregates = true;
+    indexer.blobLifecycle = [blobDeleted(600, 0, "photos/cat.png")];
+    await expect(incrementalBlobSync(aptosClient)).resolves.toBe(1);
+    expect(db.getBlobStatusCounts()).toMatchObject({ registered: 1, deleted: 1 });
+
+    // The indexer caught up with a second deletion in the synced range
+    indexer.blobLifecycle.unshift(blobDeleted(550, 0, "photos/dog.png"));
+    await expect(verifySyncCheckpoints(aptosClient, now + SETTLED)).resolves.toEqual({
+      verified: 0,
+      repaired: 1,
+      failed: 0,
+    });
+
+    expect(getSyncVerificationStatus().checkpoints.blobLifecycle).toEqual({ open: 0, verified: 0, repaired: 1 });
+    expect(db.getBlobStatusCounts()).toMatchObject({ registered: 0, deleted: 2 });
+  });
+});
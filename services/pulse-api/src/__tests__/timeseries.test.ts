@@ -0,0 +1,175 @@
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import type { ActivityRecord, BlobEventRecord } from "../db";
+
+// db.ts reads DB_PATH when it is first imported, so the modules are loaded after it is set
+process.env.DB_PATH = ":memory:";
+const db = await import("../db");
+const { rollupTimeseries, getTimeseries, bucketStart, countBuckets } = await import("../timeseries");
+
+const ALICE = "0x00000000000000000000000000000000000000000000000000000000000a11ce";
+const BOB = "0x0000000000000000000000000000000000000000000000000000000000000b0b";
+const CAROL = "0x00000000000000000000000000000000000000000000000000000000000ca201";
+const DAVE = "0x000000000000000000000000000000000000000000000000000000000000da7e";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.parse("2026-03-10T12:30:00Z");
+
+let nextVersion = 100;
+
+function blob(owner: string, size: number, createdAt: string | null): BlobEventRecord {
+  const version = nextVersion++;
+  return {
+    transaction_version: version,
+    event_index: 0,
+    blob_id: `${owner}/blob-${version}`,
+    owner_address: owner,
+    size_bytes: size,
+    encoding: null,
+    blob_name: `blob-${version}`,
+    creation_timestamp: createdAt === null ? null : Date.parse(createdAt),
+    expiration_timestamp: null,
+  };
+}
+
+function activity(type: ActivityRecord["type"], amount: number, at: string): ActivityRecord {
+  return {
+    transaction_version: nextVersion++,
+    event_index: 0,
+    address: ALICE,
+    amount,
+    type,
+    timestamp: Date.parse(at),
+  };
+}
+
+function values(metric: Parameters<typeof getTimeseries>[0], bucket: "hour" | "day", from: string, to = NOW) {
+  return getTimeseries(metric, bucket, { from: Date.parse(from), to }).points.map((point) => [
+    new Date(point.timestamp).toISOString().slice(0, 13),
+    point.value,
+  ]);
+}
+
+beforeEach(() => {
+  db.initDatabase();
+});
+
+afterEach(() => {
+  db.closeDatabase();
+});
+
+describe("timeseries rollup", () => {
+  test("writes nothing before any events are synced", () => {
+    expect(rollupTimeseries(NOW)).toBe(0);
+    expect(getTimeseries("blob_count", "hour", { to: NOW })).toEqual({
+      metric: "blob_count",
+      bucket: "hour",
+      from: Date.parse("2026-03-03T12:00:00Z"),
+      to: Date.parse("2026-03-10T12:00:00Z"),
+      points: [],
+    });
+  });
+
+  test("rolls blobs and ShelbyUSD activity up into hourly and daily buckets", () => {
+    db.insertBlobEvents([
+      blob(ALICE, 100, "2025-01-01T08:00:00Z"),
+      blob(ALICE, 1000, "2026-03-08T05:10:00Z"),
+      blob(ALICE, 500, "2026-03-10T10:05:00Z"),
+      blob(BOB, 200, "2026-03-10T10:40:00Z"),
+      blob(CAROL, 300, "2026-03-10T12:10:00Z"),
+      // Without a creation time there's no bucket to put it in
+      blob(DAVE, 9999, null),
+    ]);
+    db.insertActivities([
+      activity("mint", 1000, "2026-03-10T10:15:00Z"),
+      activity("deposit", 50, "2026-03-10T10:20:00Z"),
+      activity("mint", 5, "2026-03-10T12:01:00Z"),
+    ]);
+
+    rollupTimeseries(NOW);
+
+    // Totals carry everything registered before the hourly history starts
+    expect(values("blob_count", "hour", "2026-03-10T09:00:00Z")).toEqual([
+      ["2026-03-10T09", 2],
+      ["2026-03-10T10", 4],
+      ["2026-03-10T11", 4],
+      ["2026-03-10T12", 5],
+    ]);
+    expect(values("bytes_stored", "hour", "2026-03-10T09:00:00Z").map(([, value]) => value)).toEqual([
+      1100, 1800, 1800, 2100,
+    ]);
+    expect(values("unique_owners", "hour", "2026-03-10T09:00:00Z").map(([, value]) => value)).toEqual([1, 2, 2, 3]);
+    expect(values("shelbyusd_volume", "hour", "2026-03-10T09:00:00Z").map(([, value]) => value)).toEqual([
+      0, 1050, 0, 5,
+    ]);
+    expect(values("shelbyusd_mints", "hour", "2026-03-10T09:00:00Z").map(([, value]) => value)).toEqual([0, 1, 0, 1]);
+
+    expect(values("blob_count", "day", "2026-03-07T00:00:00Z")).toEqual([
+      ["2026-03-07T00", 1],
+      ["2026-03-08T00", 2],
+      ["2026-03-09T00", 2],
+      ["2026-03-10T00", 5],
+    ]);
+    expect(values("shelbyusd_mints", "day", "2026-03-10T00:00:00Z")).toEqual([["2026-03-10T00", 2]]);
+  });
+
+  test("fills daily buckets from the oldest event but hourly ones only for 90 days", () => {
+    db.insertBlobEvents([blob(ALICE, 100, "2025-01-01T08:00:00Z")]);
+
+    rollupTimeseries(NOW);
+
+    const daily = getTimeseries("blob_count", "day", { from: 0, to: NOW }).points;
+    expect(daily[0]).toEqual({ timestamp: Date.parse("2025-01-01T00:00:00Z"), value: 1 });
+    expect(daily).toHaveLength(countBuckets("day", Date.parse("2025-01-01"), NOW));
+
+    const hourly = getTimeseries("blob_count", "hour", { from: 0, to: NOW }).points;
+    expect(hourly[0].timestamp).toBe(bucketStart(NOW - 90 * 24 * HOUR, "hour"));
+    expect(hourly.every((point) => point.value === 1)).toBe(true);
+  });
+
+  test("recomputes recent buckets when late events arrive", () => {
+    db.insertBlobEvents([blob(ALICE, 1000, "2026-03-09T05:10:00Z"), blob(BOB, 200, "2026-03-10T10:40:00Z")]);
+    rollupTimeseries(NOW);
+    expect(values("unique_owners", "hour", "2026-03-10T09:00:00Z").map(([, value]) => value)).toEqual([1, 2, 2, 2]);
+
+    // Synced an hour later, but created before the last rollup
+    db.insertBlobEvents([blob(ALICE, 10, "2026-03-10T09:30:00Z"), blob(DAVE, 20, "2026-03-10T11:15:00Z")]);
+    rollupTimeseries(NOW + HOUR);
+
+    expect(values("blob_count", "hour", "2026-03-10T09:00:00Z", NOW + HOUR)).toEqual([
+      ["2026-03-10T09", 2],
+      ["2026-03-10T10", 3],
+      ["2026-03-10T11", 4],
+      ["2026-03-10T12", 4],
+      ["2026-03-10T13", 4],
+    ]);
+    expect(values("unique_owners", "hour", "2026-03-10T09:00:00Z", NOW + HOUR).map(([, value]) => value)).toEqual([
+      1, 2, 3, 3, 3,
+    ]);
+    expect(values("blob_count", "day", "2026-03-09T00:00:00Z")).toEqual([
+      ["2026-03-09T00", 1],
+      ["2026-03-10T00", 4],
+    ]);
+  });
+
+  test("recomputes the ShelbyUSD buckets when a full resync swaps in its activities", () => {
+    db.insertBlobEvents([blob(BOB, 300, "2026-03-10T09:40:00Z")]);
+    db.insertActivities([activity("mint", 1000, "2026-03-10T10:15:00Z")]);
+    rollupTimeseries(NOW);
+    const blobCounts = values("blob_count", "hour", "2026-03-10T09:00:00Z");
+
+    db.insertResyncActivities([activity("mint", 7, "2026-03-10T11:15:00Z")]);
+    db.swapInResyncShadow([]);
+
+    // Before the next rollup, in the same transaction as the swap
+    expect(values("shelbyusd_volume", "hour", "2026-03-10T09:00:00Z")).toEqual([
+      ["2026-03-10T09", 0],
+      ["2026-03-10T10", 0],
+      ["2026-03-10T11", 7],
+      ["2026-03-10T12", 0],
+    ]);
+    expect(values("shelbyusd_mints", "day", "2026-03-10T00:00:00Z")).toEqual([["2026-03-10T00", 1]]);
+    // The blob buckets don't depend on activities and are kept
+    expect(values("blob_count", "hour", "2026-03-10T09:00:00Z")).toEqual(blobCounts);
+    expect(blobCounts.at(-1)).toEqual(["2026-03-10T12", 1]);
+  });
+});
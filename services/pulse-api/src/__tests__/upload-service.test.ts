@@ -0,0 +1,497 @@
+import { createHash, randomBytes } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import type { ShareBlobIndexRecord } from "../db";
+import type { RegisterBlobPayload, ShelbyStorageClient } from "../shelby-storage-client";
+import {
+  UploadService,
+  WalletUploadLimitError,
+  type ShareBlobIndex,
+  type UploadProgress,
+  type UploadServiceOptions,
+} from "../upload-service";
+
+/**
+ * In-memory stand-in for the Shelby coordination contract and RPC
+ */
+class FakeShelbyClient implements ShelbyStorageClient {
+  readonly registered = new Set<string>();
+  readonly stored = new Map<string, Buffer>();
+  commitmentChunks = 0;
+  registerCalls = 0;
+  registerDelayMs = 0;
+  activeRegistrations = 0;
+  maxActiveRegistrations = 0;
+  failNextRegisterWith: string | null = null;
+  fundCalls = 0;
+
+  private uploads = new Map<string, { key: string; parts: Map<number, Buffer> }>();
+  private nextUploadId = 0;
+  // Transactions submitted by "wallets", by hash
+  private walletTransactions = new Map<string, { sender: string; payload: RegisterBlobPayload }>();
+
+  async blobExists(owner: string, blobName: string): Promise<boolean> {
+    return this.registered.has(`${owner}/${blobName}`);
+  }
+
+  async generateCommitments(data: ReadableStream<Uint8Array>): Promise<{ blobMerkleRoot: string }> {
+    let size = 0;
+    for await (const chunk of data as unknown as AsyncIterable<Uint8Array>) {
+      this.commitmentChunks++;
+      size += chunk.length;
+    }
+    return { blobMerkleRoot: `0xroot${size}` };
+  }
+
+  async registerBlob(params: {
+    signer: { accountAddress: { toString(): string } };
+    blobName: string;
+  }): Promise<string> {
+    this.registerCalls++;
+    if (this.failNextRegisterWith) {
+      const message = this.failNextRegisterWith;
+      this.failNextRegisterWith = null;
+      throw new Error(message);
+    }
+
+    this.activeRegistrations++;
+    this.maxActiveRegistrations = Math.max(this.maxActiveRegistrations, this.activeRegistrations);
+    await new Promise((resolve) => setTimeout(resolve, this.registerDelayMs));
+    this.activeRegistrations--;
+
+    this.registered.add(`${params.signer.accountAddress.toString()}/${params.blobName}`);
+    return `0xtx${this.registerCalls}`;
+  }
+
+  createRegisterBlobPayload(params: {
+    blobName: string;
+    blobMerkleRoot: string;
+    size: number;
+    expirationMicros: number;
+  }): RegisterBlobPayload {
+    return {
+      function: "0xshelby::blob_metadata::register_blob",
+      typeArguments: [],
+      functionArguments: [params.blobName, params.expirationMicros, params.blobMerkleRoot, 1, params.size, 0, 0],
+    };
+  }
+
+  /**
+   * What a connected wallet does with the payload: sign and submit it as the sender
+   */
+  submitWalletTransaction(sender: string, payload: RegisterBlobPayload): string {
+    const hash = `0xwallettx${this.walletTransactions.size}`;
+    this.walletTransactions.set(hash, { sender, payload });
+    this.registered.add(`${sender}/${payload.functionArguments[0]}`);
+    return hash;
+  }
+
+  async verifyBlobRegistration(params: {
+    transactionHash: string;
+    owner: string;
+    blobName: string;
+    blobMerkleRoot: string;
+  }): Promise<void> {
+    const transaction = this.walletTransactions.get(params.transactionHash);
+    if (!transaction) throw new Error("Transaction not found");
+    const [blobName, , blobMerkleRoot] = transaction.payload.functionArguments;
+    if (
+      transaction.sender !== params.owner ||
+      blobName !== params.blobName ||
+      blobMerkleRoot !== params.blobMerkleRoot
+    ) {
+      throw new Error("Transaction did not register the prepared blob");
+    }
+  }
+
+  async startMultipartUpload(params: { owner: string; blobName: string }): Promise<string> {
+    const uploadId = `upload-${this.nextUploadId++}`;
+    this.uploads.set(uploadId, { key: `${params.owner}/${params.blobName}`, parts: new Map() });
+    return uploadId;
+  }
+
+  async uploadPart(uploadId: string, partIdx: number, data: Uint8Array): Promise<void> {
+    this.getUpload(uploadId).parts.set(partIdx, Buffer.from(data));
+  }
+
+  async completeMultipartUpload(uploadId: string): Promise<void> {
+    const upload = this.getUpload(uploadId);
+    const ordered = [...upload.parts.entries()].sort(([a], [b]) => a - b).map(([, part]) => part);
+    this.stored.set(upload.key, Buffer.concat(ordered));
+    this.uploads.delete(uploadId);
+  }
+
+  async fundAccountWithShelbyUSD(): Promise<void> {
+    this.fundCalls++;
+  }
+
+  async fundAccountWithAPT(): Promise<void> {}
+
+  private getUpload(uploadId: string): { key: string; parts: Map<number, Buffer> } {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) throw new Error(`Unknown upload ${uploadId}`);
+    return upload;
+  }
+}
+
+/**
+ * In-memory stand-in for the share_blob_index table
+ */
+class MemoryBlobIndex implements ShareBlobIndex {
+  readonly records: ShareBlobIndexRecord[] = [];
+
+  findByHash(owner: string, contentHash: string): ShareBlobIndexRecord | null {
+    return this.records.find((r) => r.owner_address === owner && r.content_hash === contentHash) ?? null;
+  }
+
+  isNameTaken(owner: string, blobName: string): boolean {
+    return this.records.some((r) => r.owner_address === owner && r.blob_name === blobName);
+  }
+
+  add(record: ShareBlobIndexRecord): void {
+    this.records.push(record);
+  }
+}
+
+describe("UploadService", () => {
+  let tmpDir: string;
+  let fake: FakeShelbyClient;
+  let index: MemoryBlobIndex;
+  const privateKey = Ed25519PrivateKey.generate().toString();
+
+  // Thumbnails are off unless a test renders them
+  const createService = (options: UploadServiceOptions = {}) =>
+    new UploadService(privateKey, undefined, { client: fake, blobIndex: index, thumbnails: async () => null, ...options });
+
+  const writeTempFile = (name: string, size: number): { filePath: string; data: Buffer } => {
+    const data = randomBytes(size);
+    const filePath = path.join(tmpDir, name);
+    fs.writeFileSync(filePath, data);
+    return { filePath, data };
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "upload-service-test-"));
+    fake = new FakeShelbyClient();
+    index = new MemoryBlobIndex();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  test("streams the file to the RPC in parts and reports byte progress", async () => {
+    const service = createService({ partSize: 4096 });
+    const { filePath, data } = writeTempFile("clip.mp4", 10_000);
+    const progress: UploadProgress[] = [];
+
+    const result = await service.uploadFile(filePath, "my clip.mp4", "video/mp4", (p) => progress.push(p));
+
+    expect(result.blobName).toBe("my_clip.mp4");
+    expect(result.size).toBe(10_000);
+    expect(fake.stored.get(`${result.owner}/my_clip.mp4`)?.equals(data)).toBe(true);
+
+    const uploading = progress.filter((p) => p.stage === "uploading").map((p) => p.bytesProcessed);
+    expect(uploading).toEqual([0, 4096, 8192, 10_000]);
+    expect(progress.filter((p) => p.stage === "encoding").at(-1)?.bytesProcessed).toBe(10_000);
+    expect(progress.map((p) => p.stage)).toContain("registering");
+    expect(progress.at(-1)).toEqual({ stage: "done", bytesProcessed: 10_000, totalBytes: 10_000 });
+  });
+
+  test("feeds commitments from a stream rather than a single buffer", async () => {
+    const service = createService();
+    const { filePath } = writeTempFile("big.pdf", 512 * 1024);
+
+    await service.uploadFile(filePath, "big.pdf", "application/pdf");
+
+    // fs read streams emit 64KB chunks
+    expect(fake.commitmentChunks).toBeGreaterThan(1);
+  });
+
+  test("includes the SHA-256 of the contents and records the blob in the index", async () => {
+    const service = createService();
+    const { filePath, data } = writeTempFile("hashed.pdf", 3000);
+
+    const result = await service.uploadFile(filePath, "hashed.pdf", "application/pdf");
+
+    expect(result.contentHash).toBe(createHash("sha256").update(data).digest("hex"));
+    expect(result.deduplicated).toBe(false);
+    expect(index.records).toMatchObject([{ blob_name: "hashed.pdf", content_hash: result.contentHash, size: 3000 }]);
+  });
+
+  test("returns the existing blob for content that was already uploaded", async () => {
+    const service = createService();
+    const { filePath } = writeTempFile("original.png", 2048);
+    const copyPath = path.join(tmpDir, "copy.png");
+    fs.copyFileSync(filePath, copyPath);
+
+    const first = await service.uploadFile(filePath, "original.png", "image/png");
+    const progress: UploadProgress[] = [];
+    const second = await service.uploadFile(copyPath, "renamed copy.png", "image/png", (p) => progress.push(p));
+
+    expect(second).toEqual({ ...first, deduplicated: true });
+    expect(fake.registerCalls).toBe(1);
+    expect(fake.stored.size).toBe(1);
+    expect(progress).toEqual([{ stage: "done", bytesProcessed: 2048, totalBytes: 2048 }]);
+  });
+
+  test("stores a thumbnail as a companion blob and reuses it for duplicates", async () => {
+    const thumbnail = Buffer.from("rendered thumbnail");
+    const rendered: Array<[string, string]> = [];
+    const service = createService({
+      thumbnails: async (filePath, contentType) => {
+        rendered.push([path.basename(filePath), contentType]);
+        return thumbnail;
+      },
+    });
+    const { filePath } = writeTempFile("photo.png", 2048);
+    const copyPath = path.join(tmpDir, "copy.png");
+    fs.copyFileSync(filePath, copyPath);
+
+    const result = await service.uploadFile(filePath, "photo.png", "image/png");
+    const thumbnailName = `thumb_${result.contentHash}.webp`;
+
+    expect(rendered).toEqual([["photo.png", "image/png"]]);
+    expect(result.thumbnailUrl).toBe(`/api/share/view/${result.owner}/${thumbnailName}`);
+    expect(fake.stored.get(`${result.owner}/${thumbnailName}`)?.equals(thumbnail)).toBe(true);
+    expect(index.records).toMatchObject([{ blob_name: "photo.png", thumbnail_url: result.thumbnailUrl }]);
+
+    const duplicate = await service.uploadFile(copyPath, "copy.png", "image/png");
+    expect(duplicate.thumbnailUrl).toBe(result.thumbnailUrl);
+    expect(rendered).toHaveLength(1);
+  });
+
+  test("finishes the upload without a thumbnail when rendering fails", async () => {
+    const service = createService({
+      thumbnails: async () => {
+        throw new Error("unreadable image");
+      },
+    });
+    const { filePath } = writeTempFile("broken.png", 512);
+
+    const result = await service.uploadFile(filePath, "broken.png", "image/png");
+
+    expect(result.thumbnailUrl).toBeNull();
+    expect([...fake.stored.keys()]).toEqual([`${result.owner}/broken.png`]);
+  });
+
+  test("uploads identical files sent at the same time only once", async () => {
+    const service = createService({ maxConcurrentUploads: 2 });
+    fake.registerDelayMs = 20;
+    const { filePath } = writeTempFile("same.png", 1024);
+
+    const [a, b] = await Promise.all([
+      service.uploadFile(filePath, "same.png", "image/png"),
+      service.uploadFile(filePath, "same.png", "image/png"),
+    ]);
+
+    expect(fake.registerCalls).toBe(1);
+    expect(b.blobName).toBe(a.blobName);
+    expect([a.deduplicated, b.deduplicated].sort()).toEqual([false, true]);
+  });
+
+  test("gives colliding names a unique suffix instead of overwriting", async () => {
+    const service = createService({ maxConcurrentUploads: 2 });
+    // Registered on chain before the index existed
+    fake.registered.add(`${service.getAddress()}/my_photo.png`);
+    const first = writeTempFile("first.png", 100);
+    const second = writeTempFile("second.png", 200);
+    const third = writeTempFile("third.png", 300);
+
+    const results = await Promise.all([
+      service.uploadFile(first.filePath, "my photo.png", "image/png"),
+      service.uploadFile(second.filePath, "my_photo.png", "image/png"),
+    ]);
+    const later = await service.uploadFile(third.filePath, "my?photo.png", "image/png");
+
+    expect(results.map((r) => r.blobName).sort()).toEqual(["my_photo_1.png", "my_photo_2.png"]);
+    expect(later.blobName).toBe("my_photo_3.png");
+    expect(fake.stored.get(`${service.getAddress()}/my_photo_3.png`)?.equals(third.data)).toBe(true);
+  });
+
+  describe("wallet uploads", () => {
+    const owner = Ed25519PrivateKey.generate().publicKey().authKey().derivedAddress().toString();
+    const CLIENT_IP = "203.0.113.7";
+
+    test("prepares a payload for the owner's wallet and stores the file once it is registered", async () => {
+      const service = createService({ partSize: 1024, thumbnails: async () => Buffer.from("thumbnail") });
+      const { filePath, data } = writeTempFile("wallet.png", 3000);
+
+      const prepared = await service.prepareWalletUpload(filePath, "my wallet.png", "image/png", owner, CLIENT_IP);
+      if (prepared.status !== "awaiting_signature") throw new Error("Expected a payload to sign");
+      expect(prepared).toMatchObject({ owner, blobName: "my_wallet.png", size: 3000 });
+      expect(prepared.payload.functionArguments[0]).toBe("my_wallet.png");
+      // Nothing is registered by the server account
+      expect(fake.registerCalls).toBe(0);
+
+      const transactionHash = fake.submitWalletTransaction(owner, prepared.payload);
+      const pending = service.claimWalletUpload(prepared.uploadId);
+      if (!pending) throw new Error("Expected the prepared upload");
+      const progress: UploadProgress[] = [];
+      const result = await service.completeWalletUpload(pending, transactionHash, (p) => progress.push(p));
+
+      expect(result).toMatchObject({
+        owner,
+        blobName: "my_wallet.png",
+        viewerUrl: `/api/share/viewer/${owner}/my_wallet.png`,
+        deduplicated: false,
+      });
+      expect(fake.stored.get(`${owner}/my_wallet.png`)?.equals(data)).toBe(true);
+      expect(progress.map((p) => p.stage)).toEqual(["registering", "uploading", "uploading", "uploading", "uploading", "done"]);
+      expect(index.records).toMatchObject([{ owner_address: owner, blob_name: "my_wallet.png" }]);
+      // The owner only signed for the file; its thumbnail belongs to the service account
+      expect(result.thumbnailUrl).toBe(`/api/share/view/${service.getAddress()}/thumb_${result.contentHash}.webp`);
+      expect(fs.existsSync(filePath)).toBe(false);
+      expect(service.claimWalletUpload(prepared.uploadId)).toBeNull();
+    });
+
+    test("keeps the upload pending when the transaction doesn't register it", async () => {
+      const service = createService();
+      const { filePath } = writeTempFile("other.pdf", 500);
+
+      const prepared = await service.prepareWalletUpload(filePath, "other.pdf", "application/pdf", owner, CLIENT_IP);
+      if (prepared.status !== "awaiting_signature") throw new Error("Expected a payload to sign");
+      // Signed by a different account
+      const wrongHash = fake.submitWalletTransaction(service.getAddress() ?? "", prepared.payload);
+
+      const pending = service.claimWalletUpload(prepared.uploadId);
+      if (!pending) throw new Error("Expected the prepared upload");
+      await expect(service.completeWalletUpload(pending, wrongHash)).rejects.toThrow("did not register");
+      expect(fake.stored.size).toBe(0);
+
+      const retry = service.claimWalletUpload(prepared.uploadId);
+      if (!retry) throw new Error("Expected the upload to be pending again");
+      const result = await service.completeWalletUpload(retry, fake.submitWalletTransaction(owner, prepared.payload));
+      expect(result.owner).toBe(owner);
+    });
+
+    test("returns content the owner already stored without asking for a signature", async () => {
+      const service = createService();
+      const first = writeTempFile("first.png", 800);
+      const prepared = await service.prepareWalletUpload(first.filePath, "first.png", "image/png", owner, CLIENT_IP);
+      if (prepared.status !== "awaiting_signature") throw new Error("Expected a payload to sign");
+      const pending = service.claimWalletUpload(prepared.uploadId);
+      if (!pending) throw new Error("Expected the prepared upload");
+      await service.completeWalletUpload(pending, fake.submitWalletTransaction(owner, prepared.payload));
+
+      const copyPath = path.join(tmpDir, "copy.png");
+      fs.writeFileSync(copyPath, first.data);
+      const again = await service.prepareWalletUpload(copyPath, "copy.png", "image/png", owner, CLIENT_IP);
+
+      expect(again).toMatchObject({ status: "existing", result: { blobName: "first.png", deduplicated: true } });
+      expect(fs.existsSync(copyPath)).toBe(false);
+    });
+
+    test("caps the uploads waiting for a signature per wallet and per IP", async () => {
+      const service = createService({ maxPendingWalletUploads: 2 });
+      const other = Ed25519PrivateKey.generate().publicKey().authKey().derivedAddress().toString();
+      const prepare = (name: string, wallet: string, ip: string) =>
+        service.prepareWalletUpload(writeTempFile(name, 100).filePath, name, "image/png", wallet, ip);
+
+      // Uploads still being prepared hold their slot
+      const results = await Promise.allSettled([
+        prepare("a.png", owner, CLIENT_IP),
+        prepare("b.png", owner, "198.51.100.1"),
+        prepare("c.png", owner, "198.51.100.2"),
+      ]);
+      expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "rejected"]);
+      await expect(prepare("d.png", owner, "198.51.100.3")).rejects.toMatchObject({ scope: "wallet", limit: 2 });
+
+      await prepare("e.png", other, CLIENT_IP);
+      await expect(prepare("f.png", other, CLIENT_IP)).rejects.toBeInstanceOf(WalletUploadLimitError);
+      await expect(prepare("f.png", other, CLIENT_IP)).rejects.toMatchObject({ scope: "ip" });
+
+      // A claimed upload no longer waits for a signature
+      const [first] = results;
+      if (first.status !== "fulfilled" || first.value.status !== "awaiting_signature") {
+        throw new Error("Expected a payload to sign");
+      }
+      expect(service.claimWalletUpload(first.value.uploadId)).not.toBeNull();
+      await expect(prepare("g.png", owner, "198.51.100.3")).resolves.toMatchObject({ status: "awaiting_signature" });
+    });
+
+    test("cancels a prepared upload and frees its blob name", async () => {
+      const service = createService();
+      const { filePath } = writeTempFile("cancel.png", 100);
+      const prepared = await service.prepareWalletUpload(filePath, "cancel.png", "image/png", owner, CLIENT_IP);
+      if (prepared.status !== "awaiting_signature") throw new Error("Expected a payload to sign");
+
+      service.cancelWalletUpload(prepared.uploadId);
+      expect(service.claimWalletUpload(prepared.uploadId)).toBeNull();
+      await vi.waitFor(() => expect(fs.existsSync(filePath)).toBe(false));
+
+      const again = await service.prepareWalletUpload(
+        writeTempFile("again.png", 50).filePath,
+        "cancel.png",
+        "image/png",
+        owner,
+        CLIENT_IP
+      );
+      expect(again).toMatchObject({ blobName: "cancel.png" });
+    });
+
+    test("drops unsigned uploads and their temp files on a timer", async () => {
+      vi.useFakeTimers({ toFake: ["setInterval", "Date"] });
+      const service = createService({ maxPendingWalletUploads: 1 });
+      try {
+        const { filePath } = writeTempFile("unsigned.png", 100);
+        await service.prepareWalletUpload(filePath, "unsigned.png", "image/png", owner, CLIENT_IP);
+
+        vi.advanceTimersByTime(31 * 60 * 1000);
+        vi.useRealTimers();
+        await vi.waitFor(() => expect(fs.existsSync(filePath)).toBe(false));
+
+        const next = writeTempFile("next.png", 100);
+        await expect(
+          service.prepareWalletUpload(next.filePath, "next.png", "image/png", owner, CLIENT_IP)
+        ).resolves.toMatchObject({ status: "awaiting_signature" });
+      } finally {
+        vi.useRealTimers();
+        service.shutdown();
+      }
+    });
+  });
+
+  test("caps concurrent uploads and queues the rest", async () => {
+    const service = createService({ maxConcurrentUploads: 2 });
+    fake.registerDelayMs = 20;
+    const queued: string[] = [];
+
+    const uploads = Array.from({ length: 5 }, (_, i) => {
+      const { filePath } = writeTempFile(`file-${i}.png`, 1024);
+      return service.uploadFile(filePath, `file-${i}.png`, "image/png", (p) => {
+        if (p.stage === "queued") queued.push(`file-${i}`);
+      });
+    });
+
+    const results = await Promise.all(uploads);
+
+    expect(results).toHaveLength(5);
+    expect(fake.maxActiveRegistrations).toBe(2);
+    expect(queued).toHaveLength(3);
+    expect(service.getQueueStats()).toEqual({ active: 0, queued: 0, maxConcurrent: 2 });
+  });
+
+  test("releases the queue slot when an upload fails", async () => {
+    const service = createService({ maxConcurrentUploads: 1 });
+    fake.failNextRegisterWith = "Move abort: EBLOB_EXISTS";
+    const { filePath } = writeTempFile("broken.png", 100);
+
+    await expect(service.uploadFile(filePath, "broken.png", "image/png")).rejects.toThrow("EBLOB_EXISTS");
+    await expect(service.uploadFile(filePath, "fixed.png", "image/png")).resolves.toMatchObject({ blobName: "fixed.png" });
+  });
+
+  test("funds the account and retries registration on INSUFFICIENT_FUNDS", async () => {
+    const service = createService();
+    fake.failNextRegisterWith = "INSUFFICIENT_FUNDS";
+    const { filePath } = writeTempFile("paid.png", 100);
+
+    await service.uploadFile(filePath, "paid.png", "image/png");
+
+    expect(fake.registerCalls).toBe(2);
+    expect(fake.fundCalls).toBe(2);
+  });
+});
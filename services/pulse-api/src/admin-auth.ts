@@ -0,0 +1,140 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { logger } from "./logger";
+import {
+  getApiKey,
+  insertAdminAuditEntry,
+  insertApiKey,
+  touchApiKey,
+  type AdminAuditResult,
+  type ApiKeyRecord,
+  type ApiKeyRole,
+} from "./db";
+
+/** Roles from least to most privileged; each role can do everything the ones before it can */
+export const API_KEY_ROLES: readonly ApiKeyRole[] = ["read-only", "operator", "admin"];
+
+// pulse_<id>_<secret>: the id finds the key, the whole string is hashed
+const API_KEY_PATTERN = /^pulse_([0-9a-f]{8})_[A-Za-z0-9_-]{43}$/;
+const BEARER_PREFIX = "bearer ";
+
+export interface CreatedApiKey {
+  record: ApiKeyRecord;
+  /** The key itself; only its hash is stored, so it can't be shown again */
+  key: string;
+}
+
+export function isApiKeyRole(value: unknown): value is ApiKeyRole {
+  return typeof value === "string" && (API_KEY_ROLES as readonly string[]).includes(value);
+}
+
+function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function hasRole(role: ApiKeyRole, required: ApiKeyRole): boolean {
+  return API_KEY_ROLES.indexOf(role) >= API_KEY_ROLES.indexOf(required);
+}
+
+/**
+ * Mint a new API key with the given role
+ */
+export function createApiKey(name: string, role: ApiKeyRole, now: number = Date.now()): CreatedApiKey {
+  const id = randomBytes(4).toString("hex");
+  const key = `pulse_${id}_${randomBytes(32).toString("base64url")}`;
+  const record: ApiKeyRecord = {
+    id,
+    name,
+    role,
+    key_hash: hashApiKey(key),
+    created_at: now,
+    last_used_at: null,
+    revoked_at: null,
+  };
+  insertApiKey(record);
+  return { record, key };
+}
+
+/**
+ * Look up the active API key matching a presented key, and mark it used.
+ * Returns null for malformed, unknown or revoked keys.
+ */
+export function authenticateApiKey(key: string, now: number = Date.now()): ApiKeyRecord | null {
+  const match = API_KEY_PATTERN.exec(key);
+  if (!match) return null;
+
+  const record = getApiKey(match[1]);
+  if (!record || record.revoked_at !== null) return null;
+
+  const expected = Buffer.from(record.key_hash, "hex");
+  const actual = Buffer.from(hashApiKey(key), "hex");
+  if (!timingSafeEqual(expected, actual)) return null;
+
+  touchApiKey(record.id, now);
+  return { ...record, last_used_at: now };
+}
+
+/**
+ * Read the API key a request presents, as `Authorization: Bearer <key>` or `X-API-Key: <key>`
+ */
+export function getRequestApiKey(req: Request): string | undefined {
+  const authorization = req.get("authorization");
+  if (authorization?.toLowerCase().startsWith(BEARER_PREFIX)) {
+    return authorization.slice(BEARER_PREFIX.length).trim();
+  }
+  return req.get("x-api-key")?.trim() || undefined;
+}
+
+function auditResult(status: number): AdminAuditResult {
+  if (status === 401 || status === 403) return "denied";
+  return status < 400 ? "ok" : "failed";
+}
+
+function recordAuditEntry(req: Request, res: Response, key: ApiKeyRecord | null): void {
+  try {
+    insertAdminAuditEntry({
+      created_at: Date.now(),
+      key_id: key?.id ?? null,
+      actor: key?.name ?? "anonymous",
+      method: req.method,
+      route: `${req.baseUrl}${req.path}`,
+      params: JSON.stringify({ query: req.query, body: req.body ?? null }),
+      status: res.statusCode,
+      result: auditResult(res.statusCode),
+    });
+  } catch (error) {
+    logger.error({ error, route: req.originalUrl }, "Failed to write admin audit log entry");
+  }
+}
+
+/**
+ * Middleware that lets a request through only with an active API key of at
+ * least `role`. Requests that change something (anything but GET and HEAD)
+ * are recorded in the admin audit log once answered, including the denied ones.
+ */
+export function requireRole(role: ApiKeyRole): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const presented = getRequestApiKey(req);
+    let key: ApiKeyRecord | null = null;
+    try {
+      key = presented ? authenticateApiKey(presented) : null;
+    } catch (error) {
+      logger.error({ error }, "Failed to check API key");
+      return res.status(500).json({ error: "Failed to check API key" });
+    }
+
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.on("finish", () => recordAuditEntry(req, res, key));
+    }
+
+    if (!key) {
+      return res.status(401).json({ error: "Invalid or missing API key" });
+    }
+    if (!hasRole(key.role, role)) {
+      return res.status(403).json({ error: `Requires the ${role} role`, role: key.role });
+    }
+
+    res.locals.apiKey = key;
+    next();
+  };
+}
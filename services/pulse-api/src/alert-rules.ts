@@ -0,0 +1,338 @@
+import { z } from "zod";
+import type { StorageProvider } from "./aptos-client";
+import { normalizeAddress } from "./data-service";
+import { toLiveActivity, toLiveBlob, type LiveActivity, type LiveBlob } from "./live-feed";
+import { logger } from "./logger";
+import { createWebhookSecret, queueWebhook } from "./webhooks";
+import {
+  getActivitiesAfter,
+  getAlertRules,
+  getBlobEventsAfter,
+  getLastBlobCreatedAt,
+  getLastBlobSyncedVersion,
+  getLastSyncedVersion,
+  insertAlertRule,
+  runInTransaction,
+  setAlertRuleState,
+  type AlertRuleRecord,
+  type AlertRuleType,
+} from "./db";
+
+export const ALERT_RULE_TYPES: readonly AlertRuleType[] = [
+  "address_upload",
+  "large_transfer",
+  "upload_rate_zero",
+  "provider_missing",
+];
+
+// Events read per query, and at most per rule and evaluation; the rest wait for the next one
+const EVENT_BATCH_SIZE = 1000;
+const MAX_EVENTS_PER_EVALUATION = 10 * EVENT_BATCH_SIZE;
+// Matching events listed in one webhook; `count` has them all
+const MAX_LISTED_EVENTS = 100;
+
+const address = z.string().transform((value, ctx) => {
+  const normalized = normalizeAddress(value);
+  if (!normalized) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "must be a hex address" });
+    return z.NEVER;
+  }
+  return normalized;
+});
+
+const ALERT_RULE_PARAMS = {
+  // A blob is registered by the address
+  address_upload: z.object({ address }).strict(),
+  // A ShelbyUSD activity of at least minAmount base units (8 decimals). Each
+  // transfer is a withdraw from the sender and a deposit to the receiver, so by
+  // default only withdrawals count and a transfer fires once.
+  large_transfer: z
+    .object({
+      minAmount: z.number().int().positive(),
+      types: z.array(z.enum(["deposit", "withdraw", "mint", "burn"])).nonempty().default(["withdraw"]),
+    })
+    .strict(),
+  // No blob registered for windowMinutes; fires again once uploads resume
+  upload_rate_zero: z.object({ windowMinutes: z.number().int().min(5).max(24 * 60).default(30) }).strict(),
+  // A storage provider (the given one, or any) drops out of the registry
+  provider_missing: z.object({ address: address.optional() }).strict(),
+} satisfies Record<AlertRuleType, z.ZodTypeAny>;
+
+export type AlertRuleParams = { [T in AlertRuleType]: z.output<(typeof ALERT_RULE_PARAMS)[T]> };
+
+const webhookUrl = z
+  .string()
+  .url()
+  .refine((url) => ["http:", "https:"].includes(new URL(url).protocol), "must be an http or https URL");
+
+const alertRuleFields = {
+  name: z.string().trim().min(1).max(100),
+  webhookUrl,
+  enabled: z.boolean(),
+};
+
+const createAlertRuleSchema = z.object({
+  ...alertRuleFields,
+  type: z.enum(ALERT_RULE_TYPES as [AlertRuleType, ...AlertRuleType[]]),
+  params: z.record(z.unknown()).default({}),
+  enabled: alertRuleFields.enabled.default(true),
+});
+
+const updateAlertRuleSchema = z
+  .object({
+    ...alertRuleFields,
+    params: z.record(z.unknown()),
+    rotateSecret: z.literal(true),
+  })
+  .partial()
+  .strict();
+
+/**
+ * What the sync loop hands the rules
+ */
+export interface AlertContext {
+  now: number;
+  // Until the blob sync has caught up, a quiet stretch doesn't mean nobody is uploading
+  blobSyncCaughtUp: boolean;
+  getStorageProviders: () => Promise<StorageProvider[]>;
+}
+
+interface CursorState {
+  version: number;
+}
+
+interface UploadRateState {
+  stalled: boolean;
+}
+
+interface ProviderState {
+  providers: Array<Pick<StorageProvider, "address" | "datacenter">>;
+}
+
+/**
+ * A rule's new state and the webhooks to send for it, one per data object
+ */
+interface RuleEvaluation<S> {
+  state: S;
+  notifications: unknown[];
+}
+
+// Returns null when the rule can't be evaluated right now, leaving its state as it was
+type RuleEvaluator<T extends AlertRuleType, S> = (
+  params: AlertRuleParams[T],
+  state: S | null,
+  context: AlertContext
+) => RuleEvaluation<S> | null | Promise<RuleEvaluation<S> | null>;
+
+// An evaluator as called with a rule's stored params and state
+type StoredRuleEvaluator = (
+  params: unknown,
+  state: unknown,
+  context: AlertContext
+) => RuleEvaluation<unknown> | null | Promise<RuleEvaluation<unknown> | null>;
+
+function formatIssue(issue: z.ZodIssue): string {
+  return issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message;
+}
+
+/**
+ * Validate a rule type's params, filling in defaults. Returns an error message when invalid.
+ */
+function parseParams(type: AlertRuleType, params: unknown): { params: string } | { error: string } {
+  const result = ALERT_RULE_PARAMS[type].safeParse(params);
+  if (!result.success) return { error: `params.${formatIssue(result.error.issues[0])}` };
+  return { params: JSON.stringify(result.data) };
+}
+
+/**
+ * Create an alert rule from a request body. Returns the rule, whose secret
+ * signs its webhooks, or an error message when the body is invalid.
+ */
+export function createAlertRule(body: unknown, now: number = Date.now()): { rule: AlertRuleRecord } | { error: string } {
+  const input = createAlertRuleSchema.safeParse(body ?? {});
+  if (!input.success) return { error: formatIssue(input.error.issues[0]) };
+
+  const parsed = parseParams(input.data.type, input.data.params);
+  if ("error" in parsed) return parsed;
+
+  const rule = insertAlertRule({
+    name: input.data.name,
+    type: input.data.type,
+    params: parsed.params,
+    webhook_url: input.data.webhookUrl,
+    secret: createWebhookSecret(),
+    enabled: input.data.enabled ? 1 : 0,
+    created_at: now,
+  });
+  logger.info({ ruleId: rule.id, type: rule.type }, "Created alert rule");
+  return { rule };
+}
+
+/**
+ * Turn a PATCH body into updates for a rule. New params restart its
+ * evaluation as if it were new; `rotateSecret` replaces its signing secret.
+ */
+export function parseAlertRuleUpdate(
+  rule: AlertRuleRecord,
+  body: unknown
+): { updates: Partial<AlertRuleRecord> } | { error: string } {
+  const input = updateAlertRuleSchema.safeParse(body ?? {});
+  if (!input.success) return { error: formatIssue(input.error.issues[0]) };
+
+  const updates: Partial<AlertRuleRecord> = {};
+  if (input.data.name !== undefined) updates.name = input.data.name;
+  if (input.data.webhookUrl !== undefined) updates.webhook_url = input.data.webhookUrl;
+  if (input.data.enabled !== undefined) updates.enabled = input.data.enabled ? 1 : 0;
+  if (input.data.rotateSecret) updates.secret = createWebhookSecret();
+  if (input.data.params !== undefined) {
+    const parsed = parseParams(rule.type, input.data.params);
+    if ("error" in parsed) return parsed;
+    updates.params = parsed.params;
+    updates.state = null;
+  }
+  return { updates };
+}
+
+/**
+ * Walk the stored events after a cursor, oldest first, and return the new
+ * cursor. A full batch may end partway through a transaction's events, so
+ * that transaction is left for the next batch unless it fills the batch alone.
+ */
+function scanEventsAfter<T extends { transaction_version: number }>(
+  version: number,
+  getEventsAfter: (version: number, limit: number) => T[],
+  visit: (event: T) => void
+): number {
+  let cursor = version;
+  for (let scanned = 0; scanned < MAX_EVENTS_PER_EVALUATION; ) {
+    let events = getEventsAfter(cursor, EVENT_BATCH_SIZE);
+    const full = events.length === EVENT_BATCH_SIZE;
+    if (full) {
+      const lastVersion = events[events.length - 1].transaction_version;
+      const complete = events.filter((event) => event.transaction_version < lastVersion);
+      if (complete.length > 0) events = complete;
+    }
+    if (events.length === 0) break;
+
+    events.forEach(visit);
+    cursor = events[events.length - 1].transaction_version;
+    scanned += events.length;
+    if (!full) break;
+  }
+  return cursor;
+}
+
+const evaluateAddressUpload: RuleEvaluator<"address_upload", CursorState> = (params, state) => {
+  if (!state) return { state: { version: getLastBlobSyncedVersion() }, notifications: [] };
+
+  const blobs: LiveBlob[] = [];
+  let count = 0;
+  const version = scanEventsAfter(state.version, getBlobEventsAfter, (event) => {
+    if (event.owner_address !== params.address) return;
+    count++;
+    if (blobs.length < MAX_LISTED_EVENTS) blobs.push(toLiveBlob(event));
+  });
+
+  return { state: { version }, notifications: count > 0 ? [{ address: params.address, count, blobs }] : [] };
+};
+
+const evaluateLargeTransfer: RuleEvaluator<"large_transfer", CursorState> = (params, state) => {
+  if (!state) return { state: { version: getLastSyncedVersion() }, notifications: [] };
+
+  const activities: LiveActivity[] = [];
+  let count = 0;
+  const version = scanEventsAfter(state.version, getActivitiesAfter, (event) => {
+    if (event.amount < params.minAmount || !params.types.includes(event.type)) return;
+    count++;
+    if (activities.length < MAX_LISTED_EVENTS) activities.push(toLiveActivity(event));
+  });
+
+  return {
+    state: { version },
+    notifications: count > 0 ? [{ minAmount: params.minAmount, count, activities }] : [],
+  };
+};
+
+const evaluateUploadRate: RuleEvaluator<"upload_rate_zero", UploadRateState> = (params, state, context) => {
+  const lastUploadAt = getLastBlobCreatedAt();
+  if (!context.blobSyncCaughtUp || lastUploadAt === null) return null;
+
+  const stalled = context.now - lastUploadAt >= params.windowMinutes * 60 * 1000;
+  const changed = stalled !== (state?.stalled ?? false);
+  return {
+    state: { stalled },
+    notifications: changed
+      ? [{ status: stalled ? "stalled" : "resumed", windowMinutes: params.windowMinutes, lastUploadAt }]
+      : [],
+  };
+};
+
+const evaluateProviderMissing: RuleEvaluator<"provider_missing", ProviderState> = async (params, state, context) => {
+  const registry = await context.getStorageProviders();
+  // An empty list means the registry couldn't be read, not that every provider left
+  if (registry.length === 0) return null;
+
+  const providers = registry.map((provider) => ({
+    address: normalizeAddress(provider.address) ?? provider.address,
+    datacenter: provider.datacenter,
+  }));
+  const current = new Set(providers.map((provider) => provider.address));
+  const missing = (state?.providers ?? []).filter(
+    (provider) => !current.has(provider.address) && (!params.address || provider.address === params.address)
+  );
+
+  return {
+    state: { providers },
+    notifications: missing.length > 0 ? [{ missing, remaining: providers.length }] : [],
+  };
+};
+
+const EVALUATORS: {
+  [T in AlertRuleType]: (params: AlertRuleParams[T], state: never, context: AlertContext) => ReturnType<StoredRuleEvaluator>;
+} = {
+  address_upload: evaluateAddressUpload,
+  large_transfer: evaluateLargeTransfer,
+  upload_rate_zero: evaluateUploadRate,
+  provider_missing: evaluateProviderMissing,
+};
+
+let evaluationInProgress = false;
+
+/**
+ * Evaluate every enabled rule against what has been synced since its last
+ * evaluation, and queue a webhook for each one that fires. A new rule only
+ * takes note of where things stand, so it never fires on history.
+ * Returns how many webhooks were queued.
+ */
+export async function evaluateAlertRules(context: AlertContext): Promise<number> {
+  if (evaluationInProgress) return 0;
+  evaluationInProgress = true;
+
+  let queued = 0;
+  try {
+    for (const rule of getAlertRules({ enabledOnly: true })) {
+      try {
+        const evaluate = EVALUATORS[rule.type] as StoredRuleEvaluator;
+        const state = rule.state === null ? null : JSON.parse(rule.state);
+        const evaluation = await evaluate(JSON.parse(rule.params), state, context);
+        if (!evaluation) continue;
+
+        runInTransaction(() => {
+          for (const data of evaluation.notifications) {
+            queueWebhook(rule, rule.type, data, context.now);
+          }
+          const triggeredAt = evaluation.notifications.length > 0 ? context.now : null;
+          setAlertRuleState(rule.id, JSON.stringify(evaluation.state), triggeredAt);
+        });
+        queued += evaluation.notifications.length;
+      } catch (error) {
+        logger.error({ error, ruleId: rule.id }, "Failed to evaluate alert rule");
+      }
+    }
+  } finally {
+    evaluationInProgress = false;
+  }
+
+  if (queued > 0) logger.info({ queued }, "Alert rules fired");
+  return queued;
+}
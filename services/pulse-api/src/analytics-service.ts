@@ -19,6 +19,23 @@ export interface StorageLeader {
   fileTypes: string[];
 }
 
+export interface StorageExpirationSummary {
+  liveBlobs: number;
+  liveSize: number;
+  liveSizeFormatted: string;
+  expiredBlobs: number;
+  expiredSize: number;
+  expiredSizeFormatted: string;
+  // Live blobs expiring within the next 7 days
+  expiringSoonBlobs: number;
+  expiringSoonSize: number;
+  expiringSoonSizeFormatted: string;
+  // No longer stored whether or not they expired: deleted by their owner
+  deletedBlobs: number;
+  deletedSize: number;
+  deletedSizeFormatted: string;
+}
+
 export interface AnalyticsData {
   fileTypes: FileTypeStats[];
   storageLeaders: StorageLeader[];
@@ -32,6 +49,8 @@ export interface AnalyticsData {
   blobsPerHour: number;
   bytesPerHour: number;
   bytesPerHourFormatted: string;
+  // Only known when computed from the synced database
+  expiration?: StorageExpirationSummary;
   timestamp: number;
 }
 
@@ -49,7 +68,7 @@ const categoryColors: Record<string, string> = {
 };
 
 // Extract file extension from blob name
-function getFileExtension(name: string): string {
+export function getFileExtension(name: string): string {
   const match = name.match(/\.([a-zA-Z0-9]+)$/);
   if (!match) return 'unknown';
   return match[1].toLowerCase();
@@ -70,20 +89,23 @@ function shortenAddress(address: string): string {
   return `${address.slice(0, 6)}...${address.slice(-5)}`;
 }
 
-// Categorize file extensions into broader types
-function categorizeExtension(ext: string): string {
-  const categories: Record<string, string[]> = {
-    'Images': ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg', 'ico', 'tiff'],
-    'Documents': ['pdf', 'doc', 'docx', 'txt', 'md', 'html', 'htm', 'rtf', 'odt'],
-    'Data': ['json', 'xml', 'csv', 'yaml', 'yml', 'toml', 'log', 'dat'],
-    'Media': ['mp4', 'mp3', 'wav', 'avi', 'mov', 'mkv', 'flac', 'ogg', 'webm'],
-    'Archives': ['zip', 'tar', 'gz', 'rar', '7z', 'bz2'],
-    'Code': ['js', 'ts', 'py', 'rs', 'go', 'java', 'c', 'cpp', 'h', 'css', 'scss'],
-    'Ebooks': ['lit', 'epub', 'mobi', 'azw', 'azw3'],
-    'Binary': ['bin', 'exe', 'dll', 'so', 'dylib'],
-  };
+const EXTENSION_CATEGORIES: Record<string, string[]> = {
+  'Images': ['jpg', 'jpeg', 'png', 'gif', 'webp', 'bmp', 'svg', 'ico', 'tiff'],
+  'Documents': ['pdf', 'doc', 'docx', 'txt', 'md', 'html', 'htm', 'rtf', 'odt'],
+  'Data': ['json', 'xml', 'csv', 'yaml', 'yml', 'toml', 'log', 'dat'],
+  'Media': ['mp4', 'mp3', 'wav', 'avi', 'mov', 'mkv', 'flac', 'ogg', 'webm'],
+  'Archives': ['zip', 'tar', 'gz', 'rar', '7z', 'bz2'],
+  'Code': ['js', 'ts', 'py', 'rs', 'go', 'java', 'c', 'cpp', 'h', 'css', 'scss'],
+  'Ebooks': ['lit', 'epub', 'mobi', 'azw', 'azw3'],
+  'Binary': ['bin', 'exe', 'dll', 'so', 'dylib'],
+};
+
+// Every category categorizeExtension can return
+export const FILE_CATEGORIES = [...Object.keys(EXTENSION_CATEGORIES), 'Other'];
 
-  for (const [category, extensions] of Object.entries(categories)) {
+// Categorize file extensions into broader types
+export function categorizeExtension(ext: string): string {
+  for (const [category, extensions] of Object.entries(EXTENSION_CATEGORIES)) {
     if (extensions.includes(ext)) return category;
   }
   return 'Other';
@@ -0,0 +1,81 @@
+/**
+ * Admin API keys CLI
+ *
+ * Usage:
+ *   npm run keys -- create --name <name> --role <read-only|operator|admin> [--db <file>]
+ *   npm run keys -- list [--db <file>]
+ *   npm run keys -- revoke <id> [--db <file>]
+ *
+ * `create` prints the new key once; only its hash is stored. The database
+ * defaults to the one the server uses ($DATA_DIR/shelby-pulse.db) and is
+ * migrated first if needed.
+ */
+
+import { parseArgs } from "node:util";
+import { API_KEY_ROLES, createApiKey, isApiKeyRole } from "./admin-auth";
+import { closeDatabase, DEFAULT_DB_PATH, getApiKeys, initDatabase, revokeApiKey } from "./db";
+import { logger } from "./logger";
+
+const USAGE = `Usage: keys <create|list|revoke> [--name <name>] [--role <${API_KEY_ROLES.join("|")}>] [<id>] [--db <file>]`;
+
+function formatTime(ms: number | null): string {
+  return ms === null ? "-" : new Date(ms).toISOString();
+}
+
+function listApiKeys(): void {
+  const columns = (...values: string[]) => values.map((value, i) => (i < 2 ? value.padEnd(10) : value.padEnd(24)));
+  console.log([...columns("ID", "ROLE", "CREATED AT", "LAST USED", "REVOKED AT"), "NAME"].join(" "));
+  for (const key of getApiKeys()) {
+    const times = [key.created_at, key.last_used_at, key.revoked_at].map(formatTime);
+    console.log([...columns(key.id, key.role, ...times), key.name].join(" "));
+  }
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      db: { type: "string", default: DEFAULT_DB_PATH },
+      name: { type: "string" },
+      role: { type: "string" },
+    },
+  });
+
+  const [command, id] = positionals;
+  const expectedArgs = command === "revoke" ? 2 : 1;
+  if (!command || !["create", "list", "revoke"].includes(command) || positionals.length !== expectedArgs) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  if (command === "create" && !values.name?.trim()) {
+    console.error("--name is required");
+    process.exit(2);
+  }
+  if (command === "create" && !isApiKeyRole(values.role)) {
+    console.error(`--role must be one of ${API_KEY_ROLES.join(", ")}`);
+    process.exit(2);
+  }
+
+  // Keep the database's info logs out of the printed key
+  logger.level = "warn";
+  initDatabase(values.db);
+  try {
+    if (command === "list") {
+      listApiKeys();
+    } else if (command === "create" && values.name && isApiKeyRole(values.role)) {
+      const { record, key } = createApiKey(values.name.trim(), values.role);
+      console.log(`Created ${record.role} key ${record.id} (${record.name}). Store it now; it can't be shown again:`);
+      console.log(key);
+    } else if (revokeApiKey(id)) {
+      console.log(`Revoked ${id}`);
+    } else {
+      console.error(`No active key with id ${id}`);
+      process.exitCode = 1;
+    }
+  } finally {
+    closeDatabase();
+  }
+}
+
+main();
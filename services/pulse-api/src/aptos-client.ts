@@ -1,5 +1,6 @@
 import { Aptos, AptosConfig, Network } from "@aptos-labs/ts-sdk";
 import type { ApiConfig } from "./config";
+import { createIndexerTransport, type IndexerTransport } from "./indexer-transport";
 import { logger } from "./logger";
 
 export interface BlobEvent {
@@ -44,12 +45,24 @@ export interface ShelbyUSDEvent {
 // ShelbyUSD fungible asset metadata address
 export const SHELBYUSD_METADATA = "0x1b18363a9f1fe5e6ebf247daba5cc1c18052bb232efdc4c50f556053922d98e1";
 
+/**
+ * The last version each indexer processor has caught up to, or null if the
+ * indexer didn't report it. Blob events come from the events processor and
+ * ShelbyUSD activities from the fungible asset processor.
+ */
+export interface IndexerHead {
+  events: number | null;
+  fungibleAssets: number | null;
+}
+
 export class ShelbyAptosClient {
   private aptos: Aptos;
   private config: ApiConfig;
+  private transport: IndexerTransport;
 
-  constructor(config: ApiConfig) {
+  constructor(config: ApiConfig, transport: IndexerTransport = createIndexerTransport(config)) {
     this.config = config;
+    this.transport = transport;
 
     const aptosConfig = new AptosConfig({
       network: Network.CUSTOM,
@@ -63,6 +76,7 @@ export class ShelbyAptosClient {
         network: config.APTOS_NETWORK,
         nodeUrl: config.APTOS_NODE_URL,
         indexerUrl: config.APTOS_INDEXER_URL,
+        indexerTransport: config.INDEXER_TRANSPORT,
         hasApiKey: !!config.APTOS_API_KEY,
       },
       "Initialized Aptos client for Shelby network",
@@ -70,25 +84,43 @@ export class ShelbyAptosClient {
   }
 
   /**
-   * Get headers for GraphQL requests, including API key if available
+   * Get the indexer transport for external services (like the sync services)
    */
-  private getGraphQLHeaders(): Record<string, string> {
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
-    if (this.config.APTOS_API_KEY) {
-      headers['Authorization'] = `Bearer ${this.config.APTOS_API_KEY}`;
-    }
-    return headers;
+  getIndexerTransport(): IndexerTransport {
+    return this.transport;
   }
 
   /**
-   * Get GraphQL config for external services (like blob sync)
+   * Fetch how far the indexer's processors have got
    */
-  getGraphQLConfig(): { url: string; headers: Record<string, string> } {
+  async getIndexerHead(): Promise<IndexerHead> {
+    const query = `
+      query GetIndexerHead {
+        processor_status {
+          processor
+          last_success_version
+        }
+      }
+    `;
+
+    const response = await this.transport.graphql(query);
+    const result = await response.json();
+
+    if (result.errors) {
+      logger.warn({ errors: result.errors }, "GraphQL query returned errors");
+      throw new Error("Indexer query for processor status failed");
+    }
+
+    const processors: Array<{ processor: string; last_success_version: string | number }> =
+      result.data?.processor_status || [];
+    const versionOf = (name: string) => {
+      const processor = processors.find((status) => status.processor === name);
+      return processor ? Number(processor.last_success_version) : null;
+    };
+
     return {
-      url: this.config.APTOS_INDEXER_URL!,
-      headers: this.getGraphQLHeaders(),
+      events: versionOf("events_processor"),
+      fungibleAssets: versionOf("fungible_asset_processor"),
     };
   }
 
@@ -116,14 +148,7 @@ export class ShelbyAptosClient {
         }
       `;
 
-      const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-        method: 'POST',
-        headers: this.getGraphQLHeaders(),
-        body: JSON.stringify({
-          query,
-          variables: { limit, eventType: blobEventType },
-        }),
-      });
+      const response = await this.transport.graphql(query, { limit, eventType: blobEventType });
 
       const result = await response.json();
 
@@ -172,14 +197,7 @@ export class ShelbyAptosClient {
           }
         `;
 
-        const aggResponse = await fetch(this.config.APTOS_INDEXER_URL!, {
-          method: 'POST',
-          headers: this.getGraphQLHeaders(),
-          body: JSON.stringify({
-            query: aggregateQuery,
-            variables: { eventType: blobEventType }
-          }),
-        });
+        const aggResponse = await this.transport.graphql(aggregateQuery, { eventType: blobEventType });
 
         const aggResult = await aggResponse.json();
 
@@ -212,14 +230,7 @@ export class ShelbyAptosClient {
           }
         `;
 
-        const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-          method: 'POST',
-          headers: this.getGraphQLHeaders(),
-          body: JSON.stringify({
-            query,
-            variables: { offset, limit, eventType: blobEventType }
-          }),
-        });
+        const response = await this.transport.graphql(query, { offset, limit, eventType: blobEventType });
 
         const result = await response.json();
         const events = result.data?.events || [];
@@ -270,14 +281,7 @@ export class ShelbyAptosClient {
           }
         `;
 
-        const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-          method: 'POST',
-          headers: this.getGraphQLHeaders(),
-          body: JSON.stringify({
-            query,
-            variables: { offset, limit, eventType: blobEventType }
-          }),
-        });
+        const response = await this.transport.graphql(query, { offset, limit, eventType: blobEventType });
 
         const result = await response.json();
 
@@ -330,9 +334,9 @@ export class ShelbyAptosClient {
   async fetchStorageProviders(): Promise<StorageProvider[]> {
     try {
       // Step 1: Get the StorageProviders registry from the module address
-      const registryUrl = `${this.config.APTOS_NODE_URL}/accounts/${this.config.SHELBY_MODULE_ADDRESS}/resource/${this.config.SHELBY_MODULE_ADDRESS}::global_metadata::StorageProviders`;
+      const registryPath = `/accounts/${this.config.SHELBY_MODULE_ADDRESS}/resource/${this.config.SHELBY_MODULE_ADDRESS}::global_metadata::StorageProviders`;
 
-      const registryResponse = await fetch(registryUrl);
+      const registryResponse = await this.transport.rest(registryPath);
       if (!registryResponse.ok) {
         logger.warn({ status: registryResponse.status }, "Failed to fetch StorageProviders registry");
         return [];
@@ -350,8 +354,8 @@ export class ShelbyAptosClient {
       const providerResults = await Promise.all(
         providerAddresses.map(async (address) => {
           try {
-            const providerUrl = `${this.config.APTOS_NODE_URL}/accounts/${address}/resource/${this.config.SHELBY_MODULE_ADDRESS}::storage_provider::StorageProvider`;
-            const response = await fetch(providerUrl);
+            const providerPath = `/accounts/${address}/resource/${this.config.SHELBY_MODULE_ADDRESS}::storage_provider::StorageProvider`;
+            const response = await this.transport.rest(providerPath);
 
             if (!response.ok) {
               logger.warn({ address, status: response.status }, "Failed to fetch provider details");
@@ -419,17 +423,10 @@ export class ShelbyAptosClient {
           }
         `;
 
-        const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-          method: 'POST',
-          headers: this.getGraphQLHeaders(),
-          body: JSON.stringify({
-            query,
-            variables: {
-              limit: pageSize,
-              offset,
-              metadata: SHELBYUSD_METADATA
-            },
-          }),
+        const response = await this.transport.graphql(query, {
+          limit: pageSize,
+          offset,
+          metadata: SHELBYUSD_METADATA
         });
 
         const result = await response.json();
@@ -495,14 +492,7 @@ export class ShelbyAptosClient {
         }
       `;
 
-      const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-        method: 'POST',
-        headers: this.getGraphQLHeaders(),
-        body: JSON.stringify({
-          query,
-          variables: { limit },
-        }),
-      });
+      const response = await this.transport.graphql(query, { limit });
 
       const result = await response.json();
 
@@ -569,17 +559,10 @@ export class ShelbyAptosClient {
           }
         `;
 
-        const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-          method: 'POST',
-          headers: this.getGraphQLHeaders(),
-          body: JSON.stringify({
-            query,
-            variables: {
-              limit: pageSize,
-              offset,
-              metadata: SHELBYUSD_METADATA
-            },
-          }),
+        const response = await this.transport.graphql(query, {
+          limit: pageSize,
+          offset,
+          metadata: SHELBYUSD_METADATA
         });
 
         const result = await response.json();
@@ -684,14 +667,7 @@ export class ShelbyAptosClient {
         }
       `;
 
-      const response = await fetch(this.config.APTOS_INDEXER_URL!, {
-        method: 'POST',
-        headers: this.getGraphQLHeaders(),
-        body: JSON.stringify({
-          query,
-          variables: { limit },
-        }),
-      });
+      const response = await this.transport.graphql(query, { limit });
 
       const result = await response.json();
 
@@ -709,9 +685,7 @@ export class ShelbyAptosClient {
           let txHash = '';
 
           try {
-            const txResponse = await fetch(
-              `${this.config.APTOS_NODE_URL}/transactions/by_version/${version}`
-            );
+            const txResponse = await this.transport.rest(`/transactions/by_version/${version}`);
             if (txResponse.ok) {
               const txData = await txResponse.json();
               txHash = txData.hash || '';
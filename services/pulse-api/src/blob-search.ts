@@ -0,0 +1,37 @@
+import type { BlobSearchKey, BlobSearchSort } from './db';
+
+export const BLOB_SEARCH_SORTS: readonly BlobSearchSort[] = ['newest', 'oldest', 'largest', 'smallest'];
+
+export const DEFAULT_BLOB_SEARCH_LIMIT = 20;
+export const MAX_BLOB_SEARCH_LIMIT = 100;
+
+export function isBlobSearchSort(value: unknown): value is BlobSearchSort {
+  return BLOB_SEARCH_SORTS.includes(value as BlobSearchSort);
+}
+
+/**
+ * Opaque page cursor holding the sort key of the last blob on a page. It
+ * carries every column any sort uses, so it stays valid under each of them.
+ */
+export function encodeBlobCursor(key: BlobSearchKey): string {
+  return Buffer.from(JSON.stringify([key.transaction_version, key.event_index, key.size_bytes])).toString(
+    'base64url'
+  );
+}
+
+/**
+ * Read a cursor made by encodeBlobCursor; null when it isn't one
+ */
+export function decodeBlobCursor(cursor: string): BlobSearchKey | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  if (!Array.isArray(value) || value.length !== 3 || !value.every((part) => Number.isSafeInteger(part))) {
+    return null;
+  }
+  const [transaction_version, event_index, size_bytes] = value as number[];
+  return { transaction_version, event_index, size_bytes };
+}
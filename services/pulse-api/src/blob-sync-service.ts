@@ -2,13 +2,38 @@ import { logger } from './logger';
 import { ShelbyAptosClient } from './aptos-client';
 import {
   getLastBlobSyncedVersion,
-  insertBlobEvents,
+  getLastBlobLifecycleSyncedVersion,
+  insertNewBlobEvents,
+  insertBlobLifecycleEvents,
   getBlobSyncStats,
+  getBlobStatusCounts,
+  recordSyncCheckpoints,
   type BlobEventRecord,
+  type BlobLifecycleKind,
+  type BlobLifecycleRecord,
 } from './db';
+import {
+  checkpointRanges,
+  dropPartialTransaction,
+  versionVariables,
+  type VersionFilter,
+} from './sync-checkpoints';
+import { publishBlobEvents } from './live-feed';
+
+// Shelby Protocol module that emits the blob events
+const BLOB_METADATA_MODULE = "0xc63d6a5efb0080a6029403131715bd4971e1149f7cc099aac69bb0069b3ddbf5::blob_metadata";
 
 // Blob event type for Shelby Protocol
-const BLOB_EVENT_TYPE = "0xc63d6a5efb0080a6029403131715bd4971e1149f7cc099aac69bb0069b3ddbf5::blob_metadata::BlobRegisteredEvent";
+const BLOB_EVENT_TYPE = `${BLOB_METADATA_MODULE}::BlobRegisteredEvent`;
+
+// Events that follow a blob's registration, and the kind stored for each.
+// These are the blob_metadata events the SDK knows besides the registration.
+const BLOB_LIFECYCLE_EVENT_KINDS: Record<string, BlobLifecycleKind> = {
+  [`${BLOB_METADATA_MODULE}::BlobWrittenEvent`]: 'written',
+  [`${BLOB_METADATA_MODULE}::BlobDeletedEvent`]: 'deleted',
+  [`${BLOB_METADATA_MODULE}::BlobExpirationExtendedEvent`]: 'expiration_extended',
+};
+const BLOB_LIFECYCLE_EVENT_TYPES = Object.keys(BLOB_LIFECYCLE_EVENT_KINDS);
 
 // Track sync state
 let blobSyncInProgress = false;
@@ -22,7 +47,8 @@ export function isInitialBlobSyncComplete(): boolean {
 }
 
 /**
- * Perform incremental blob sync - fetch new blob events since last sync
+ * Perform incremental blob sync - fetch new blob registrations and lifecycle
+ * events since last sync. Returns how many of either were stored.
  * This runs in small batches to avoid rate limits
  */
 export async function incrementalBlobSync(aptosClient: ShelbyAptosClient): Promise<number> {
@@ -41,15 +67,25 @@ export async function incrementalBlobSync(aptosClient: ShelbyAptosClient): Promi
     // Fetch new blob events since last version
     const newEvents = await fetchBlobEventsSinceVersion(aptosClient, lastVersion);
 
-    if (newEvents.length === 0) {
+    // Insert events into database
+    const insertedEvents = insertNewBlobEvents(newEvents);
+    const inserted = insertedEvents.length;
+    publishBlobEvents(insertedEvents);
+    recordSyncCheckpoints('blob_events', checkpointRanges(lastVersion, newEvents));
+
+    // Lifecycle events are synced as their own stream; a blob's status is
+    // derived when it's read, so they may arrive before its registration
+    const lastLifecycleVersion = getLastBlobLifecycleSyncedVersion();
+    const lifecycleEvents = await fetchBlobLifecycleEventsSinceVersion(aptosClient, lastLifecycleVersion);
+    const lifecycleInserted = insertBlobLifecycleEvents(lifecycleEvents);
+    recordSyncCheckpoints('blob_lifecycle', checkpointRanges(lastLifecycleVersion, lifecycleEvents));
+
+    initialBlobSyncComplete = true;
+    if (newEvents.length === 0 && lifecycleEvents.length === 0) {
       logger.debug('No new blob events to sync');
-      initialBlobSyncComplete = true;
       return 0;
     }
 
-    // Insert events into database
-    const inserted = insertBlobEvents(newEvents);
-
     const duration = Date.now() - startTime;
     const stats = getBlobSyncStats();
 
@@ -57,6 +93,8 @@ export async function incrementalBlobSync(aptosClient: ShelbyAptosClient): Promi
       {
         inserted,
         fetched: newEvents.length,
+        lifecycleInserted,
+        lifecycleFetched: lifecycleEvents.length,
         duration,
         totalBlobs: stats.totalBlobs,
         totalStorage: stats.totalStorage,
@@ -64,8 +102,7 @@ export async function incrementalBlobSync(aptosClient: ShelbyAptosClient): Promi
       'Incremental blob sync complete'
     );
 
-    initialBlobSyncComplete = true;
-    return inserted;
+    return inserted + lifecycleInserted;
   } catch (error) {
     logger.error({
       error,
@@ -79,143 +116,428 @@ export async function incrementalBlobSync(aptosClient: ShelbyAptosClient): Promi
   }
 }
 
+// Aptos indexer page size limit
+const BLOB_PAGE_SIZE = 100;
+// Limit per sync cycle and stream to avoid rate limits (fetch ~1000 events per cycle)
+// With 30s interval, this catches up ~2000/min = 120k/hour
+const MAX_EVENTS_PER_CYCLE = 1000;
+
 /**
- * Fetch blob events since a specific version
- * Uses pagination to avoid rate limits
+ * BlobRegisteredEvent data as the indexer returns it
  */
-async function fetchBlobEventsSinceVersion(
+interface BlobEventData {
+  blob_id?: string;
+  blob_commitment?: string;
+  owner?: string;
+  blob_size?: string | number;
+  size_bytes?: string | number;
+  encoding?: string | { __variant__?: string };
+  blob_name?: string;
+  creation_micros?: string;
+  expiration_micros?: string;
+}
+
+/**
+ * An event as the blob sync queries select it
+ */
+interface IndexedBlobEvent<T> {
+  transaction_version?: string | number;
+  event_index?: number;
+  type?: string;
+  data?: T;
+}
+
+/**
+ * Run one page of an events query. Throws when the indexer fails or rate
+ * limits the request.
+ */
+async function queryEventPage<T>(
   aptosClient: ShelbyAptosClient,
-  sinceVersion: number
-): Promise<BlobEventRecord[]> {
-  const events: BlobEventRecord[] = [];
-  const pageSize = 100; // Aptos indexer limit
-  let offset = 0;
-  let hasMore = true;
-
-  // Limit per sync cycle to avoid rate limits (fetch ~1000 events per cycle)
-  // With 30s interval, this catches up ~2000/min = 120k/hour
-  const maxEventsPerCycle = 1000;
-
-  // Get GraphQL config from client (includes API key in headers)
-  const graphqlConfig = aptosClient.getGraphQLConfig();
-
-  while (hasMore && events.length < maxEventsPerCycle) {
-    const query = `
-      query GetNewBlobEvents($limit: Int!, $offset: Int!, $eventType: String!, $sinceVersion: bigint!) {
-        events(
-          where: {
-            type: {_eq: $eventType},
-            transaction_version: {_gt: $sinceVersion}
-          }
-          order_by: {transaction_version: asc}
-          limit: $limit
-          offset: $offset
-        ) {
-          transaction_version
-          event_index
-          data
-        }
-      }
-    `;
+  query: string,
+  variables: Record<string, unknown>,
+  description: string
+): Promise<IndexedBlobEvent<T>[]> {
+  const response = await aptosClient.getIndexerTransport().graphql(query, variables);
+
+  if (!response.ok) {
+    logger.error({ status: response.status, statusText: response.statusText }, 'GraphQL request failed');
+    throw new Error(`Indexer request failed with ${response.status}`);
+  }
 
-    try {
-      logger.debug({ url: graphqlConfig.url, offset, sinceVersion }, 'Fetching blob events page');
-
-      const response = await fetch(graphqlConfig.url, {
-        method: 'POST',
-        headers: graphqlConfig.headers,
-        body: JSON.stringify({
-          query,
-          variables: {
-            limit: pageSize,
-            offset,
-            eventType: BLOB_EVENT_TYPE,
-            sinceVersion: sinceVersion.toString(),
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        logger.error({ status: response.status, statusText: response.statusText }, 'GraphQL request failed');
-        break;
-      }
+  const result = await response.json();
+
+  if (result.errors) {
+    // Check for rate limit
+    const rateLimitError = result.errors.find(
+      (e: { extensions?: { code?: string } }) => e.extensions?.code === "429"
+    );
+    if (rateLimitError) {
+      logger.warn('Rate limited during blob sync, returning partial results');
+    } else {
+      logger.warn({ errors: result.errors }, 'GraphQL errors during blob sync');
+    }
+    throw new Error(`Indexer query for ${description} failed`);
+  }
+
+  return result.data?.events || [];
+}
 
-      const result = await response.json();
+function eventKey(event: IndexedBlobEvent<unknown>): Pick<BlobEventRecord, 'transaction_version' | 'event_index'> {
+  return {
+    transaction_version: parseInt(String(event.transaction_version || '0'), 10),
+    event_index: typeof event.event_index === 'number' ? event.event_index : 0,
+  };
+}
 
-      if (result.errors) {
-        // Check for rate limit
-        const rateLimitError = result.errors.find(
-          (e: { extensions?: { code?: string } }) => e.extensions?.code === "429"
-        );
-        if (rateLimitError) {
-          logger.warn('Rate limited during blob sync, returning partial results');
-          break;
+/**
+ * Fetch one page of blob registration events, ordered by version and event
+ * index. Throws when the indexer fails or rate limits the request.
+ */
+async function fetchBlobEventPage(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  offset: number
+): Promise<BlobEventRecord[]> {
+  const query = `
+    query GetBlobEvents($limit: Int!, $offset: Int!, $eventType: String!, $versions: bigint_comparison_exp!) {
+      events(
+        where: {
+          type: {_eq: $eventType},
+          transaction_version: $versions
         }
-        logger.warn({ errors: result.errors }, 'GraphQL errors during blob sync');
-        break;
+        order_by: [{transaction_version: asc}, {event_index: asc}]
+        limit: $limit
+        offset: $offset
+      ) {
+        transaction_version
+        event_index
+        data
       }
+    }
+  `;
+
+  logger.debug({ offset, versions }, 'Fetching blob events page');
+
+  const fetched = await queryEventPage<BlobEventData>(
+    aptosClient,
+    query,
+    {
+      limit: BLOB_PAGE_SIZE,
+      offset,
+      eventType: BLOB_EVENT_TYPE,
+      versions: versionVariables(versions),
+    },
+    'blob events'
+  );
+
+  // Log first event for debugging
+  if (offset === 0 && fetched.length > 0) {
+    logger.info({ firstEvent: fetched[0] }, 'Sample blob event from API');
+  }
 
-      const fetched = result.data?.events || [];
+  return fetched.map((event) => {
+    const data = event.data || {};
+
+    // Parse event data from BlobRegisteredEvent
+    // Fields: blob_id, owner, blob_size, encoding, blob_name, creation_micros, expiration_micros
+    // Note: better-sqlite3 requires null, not undefined, for nullable fields
+    // Note: encoding can be an object { __variant__: "..." } - convert to string
+    const encodingValue = data.encoding
+      ? (typeof data.encoding === 'string' ? data.encoding : data.encoding.__variant__ || JSON.stringify(data.encoding))
+      : null;
+
+    const blobEvent: BlobEventRecord = {
+      ...eventKey(event),
+      blob_id: blobKey(data),
+      owner_address: data.owner || '',
+      size_bytes: parseInt(String(data.blob_size || data.size_bytes || '0'), 10),
+      encoding: encodingValue,
+      blob_name: data.blob_name ?? extractBlobName(data.blob_id) ?? null,
+      creation_timestamp: data.creation_micros
+        ? Math.floor(parseInt(data.creation_micros, 10) / 1000)
+        : null,
+      expiration_timestamp: data.expiration_micros
+        ? Math.floor(parseInt(data.expiration_micros, 10) / 1000)
+        : null,
+    };
+    return blobEvent;
+  });
+}
 
-      if (fetched.length === 0) {
-        hasMore = false;
-        break;
-      }
+/**
+ * The key a blob's registration and lifecycle events are matched on. Both
+ * streams must derive it the same way, whichever fields an event carries.
+ */
+function blobKey(data: { blob_id?: string; blob_name?: string; blob_commitment?: string }): string {
+  return data.blob_id || data.blob_name || data.blob_commitment || '';
+}
 
-      // Log first event for debugging
-      if (offset === 0 && fetched.length > 0) {
-        logger.info({ firstEvent: fetched[0] }, 'Sample blob event from API');
-      }
+/**
+ * Lifecycle event data as the indexer returns it. The events name the blob
+ * the way its registration does; an extension also carries the new expiration.
+ */
+interface BlobLifecycleEventData {
+  blob_id?: string;
+  blob_commitment?: string;
+  blob_name?: string;
+  owner?: string;
+  new_expiration_micros?: string;
+  expiration_micros?: string;
+}
 
-      for (const event of fetched) {
-        const data = event.data || {};
-
-        // Parse event data from BlobRegisteredEvent
-        // Fields: blob_id, owner, blob_size, encoding, blob_name, creation_micros, expiration_micros
-        // Note: better-sqlite3 requires null, not undefined, for nullable fields
-        // Note: encoding can be an object { __variant__: "..." } - convert to string
-        const encodingValue = data.encoding
-          ? (typeof data.encoding === 'string' ? data.encoding : data.encoding.__variant__ || JSON.stringify(data.encoding))
-          : null;
-
-        const blobEvent: BlobEventRecord = {
-          transaction_version: parseInt(event.transaction_version || '0', 10),
-          event_index: typeof event.event_index === 'number' ? event.event_index : 0,
-          blob_id: data.blob_id || data.blob_commitment || '',
-          owner_address: data.owner || '',
-          size_bytes: parseInt(data.blob_size || data.size_bytes || '0', 10),
-          encoding: encodingValue,
-          blob_name: data.blob_name ?? extractBlobName(data.blob_id) ?? null,
-          creation_timestamp: data.creation_micros
-            ? Math.floor(parseInt(data.creation_micros, 10) / 1000)
-            : null,
-          expiration_timestamp: data.expiration_micros
-            ? Math.floor(parseInt(data.expiration_micros, 10) / 1000)
-            : null,
-        };
-
-        // Log first parsed event for debugging
-        if (events.length === 0) {
-          logger.info({ parsedEvent: blobEvent }, 'First parsed blob event');
+/**
+ * Fetch one page of blob lifecycle events, ordered by version and event
+ * index. Throws when the indexer fails or rate limits the request.
+ */
+async function fetchBlobLifecycleEventPage(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  offset: number
+): Promise<BlobLifecycleRecord[]> {
+  const query = `
+    query GetBlobLifecycleEvents($limit: Int!, $offset: Int!, $eventTypes: [String!]!, $versions: bigint_comparison_exp!) {
+      events(
+        where: {
+          type: {_in: $eventTypes},
+          transaction_version: $versions
         }
-
-        events.push(blobEvent);
+        order_by: [{transaction_version: asc}, {event_index: asc}]
+        limit: $limit
+        offset: $offset
+      ) {
+        transaction_version
+        event_index
+        type
+        data
       }
+    }
+  `;
+
+  logger.debug({ offset, versions }, 'Fetching blob lifecycle events page');
+
+  const fetched = await queryEventPage<BlobLifecycleEventData>(
+    aptosClient,
+    query,
+    {
+      limit: BLOB_PAGE_SIZE,
+      offset,
+      eventTypes: BLOB_LIFECYCLE_EVENT_TYPES,
+      versions: versionVariables(versions),
+    },
+    'blob lifecycle events'
+  );
+
+  return fetched.map((event) => {
+    const data = event.data || {};
+    const eventType = event.type || '';
+    const kind = BLOB_LIFECYCLE_EVENT_KINDS[eventType];
+    const expirationMicros = data.new_expiration_micros ?? data.expiration_micros;
+    return {
+      ...eventKey(event),
+      blob_id: blobKey(data),
+      owner_address: data.owner || '',
+      event_type: eventType,
+      kind,
+      expiration_timestamp: kind === 'expiration_extended' && expirationMicros
+        ? Math.floor(parseInt(expirationMicros, 10) / 1000)
+        : null,
+    };
+  });
+}
 
-      offset += pageSize;
+/**
+ * Page through the events a page fetcher returns. `complete` is false when
+ * paging stopped early (limit reached or a page failed), in which case the
+ * possibly partial last transaction is left out.
+ */
+async function fetchEventPages<T extends { transaction_version: number }>(
+  fetchPage: (offset: number) => Promise<T[]>,
+  maxEvents: number
+): Promise<{ events: T[]; complete: boolean }> {
+  const events: T[] = [];
+  let offset = 0;
+  let complete = false;
 
-      if (fetched.length < pageSize) {
-        hasMore = false;
-      }
+  while (events.length < maxEvents) {
+    let fetched: T[];
+    try {
+      fetched = await fetchPage(offset);
     } catch (error) {
       logger.error({ error, offset }, 'Failed to fetch blob events page');
       break;
     }
+
+    events.push(...fetched);
+    offset += BLOB_PAGE_SIZE;
+
+    if (fetched.length < BLOB_PAGE_SIZE) {
+      complete = true;
+      break;
+    }
   }
 
+  return { events: complete ? events : dropPartialTransaction(events), complete };
+}
+
+/**
+ * Page through the blob registration events matching a version filter
+ */
+function fetchBlobEvents(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  maxEvents: number
+): Promise<{ events: BlobEventRecord[]; complete: boolean }> {
+  return fetchEventPages((offset) => fetchBlobEventPage(aptosClient, versions, offset), maxEvents);
+}
+
+/**
+ * Page through the blob lifecycle events matching a version filter
+ */
+function fetchBlobLifecycleEvents(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  maxEvents: number
+): Promise<{ events: BlobLifecycleRecord[]; complete: boolean }> {
+  return fetchEventPages((offset) => fetchBlobLifecycleEventPage(aptosClient, versions, offset), maxEvents);
+}
+
+/**
+ * Fetch blob events since a specific version
+ * Uses pagination to avoid rate limits
+ */
+async function fetchBlobEventsSinceVersion(
+  aptosClient: ShelbyAptosClient,
+  sinceVersion: number
+): Promise<BlobEventRecord[]> {
+  const { events } = await fetchBlobEvents(aptosClient, { _gt: sinceVersion }, MAX_EVENTS_PER_CYCLE);
   return events;
 }
 
+/**
+ * Fetch blob lifecycle events since a specific version
+ */
+async function fetchBlobLifecycleEventsSinceVersion(
+  aptosClient: ShelbyAptosClient,
+  sinceVersion: number
+): Promise<BlobLifecycleRecord[]> {
+  const { events } = await fetchBlobLifecycleEvents(aptosClient, { _gt: sinceVersion }, MAX_EVENTS_PER_CYCLE);
+  return events;
+}
+
+/**
+ * Fetch every blob event in a version range (both ends inclusive), throwing
+ * if the indexer couldn't return all of it
+ */
+export async function fetchBlobEventsInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<BlobEventRecord[]> {
+  const { events, complete } = await fetchBlobEvents(
+    aptosClient,
+    { _gte: fromVersion, _lte: toVersion },
+    Number.POSITIVE_INFINITY
+  );
+  if (!complete) {
+    throw new Error(`Couldn't fetch blob events for versions ${fromVersion}-${toVersion}`);
+  }
+  return events;
+}
+
+/**
+ * Fetch every blob lifecycle event in a version range (both ends inclusive),
+ * throwing if the indexer couldn't return all of it
+ */
+export async function fetchBlobLifecycleEventsInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<BlobLifecycleRecord[]> {
+  const { events, complete } = await fetchBlobLifecycleEvents(
+    aptosClient,
+    { _gte: fromVersion, _lte: toVersion },
+    Number.POSITIVE_INFINITY
+  );
+  if (!complete) {
+    throw new Error(`Couldn't fetch blob lifecycle events for versions ${fromVersion}-${toVersion}`);
+  }
+  return events;
+}
+
+/**
+ * Read the count out of an events_aggregate response, throwing when the
+ * indexer couldn't answer
+ */
+async function aggregateCount(response: Response, description: string): Promise<number> {
+  const result = response.ok ? await response.json() : { errors: [{ message: response.statusText }] };
+  const count = result.data?.events_aggregate?.aggregate?.count;
+  if (result.errors || typeof count !== 'number') {
+    logger.warn({ errors: result.errors, description }, 'Event count query failed');
+    throw new Error(`Indexer count query for ${description} failed`);
+  }
+  return count;
+}
+
+/**
+ * Count the indexer's blob events in a version range (both ends inclusive)
+ */
+export async function countBlobEventsInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<number> {
+  const query = `
+    query CountBlobEvents($eventType: String!, $versions: bigint_comparison_exp!) {
+      events_aggregate(
+        where: {
+          type: {_eq: $eventType},
+          transaction_version: $versions
+        }
+      ) {
+        aggregate {
+          count
+        }
+      }
+    }
+  `;
+
+  const response = await aptosClient.getIndexerTransport().graphql(query, {
+    eventType: BLOB_EVENT_TYPE,
+    versions: versionVariables({ _gte: fromVersion, _lte: toVersion }),
+  });
+  return aggregateCount(response, 'blob events');
+}
+
+/**
+ * Count the indexer's blob lifecycle events in a version range (both ends inclusive)
+ */
+export async function countBlobLifecycleEventsInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<number> {
+  const query = `
+    query CountBlobLifecycleEvents($eventTypes: [String!]!, $versions: bigint_comparison_exp!) {
+      events_aggregate(
+        where: {
+          type: {_in: $eventTypes},
+          transaction_version: $versions
+        }
+      ) {
+        aggregate {
+          count
+        }
+      }
+    }
+  `;
+
+  const response = await aptosClient.getIndexerTransport().graphql(query, {
+    eventTypes: BLOB_LIFECYCLE_EVENT_TYPES,
+    versions: versionVariables({ _gte: fromVersion, _lte: toVersion }),
+  });
+  return aggregateCount(response, 'blob lifecycle events');
+}
+
 /**
  * Extract blob name from blob_id (format: "prefix/name.ext")
  */
@@ -232,10 +554,12 @@ export function getBlobSyncStatus(): {
   syncInProgress: boolean;
   initialSyncComplete: boolean;
   stats: ReturnType<typeof getBlobSyncStats>;
+  statuses: ReturnType<typeof getBlobStatusCounts>;
 } {
   return {
     syncInProgress: blobSyncInProgress,
     initialSyncComplete: initialBlobSyncComplete,
     stats: getBlobSyncStats(),
+    statuses: getBlobStatusCounts(),
   };
 }
@@ -14,6 +14,9 @@ const configSchema = z.object({
     .optional()
     .default(""),
   SHELBY_MODULE_ADDRESS: z.string().default("0x1"),
+  // "http" talks to the indexer/fullnode; "replay" serves recorded fixtures offline, "record" saves them
+  INDEXER_TRANSPORT: z.enum(["http", "record", "replay"]).default("http"),
+  INDEXER_FIXTURES_DIR: z.string().default("fixtures/indexer"),
   PORT: z.coerce.number().int().default(3001),
   CACHE_TTL_SECONDS: z.coerce.number().int().default(30),
   // Cloud infrastructure API for farming nodes
@@ -23,6 +26,15 @@ const configSchema = z.object({
   SHELBY_PRIVATE_KEY: z.string().optional().default(""),
   // Shelby API key for RPC access (bypasses rate limits)
   SHELBY_API_KEY: z.string().optional().default(""),
+  // Max uploads pushed to Shelby at once (further uploads wait in a queue)
+  UPLOAD_MAX_CONCURRENCY: z.coerce.number().int().min(1).default(2),
+  // Shelby Share quotas per IP and per wallet (0 disables a limit)
+  SHARE_QUOTA_BYTES_PER_DAY: z.coerce.number().int().min(0).default(5 * 1024 * 1024 * 1024),
+  SHARE_QUOTA_FILES_PER_HOUR: z.coerce.number().int().min(0).default(100),
+  // Open /api/stream connections allowed at once (further ones get 503)
+  LIVE_MAX_STREAMS: z.coerce.number().int().min(1).default(1000),
+  // Express "trust proxy" setting so quotas see the real client IP behind a load balancer
+  TRUST_PROXY: z.string().optional().default(""),
 });
 
 export type ApiConfig = z.infer<typeof configSchema>;
@@ -1,20 +1,41 @@
 import NodeCache from "node-cache";
 import type { ApiConfig } from "./config";
 import { ShelbyAptosClient, type BlobEvent, type StorageProvider } from "./aptos-client";
+import type { IndexerTransport } from "./indexer-transport";
 import { logger } from "./logger";
 import { getShelbyUSDLeaderboard, type LeaderboardEntry } from "./shelbyusd/leaderboard";
 import { get24hVolume, type VolumeData } from "./shelbyusd/volume";
 import { getMostActiveUsers, getBiggestSpenders, getRecentTransactions, clearActivityCache, type ActivityEntry, type SpenderEntry, type RecentTransaction } from "./shelbyusd/activity";
 import { getAllTimeStats, type AllTimeStats } from "./shelbyusd/all-time-stats";
-import { initDatabase, closeDatabase, getDatabaseStats, resetDatabase, getBlobSyncStats, getBlobStatsByType, getBlobStatsByOwner, getActivityBreakdown, get24hActivityStats, get24hBlobStats, getTopUploaders } from "./db";
-import { incrementalSync, fullSync, getSyncStatus, isInitialSyncComplete } from "./sync-service";
-import { incrementalBlobSync, getBlobSyncStatus } from "./blob-sync-service";
-import { getAnalyticsData, computeAnalyticsFromEvents, type AnalyticsData } from "./analytics-service";
+import { initDatabase, closeDatabase, getDatabaseStats, getBlobSyncStats, getBlobStatsByType, getBlobStatsByOwner, getActivityBreakdown, get24hActivityStats, get24hBlobStats, getTopUploaders, getOwnerBlobStats, getAddressStats, getAddressRanks, getBlobsByOwner, getActivitiesByAddress, countActivitiesByAddress, searchBlobEvents, getBlobExpirationStats, getExpiringBlobs, getRecentBlobEvents, getStoredBlobStats, type BlobEventRecord, type BlobSearchFilters, type BlobSearchKey, type BlobSearchSort } from "./db";
+import { incrementalSync, fullSync, backfillActivities, getSyncStatus, isInitialSyncComplete } from "./sync-service";
+import { incrementalBlobSync, getBlobSyncStatus, isInitialBlobSyncComplete } from "./blob-sync-service";
+import { verifySyncCheckpoints, getSyncVerificationStatus } from "./sync-verifier";
+import { rollupTimeseries, getTimeseries, type TimeseriesData, type TimeseriesMetric } from "./timeseries";
+import type { TimeseriesBucket } from "./db";
+import { getAnalyticsData, computeAnalyticsFromEvents, categorizeExtension, getFileExtension, type AnalyticsData } from "./analytics-service";
+import { getStorageProjection, type StorageProjection } from "./storage-projection";
+import { encodeBlobCursor } from "./blob-search";
+import { evaluateAlertRules } from "./alert-rules";
+import { deliverDueWebhooks } from "./webhooks";
+import { cacheLookups, coalescedRequests, observeSyncStep } from "./metrics";
+import { recordSyncLag } from "./db-metrics";
 
 export interface NetworkStats {
+  // Every blob ever registered, whatever became of it
   totalBlobs: number;
   totalStorage: number;
   totalStorageFormatted: string;
+  liveBlobs: number;
+  liveStorage: number;
+  liveStorageFormatted: string;
+  expiredBlobs: number;
+  expiredStorage: number;
+  expiredStorageFormatted: string;
+  // Deleted by their owner
+  deletedBlobs: number;
+  deletedStorage: number;
+  deletedStorageFormatted: string;
   uploadRate: number;
   timestamp: number;
 }
@@ -22,6 +43,8 @@ export interface NetworkStats {
 export interface BlobData {
   id: string;
   owner: string;
+  // Full owner address, for linking to /api/address
+  ownerAddress: string | null;
   name: string;
   encoding: string;
   expires: string;
@@ -65,6 +88,112 @@ export interface NetworkActivityMetrics {
   }>;
 }
 
+export interface AddressBlob {
+  blobId: string;
+  name: string | null;
+  sizeBytes: number;
+  size: string;
+  encoding: string | null;
+  createdAt: number | null;
+  expiresAt: number | null;
+  expired: boolean;
+  version: number;
+}
+
+export interface AddressActivity {
+  version: number;
+  eventIndex: number;
+  type: "deposit" | "withdraw" | "mint" | "burn";
+  amount: number;
+  timestamp: number;
+}
+
+export interface Page<T> {
+  total: number;
+  limit: number;
+  offset: number;
+  items: T[];
+}
+
+export interface AddressDetails {
+  address: string;
+  stats: {
+    blobCount: number;
+    activeBlobs: number;
+    totalBytes: number;
+    totalBytesFormatted: string;
+    firstUploadAt: number | null;
+    lastUploadAt: number | null;
+    txCount: number;
+    totalDeposited: number;
+    totalWithdrawn: number;
+    totalMinted: number;
+    totalBurned: number;
+    // null when the holder balances couldn't be fetched
+    balance: number | null;
+  };
+  // Position in each leaderboard (1 = top), null when not on it
+  ranks: {
+    holders: number | null;
+    mostActive: number | null;
+    topSpenders: number | null;
+    topMinters: number | null;
+    storage: number | null;
+  };
+  blobs: Page<AddressBlob>;
+  activity: Page<AddressActivity>;
+  timestamp: number;
+}
+
+export interface BlobSearchResult extends AddressBlob {
+  owner: string;
+  eventIndex: number;
+  extension: string;
+  category: string;
+}
+
+export interface BlobSearchPage {
+  blobs: BlobSearchResult[];
+  sort: BlobSearchSort;
+  limit: number;
+  // Pass back as `cursor` for the next page; null on the last one
+  nextCursor: string | null;
+  timestamp: number;
+}
+
+export interface ExpiringBlobs {
+  from: number;
+  until: number;
+  // Every live blob expiring by `until`; `blobs` is one page of them, soonest first
+  total: number;
+  totalBytes: number;
+  totalBytesFormatted: string;
+  limit: number;
+  offset: number;
+  blobs: BlobSearchResult[];
+  timestamp: number;
+}
+
+// "Expiring soon" in the analytics means within a week
+const EXPIRING_SOON_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AddressPageOptions {
+  blobsLimit?: number;
+  blobsOffset?: number;
+  activityLimit?: number;
+  activityOffset?: number;
+}
+
+/**
+ * Lowercase a 0x-prefixed hex address and pad it to 64 digits, the form the
+ * indexer stores. Returns null when it isn't an address.
+ */
+export function normalizeAddress(value: string): string | null {
+  const address = value.trim().toLowerCase();
+  if (!/^0x[0-9a-f]{1,64}$/.test(address)) return null;
+  return `0x${address.slice(2).padStart(64, "0")}`;
+}
+
 export interface EconomyData {
   leaderboard: LeaderboardEntry[];
   volume: VolumeData;
@@ -76,6 +205,13 @@ export interface EconomyData {
   timestamp: number;
 }
 
+export interface DataServiceOptions {
+  // Overrides the transport selected by INDEXER_TRANSPORT
+  transport?: IndexerTransport;
+  // Set to false to sync only when runSync() is called (e.g. in tests)
+  backgroundSync?: boolean;
+}
+
 export class DataService {
   private cache: NodeCache;
   private aptosClient: ShelbyAptosClient;
@@ -87,20 +223,22 @@ export class DataService {
   // Request coalescing: prevent duplicate in-flight requests
   private inFlightRequests: Map<string, Promise<unknown>> = new Map();
 
-  constructor(config: ApiConfig) {
+  constructor(config: ApiConfig, options: DataServiceOptions = {}) {
     this.config = config;
     this.cache = new NodeCache({
       stdTTL: config.CACHE_TTL_SECONDS,
       checkperiod: config.CACHE_TTL_SECONDS * 2,
     });
-    this.aptosClient = new ShelbyAptosClient(config);
+    this.aptosClient = new ShelbyAptosClient(config, options.transport);
 
     // Initialize database
     initDatabase();
     logger.info('Database initialized');
 
     // Start background sync
-    this.startBackgroundSync();
+    if (options.backgroundSync !== false) {
+      this.startBackgroundSync();
+    }
   }
 
   /**
@@ -125,11 +263,12 @@ export class DataService {
   /**
    * Run incremental sync for both blob events AND ShelbyUSD activities
    * Blob sync runs first to prioritize accurate blob counts
+   * Each step logs its own failure, so one failing step doesn't skip the rest
    */
-  private async runSync(): Promise<void> {
+  async runSync(): Promise<void> {
     // Blob event sync FIRST - prioritize blob counts for Metrics tab
     try {
-      await incrementalBlobSync(this.aptosClient);
+      await observeSyncStep('blobs', () => incrementalBlobSync(this.aptosClient));
     } catch (err) {
       logger.error({ err }, 'Blob sync failed');
     }
@@ -138,9 +277,63 @@ export class DataService {
     const dbStats = getDatabaseStats();
     if (dbStats.activityCount === 0) {
       logger.info('Database empty, performing full ShelbyUSD sync...');
-      await fullSync(this.aptosClient);
+      try {
+        await observeSyncStep('activities_full', () => fullSync(this.aptosClient));
+      } catch (err) {
+        logger.error({ err }, 'Full ShelbyUSD sync failed');
+      }
     } else {
-      await incrementalSync(this.aptosClient);
+      try {
+        await observeSyncStep('activities', () => incrementalSync(this.aptosClient));
+      } catch (err) {
+        logger.error({ err }, 'ShelbyUSD sync failed');
+      }
+      // Restore events dropped before activities were keyed by event index
+      try {
+        await observeSyncStep('activity_backfill', () => backfillActivities(this.aptosClient));
+      } catch (err) {
+        logger.error({ err }, 'Activity backfill failed');
+      }
+    }
+
+    // How far behind the indexer the sync is, for /metrics
+    try {
+      const head = await observeSyncStep('indexer_head', () => this.aptosClient.getIndexerHead());
+      recordSyncLag(head);
+    } catch (err) {
+      logger.warn({ err }, 'Failed to fetch the indexer head');
+    }
+
+    // Recount settled ranges against the indexer and repair any gaps
+    try {
+      await observeSyncStep('verification', () => verifySyncCheckpoints(this.aptosClient));
+    } catch (err) {
+      logger.error({ err }, 'Sync checkpoint verification failed');
+    }
+
+    // Roll the synced events up into the hourly and daily timeseries
+    try {
+      await observeSyncStep('timeseries', () => rollupTimeseries());
+    } catch (err) {
+      logger.error({ err }, 'Timeseries rollup failed');
+    }
+
+    // Fire the alert rules on what was just synced, then send their webhooks and any retries due
+    try {
+      await observeSyncStep('alert_rules', () =>
+        evaluateAlertRules({
+          now: Date.now(),
+          blobSyncCaughtUp: isInitialBlobSyncComplete(),
+          getStorageProviders: () => this.getStorageProviders(),
+        })
+      );
+    } catch (err) {
+      logger.error({ err }, 'Alert rule evaluation failed');
+    }
+    try {
+      await observeSyncStep('webhooks', () => deliverDueWebhooks());
+    } catch (err) {
+      logger.error({ err }, 'Webhook delivery failed');
     }
   }
 
@@ -151,17 +344,31 @@ export class DataService {
     return {
       ...getSyncStatus(),
       blobSync: getBlobSyncStatus(),
+      verification: getSyncVerificationStatus(),
     };
   }
 
   /**
-   * Force a full resync (admin operation)
+   * Historical buckets for a metric, as rolled up by the background sync
+   */
+  getTimeseries(
+    metric: TimeseriesMetric,
+    bucket: TimeseriesBucket,
+    range: { from?: number; to?: number } = {}
+  ): TimeseriesData {
+    return getTimeseries(metric, bucket, range);
+  }
+
+  /**
+   * Force a full resync (admin operation). The current data keeps serving
+   * until the resynced data is swapped in, so the caches are cleared after.
    */
   async forceResync(): Promise<number> {
     logger.info('Force resync requested');
+    const count = await fullSync(this.aptosClient);
     this.cache.del('economy_data');
     clearActivityCache();
-    return fullSync(this.aptosClient);
+    return count;
   }
 
   /**
@@ -176,6 +383,15 @@ export class DataService {
     logger.info('DataService shutdown complete');
   }
 
+  /**
+   * Read the cache, counting the hit or miss for /metrics
+   */
+  private getCached<T>(key: string): T | undefined {
+    const value = this.cache.get<T>(key);
+    cacheLookups.inc({ result: value === undefined ? "miss" : "hit" });
+    return value;
+  }
+
   /**
    * Coalesce identical requests to prevent thundering herd
    * Multiple users requesting same data will share one in-flight request
@@ -184,8 +400,10 @@ export class DataService {
     // Return in-flight request if one exists
     const existing = this.inFlightRequests.get(key);
     if (existing) {
+      coalescedRequests.inc({ result: "shared" });
       return existing as Promise<T>;
     }
+    coalescedRequests.inc({ result: "fetched" });
 
     // Create new request and track it
     const promise = fetcher().finally(() => {
@@ -202,7 +420,7 @@ export class DataService {
    */
   async getNetworkStats(): Promise<NetworkStats> {
     const cacheKey = "network_stats";
-    const cached = this.cache.get<NetworkStats>(cacheKey);
+    const cached = this.getCached<NetworkStats>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -215,6 +433,7 @@ export class DataService {
 
       // Calculate upload rate (blobs per minute)
       const now = Date.now();
+      const expiration = getBlobExpirationStats(now, now);
       const timeDiff = (now - this.lastTimestamp) / 1000 / 60; // minutes
       const blobDiff = totalBlobs - this.lastBlobCount;
       const uploadRate =
@@ -227,6 +446,15 @@ export class DataService {
         totalBlobs,
         totalStorage,
         totalStorageFormatted: this.formatBytes(totalStorage),
+        liveBlobs: expiration.live_blobs,
+        liveStorage: expiration.live_bytes,
+        liveStorageFormatted: this.formatBytes(expiration.live_bytes),
+        expiredBlobs: expiration.expired_blobs,
+        expiredStorage: expiration.expired_bytes,
+        expiredStorageFormatted: this.formatBytes(expiration.expired_bytes),
+        deletedBlobs: expiration.deleted_blobs,
+        deletedStorage: expiration.deleted_bytes,
+        deletedStorageFormatted: this.formatBytes(expiration.deleted_bytes),
         uploadRate,
         timestamp: now,
       };
@@ -241,36 +469,32 @@ export class DataService {
   }
 
   /**
-   * Get recent blob events
+   * Get the most recently registered blobs, leaving out deleted blobs. Uses
+   * the local database, which knows each blob's status.
    */
   async getRecentBlobs(limit = 20): Promise<BlobData[]> {
     const cacheKey = `recent_blobs_${limit}`;
-    const cached = this.cache.get<BlobData[]>(cacheKey);
+    const cached = this.getCached<BlobData[]>(cacheKey);
     if (cached) {
       return cached;
     }
 
     try {
-      const events = await this.aptosClient.fetchBlobEvents(limit);
-
-      const blobs: BlobData[] = events.map((event) => {
-        // Parse Shelby event data structure
-        const sizeBytes = Number.parseInt(event.data?.size_bytes || "0", 10);
-        const expirationMicros = Number.parseInt(
-          event.data?.expiration_micros || "0",
-          10,
-        );
-        const expirationDate = new Date(expirationMicros / 1000);
+      const blobs: BlobData[] = getRecentBlobEvents(limit).map((blob) => {
+        const version = String(blob.transaction_version);
 
         return {
-          id: event.data?.blob_commitment || event.sequence_number,
-          owner: this.shortenAddress(event.data?.owner || "unknown"),
-          name: event.data?.blob_id?.split('/').pop() || this.generateBlobName(event.sequence_number),
-          encoding: typeof event.data?.encoding === 'string' ? event.data.encoding : 'unknown',
-          expires: expirationDate.toLocaleDateString("en-US"),
-          size: this.formatBytes(sizeBytes),
-          sizeBytes,
-          version: event.version,
+          id: blob.blob_id || version,
+          owner: this.shortenAddress(blob.owner_address || "unknown"),
+          ownerAddress: blob.owner_address || null,
+          name: blob.blob_id.split('/').pop() || this.generateBlobName(version),
+          encoding: blob.encoding ?? 'unknown',
+          expires: blob.expiration_timestamp === null
+            ? "Never"
+            : new Date(blob.expiration_timestamp).toLocaleDateString("en-US"),
+          size: this.formatBytes(blob.size_bytes),
+          sizeBytes: blob.size_bytes,
+          version,
         };
       });
 
@@ -288,7 +512,7 @@ export class DataService {
    */
   async getStorageProviders(): Promise<StorageProvider[]> {
     const cacheKey = "storage_providers";
-    const cached = this.cache.get<StorageProvider[]>(cacheKey);
+    const cached = this.getCached<StorageProvider[]>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -312,7 +536,7 @@ export class DataService {
    */
   async getAllBlobEvents(limit = 100): Promise<BlobEvent[]> {
     const cacheKey = `all_events_${limit}`;
-    const cached = this.cache.get<BlobEvent[]>(cacheKey);
+    const cached = this.getCached<BlobEvent[]>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -362,7 +586,7 @@ export class DataService {
       clearActivityCache();
       this.cache.del(cacheKey);
     } else {
-      const cached = this.cache.get<EconomyData>(cacheKey);
+      const cached = this.getCached<EconomyData>(cacheKey);
       if (cached) {
         return cached;
       }
@@ -437,13 +661,187 @@ export class DataService {
     return this.aptosClient.getUserShelbyUSDDeposits(userAddress, sinceVersion, limit);
   }
 
+  /**
+   * Synced blobs matching every filter, a page at a time. `after` is the
+   * sort key of the last blob on the previous page.
+   */
+  searchBlobs(
+    filters: BlobSearchFilters,
+    options: { sort: BlobSearchSort; limit: number; after?: BlobSearchKey }
+  ): BlobSearchPage {
+    const now = Date.now();
+    // One extra row tells whether there's another page
+    const rows = searchBlobEvents(filters, options.sort, options.limit + 1, options.after);
+    const blobs = rows.slice(0, options.limit);
+    const last = blobs.at(-1);
+
+    return {
+      blobs: blobs.map((blob) => this.toBlobSearchResult(blob, now)),
+      sort: options.sort,
+      limit: options.limit,
+      nextCursor: rows.length > options.limit && last ? encodeBlobCursor(last) : null,
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Live blobs that expire within `within` ms, soonest first
+   */
+  getExpiringBlobs(within: number, options: { limit: number; offset: number }): ExpiringBlobs {
+    const now = Date.now();
+    const until = now + within;
+    const stats = getBlobExpirationStats(now, until);
+
+    return {
+      from: now,
+      until,
+      total: stats.expiring_blobs,
+      totalBytes: stats.expiring_bytes,
+      totalBytesFormatted: this.formatBytes(stats.expiring_bytes),
+      limit: options.limit,
+      offset: options.offset,
+      blobs: getExpiringBlobs(now, until, options.limit, options.offset).map((blob) =>
+        this.toBlobSearchResult(blob, now)
+      ),
+      timestamp: now,
+    };
+  }
+
+  /**
+   * Live storage projected 30, 90 and 365 days ahead
+   */
+  getStorageProjection(): StorageProjection {
+    const cacheKey = "storage_projection";
+    const cached = this.getCached<StorageProjection>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const projection = getStorageProjection();
+    // Moves a day at a time, so five minutes is plenty fresh
+    this.cache.set(cacheKey, projection, 300);
+    return projection;
+  }
+
+  private toBlobSearchResult(blob: BlobEventRecord, now: number): BlobSearchResult {
+    const extension = getFileExtension(blob.blob_name ?? "");
+    return {
+      ...this.toAddressBlob(blob, now),
+      owner: blob.owner_address,
+      eventIndex: blob.event_index,
+      extension,
+      category: categorizeExtension(extension),
+    };
+  }
+
+  private toAddressBlob(blob: BlobEventRecord, now: number): AddressBlob {
+    return {
+      blobId: blob.blob_id,
+      name: blob.blob_name,
+      sizeBytes: blob.size_bytes,
+      size: this.formatBytes(blob.size_bytes),
+      encoding: blob.encoding,
+      createdAt: blob.creation_timestamp,
+      expiresAt: blob.expiration_timestamp,
+      expired: blob.expiration_timestamp !== null && blob.expiration_timestamp <= now,
+      version: blob.transaction_version,
+    };
+  }
+
+  /**
+   * Everything stored about one address: its blobs, ShelbyUSD activity,
+   * totals and leaderboard ranks. `address` must already be normalized.
+   */
+  async getAddressDetails(address: string, options: AddressPageOptions = {}): Promise<AddressDetails> {
+    const { blobsLimit = 20, blobsOffset = 0, activityLimit = 20, activityOffset = 0 } = options;
+    const cacheKey = `address_${address}_${blobsLimit}_${blobsOffset}_${activityLimit}_${activityOffset}`;
+    const cached = this.getCached<AddressDetails>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const now = Date.now();
+    const blobStats = getOwnerBlobStats(address, now);
+    const addressStats = getAddressStats(address);
+    const ranks = getAddressRanks(address);
+
+    const holders = await this.getHolderLeaderboard();
+    const holderIndex = holders.findIndex((entry) => normalizeAddress(entry.address) === address);
+
+    const details: AddressDetails = {
+      address,
+      stats: {
+        blobCount: blobStats.blob_count,
+        activeBlobs: blobStats.active_blobs,
+        totalBytes: blobStats.total_bytes,
+        totalBytesFormatted: this.formatBytes(blobStats.total_bytes),
+        firstUploadAt: blobStats.first_upload,
+        lastUploadAt: blobStats.last_upload,
+        txCount: addressStats?.tx_count ?? 0,
+        totalDeposited: addressStats?.total_deposited ?? 0,
+        totalWithdrawn: addressStats?.total_withdrawn ?? 0,
+        totalMinted: addressStats?.total_minted ?? 0,
+        totalBurned: addressStats?.total_burned ?? 0,
+        balance: holders.length === 0 ? null : (holders[holderIndex]?.balance ?? 0),
+      },
+      ranks: {
+        holders: holderIndex >= 0 ? holderIndex + 1 : null,
+        mostActive: ranks.most_active,
+        topSpenders: ranks.top_spenders,
+        topMinters: ranks.top_minters,
+        storage: ranks.storage,
+      },
+      blobs: {
+        total: blobStats.blob_count,
+        limit: blobsLimit,
+        offset: blobsOffset,
+        items: getBlobsByOwner(address, blobsLimit, blobsOffset).map((blob) => this.toAddressBlob(blob, now)),
+      },
+      activity: {
+        total: countActivitiesByAddress(address),
+        limit: activityLimit,
+        offset: activityOffset,
+        items: getActivitiesByAddress(address, activityLimit, activityOffset).map((activity) => ({
+          version: activity.transaction_version,
+          eventIndex: activity.event_index,
+          type: activity.type,
+          amount: activity.amount,
+          timestamp: activity.timestamp,
+        })),
+      },
+      timestamp: now,
+    };
+
+    this.cache.set(cacheKey, details, 30);
+    return details;
+  }
+
+  /**
+   * Every ShelbyUSD holder by balance. The balances come from the indexer, so
+   * this reuses the economy data's copy when it's cached.
+   */
+  private async getHolderLeaderboard(): Promise<LeaderboardEntry[]> {
+    const cacheKey = "holder_leaderboard";
+    const cached = this.getCached<EconomyData>("economy_data")?.leaderboard ?? this.getCached<LeaderboardEntry[]>(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    return this.coalesce(cacheKey, async () => {
+      const leaderboard = await getShelbyUSDLeaderboard(this.aptosClient);
+      this.cache.set(cacheKey, leaderboard, 60);
+      return leaderboard;
+    });
+  }
+
   /**
    * Get storage analytics - file types, top storage users
-   * Uses local SQLite database for accurate data (synced incrementally)
+   * Uses local SQLite database for accurate data (synced incrementally), and
+   * counts only the blobs still stored (not deleted)
    */
   async getAnalytics(): Promise<AnalyticsData> {
     const cacheKey = "analytics_data";
-    const cached = this.cache.get<AnalyticsData>(cacheKey);
+    const cached = this.getCached<AnalyticsData>(cacheKey);
     if (cached) {
       return cached;
     }
@@ -451,7 +849,7 @@ export class DataService {
     return this.coalesce(cacheKey, async () => {
       try {
         // Get data from local database (accurate, no rate limits)
-        const blobStats = getBlobSyncStats();
+        const blobStats = getStoredBlobStats();
         const fileTypesData = getBlobStatsByType();
         const topOwners = getBlobStatsByOwner(10);
 
@@ -461,7 +859,7 @@ export class DataService {
           count: ft.count,
           totalSize: ft.total_bytes,
           totalSizeFormatted: this.formatBytes(ft.total_bytes),
-          percentage: blobStats.totalBlobs > 0 ? (ft.count / blobStats.totalBlobs) * 100 : 0,
+          percentage: blobStats.total_blobs > 0 ? (ft.count / blobStats.total_blobs) * 100 : 0,
           color: '#7F8C8D', // Default color
         }));
 
@@ -476,21 +874,38 @@ export class DataService {
         }));
 
         // Calculate average blob size
-        const avgSize = blobStats.totalBlobs > 0 ? blobStats.totalStorage / blobStats.totalBlobs : 0;
+        const avgSize = blobStats.total_blobs > 0 ? blobStats.total_bytes / blobStats.total_blobs : 0;
+
+        const now = Date.now();
+        const expiration = getBlobExpirationStats(now, now + EXPIRING_SOON_MS);
 
         const analytics: AnalyticsData = {
           fileTypes,
           storageLeaders,
-          totalBlobs: blobStats.totalBlobs,
-          totalSize: blobStats.totalStorage,
-          totalSizeFormatted: this.formatBytes(blobStats.totalStorage),
+          totalBlobs: blobStats.total_blobs,
+          totalSize: blobStats.total_bytes,
+          totalSizeFormatted: this.formatBytes(blobStats.total_bytes),
           avgBlobSize: avgSize,
           avgBlobSizeFormatted: this.formatBytes(avgSize),
-          uniqueOwners: blobStats.uniqueOwners,
+          uniqueOwners: blobStats.unique_owners,
           blobsPerHour: 0, // TODO: calculate from timestamps
           bytesPerHour: 0,
           bytesPerHourFormatted: '0 B/hr',
-          timestamp: Date.now(),
+          expiration: {
+            liveBlobs: expiration.live_blobs,
+            liveSize: expiration.live_bytes,
+            liveSizeFormatted: this.formatBytes(expiration.live_bytes),
+            expiredBlobs: expiration.expired_blobs,
+            expiredSize: expiration.expired_bytes,
+            expiredSizeFormatted: this.formatBytes(expiration.expired_bytes),
+            expiringSoonBlobs: expiration.expiring_blobs,
+            expiringSoonSize: expiration.expiring_bytes,
+            expiringSoonSizeFormatted: this.formatBytes(expiration.expiring_bytes),
+            deletedBlobs: expiration.deleted_blobs,
+            deletedSize: expiration.deleted_bytes,
+            deletedSizeFormatted: this.formatBytes(expiration.deleted_bytes),
+          },
+          timestamp: now,
         };
 
         // Cache for 30 seconds (local DB query is cheap)
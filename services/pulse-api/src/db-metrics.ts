@@ -0,0 +1,81 @@
+import { Gauge } from "prom-client";
+import type { IndexerHead } from "./aptos-client";
+import { getLiveStreamCount } from "./live-feed";
+import { metricsRegistry, syncLag } from "./metrics";
+import {
+  getBlobExpirationStats,
+  getDatabaseStats,
+  getLastBlobSyncedVersion,
+  getLastSyncedVersion,
+} from "./db";
+
+/**
+ * Gauges read from the local database each time /metrics is scraped
+ */
+
+const BLOB_STATES = ["live", "expired", "deleted"] as const;
+
+new Gauge({
+  name: "pulse_database_size_bytes",
+  help: "Size of the SQLite database file",
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getDatabaseStats().dbSizeBytes);
+  },
+});
+
+new Gauge({
+  name: "pulse_shelbyusd_activities",
+  help: "ShelbyUSD activities in the local database",
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getDatabaseStats().activityCount);
+  },
+});
+
+// Set along with pulse_blobs, which is registered first, so each scrape reads the blob stats once
+const blobStorageBytes = new Gauge({
+  name: "pulse_blob_storage_bytes",
+  help: "Bytes of registered blobs by state; summed over states, all storage ever registered",
+  labelNames: ["state"] as const,
+  registers: [],
+});
+
+new Gauge({
+  name: "pulse_blobs",
+  help: "Registered blobs by state; summed over states, every blob ever registered",
+  labelNames: ["state"] as const,
+  registers: [metricsRegistry],
+  collect() {
+    const now = Date.now();
+    const stats = getBlobExpirationStats(now, now);
+    for (const state of BLOB_STATES) {
+      this.set({ state }, stats[`${state}_blobs`]);
+      blobStorageBytes.set({ state }, stats[`${state}_bytes`]);
+    }
+  },
+});
+metricsRegistry.registerMetric(blobStorageBytes);
+
+new Gauge({
+  name: "pulse_live_stream_clients",
+  help: "Open /api/stream connections",
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getLiveStreamCount());
+  },
+});
+
+/**
+ * Record how far the synced activities and blob events trail the indexer. The
+ * lag also grows while no new events happen, since it is measured from the
+ * newest synced event.
+ */
+export function recordSyncLag(head: IndexerHead): void {
+  if (head.fungibleAssets !== null) {
+    syncLag.set({ stream: "activities" }, Math.max(0, head.fungibleAssets - getLastSyncedVersion()));
+  }
+  if (head.events !== null) {
+    syncLag.set({ stream: "blobs" }, Math.max(0, head.events - getLastBlobSyncedVersion()));
+  }
+}
@@ -1,36 +1,62 @@
 import Database from 'better-sqlite3';
-import path from 'path';
-import fs from 'fs';
+import path from 'node:path';
+import fs from 'node:fs';
+import { randomBytes } from 'node:crypto';
 import { logger } from './logger';
+import { categorizeExtension, getFileExtension } from './analytics-service';
+import { runMigrations } from './migrate';
+import { MIGRATIONS } from './migrations';
+import type { CheckpointRange } from './sync-checkpoints';
 
 // Database instance (singleton)
 let db: Database.Database | null = null;
 
 // Data directory for SQLite file
 const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), 'data');
-const DB_PATH = path.join(DATA_DIR, 'shelby-pulse.db');
+// DB_PATH overrides the file, e.g. ":memory:" for tests that don't need it on disk
+export const DEFAULT_DB_PATH = process.env.DB_PATH || path.join(DATA_DIR, 'shelby-pulse.db');
+
+// File the open database was loaded from
+let dbPath = DEFAULT_DB_PATH;
 
 /**
- * Initialize the database connection and create tables
+ * Initialize the database connection and bring the schema up to date.
+ * Throws a MigrationError (refusing to start) if an earlier migration was
+ * left half-applied or the database was migrated by a newer build.
  */
-export function initDatabase(): Database.Database {
+export function initDatabase(filePath: string = DEFAULT_DB_PATH): Database.Database {
   if (db) return db;
 
   // Ensure data directory exists
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
+  const dir = path.dirname(filePath);
+  if (filePath !== ':memory:' && !fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
   }
 
-  db = new Database(DB_PATH);
+  const database = new Database(filePath);
 
   // Enable WAL mode for better write performance
-  db.pragma('journal_mode = WAL');
-  db.pragma('synchronous = NORMAL');
+  database.pragma('journal_mode = WAL');
+  database.pragma('synchronous = NORMAL');
+
+  // Blob search filters on the same extension and category the analytics use
+  database.function('blob_extension', { deterministic: true }, (name) =>
+    getFileExtension(typeof name === 'string' ? name : '')
+  );
+  database.function('blob_category', { deterministic: true }, (name) =>
+    categorizeExtension(getFileExtension(typeof name === 'string' ? name : ''))
+  );
 
-  // Create tables
-  createTables(db);
+  try {
+    runMigrations(database, MIGRATIONS);
+  } catch (error) {
+    database.close();
+    throw error;
+  }
 
-  logger.info({ dbPath: DB_PATH }, 'Database initialized');
+  db = database;
+  dbPath = filePath;
+  logger.info({ dbPath: filePath }, 'Database initialized');
   return db;
 }
 
@@ -45,127 +71,10 @@ export function getDatabase(): Database.Database {
 }
 
 /**
- * Create all required tables and indexes
+ * Run a function inside a single database transaction
  */
-function createTables(db: Database.Database): void {
-  // Raw activities table - stores all ShelbyUSD activities for future queries
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS shelbyusd_activities (
-      transaction_version INTEGER PRIMARY KEY,
-      event_index INTEGER DEFAULT 0,
-      address TEXT NOT NULL,
-      amount INTEGER NOT NULL,
-      type TEXT NOT NULL CHECK(type IN ('deposit', 'withdraw', 'mint', 'burn')),
-      timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
-    )
-  `);
-
-  // Indexes for common query patterns
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_activities_address ON shelbyusd_activities(address);
-    CREATE INDEX IF NOT EXISTS idx_activities_type ON shelbyusd_activities(type);
-    CREATE INDEX IF NOT EXISTS idx_activities_version_desc ON shelbyusd_activities(transaction_version DESC);
-  `);
-
-  // Address stats - pre-computed aggregates per address
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS address_stats (
-      address TEXT PRIMARY KEY,
-      tx_count INTEGER DEFAULT 0,
-      total_deposited INTEGER DEFAULT 0,
-      total_withdrawn INTEGER DEFAULT 0,
-      total_minted INTEGER DEFAULT 0,
-      total_burned INTEGER DEFAULT 0,
-      last_version INTEGER DEFAULT 0,
-      updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
-    )
-  `);
-
-  // Leaderboard cache - stores pre-computed leaderboard JSON
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS leaderboard_cache (
-      type TEXT PRIMARY KEY,
-      data TEXT NOT NULL,
-      updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
-    )
-  `);
-
-  // Sync state - tracks incremental sync progress
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS sync_state (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL,
-      updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
-    )
-  `);
-
-  // Continuous farming jobs - persistent farming sessions
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS farming_jobs (
-      id TEXT PRIMARY KEY,
-      wallet_address TEXT NOT NULL,
-      status TEXT NOT NULL CHECK(status IN ('active', 'paused', 'stopped', 'completed')),
-      started_at INTEGER NOT NULL,
-      stopped_at INTEGER,
-      total_minted INTEGER DEFAULT 0,
-      waves_completed INTEGER DEFAULT 0,
-      droplets_created INTEGER DEFAULT 0,
-      droplets_failed INTEGER DEFAULT 0,
-      last_wave_at INTEGER,
-      config TEXT NOT NULL
-    )
-  `);
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_farming_jobs_status ON farming_jobs(status);
-    CREATE INDEX IF NOT EXISTS idx_farming_jobs_wallet ON farming_jobs(wallet_address);
-  `);
-
-  // Farming waves - track each deployment wave
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS farming_waves (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      job_id TEXT NOT NULL,
-      wave_number INTEGER NOT NULL,
-      started_at INTEGER NOT NULL,
-      completed_at INTEGER,
-      regions TEXT NOT NULL,
-      droplets_per_region INTEGER NOT NULL,
-      total_droplets INTEGER NOT NULL,
-      droplets_succeeded INTEGER DEFAULT 0,
-      droplets_failed INTEGER DEFAULT 0,
-      estimated_minted INTEGER DEFAULT 0,
-      FOREIGN KEY (job_id) REFERENCES farming_jobs(id)
-    )
-  `);
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_farming_waves_job ON farming_waves(job_id);
-  `);
-
-  // Blob events table - stores all blob registered events for accurate counts
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS blob_events (
-      transaction_version INTEGER NOT NULL,
-      event_index INTEGER NOT NULL DEFAULT 0,
-      blob_id TEXT NOT NULL,
-      owner_address TEXT NOT NULL,
-      size_bytes INTEGER NOT NULL DEFAULT 0,
-      encoding TEXT,
-      blob_name TEXT,
-      creation_timestamp INTEGER,
-      expiration_timestamp INTEGER,
-      PRIMARY KEY (transaction_version, event_index)
-    )
-  `);
-
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_blob_events_owner ON blob_events(owner_address);
-    CREATE INDEX IF NOT EXISTS idx_blob_events_version_desc ON blob_events(transaction_version DESC);
-    CREATE INDEX IF NOT EXISTS idx_blob_events_creation ON blob_events(creation_timestamp DESC);
-  `);
-
-  logger.info('Database tables created/verified');
+export function runInTransaction<T>(fn: () => T): T {
+  return getDatabase().transaction(fn)();
 }
 
 // ============================================================================
@@ -187,6 +96,147 @@ export function setSyncState(key: string, value: string): void {
   `).run(key, value, Date.now());
 }
 
+// ============================================================================
+// Sync Checkpoint Operations
+// ============================================================================
+
+export type SyncStream = 'activities' | 'blob_events' | 'blob_lifecycle';
+
+const SYNC_STREAM_TABLES: Record<SyncStream, string> = {
+  activities: 'shelbyusd_activities',
+  blob_events: 'blob_events',
+  blob_lifecycle: 'blob_lifecycle',
+};
+
+export interface SyncCheckpoint {
+  id: number;
+  stream: SyncStream;
+  from_version: number;
+  to_version: number;
+  row_count: number;
+  status: 'open' | 'verified' | 'repaired';
+  indexer_count: number | null;
+  local_count: number | null;
+  missing_count: number | null;
+  extra_count: number | null;
+  last_error: string | null;
+  created_at: number;
+  verified_at: number | null;
+}
+
+/**
+ * Record the version ranges a sync covered, with the row count it fetched for each
+ */
+export function recordSyncCheckpoints(stream: SyncStream, ranges: CheckpointRange[]): void {
+  if (ranges.length === 0) return;
+
+  const db = getDatabase();
+  const insert = db.prepare(`
+    INSERT INTO sync_checkpoints (stream, from_version, to_version, row_count, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  const now = Date.now();
+  db.transaction(() => {
+    for (const range of ranges) {
+      insert.run(stream, range.from_version, range.to_version, range.row_count, now);
+    }
+  })();
+}
+
+/**
+ * Unverified checkpoints recorded before `closedBefore`, oldest range first
+ */
+export function getCheckpointsToVerify(closedBefore: number, limit: number): SyncCheckpoint[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM sync_checkpoints
+    WHERE status = 'open' AND created_at <= ?
+    ORDER BY from_version
+    LIMIT ?
+  `).all(closedBefore, limit) as SyncCheckpoint[];
+}
+
+/**
+ * Store the outcome of verifying a checkpoint
+ */
+export function updateSyncCheckpoint(
+  id: number,
+  result: Pick<
+    SyncCheckpoint,
+    'status' | 'indexer_count' | 'local_count' | 'missing_count' | 'extra_count' | 'last_error' | 'verified_at'
+  >
+): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE sync_checkpoints
+    SET status = ?, indexer_count = ?, local_count = ?, missing_count = ?, extra_count = ?, last_error = ?, verified_at = ?
+    WHERE id = ?
+  `).run(
+    result.status,
+    result.indexer_count,
+    result.local_count,
+    result.missing_count,
+    result.extra_count,
+    result.last_error,
+    result.verified_at,
+    id
+  );
+}
+
+/**
+ * Per-stream checkpoint counts by status
+ */
+export function getSyncCheckpointCounts(): Array<{ stream: SyncStream; status: SyncCheckpoint['status']; count: number }> {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT stream, status, COUNT(*) as count FROM sync_checkpoints
+    GROUP BY stream, status
+    ORDER BY stream, status
+  `).all() as Array<{ stream: SyncStream; status: SyncCheckpoint['status']; count: number }>;
+}
+
+/**
+ * Most recent checkpoints that were repaired or couldn't be verified
+ */
+export function getSyncDiscrepancies(limit: number): SyncCheckpoint[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM sync_checkpoints
+    WHERE status = 'repaired' OR last_error IS NOT NULL
+    ORDER BY COALESCE(verified_at, created_at) DESC
+    LIMIT ?
+  `).all(limit) as SyncCheckpoint[];
+}
+
+/**
+ * Keys ("version:event_index") of the rows stored for a version range
+ */
+export function getSyncedRowKeys(stream: SyncStream, fromVersion: number, toVersion: number): string[] {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT transaction_version, event_index FROM ${SYNC_STREAM_TABLES[stream]}
+    WHERE transaction_version BETWEEN ? AND ?
+  `).all(fromVersion, toVersion) as Array<{ transaction_version: number; event_index: number }>;
+  return rows.map((row) => `${row.transaction_version}:${row.event_index}`);
+}
+
+export function countSyncedRows(stream: SyncStream, fromVersion: number, toVersion: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM ${SYNC_STREAM_TABLES[stream]}
+    WHERE transaction_version BETWEEN ? AND ?
+  `).get(fromVersion, toVersion) as { count: number };
+  return row.count;
+}
+
+export function deleteSyncedRows(stream: SyncStream, fromVersion: number, toVersion: number): number {
+  const db = getDatabase();
+  return db.prepare(`
+    DELETE FROM ${SYNC_STREAM_TABLES[stream]}
+    WHERE transaction_version BETWEEN ? AND ?
+  `).run(fromVersion, toVersion).changes;
+}
+
 // ============================================================================
 // Activity Operations
 // ============================================================================
@@ -200,21 +250,36 @@ export interface ActivityRecord {
   timestamp: number;
 }
 
+// Activity tables: the live one and the shadow a full resync builds into
+type ActivityTable = 'shelbyusd_activities' | 'resync_activities';
+
 /**
  * Insert activities in a batch transaction (much faster than individual inserts)
  */
 export function insertActivities(activities: ActivityRecord[]): number {
-  if (activities.length === 0) return 0;
+  return insertActivitiesInto('shelbyusd_activities', activities).length;
+}
+
+/**
+ * Insert activities like insertActivities, returning the ones that weren't
+ * already stored
+ */
+export function insertNewActivities(activities: ActivityRecord[]): ActivityRecord[] {
+  return insertActivitiesInto('shelbyusd_activities', activities);
+}
+
+function insertActivitiesInto(table: ActivityTable, activities: ActivityRecord[]): ActivityRecord[] {
+  if (activities.length === 0) return [];
 
   const db = getDatabase();
   const insert = db.prepare(`
-    INSERT OR IGNORE INTO shelbyusd_activities
+    INSERT OR IGNORE INTO ${table}
     (transaction_version, event_index, address, amount, type, timestamp)
     VALUES (?, ?, ?, ?, ?, ?)
   `);
 
   const insertMany = db.transaction((items: ActivityRecord[]) => {
-    let inserted = 0;
+    const inserted: ActivityRecord[] = [];
     for (const item of items) {
       const result = insert.run(
         item.transaction_version,
@@ -224,13 +289,13 @@ export function insertActivities(activities: ActivityRecord[]): number {
         item.type,
         item.timestamp
       );
-      if (result.changes > 0) inserted++;
+      if (result.changes > 0) inserted.push(item);
     }
     return inserted;
   });
 
   const inserted = insertMany(activities);
-  logger.info({ inserted, total: activities.length }, 'Inserted activities into database');
+  logger.info({ inserted: inserted.length, total: activities.length, table }, 'Inserted activities into database');
   return inserted;
 }
 
@@ -252,6 +317,24 @@ export function getActivityCount(): number {
   return row.count;
 }
 
+/**
+ * Get activities after an event, oldest first. Without an event index, after
+ * every event of the transaction version.
+ */
+export function getActivitiesAfter(
+  version: number,
+  limit: number,
+  eventIndex: number = Number.MAX_SAFE_INTEGER
+): ActivityRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM shelbyusd_activities
+    WHERE (transaction_version, event_index) > (?, ?)
+    ORDER BY transaction_version, event_index
+    LIMIT ?
+  `).all(version, eventIndex, limit) as ActivityRecord[];
+}
+
 /**
  * Get recent activities (for recent transactions display)
  */
@@ -259,11 +342,34 @@ export function getRecentActivities(limit: number): ActivityRecord[] {
   const db = getDatabase();
   return db.prepare(`
     SELECT * FROM shelbyusd_activities
-    ORDER BY transaction_version DESC
+    ORDER BY transaction_version DESC, event_index DESC
     LIMIT ?
   `).all(limit) as ActivityRecord[];
 }
 
+export interface ActivityBackfillRange {
+  id: number;
+  from_version: number;
+  to_version: number;
+}
+
+/**
+ * Version ranges still waiting to be refetched from the indexer, oldest first
+ */
+export function getPendingActivityBackfillRanges(): ActivityBackfillRange[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT id, from_version, to_version FROM activity_backfill_ranges
+    WHERE completed_at IS NULL
+    ORDER BY from_version
+  `).all() as ActivityBackfillRange[];
+}
+
+export function completeActivityBackfillRange(id: number): void {
+  const db = getDatabase();
+  db.prepare('UPDATE activity_backfill_ranges SET completed_at = ? WHERE id = ?').run(Date.now(), id);
+}
+
 // ============================================================================
 // Address Stats Operations
 // ============================================================================
@@ -361,6 +467,39 @@ export function updateAddressStats(activities: ActivityRecord[]): void {
   logger.info({ addressCount: statsMap.size }, 'Updated address stats');
 }
 
+/**
+ * Recompute every address's stats from the stored activities (after a
+ * backfill added events the incremental updates never saw)
+ */
+export function rebuildAddressStats(): number {
+  return rebuildAddressStatsFrom('shelbyusd_activities', 'address_stats');
+}
+
+function rebuildAddressStatsFrom(activitiesTable: ActivityTable, statsTable: 'address_stats' | 'resync_address_stats'): number {
+  const db = getDatabase();
+  const rebuild = db.transaction(() => {
+    db.exec(`DELETE FROM ${statsTable}`);
+    return db.prepare(`
+      INSERT INTO ${statsTable} (address, tx_count, total_deposited, total_withdrawn, total_minted, total_burned, last_version, updated_at)
+      SELECT
+        address,
+        COUNT(*),
+        SUM(CASE WHEN type = 'deposit' THEN amount ELSE 0 END),
+        SUM(CASE WHEN type = 'withdraw' THEN amount ELSE 0 END),
+        SUM(CASE WHEN type = 'mint' THEN amount ELSE 0 END),
+        SUM(CASE WHEN type = 'burn' THEN amount ELSE 0 END),
+        MAX(transaction_version),
+        ?
+      FROM ${activitiesTable}
+      GROUP BY address
+    `).run(Date.now()).changes;
+  });
+
+  const addressCount = rebuild();
+  logger.info({ addressCount, table: statsTable }, 'Rebuilt address stats');
+  return addressCount;
+}
+
 /**
  * Get top addresses by transaction count
  */
@@ -462,23 +601,111 @@ export function invalidateAllLeaderboards(): void {
 }
 
 // ============================================================================
-// Maintenance Operations
+// Resync Shadow Operations
 // ============================================================================
 
 /**
- * Clear all data and reset sync state (for force resync)
+ * Empty the shadow tables a full resync builds into
  */
-export function resetDatabase(): void {
+export function clearResyncShadow(): void {
   const db = getDatabase();
   db.exec(`
-    DELETE FROM shelbyusd_activities;
-    DELETE FROM address_stats;
-    DELETE FROM leaderboard_cache;
-    DELETE FROM sync_state;
+    DELETE FROM resync_activities;
+    DELETE FROM resync_address_stats;
   `);
-  logger.info('Database reset complete');
 }
 
+/**
+ * Insert activities into the resync shadow table
+ */
+export function insertResyncActivities(activities: ActivityRecord[]): number {
+  return insertActivitiesInto('resync_activities', activities).length;
+}
+
+/**
+ * Compute the shadow address stats from the shadow activities
+ */
+export function buildResyncAddressStats(): number {
+  return rebuildAddressStatsFrom('resync_activities', 'resync_address_stats');
+}
+
+export function getResyncActivityCount(): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT COUNT(*) as count FROM resync_activities').get() as { count: number };
+  return row.count;
+}
+
+/**
+ * Replace the live activities and address stats with the resync shadow, and
+ * drop everything derived from the old data (leaderboards, backfill queue,
+ * activity checkpoints). The ShelbyUSD timeseries buckets are recomputed from
+ * the new activities; the blob ones don't depend on them and are kept. It all
+ * happens in one transaction, so readers see either the old data or the new,
+ * never a mix. The shadow tables are left empty.
+ */
+export function swapInResyncShadow(checkpoints: CheckpointRange[]): { activityCount: number; addressCount: number } {
+  const db = getDatabase();
+  const swap = db.transaction(() => {
+    db.exec(`
+      DELETE FROM shelbyusd_activities;
+      DELETE FROM address_stats;
+      DELETE FROM leaderboard_cache;
+      DELETE FROM sync_state;
+      DELETE FROM activity_backfill_ranges;
+      DELETE FROM sync_checkpoints WHERE stream = 'activities';
+      DELETE FROM timeseries_buckets WHERE metric IN ('shelbyusd_volume', 'shelbyusd_mints');
+    `);
+    const activityCount = db.prepare(`
+      INSERT INTO shelbyusd_activities (transaction_version, event_index, address, amount, type, timestamp)
+      SELECT transaction_version, event_index, address, amount, type, timestamp FROM resync_activities
+    `).run().changes;
+    const addressCount = db.prepare(`
+      INSERT INTO address_stats (address, tx_count, total_deposited, total_withdrawn, total_minted, total_burned, last_version, updated_at)
+      SELECT address, tx_count, total_deposited, total_withdrawn, total_minted, total_burned, last_version, updated_at
+      FROM resync_address_stats
+    `).run().changes;
+    recordSyncCheckpoints('activities', checkpoints);
+    rebuildActivityTimeseries();
+    clearResyncShadow();
+    return { activityCount, addressCount };
+  });
+
+  const counts = swap();
+  logger.info(counts, 'Swapped in resynced activities');
+  return counts;
+}
+
+/**
+ * Write the ShelbyUSD volume and mints of every rolled-up bucket from the
+ * stored activities. Every rollup writes a blob_count row per bucket, so
+ * those rows say which buckets exist.
+ */
+function rebuildActivityTimeseries(): void {
+  const db = getDatabase();
+  const rows: TimeseriesRow[] = [];
+  for (const bucket of Object.keys(TIMESERIES_BUCKET_MS) as TimeseriesBucket[]) {
+    const starts = db.prepare(`
+      SELECT bucket_start FROM timeseries_buckets
+      WHERE metric = 'blob_count' AND bucket = ?
+      ORDER BY bucket_start
+    `).pluck().all(bucket) as number[];
+    if (starts.length === 0) continue;
+
+    const activity = new Map(getActivityBuckets(bucket, starts[0]).map((row) => [row.bucket_start, row]));
+    for (const start of starts) {
+      rows.push(
+        { metric: 'shelbyusd_volume', bucket, bucket_start: start, value: activity.get(start)?.volume ?? 0 },
+        { metric: 'shelbyusd_mints', bucket, bucket_start: start, value: activity.get(start)?.mints ?? 0 }
+      );
+    }
+  }
+  upsertTimeseriesBuckets(rows);
+}
+
+// ============================================================================
+// Maintenance Operations
+// ============================================================================
+
 /**
  * Reset farming stats after a network reset
  * Keeps jobs active but zeroes out the cumulative stats
@@ -511,6 +738,8 @@ export function resetFarmingStats(): { jobsReset: number; wavesDeleted: number }
 export function vacuumDatabase(): void {
   const db = getDatabase();
   db.exec('VACUUM');
+  // VACUUM may renumber blob_events rowids, which key the name index
+  rebuildBlobNameIndex();
   logger.info('Database vacuum complete');
 }
 
@@ -531,7 +760,7 @@ export function getDatabaseStats(): {
 
   let dbSize = 0;
   try {
-    const stats = fs.statSync(DB_PATH);
+    const stats = fs.statSync(dbPath);
     dbSize = stats.size;
   } catch {
     // File might not exist yet
@@ -847,11 +1076,32 @@ export interface BlobEventRecord {
   expiration_timestamp: number | null;
 }
 
+/**
+ * A registration as the blob_states view sees it: its current status, the
+ * version of the lifecycle event that set it (null while just registered) and
+ * its expiration after any extensions
+ */
+export interface BlobStateRecord extends BlobEventRecord {
+  status: BlobStatus;
+  status_version: number | null;
+}
+
+// Statuses of blobs that are still held by the storage providers
+const STORED_BLOB_STATUSES = "'registered', 'written'";
+
 /**
  * Insert blob events in a batch transaction
  */
 export function insertBlobEvents(events: BlobEventRecord[]): number {
-  if (events.length === 0) return 0;
+  return insertNewBlobEvents(events).length;
+}
+
+/**
+ * Insert blob events like insertBlobEvents, returning the ones that weren't
+ * already stored
+ */
+export function insertNewBlobEvents(events: BlobEventRecord[]): BlobEventRecord[] {
+  if (events.length === 0) return [];
 
   const db = getDatabase();
   const insert = db.prepare(`
@@ -861,7 +1111,7 @@ export function insertBlobEvents(events: BlobEventRecord[]): number {
   `);
 
   const insertMany = db.transaction((items: BlobEventRecord[]) => {
-    let inserted = 0;
+    const inserted: BlobEventRecord[] = [];
     for (const item of items) {
       const result = insert.run(
         item.transaction_version,
@@ -874,13 +1124,13 @@ export function insertBlobEvents(events: BlobEventRecord[]): number {
         item.creation_timestamp,
         item.expiration_timestamp
       );
-      if (result.changes > 0) inserted++;
+      if (result.changes > 0) inserted.push(item);
     }
     return inserted;
   });
 
   const inserted = insertMany(events);
-  logger.info({ inserted, total: events.length }, 'Inserted blob events into database');
+  logger.info({ inserted: inserted.length, total: events.length }, 'Inserted blob events into database');
   return inserted;
 }
 
@@ -893,6 +1143,36 @@ export function getLastBlobSyncedVersion(): number {
   return row?.max_version ?? 0;
 }
 
+/**
+ * Creation time of the newest blob registration, or null if there is none
+ * or it has no creation time
+ */
+export function getLastBlobCreatedAt(): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT creation_timestamp FROM blob_events ORDER BY transaction_version DESC, event_index DESC LIMIT 1
+  `).get() as { creation_timestamp: number | null } | undefined;
+  return row?.creation_timestamp ?? null;
+}
+
+/**
+ * Get blob events after an event, oldest first. Without an event index, after
+ * every event of the transaction version.
+ */
+export function getBlobEventsAfter(
+  version: number,
+  limit: number,
+  eventIndex: number = Number.MAX_SAFE_INTEGER
+): BlobEventRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM blob_events
+    WHERE (transaction_version, event_index) > (?, ?)
+    ORDER BY transaction_version, event_index
+    LIMIT ?
+  `).all(version, eventIndex, limit) as BlobEventRecord[];
+}
+
 /**
  * Get total blob count from local database
  */
@@ -903,11 +1183,16 @@ export function getBlobCount(): number {
 }
 
 /**
- * Get total storage from local database
+ * Get the storage held by blobs that haven't expired at `now` and weren't
+ * deleted
  */
-export function getTotalBlobStorage(): number {
+export function getTotalBlobStorage(now: number = Date.now()): number {
   const db = getDatabase();
-  const row = db.prepare('SELECT COALESCE(SUM(size_bytes), 0) as total FROM blob_events').get() as { total: number };
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(size_bytes), 0) as total FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
+      AND (expiration_timestamp IS NULL OR expiration_timestamp > ?)
+  `).get(now) as { total: number };
   return row.total;
 }
 
@@ -921,7 +1206,7 @@ export function getUniqueBlobOwners(): number {
 }
 
 /**
- * Get blob stats aggregated by owner
+ * Get stats of the blobs still stored (not deleted), by owner
  */
 export function getBlobStatsByOwner(limit: number = 10): Array<{
   owner_address: string;
@@ -934,7 +1219,8 @@ export function getBlobStatsByOwner(limit: number = 10): Array<{
       owner_address,
       COUNT(*) as blob_count,
       SUM(size_bytes) as total_bytes
-    FROM blob_events
+    FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
     GROUP BY owner_address
     ORDER BY total_bytes DESC
     LIMIT ?
@@ -942,7 +1228,7 @@ export function getBlobStatsByOwner(limit: number = 10): Array<{
 }
 
 /**
- * Get blob stats by file type (inferred from encoding/name)
+ * Get stats of the blobs still stored by file type (inferred from encoding/name)
  */
 export function getBlobStatsByType(): Array<{
   file_type: string;
@@ -964,22 +1250,39 @@ export function getBlobStatsByType(): Array<{
       END as file_type,
       COUNT(*) as count,
       SUM(size_bytes) as total_bytes
-    FROM blob_events
+    FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
     GROUP BY file_type
     ORDER BY count DESC
   `).all() as Array<{ file_type: string; count: number; total_bytes: number }>;
 }
 
 /**
- * Get recent blob events
+ * Get the most recently registered blobs that weren't deleted
  */
-export function getRecentBlobEvents(limit: number = 20): BlobEventRecord[] {
+export function getRecentBlobEvents(limit: number = 20): BlobStateRecord[] {
   const db = getDatabase();
   return db.prepare(`
+    SELECT * FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
+    ORDER BY transaction_version DESC, event_index DESC
+    LIMIT ?
+  `).all(limit) as BlobStateRecord[];
+}
+
+/**
+ * Get the latest registration event for a blob by owner and name
+ * Blob names may be stored bare or as "@owner/name"
+ */
+export function getBlobEventByName(ownerAddress: string, blobName: string): BlobEventRecord | null {
+  const db = getDatabase();
+  const row = db.prepare(`
     SELECT * FROM blob_events
+    WHERE owner_address = ? AND (blob_name = ? OR blob_name LIKE ?)
     ORDER BY transaction_version DESC
-    LIMIT ?
-  `).all(limit) as BlobEventRecord[];
+    LIMIT 1
+  `).get(ownerAddress.toLowerCase(), blobName, `%/${blobName}`) as BlobEventRecord | undefined;
+  return row ?? null;
 }
 
 /**
@@ -1010,41 +1313,126 @@ export function getBlobSyncStats(): {
 }
 
 // ============================================================================
-// Enhanced Network Activity Metrics
+// Blob Lifecycle Operations
 // ============================================================================
 
+export type BlobLifecycleKind = 'written' | 'deleted' | 'expiration_extended';
+
+export type BlobStatus = 'registered' | 'written' | 'deleted';
+
+export interface BlobLifecycleRecord {
+  transaction_version: number;
+  event_index: number;
+  blob_id: string;
+  owner_address: string;
+  // Full Move event type, e.g. "0x...::blob_metadata::BlobDeletedEvent"
+  event_type: string;
+  kind: BlobLifecycleKind;
+  // New expiration of an expiration_extended event, null for the other kinds
+  expiration_timestamp: number | null;
+}
+
 /**
- * Get activity breakdown by type (for pie chart / percentages)
+ * Insert blob lifecycle events in a batch transaction
  */
-export function getActivityBreakdown(): {
-  deposits: number;
-  withdrawals: number;
-  mints: number;
-  burns: number;
-  total: number;
-} {
+export function insertBlobLifecycleEvents(events: BlobLifecycleRecord[]): number {
+  if (events.length === 0) return 0;
+
   const db = getDatabase();
-  const rows = db.prepare(`
-    SELECT type, COUNT(*) as count
-    FROM shelbyusd_activities
-    GROUP BY type
-  `).all() as Array<{ type: string; count: number }>;
+  const insert = db.prepare(`
+    INSERT OR IGNORE INTO blob_lifecycle
+    (transaction_version, event_index, blob_id, owner_address, event_type, kind, expiration_timestamp)
+    VALUES (@transaction_version, @event_index, @blob_id, @owner_address, @event_type, @kind, @expiration_timestamp)
+  `);
 
-  const breakdown = {
-    deposits: 0,
-    withdrawals: 0,
-    mints: 0,
-    burns: 0,
-    total: 0,
-  };
+  const inserted = db.transaction((items: BlobLifecycleRecord[]) => {
+    let count = 0;
+    for (const item of items) {
+      if (insert.run(item).changes > 0) count++;
+    }
+    return count;
+  })(events);
 
-  for (const row of rows) {
-    switch (row.type) {
-      case 'deposit':
-        breakdown.deposits = row.count;
-        break;
-      case 'withdraw':
-        breakdown.withdrawals = row.count;
+  logger.info({ inserted, total: events.length }, 'Inserted blob lifecycle events into database');
+  return inserted;
+}
+
+/**
+ * Get the highest transaction version for blob lifecycle events
+ */
+export function getLastBlobLifecycleSyncedVersion(): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT MAX(transaction_version) as max_version FROM blob_lifecycle').get() as { max_version: number | null };
+  return row?.max_version ?? 0;
+}
+
+/**
+ * Totals of the blobs still stored: not deleted, expired or not
+ */
+export function getStoredBlobStats(): { total_blobs: number; total_bytes: number; unique_owners: number } {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      COUNT(*) as total_blobs,
+      COALESCE(SUM(size_bytes), 0) as total_bytes,
+      COUNT(DISTINCT owner_address) as unique_owners
+    FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
+  `).get() as { total_blobs: number; total_bytes: number; unique_owners: number };
+}
+
+/**
+ * Registered blobs by current status
+ */
+export function getBlobStatusCounts(): Record<BlobStatus, number> {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT status, COUNT(*) as count FROM blob_states GROUP BY status
+  `).all() as Array<{ status: BlobStatus; count: number }>;
+
+  const counts: Record<BlobStatus, number> = { registered: 0, written: 0, deleted: 0 };
+  for (const row of rows) {
+    counts[row.status] = row.count;
+  }
+  return counts;
+}
+
+// ============================================================================
+// Enhanced Network Activity Metrics
+// ============================================================================
+
+/**
+ * Get activity breakdown by type (for pie chart / percentages)
+ */
+export function getActivityBreakdown(): {
+  deposits: number;
+  withdrawals: number;
+  mints: number;
+  burns: number;
+  total: number;
+} {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT type, COUNT(*) as count
+    FROM shelbyusd_activities
+    GROUP BY type
+  `).all() as Array<{ type: string; count: number }>;
+
+  const breakdown = {
+    deposits: 0,
+    withdrawals: 0,
+    mints: 0,
+    burns: 0,
+    total: 0,
+  };
+
+  for (const row of rows) {
+    switch (row.type) {
+      case 'deposit':
+        breakdown.deposits = row.count;
+        break;
+      case 'withdraw':
+        breakdown.withdrawals = row.count;
         break;
       case 'mint':
         breakdown.mints = row.count;
@@ -1126,7 +1514,7 @@ export function get24hBlobStats(): {
 }
 
 /**
- * Get top uploaders by storage used
+ * Get top uploaders by storage used, counting blobs still stored
  */
 export function getTopUploaders(limit: number = 10): Array<{
   address: string;
@@ -1143,7 +1531,8 @@ export function getTopUploaders(limit: number = 10): Array<{
       owner_address as address,
       COUNT(*) as blob_count,
       SUM(size_bytes) as total_bytes
-    FROM blob_events
+    FROM blob_states
+    WHERE status IN (${STORED_BLOB_STATUSES})
     GROUP BY owner_address
     ORDER BY total_bytes DESC
     LIMIT ?
@@ -1161,8 +1550,8 @@ export function getTopUploaders(limit: number = 10): Array<{
           ELSE 'other'
         END as file_type,
         COUNT(*) as count
-      FROM blob_events
-      WHERE owner_address = ?
+      FROM blob_states
+      WHERE owner_address = ? AND status IN (${STORED_BLOB_STATUSES})
       GROUP BY file_type
       ORDER BY count DESC
       LIMIT 1
@@ -1177,3 +1566,1320 @@ export function getTopUploaders(limit: number = 10): Array<{
     };
   });
 }
+
+// ============================================================================
+// Address Operations
+// ============================================================================
+
+export interface AddressRanks {
+  most_active: number | null;
+  top_spenders: number | null;
+  top_minters: number | null;
+  storage: number | null;
+}
+
+/**
+ * An owner's blobs, newest first, with any extended expiration applied
+ */
+export function getBlobsByOwner(owner: string, limit: number, offset: number): BlobStateRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM blob_states
+    WHERE owner_address = ?
+    ORDER BY transaction_version DESC, event_index DESC
+    LIMIT ? OFFSET ?
+  `).all(owner, limit, offset) as BlobStateRecord[];
+}
+
+/**
+ * An owner's blob totals; active blobs are the ones not yet expired at `now`
+ * or deleted
+ */
+export function getOwnerBlobStats(owner: string, now: number): {
+  blob_count: number;
+  total_bytes: number;
+  active_blobs: number;
+  first_upload: number | null;
+  last_upload: number | null;
+} {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      COUNT(*) as blob_count,
+      COALESCE(SUM(size_bytes), 0) as total_bytes,
+      COALESCE(SUM(
+        CASE WHEN status IN (${STORED_BLOB_STATUSES}) AND (expiration_timestamp IS NULL OR expiration_timestamp > ?)
+        THEN 1 ELSE 0 END
+      ), 0) as active_blobs,
+      MIN(creation_timestamp) as first_upload,
+      MAX(creation_timestamp) as last_upload
+    FROM blob_states
+    WHERE owner_address = ?
+  `).get(now, owner) as {
+    blob_count: number;
+    total_bytes: number;
+    active_blobs: number;
+    first_upload: number | null;
+    last_upload: number | null;
+  };
+}
+
+/**
+ * An address's ShelbyUSD activities, newest first
+ */
+export function getActivitiesByAddress(address: string, limit: number, offset: number): ActivityRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM shelbyusd_activities
+    WHERE address = ?
+    ORDER BY transaction_version DESC, event_index DESC
+    LIMIT ? OFFSET ?
+  `).all(address, limit, offset) as ActivityRecord[];
+}
+
+export function getAddressStats(address: string): AddressStatsRecord | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT address, tx_count, total_deposited, total_withdrawn, total_minted, total_burned, last_version
+    FROM address_stats
+    WHERE address = ?
+  `).get(address) as AddressStatsRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * An address's position in each database-backed leaderboard (1 = top), or
+ * null where it isn't on the board. Ties share a rank.
+ */
+export function getAddressRanks(address: string): AddressRanks {
+  const db = getDatabase();
+  const activity = db.prepare(`
+    SELECT
+      (SELECT COUNT(*) + 1 FROM address_stats WHERE tx_count > s.tx_count) as most_active,
+      CASE WHEN s.total_withdrawn > 0
+        THEN (SELECT COUNT(*) + 1 FROM address_stats WHERE total_withdrawn > s.total_withdrawn)
+      END as top_spenders,
+      CASE WHEN s.total_minted > 0
+        THEN (SELECT COUNT(*) + 1 FROM address_stats WHERE total_minted > s.total_minted)
+      END as top_minters
+    FROM address_stats s
+    WHERE s.address = ?
+  `).get(address) as Omit<AddressRanks, 'storage'> | undefined;
+
+  const storage = db.prepare(`
+    WITH owners AS (
+      SELECT owner_address, SUM(size_bytes) as total_bytes FROM blob_states
+      WHERE status IN (${STORED_BLOB_STATUSES})
+      GROUP BY owner_address
+    )
+    SELECT (SELECT COUNT(*) + 1 FROM owners WHERE total_bytes > mine.total_bytes) as storage
+    FROM owners mine
+    WHERE mine.owner_address = ?
+  `).get(address) as { storage: number } | undefined;
+
+  return {
+    most_active: activity?.most_active ?? null,
+    top_spenders: activity?.top_spenders ?? null,
+    top_minters: activity?.top_minters ?? null,
+    storage: storage?.storage ?? null,
+  };
+}
+
+export function countActivitiesByAddress(address: string): number {
+  const db = getDatabase();
+  const row = db.prepare('SELECT COUNT(*) as count FROM shelbyusd_activities WHERE address = ?').get(address) as { count: number };
+  return row.count;
+}
+
+// ============================================================================
+// Blob Search Operations
+// ============================================================================
+
+export type BlobSearchSort = 'newest' | 'oldest' | 'largest' | 'smallest';
+
+export interface BlobSearchFilters {
+  owner?: string;
+  // Case-insensitive substring of the name, without its "@owner/" prefix
+  name?: string;
+  namePrefix?: string;
+  extension?: string;
+  category?: string;
+  minSize?: number;
+  maxSize?: number;
+  createdAfter?: number;
+  createdBefore?: number;
+  encoding?: string;
+  expiringBefore?: number;
+}
+
+// Sort key of the last blob on the previous page
+export type BlobSearchKey = Pick<BlobEventRecord, 'size_bytes' | 'transaction_version' | 'event_index'>;
+
+const BLOB_SEARCH_ORDER: Record<BlobSearchSort, { columns: Array<keyof BlobSearchKey>; direction: 'ASC' | 'DESC' }> = {
+  newest: { columns: ['transaction_version', 'event_index'], direction: 'DESC' },
+  oldest: { columns: ['transaction_version', 'event_index'], direction: 'ASC' },
+  largest: { columns: ['size_bytes', 'transaction_version', 'event_index'], direction: 'DESC' },
+  smallest: { columns: ['size_bytes', 'transaction_version', 'event_index'], direction: 'ASC' },
+};
+
+// The trigram index only matches terms of three or more characters
+const MIN_FTS_TERM_LENGTH = 3;
+
+function ftsPhrase(term: string): string {
+  return `"${term.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Blobs matching every given filter, in sort order, starting after `after`
+ */
+export function searchBlobEvents(
+  filters: BlobSearchFilters,
+  sort: BlobSearchSort,
+  limit: number,
+  after?: BlobSearchKey
+): BlobEventRecord[] {
+  const db = getDatabase();
+  const where: string[] = [];
+  const params: unknown[] = [];
+
+  if (filters.owner !== undefined) {
+    where.push('owner_address = ?');
+    params.push(filters.owner);
+  }
+
+  // Name filters run against blob_names_fts, which holds the bare names
+  const nameWhere: string[] = [];
+  const phrases = [filters.name, filters.namePrefix]
+    .filter((term): term is string => term !== undefined && term.length >= MIN_FTS_TERM_LENGTH)
+    .map(ftsPhrase);
+  if (phrases.length > 0) {
+    nameWhere.push('blob_names_fts MATCH ?');
+    params.push(phrases.join(' AND '));
+  }
+  if (filters.name !== undefined && filters.name.length < MIN_FTS_TERM_LENGTH) {
+    nameWhere.push('instr(lower(name), ?) > 0');
+    params.push(filters.name.toLowerCase());
+  }
+  if (filters.namePrefix !== undefined) {
+    nameWhere.push('lower(substr(name, 1, ?)) = ?');
+    params.push(filters.namePrefix.length, filters.namePrefix.toLowerCase());
+  }
+  if (nameWhere.length > 0) {
+    where.push(`rowid IN (SELECT rowid FROM blob_names_fts WHERE ${nameWhere.join(' AND ')})`);
+  }
+
+  if (filters.extension !== undefined) {
+    where.push('blob_extension(blob_name) = ?');
+    params.push(filters.extension);
+  }
+  if (filters.category !== undefined) {
+    where.push('blob_category(blob_name) = ?');
+    params.push(filters.category);
+  }
+  if (filters.minSize !== undefined) {
+    where.push('size_bytes >= ?');
+    params.push(filters.minSize);
+  }
+  if (filters.maxSize !== undefined) {
+    where.push('size_bytes <= ?');
+    params.push(filters.maxSize);
+  }
+  if (filters.createdAfter !== undefined) {
+    where.push('creation_timestamp >= ?');
+    params.push(filters.createdAfter);
+  }
+  if (filters.createdBefore !== undefined) {
+    where.push('creation_timestamp < ?');
+    params.push(filters.createdBefore);
+  }
+  if (filters.encoding !== undefined) {
+    where.push('encoding = ?');
+    params.push(filters.encoding);
+  }
+  if (filters.expiringBefore !== undefined) {
+    where.push('expiration_timestamp < ?');
+    params.push(filters.expiringBefore);
+  }
+
+  const order = BLOB_SEARCH_ORDER[sort];
+  if (after) {
+    where.push(
+      `(${order.columns.join(', ')}) ${order.direction === 'DESC' ? '<' : '>'} (${order.columns.map(() => '?').join(', ')})`
+    );
+    params.push(...order.columns.map((column) => after[column]));
+  }
+
+  return db.prepare(`
+    SELECT * FROM blob_events
+    ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+    ORDER BY ${order.columns.map((column) => `${column} ${order.direction}`).join(', ')}
+    LIMIT ?
+  `).all(...params, limit) as BlobEventRecord[];
+}
+
+/**
+ * Re-index every blob name from blob_events
+ */
+export function rebuildBlobNameIndex(): void {
+  const db = getDatabase();
+  runInTransaction(() => {
+    db.exec(`
+      DELETE FROM blob_names_fts;
+      INSERT INTO blob_names_fts (rowid, name)
+      SELECT rowid,
+        CASE WHEN substr(blob_name, 1, 1) = '@' AND instr(blob_name, '/') > 0
+          THEN substr(blob_name, instr(blob_name, '/') + 1) ELSE blob_name END
+      FROM blob_events WHERE blob_name IS NOT NULL;
+    `);
+  });
+}
+
+// ============================================================================
+// Blob Expiration Operations
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface BlobExpirationStats {
+  live_blobs: number;
+  live_bytes: number;
+  expired_blobs: number;
+  expired_bytes: number;
+  // Live at `now` but expiring by `until`
+  expiring_blobs: number;
+  expiring_bytes: number;
+  deleted_blobs: number;
+  deleted_bytes: number;
+}
+
+/**
+ * Split the registered blobs into live and expired at `now`, and the ones
+ * deleted whenever they expire. Blobs without an expiration count as live;
+ * extended blobs are judged by their latest expiration.
+ */
+export function getBlobExpirationStats(now: number, until: number): BlobExpirationStats {
+  const db = getDatabase();
+  return db.prepare(`
+    WITH blobs AS (
+      SELECT
+        size_bytes,
+        CASE
+          WHEN status NOT IN (${STORED_BLOB_STATUSES}) THEN status
+          WHEN expiration_timestamp IS NULL OR expiration_timestamp > @now THEN 'live'
+          ELSE 'expired'
+        END as state,
+        expiration_timestamp > @now AND expiration_timestamp <= @until as expiring
+      FROM blob_states
+    )
+    SELECT
+      COALESCE(SUM(CASE WHEN state = 'live' THEN 1 ELSE 0 END), 0) as live_blobs,
+      COALESCE(SUM(CASE WHEN state = 'live' THEN size_bytes ELSE 0 END), 0) as live_bytes,
+      COALESCE(SUM(CASE WHEN state = 'expired' THEN 1 ELSE 0 END), 0) as expired_blobs,
+      COALESCE(SUM(CASE WHEN state = 'expired' THEN size_bytes ELSE 0 END), 0) as expired_bytes,
+      COALESCE(SUM(CASE WHEN state = 'live' AND expiring THEN 1 ELSE 0 END), 0) as expiring_blobs,
+      COALESCE(SUM(CASE WHEN state = 'live' AND expiring THEN size_bytes ELSE 0 END), 0) as expiring_bytes,
+      COALESCE(SUM(CASE WHEN state = 'deleted' THEN 1 ELSE 0 END), 0) as deleted_blobs,
+      COALESCE(SUM(CASE WHEN state = 'deleted' THEN size_bytes ELSE 0 END), 0) as deleted_bytes
+    FROM blobs
+  `).get({ now, until }) as BlobExpirationStats;
+}
+
+/**
+ * Live blobs that expire by `until`, soonest first
+ */
+export function getExpiringBlobs(now: number, until: number, limit: number, offset: number): BlobStateRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM blob_states
+    WHERE expiration_timestamp > ? AND expiration_timestamp <= ? AND status IN (${STORED_BLOB_STATUSES})
+    ORDER BY expiration_timestamp ASC, transaction_version ASC, event_index ASC
+    LIMIT ? OFFSET ?
+  `).all(now, until, limit, offset) as BlobStateRecord[];
+}
+
+/**
+ * Bytes of live blobs that expire on each of the next `days` days. Day 1
+ * covers the first 24 hours after `now`; days with nothing expiring are left out.
+ */
+export function getExpiringBytesByDay(now: number, days: number): Array<{ day: number; bytes: number; blobs: number }> {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      CAST((expiration_timestamp - @now + ${DAY_MS - 1}) / ${DAY_MS} AS INTEGER) as day,
+      SUM(size_bytes) as bytes,
+      COUNT(*) as blobs
+    FROM blob_states
+    WHERE expiration_timestamp > @now AND expiration_timestamp <= @until AND status IN (${STORED_BLOB_STATUSES})
+    GROUP BY day
+    ORDER BY day
+  `).all({ now, until: now + days * DAY_MS }) as Array<{ day: number; bytes: number; blobs: number }>;
+}
+
+/**
+ * Bytes registered by blobs created at or after `since`
+ */
+export function getUploadedBytesSince(since: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COALESCE(SUM(size_bytes), 0) as total FROM blob_events WHERE creation_timestamp >= ?
+  `).get(since) as { total: number };
+  return row.total;
+}
+
+// ============================================================================
+// Timeseries Operations
+// ============================================================================
+
+export type TimeseriesBucket = 'hour' | 'day';
+
+// Inlined into the SQL: bound numbers are REALs, which would make the
+// bucket_start division fractional
+export const TIMESERIES_BUCKET_MS: Record<TimeseriesBucket, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+};
+
+export interface TimeseriesRow {
+  metric: string;
+  bucket: TimeseriesBucket;
+  bucket_start: number;
+  value: number;
+}
+
+/**
+ * Blobs, bytes and owners registered before a timestamp
+ */
+export function getBlobTotalsBefore(timestamp: number): { blobs: number; bytes: number; owners: number } {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      COUNT(*) as blobs,
+      COALESCE(SUM(size_bytes), 0) as bytes,
+      COUNT(DISTINCT owner_address) as owners
+    FROM blob_events
+    WHERE creation_timestamp < ?
+  `).get(timestamp) as { blobs: number; bytes: number; owners: number };
+}
+
+/**
+ * Blobs and bytes registered in each bucket from `since`, with the number of
+ * owners whose first blob falls in it
+ */
+export function getBlobBuckets(
+  bucket: TimeseriesBucket,
+  since: number
+): Array<{ bucket_start: number; blobs: number; bytes: number; new_owners: number }> {
+  const db = getDatabase();
+  const size = TIMESERIES_BUCKET_MS[bucket];
+  const registered = db.prepare(`
+    SELECT
+      (creation_timestamp / ${size}) * ${size} as bucket_start,
+      COUNT(*) as blobs,
+      SUM(size_bytes) as bytes
+    FROM blob_events
+    WHERE creation_timestamp >= ?
+    GROUP BY bucket_start
+  `).all(since) as Array<{ bucket_start: number; blobs: number; bytes: number }>;
+
+  const firstSeen = db.prepare(`
+    SELECT (first_seen / ${size}) * ${size} as bucket_start, COUNT(*) as new_owners
+    FROM (
+      SELECT owner_address, MIN(creation_timestamp) as first_seen
+      FROM blob_events
+      WHERE creation_timestamp >= ?
+      GROUP BY owner_address
+    ) recent
+    WHERE NOT EXISTS (
+      SELECT 1 FROM blob_events earlier
+      WHERE earlier.owner_address = recent.owner_address AND earlier.creation_timestamp < ?
+    )
+    GROUP BY bucket_start
+  `).all(since, since) as Array<{ bucket_start: number; new_owners: number }>;
+
+  const newOwners = new Map(firstSeen.map((row) => [row.bucket_start, row.new_owners]));
+  return registered.map((row) => ({ ...row, new_owners: newOwners.get(row.bucket_start) ?? 0 }));
+}
+
+/**
+ * ShelbyUSD volume and mint count in each bucket from `since`
+ */
+export function getActivityBuckets(
+  bucket: TimeseriesBucket,
+  since: number
+): Array<{ bucket_start: number; volume: number; mints: number }> {
+  const db = getDatabase();
+  const size = TIMESERIES_BUCKET_MS[bucket];
+  return db.prepare(`
+    SELECT
+      (timestamp / ${size}) * ${size} as bucket_start,
+      SUM(amount) as volume,
+      SUM(CASE WHEN type = 'mint' THEN 1 ELSE 0 END) as mints
+    FROM shelbyusd_activities
+    WHERE timestamp >= ?
+    GROUP BY bucket_start
+  `).all(since) as Array<{ bucket_start: number; volume: number; mints: number }>;
+}
+
+/**
+ * Timestamp of the oldest blob or activity, or null when there are none
+ */
+export function getEarliestEventTimestamp(): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT MIN(earliest) as earliest FROM (
+      SELECT MIN(creation_timestamp) as earliest FROM blob_events WHERE creation_timestamp > 0
+      UNION ALL
+      SELECT MIN(timestamp) FROM shelbyusd_activities WHERE timestamp > 0
+    )
+  `).get() as { earliest: number | null };
+  return row.earliest;
+}
+
+/**
+ * Start of the newest stored bucket of a size, or null before the first rollup
+ */
+export function getLatestTimeseriesBucketStart(bucket: TimeseriesBucket): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT MAX(bucket_start) as latest FROM timeseries_buckets WHERE bucket = ?
+  `).get(bucket) as { latest: number | null };
+  return row.latest;
+}
+
+/**
+ * Insert or overwrite buckets
+ */
+export function upsertTimeseriesBuckets(rows: TimeseriesRow[]): void {
+  const db = getDatabase();
+  const upsert = db.prepare(`
+    INSERT INTO timeseries_buckets (metric, bucket, bucket_start, value)
+    VALUES (?, ?, ?, ?)
+    ON CONFLICT(metric, bucket, bucket_start) DO UPDATE SET value = excluded.value
+  `);
+  db.transaction(() => {
+    for (const row of rows) {
+      upsert.run(row.metric, row.bucket, row.bucket_start, row.value);
+    }
+  })();
+}
+
+/**
+ * A metric's buckets starting between `from` and `to` (inclusive), oldest first
+ */
+export function getTimeseriesBuckets(
+  metric: string,
+  bucket: TimeseriesBucket,
+  from: number,
+  to: number
+): Array<{ bucket_start: number; value: number }> {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT bucket_start, value FROM timeseries_buckets
+    WHERE metric = ? AND bucket = ? AND bucket_start BETWEEN ? AND ?
+    ORDER BY bucket_start
+  `).all(metric, bucket, from, to) as Array<{ bucket_start: number; value: number }>;
+}
+
+// ============================================================================
+// Share Session Operations
+// ============================================================================
+
+export interface ShareSession {
+  id: string;
+  title: string | null;
+  manage_token: string;
+  created_at: number;
+  expires_at: number | null;
+}
+
+export interface ShareSessionFile {
+  id: number;
+  session_id: string;
+  blob_name: string;
+  original_name: string;
+  size: number;
+  url: string;
+  viewer_url: string;
+  owner_address: string;
+  uploaded_at: number;
+  relative_path: string | null; // Path within an uploaded folder, e.g. "photos/cat.png"
+  content_hash: string | null; // SHA-256 hex of the file contents
+  content_type: string | null; // Detected from the file contents
+  thumbnail_url: string | null; // Companion thumbnail blob, served through the view route
+}
+
+/**
+ * Create a share session (folder link) unless one with this ID already exists.
+ * Returns the stored session and whether this call created it; only the
+ * creator may hand out its manage token.
+ */
+export function createShareSession(
+  sessionId: string,
+  options: { title?: string | null; expiresAt?: number | null } = {}
+): { session: ShareSession; created: boolean } {
+  const db = getDatabase();
+  const { changes } = db.prepare(`
+    INSERT INTO share_sessions (id, title, manage_token, created_at, expires_at)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(id) DO NOTHING
+  `).run(sessionId, options.title ?? null, randomBytes(24).toString('hex'), Date.now(), options.expiresAt ?? null);
+
+  // Whoever inserted it first, the row is there now
+  const session = db.prepare('SELECT * FROM share_sessions WHERE id = ?').get(sessionId) as ShareSession;
+  if (changes > 0) {
+    logger.info({ sessionId }, 'Created share session');
+  }
+  return { session, created: changes > 0 };
+}
+
+/**
+ * Get a share session by ID (expired sessions are still returned)
+ */
+export function getShareSession(sessionId: string): ShareSession | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM share_sessions WHERE id = ?').get(sessionId) as ShareSession | undefined;
+  return row ?? null;
+}
+
+/**
+ * Get all files in a share session, oldest first
+ */
+export function getShareSessionFiles(sessionId: string): ShareSessionFile[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM share_session_files
+    WHERE session_id = ?
+    ORDER BY uploaded_at ASC, id ASC
+  `).all(sessionId) as ShareSessionFile[];
+}
+
+/**
+ * Add an uploaded file to a share session
+ */
+export function addShareSessionFile(file: Omit<ShareSessionFile, 'id'>): ShareSessionFile {
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO share_session_files
+    (session_id, blob_name, original_name, size, url, viewer_url, owner_address, uploaded_at, relative_path, content_hash, content_type, thumbnail_url)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    file.session_id,
+    file.blob_name,
+    file.original_name,
+    file.size,
+    file.url,
+    file.viewer_url,
+    file.owner_address,
+    file.uploaded_at,
+    file.relative_path,
+    file.content_hash,
+    file.content_type,
+    file.thumbnail_url
+  );
+
+  return { id: Number(result.lastInsertRowid), ...file };
+}
+
+/**
+ * Update a share session's title and/or expiry (undefined fields are left unchanged)
+ */
+export function updateShareSession(
+  sessionId: string,
+  updates: { title?: string | null; expiresAt?: number | null }
+): void {
+  const db = getDatabase();
+  const session = getShareSession(sessionId);
+  if (!session) return;
+
+  db.prepare(`
+    UPDATE share_sessions SET title = ?, expires_at = ? WHERE id = ?
+  `).run(
+    updates.title !== undefined ? updates.title : session.title,
+    updates.expiresAt !== undefined ? updates.expiresAt : session.expires_at,
+    sessionId
+  );
+}
+
+/**
+ * Delete a share session and its file records
+ * The blobs themselves stay on Shelby until they expire
+ */
+export function deleteShareSession(sessionId: string): { filesDeleted: number } {
+  const db = getDatabase();
+
+  const remove = db.transaction(() => {
+    const files = db.prepare('DELETE FROM share_session_files WHERE session_id = ?').run(sessionId);
+    db.prepare('DELETE FROM share_sessions WHERE id = ?').run(sessionId);
+    return files.changes;
+  });
+
+  const filesDeleted = remove();
+  logger.info({ sessionId, filesDeleted }, 'Deleted share session');
+  return { filesDeleted };
+}
+
+// ============================================================================
+// Share Upload Job Operations
+// ============================================================================
+
+export type ShareUploadJobStatus =
+  | 'received'
+  | 'queued'
+  | 'encoding'
+  | 'registering'
+  | 'uploading'
+  | 'done'
+  | 'failed';
+
+export interface ShareUploadJob {
+  id: string;
+  status: ShareUploadJobStatus;
+  file_name: string;
+  session_id: string | null;
+  bytes_processed: number;
+  total_bytes: number;
+  result: string | null; // JSON-encoded UploadResult
+  error: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * Insert a new upload job
+ */
+export function insertShareUploadJob(job: ShareUploadJob): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO share_upload_jobs
+    (id, status, file_name, session_id, bytes_processed, total_bytes, result, error, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    job.id,
+    job.status,
+    job.file_name,
+    job.session_id,
+    job.bytes_processed,
+    job.total_bytes,
+    job.result,
+    job.error,
+    job.created_at,
+    job.updated_at
+  );
+}
+
+/**
+ * Persist the current state of an upload job
+ */
+export function updateShareUploadJob(
+  jobId: string,
+  updates: Pick<ShareUploadJob, 'status' | 'bytes_processed' | 'result' | 'error'>
+): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE share_upload_jobs
+    SET status = ?, bytes_processed = ?, result = ?, error = ?, updated_at = ?
+    WHERE id = ?
+  `).run(updates.status, updates.bytes_processed, updates.result, updates.error, Date.now(), jobId);
+}
+
+/**
+ * Get an upload job by ID
+ */
+export function getShareUploadJob(jobId: string): ShareUploadJob | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM share_upload_jobs WHERE id = ?').get(jobId) as ShareUploadJob | undefined;
+  return row ?? null;
+}
+
+/**
+ * Mark jobs that were still running when the server stopped as failed
+ */
+export function failInterruptedShareUploadJobs(): number {
+  const db = getDatabase();
+  const result = db.prepare(`
+    UPDATE share_upload_jobs
+    SET status = 'failed', error = 'Server restarted before the upload finished', updated_at = ?
+    WHERE status NOT IN ('done', 'failed')
+  `).run(Date.now());
+  return result.changes;
+}
+
+/**
+ * Delete finished upload jobs older than the given timestamp
+ */
+export function deleteShareUploadJobsBefore(timestamp: number): number {
+  const db = getDatabase();
+  const result = db.prepare(`
+    DELETE FROM share_upload_jobs
+    WHERE status IN ('done', 'failed') AND updated_at < ?
+  `).run(timestamp);
+  return result.changes;
+}
+
+// ============================================================================
+// Share Blob Index Operations
+// ============================================================================
+
+export interface ShareBlobIndexRecord {
+  owner_address: string;
+  blob_name: string;
+  content_hash: string; // SHA-256 hex
+  content_type: string | null; // Detected from the file contents (null for older uploads)
+  size: number;
+  url: string;
+  viewer_url: string;
+  thumbnail_url: string | null;
+  expires_at: number;
+  created_at: number;
+}
+
+/**
+ * Find an unexpired blob with the given content, newest first
+ */
+export function findShareBlobByHash(ownerAddress: string, contentHash: string): ShareBlobIndexRecord | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT * FROM share_blob_index
+    WHERE content_hash = ? AND owner_address = ? AND expires_at > ?
+    ORDER BY created_at DESC
+    LIMIT 1
+  `).get(contentHash, ownerAddress, Date.now()) as ShareBlobIndexRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Check whether a blob name is already used by an indexed upload
+ */
+export function isShareBlobNameTaken(ownerAddress: string, blobName: string): boolean {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT 1 FROM share_blob_index WHERE owner_address = ? AND blob_name = ?
+  `).get(ownerAddress, blobName);
+  return row !== undefined;
+}
+
+/**
+ * Get an uploaded blob by name
+ */
+export function getShareBlob(ownerAddress: string, blobName: string): ShareBlobIndexRecord | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT * FROM share_blob_index WHERE owner_address = ? AND blob_name = ?
+  `).get(ownerAddress, blobName) as ShareBlobIndexRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Record an uploaded blob (replaces any earlier entry for the same name)
+ */
+export function addShareBlobToIndex(record: ShareBlobIndexRecord): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT OR REPLACE INTO share_blob_index
+    (owner_address, blob_name, content_hash, content_type, size, url, viewer_url, thumbnail_url, expires_at, created_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    record.owner_address,
+    record.blob_name,
+    record.content_hash,
+    record.content_type,
+    record.size,
+    record.url,
+    record.viewer_url,
+    record.thumbnail_url,
+    record.expires_at,
+    record.created_at
+  );
+}
+
+// ============================================================================
+// Share Usage Operations
+// ============================================================================
+
+export type ShareUsageScope = 'ip' | 'wallet';
+
+export interface ShareUsageTotals {
+  bytes_today: number;
+  files_this_hour: number;
+}
+
+export interface ShareUsageReportRow extends ShareUsageTotals {
+  scope: ShareUsageScope;
+  client_key: string;
+}
+
+/**
+ * Add usage to a client's bucket for the given hour
+ */
+export function addShareUsage(
+  scope: ShareUsageScope,
+  clientKey: string,
+  hourStart: number,
+  usage: { bytes: number; files: number }
+): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO share_usage (scope, client_key, hour_start, bytes, files)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(scope, client_key, hour_start) DO UPDATE SET
+      bytes = bytes + excluded.bytes,
+      files = files + excluded.files
+  `).run(scope, clientKey, hourStart, usage.bytes, usage.files);
+}
+
+/**
+ * Get a client's bytes since the start of the day and files in the current hour
+ */
+export function getShareUsage(
+  scope: ShareUsageScope,
+  clientKey: string,
+  dayStart: number,
+  hourStart: number
+): ShareUsageTotals {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT
+      COALESCE(SUM(bytes), 0) as bytes_today,
+      COALESCE(SUM(CASE WHEN hour_start = ? THEN files ELSE 0 END), 0) as files_this_hour
+    FROM share_usage
+    WHERE scope = ? AND client_key = ? AND hour_start >= ?
+  `).get(hourStart, scope, clientKey, dayStart) as ShareUsageTotals;
+  return row;
+}
+
+/**
+ * Get today's heaviest clients, by bytes uploaded
+ */
+export function getShareUsageReport(
+  dayStart: number,
+  hourStart: number,
+  options: { scope?: ShareUsageScope; limit: number }
+): ShareUsageReportRow[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT
+      scope,
+      client_key,
+      SUM(bytes) as bytes_today,
+      SUM(CASE WHEN hour_start = ? THEN files ELSE 0 END) as files_this_hour
+    FROM share_usage
+    WHERE hour_start >= ? AND (? IS NULL OR scope = ?)
+    GROUP BY scope, client_key
+    ORDER BY bytes_today DESC, files_this_hour DESC, scope, client_key
+    LIMIT ?
+  `).all(hourStart, dayStart, options.scope ?? null, options.scope ?? null, options.limit) as ShareUsageReportRow[];
+}
+
+/**
+ * Delete usage buckets older than the given timestamp
+ */
+export function deleteShareUsageBefore(timestamp: number): number {
+  const db = getDatabase();
+  const result = db.prepare('DELETE FROM share_usage WHERE hour_start < ?').run(timestamp);
+  return result.changes;
+}
+
+// ============================================================================
+// API Key Operations
+// ============================================================================
+
+export type ApiKeyRole = 'read-only' | 'operator' | 'admin';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  role: ApiKeyRole;
+  key_hash: string;
+  created_at: number;
+  last_used_at: number | null;
+  revoked_at: number | null;
+}
+
+/**
+ * Insert a new API key (the hash only; the key itself is never stored)
+ */
+export function insertApiKey(key: Omit<ApiKeyRecord, 'last_used_at' | 'revoked_at'>): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO api_keys (id, name, role, key_hash, created_at)
+    VALUES (?, ?, ?, ?, ?)
+  `).run(key.id, key.name, key.role, key.key_hash, key.created_at);
+}
+
+/**
+ * Get an API key by id, revoked or not
+ */
+export function getApiKey(id: string): ApiKeyRecord | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as ApiKeyRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Get every API key, oldest first
+ */
+export function getApiKeys(): ApiKeyRecord[] {
+  const db = getDatabase();
+  return db.prepare('SELECT * FROM api_keys ORDER BY created_at, id').all() as ApiKeyRecord[];
+}
+
+/**
+ * Record that an API key was just used
+ */
+export function touchApiKey(id: string, usedAt: number): void {
+  const db = getDatabase();
+  db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(usedAt, id);
+}
+
+/**
+ * Revoke an API key. Returns false if there is no such key or it was already revoked.
+ */
+export function revokeApiKey(id: string, revokedAt: number = Date.now()): boolean {
+  const db = getDatabase();
+  const result = db
+    .prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL')
+    .run(revokedAt, id);
+  return result.changes > 0;
+}
+
+// ============================================================================
+// Admin Audit Operations
+// ============================================================================
+
+export type AdminAuditResult = 'ok' | 'failed' | 'denied';
+
+export interface AdminAuditRecord {
+  id: number;
+  created_at: number;
+  key_id: string | null;
+  actor: string;
+  method: string;
+  route: string;
+  params: string; // JSON-encoded query and body
+  status: number;
+  result: AdminAuditResult;
+}
+
+/**
+ * Append an entry to the admin audit log
+ */
+export function insertAdminAuditEntry(entry: Omit<AdminAuditRecord, 'id'>): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO admin_audit_log (created_at, key_id, actor, method, route, params, status, result)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    entry.created_at,
+    entry.key_id,
+    entry.actor,
+    entry.method,
+    entry.route,
+    entry.params,
+    entry.status,
+    entry.result
+  );
+}
+
+/**
+ * Get the newest admin audit log entries
+ */
+export function getAdminAuditLog(limit: number, offset: number = 0): AdminAuditRecord[] {
+  const db = getDatabase();
+  return db
+    .prepare('SELECT * FROM admin_audit_log ORDER BY id DESC LIMIT ? OFFSET ?')
+    .all(limit, offset) as AdminAuditRecord[];
+}
+
+// ============================================================================
+// Alert Rule Operations
+// ============================================================================
+
+export type AlertRuleType = 'address_upload' | 'large_transfer' | 'upload_rate_zero' | 'provider_missing';
+
+export interface AlertRuleRecord {
+  id: number;
+  name: string;
+  type: AlertRuleType;
+  params: string; // JSON-encoded, shape depends on the type
+  webhook_url: string;
+  secret: string; // Signs the webhook payloads
+  enabled: number; // 0 or 1
+  state: string | null; // JSON-encoded evaluation state; null until first evaluated
+  created_at: number;
+  updated_at: number;
+  last_triggered_at: number | null;
+}
+
+/**
+ * Insert a new alert rule and return it with its id
+ */
+export function insertAlertRule(
+  rule: Omit<AlertRuleRecord, 'id' | 'state' | 'updated_at' | 'last_triggered_at'>
+): AlertRuleRecord {
+  const db = getDatabase();
+  const result = db.prepare(`
+    INSERT INTO alert_rules (name, type, params, webhook_url, secret, enabled, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(rule.name, rule.type, rule.params, rule.webhook_url, rule.secret, rule.enabled, rule.created_at, rule.created_at);
+
+  return {
+    ...rule,
+    id: Number(result.lastInsertRowid),
+    state: null,
+    updated_at: rule.created_at,
+    last_triggered_at: null,
+  };
+}
+
+export function getAlertRule(id: number): AlertRuleRecord | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM alert_rules WHERE id = ?').get(id) as AlertRuleRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Get every alert rule, oldest first
+ */
+export function getAlertRules(options: { enabledOnly?: boolean } = {}): AlertRuleRecord[] {
+  const db = getDatabase();
+  const where = options.enabledOnly ? 'WHERE enabled = 1' : '';
+  return db.prepare(`SELECT * FROM alert_rules ${where} ORDER BY id`).all() as AlertRuleRecord[];
+}
+
+/**
+ * Update an alert rule's settings (undefined fields are left unchanged)
+ */
+export function updateAlertRule(
+  id: number,
+  updates: Partial<Pick<AlertRuleRecord, 'name' | 'params' | 'webhook_url' | 'secret' | 'enabled' | 'state'>>,
+  updatedAt: number = Date.now()
+): AlertRuleRecord | null {
+  const db = getDatabase();
+  const rule = getAlertRule(id);
+  if (!rule) return null;
+
+  const updated: AlertRuleRecord = { ...rule, ...updates, updated_at: updatedAt };
+  db.prepare(`
+    UPDATE alert_rules
+    SET name = ?, params = ?, webhook_url = ?, secret = ?, enabled = ?, state = ?, updated_at = ?
+    WHERE id = ?
+  `).run(
+    updated.name,
+    updated.params,
+    updated.webhook_url,
+    updated.secret,
+    updated.enabled,
+    updated.state,
+    updated.updated_at,
+    id
+  );
+  return updated;
+}
+
+/**
+ * Save a rule's evaluation state, and when it last fired if it just did
+ */
+export function setAlertRuleState(id: number, state: string, triggeredAt: number | null): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE alert_rules SET state = ?, last_triggered_at = COALESCE(?, last_triggered_at) WHERE id = ?
+  `).run(state, triggeredAt, id);
+}
+
+/**
+ * Delete an alert rule and its pending deliveries. Its dead letters are kept.
+ * Returns false if there is no such rule.
+ */
+export function deleteAlertRule(id: number): boolean {
+  const db = getDatabase();
+  const remove = db.transaction(() => {
+    db.prepare("DELETE FROM webhook_deliveries WHERE rule_id = ? AND status = 'pending'").run(id);
+    return db.prepare('DELETE FROM alert_rules WHERE id = ?').run(id).changes > 0;
+  });
+  return remove();
+}
+
+// ============================================================================
+// Webhook Delivery Operations
+// ============================================================================
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered';
+
+export interface WebhookDeliveryRecord {
+  id: string;
+  rule_id: number;
+  url: string;
+  payload: string; // The JSON body, exactly as signed and sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_status: number | null; // HTTP status of the last attempt; null if it got no response
+  last_error: string | null;
+  created_at: number;
+  delivered_at: number | null;
+}
+
+export interface WebhookDeadLetterRecord {
+  id: string;
+  rule_id: number;
+  url: string;
+  payload: string;
+  attempts: number;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: number;
+  failed_at: number;
+}
+
+/**
+ * Queue a webhook delivery, due right away
+ */
+export function insertWebhookDelivery(
+  delivery: Pick<WebhookDeliveryRecord, 'id' | 'rule_id' | 'url' | 'payload' | 'created_at'>
+): void {
+  const db = getDatabase();
+  db.prepare(`
+    INSERT INTO webhook_deliveries (id, rule_id, url, payload, status, attempts, next_attempt_at, created_at)
+    VALUES (?, ?, ?, ?, 'pending', 0, ?, ?)
+  `).run(delivery.id, delivery.rule_id, delivery.url, delivery.payload, delivery.created_at, delivery.created_at);
+}
+
+export function getWebhookDelivery(id: string): WebhookDeliveryRecord | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM webhook_deliveries WHERE id = ?').get(id) as WebhookDeliveryRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Get pending deliveries due by `now`, oldest first
+ */
+export function getDueWebhookDeliveries(now: number, limit: number): WebhookDeliveryRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= ?
+    ORDER BY next_attempt_at, created_at
+    LIMIT ?
+  `).all(now, limit) as WebhookDeliveryRecord[];
+}
+
+/**
+ * Get the newest deliveries, optionally only those with a status
+ */
+export function getWebhookDeliveries(
+  options: { status?: WebhookDeliveryStatus; ruleId?: number; limit: number; offset: number }
+): WebhookDeliveryRecord[] {
+  const db = getDatabase();
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+  if (options.status) {
+    conditions.push('status = ?');
+    params.push(options.status);
+  }
+  if (options.ruleId !== undefined) {
+    conditions.push('rule_id = ?');
+    params.push(options.ruleId);
+  }
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+  return db.prepare(`
+    SELECT * FROM webhook_deliveries ${where}
+    ORDER BY created_at DESC, id
+    LIMIT ? OFFSET ?
+  `).all(...params, options.limit, options.offset) as WebhookDeliveryRecord[];
+}
+
+/**
+ * Record a successful attempt
+ */
+export function markWebhookDelivered(id: string, status: number, deliveredAt: number): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET status = 'delivered', attempts = attempts + 1, last_status = ?, last_error = NULL, delivered_at = ?
+    WHERE id = ?
+  `).run(status, deliveredAt, id);
+}
+
+/**
+ * Record a failed attempt and when to try again
+ */
+export function scheduleWebhookRetry(
+  id: string,
+  failure: { status: number | null; error: string },
+  nextAttemptAt: number
+): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE webhook_deliveries
+    SET attempts = attempts + 1, last_status = ?, last_error = ?, next_attempt_at = ?
+    WHERE id = ?
+  `).run(failure.status, failure.error, nextAttemptAt, id);
+}
+
+/**
+ * Record a delivery's last failed attempt and move it to the dead letters
+ */
+export function moveWebhookToDeadLetters(
+  id: string,
+  failure: { status: number | null; error: string },
+  failedAt: number
+): void {
+  const db = getDatabase();
+  const move = db.transaction(() => {
+    db.prepare(`
+      INSERT INTO webhook_dead_letters (id, rule_id, url, payload, attempts, last_status, last_error, created_at, failed_at)
+      SELECT id, rule_id, url, payload, attempts + 1, ?, ?, created_at, ?
+      FROM webhook_deliveries WHERE id = ?
+    `).run(failure.status, failure.error, failedAt, id);
+    db.prepare('DELETE FROM webhook_deliveries WHERE id = ?').run(id);
+  });
+  move();
+}
+
+export function getWebhookDeadLetter(id: string): WebhookDeadLetterRecord | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM webhook_dead_letters WHERE id = ?').get(id) as WebhookDeadLetterRecord | undefined;
+  return row ?? null;
+}
+
+/**
+ * Get the newest dead letters
+ */
+export function getWebhookDeadLetters(limit: number, offset: number = 0): WebhookDeadLetterRecord[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT * FROM webhook_dead_letters ORDER BY failed_at DESC, id LIMIT ? OFFSET ?
+  `).all(limit, offset) as WebhookDeadLetterRecord[];
+}
+
+/**
+ * Queue a dead letter for delivery again, with a fresh set of retries, to
+ * its rule's current webhook URL. Returns false if there is no such dead
+ * letter or its rule has been deleted.
+ */
+export function requeueWebhookDeadLetter(id: string, now: number): boolean {
+  const db = getDatabase();
+  const requeue = db.transaction(() => {
+    const inserted = db.prepare(`
+      INSERT INTO webhook_deliveries (id, rule_id, url, payload, status, attempts, next_attempt_at, created_at)
+      SELECT d.id, d.rule_id, r.webhook_url, d.payload, 'pending', 0, ?, d.created_at
+      FROM webhook_dead_letters d JOIN alert_rules r ON r.id = d.rule_id
+      WHERE d.id = ?
+    `).run(now, id);
+    if (inserted.changes === 0) return false;
+    db.prepare('DELETE FROM webhook_dead_letters WHERE id = ?').run(id);
+    return true;
+  });
+  return requeue();
+}
+
+/**
+ * Delete delivered webhooks older than `before`
+ */
+export function deleteDeliveredWebhooksBefore(before: number): number {
+  const db = getDatabase();
+  return db.prepare(`
+    DELETE FROM webhook_deliveries WHERE status = 'delivered' AND delivered_at < ?
+  `).run(before).changes;
+}
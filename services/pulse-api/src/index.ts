@@ -7,7 +7,11 @@ import { DataService } from "./data-service";
 import { FarmingService } from "./farming-service";
 import { GitHubFarmingService } from "./github-farming";
 import { UploadService } from "./upload-service";
+import { UploadJobService } from "./upload-jobs";
+import { ShareQuotaService } from "./share-quota";
 import { createRouter } from "./routes";
+import { metricsHandler, metricsMiddleware } from "./metrics";
+import { requireRole } from "./admin-auth";
 
 async function main() {
   const config = loadConfig();
@@ -37,7 +41,9 @@ async function main() {
   // Initialize Upload Service for Shelby Share feature
   let uploadService: UploadService | undefined;
   if (config.SHELBY_PRIVATE_KEY) {
-    uploadService = new UploadService(config.SHELBY_PRIVATE_KEY, config.SHELBY_API_KEY);
+    uploadService = new UploadService(config.SHELBY_PRIVATE_KEY, config.SHELBY_API_KEY, {
+      maxConcurrentUploads: config.UPLOAD_MAX_CONCURRENCY,
+    });
     if (uploadService.isAvailable()) {
       logger.info(
         { address: uploadService.getAddress(), hasApiKey: !!config.SHELBY_API_KEY },
@@ -45,12 +51,30 @@ async function main() {
       );
     } else {
       logger.warn("Upload service failed to initialize");
+      uploadService.shutdown();
       uploadService = undefined;
     }
   } else {
     logger.warn("SHELBY_PRIVATE_KEY not set - Shelby Share disabled");
   }
 
+  // Upload jobs track Shelby Share progress (database is ready once DataService exists)
+  const uploadJobService = uploadService ? new UploadJobService() : undefined;
+
+  // Per-IP quotas on the upload endpoints, and per-wallet quotas on the uploads a wallet signs
+  const shareQuotaService = uploadService
+    ? new ShareQuotaService({
+        bytesPerDay: config.SHARE_QUOTA_BYTES_PER_DAY,
+        filesPerHour: config.SHARE_QUOTA_FILES_PER_HOUR,
+      })
+    : undefined;
+
+  // Behind a proxy, req.ip should be the client rather than the proxy (e.g. "1", "true", "loopback")
+  if (config.TRUST_PROXY) {
+    const value = config.TRUST_PROXY;
+    app.set("trust proxy", value === "true" ? true : /^\d+$/.test(value) ? Number(value) : value);
+  }
+
   // Middleware
   app.use(cors());
   app.use(express.json());
@@ -73,8 +97,25 @@ async function main() {
     next();
   });
 
+  // Request latency for /metrics
+  app.use(metricsMiddleware);
+
   // Routes
-  app.use("/api", createRouter(dataService, farmingService, githubFarmingService, uploadService));
+  app.use(
+    "/api",
+    createRouter({
+      dataService,
+      farmingService,
+      githubFarmingService,
+      uploadService,
+      uploadJobService,
+      shareQuotaService,
+      maxLiveStreams: config.LIVE_MAX_STREAMS,
+    })
+  );
+
+  // Prometheus scrape endpoint; it reveals traffic and sync state, so scrapers need a key
+  app.get("/metrics", requireRole("read-only"), metricsHandler);
 
   // Root endpoint
   app.get("/", (req, res) => {
@@ -83,6 +124,7 @@ async function main() {
       version: "0.2.0",
       endpoints: {
         health: "/api/health",
+        metrics: "/metrics",
         stats: "/api/network/stats",
         recentBlobs: "/api/blobs/recent?limit=20",
         events: "/api/events/recent?limit=100",
@@ -104,8 +146,17 @@ async function main() {
           regions: "GET /api/farming/continuous/regions",
         },
         share: {
-          upload: "POST /api/share/upload (multipart/form-data with 'file' field)",
-          info: "GET /api/share/info",
+          upload: "POST /api/share/upload (multipart/form-data with 'file' field, returns a job ID)",
+          uploadBatch: "POST /api/share/upload-batch (multipart/form-data with 'files' fields or zip archives)",
+          walletPrepare: "POST /api/share/wallet/prepare (multipart 'file' field, X-Wallet-Address header)",
+          walletComplete: "POST /api/share/wallet/complete (uploadId + transactionHash once the wallet has signed)",
+          uploadStatus: "GET /api/share/uploads/:id",
+          uploadEvents: "GET /api/share/uploads/:id/events (SSE)",
+          folder: "GET /api/share/folder/:sessionId",
+          updateFolder: "PATCH /api/share/folder/:sessionId (X-Share-Token header)",
+          deleteFolder: "DELETE /api/share/folder/:sessionId (X-Share-Token header)",
+          info: "GET /api/share/info (includes the remaining quota for the caller's IP)",
+          adminUsage: "GET /api/share/admin/usage (API key with the read-only role)",
         },
       },
       farmingEnabled: !!farmingService,
@@ -138,12 +189,14 @@ async function main() {
   process.on("SIGINT", () => {
     logger.info("Received SIGINT, shutting down gracefully");
     githubFarmingService.stopScheduler();
+    uploadService?.shutdown();
     process.exit(0);
   });
 
   process.on("SIGTERM", () => {
     logger.info("Received SIGTERM, shutting down gracefully");
     githubFarmingService.stopScheduler();
+    uploadService?.shutdown();
     process.exit(0);
   });
 }
@@ -0,0 +1,206 @@
+import { createHash } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import type { ApiConfig } from "./config";
+import { logger } from "./logger";
+import { graphqlErrors, graphqlRequests } from "./metrics";
+
+/**
+ * How ShelbyAptosClient and the sync services reach the chain: GraphQL
+ * queries against the indexer and GET requests against the fullnode REST
+ * API. Both resolve to a standard Response, whatever the backend.
+ */
+export interface IndexerTransport {
+  graphql(query: string, variables?: Record<string, unknown>): Promise<Response>;
+  /**
+   * GET a fullnode REST path, e.g. `/transactions/by_version/123`
+   */
+  rest(path: string): Promise<Response>;
+}
+
+/**
+ * Talks to the live indexer and fullnode over HTTP
+ */
+export class HttpIndexerTransport implements IndexerTransport {
+  constructor(private config: Pick<ApiConfig, "APTOS_INDEXER_URL" | "APTOS_NODE_URL" | "APTOS_API_KEY">) {}
+
+  async graphql(query: string, variables: Record<string, unknown> = {}): Promise<Response> {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.config.APTOS_API_KEY) {
+      headers.Authorization = `Bearer ${this.config.APTOS_API_KEY}`;
+    }
+
+    const operation = operationName(query);
+    graphqlRequests.inc({ operation });
+    let response: Response;
+    try {
+      response = await fetch(this.config.APTOS_INDEXER_URL, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ query, variables }),
+      });
+    } catch (error) {
+      graphqlErrors.inc({ operation, kind: "network" });
+      throw error;
+    }
+
+    if (!response.ok) {
+      graphqlErrors.inc({ operation, kind: "http" });
+    } else {
+      // Read a copy for the metrics; the caller reads the response itself
+      const body = await response
+        .clone()
+        .json()
+        .catch(() => null);
+      if (!body || body.errors) graphqlErrors.inc({ operation, kind: "graphql" });
+    }
+    return response;
+  }
+
+  rest(path: string): Promise<Response> {
+    return fetch(`${this.config.APTOS_NODE_URL}${path}`);
+  }
+}
+
+type FixtureRequest =
+  | { kind: "graphql"; query: string; variables: Record<string, unknown> }
+  | { kind: "rest"; path: string };
+
+/**
+ * One recorded request and its response, stored as a JSON file
+ */
+export interface IndexerFixture {
+  request: FixtureRequest;
+  response: { status: number; body: unknown };
+}
+
+/**
+ * Replay found no fixture for a request. The message says which request, so
+ * it can be recorded with INDEXER_TRANSPORT=record.
+ */
+export class FixtureNotFoundError extends Error {
+  constructor(
+    public readonly request: FixtureRequest,
+    public readonly file: string
+  ) {
+    super(`No indexer fixture for ${describeRequest(request)} (expected ${file})`);
+    this.name = "FixtureNotFoundError";
+  }
+}
+
+function describeRequest(request: FixtureRequest): string {
+  return request.kind === "rest"
+    ? `GET ${request.path}`
+    : `${operationName(request.query)} ${JSON.stringify(request.variables)}`;
+}
+
+function operationName(query: string): string {
+  return /(?:query|mutation)\s+(\w+)/.exec(query)?.[1] ?? "AnonymousQuery";
+}
+
+/**
+ * JSON with object keys sorted, so equal requests always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value).sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * File name for a request: readable prefix plus a hash of the request, with
+ * the query's whitespace collapsed so re-indenting it doesn't orphan fixtures
+ */
+export function fixtureFileName(request: FixtureRequest): string {
+  const normalized =
+    request.kind === "rest" ? request : { ...request, query: request.query.replace(/\s+/g, " ").trim() };
+  const hash = createHash("sha256").update(stableStringify(normalized)).digest("hex").slice(0, 12);
+  const prefix =
+    request.kind === "rest"
+      ? `rest${request.path.replace(/[^a-zA-Z0-9]+/g, "-").slice(0, 48).replace(/-$/, "")}`
+      : operationName(request.query);
+  return `${prefix}-${hash}.json`;
+}
+
+/**
+ * Serves indexer responses from JSON fixture files, one per request. In
+ * record mode every request goes to `upstream` and its response is saved
+ * (overwriting an older recording), so a test run against the live network
+ * refreshes the fixtures.
+ */
+export class FixtureIndexerTransport implements IndexerTransport {
+  constructor(
+    private dir: string,
+    private upstream: IndexerTransport | null = null
+  ) {}
+
+  graphql(query: string, variables: Record<string, unknown> = {}): Promise<Response> {
+    return this.handle({ kind: "graphql", query, variables }, (upstream) => upstream.graphql(query, variables));
+  }
+
+  rest(path: string): Promise<Response> {
+    return this.handle({ kind: "rest", path }, (upstream) => upstream.rest(path));
+  }
+
+  private async handle(
+    request: FixtureRequest,
+    send: (upstream: IndexerTransport) => Promise<Response>
+  ): Promise<Response> {
+    const file = path.join(this.dir, fixtureFileName(request));
+
+    if (this.upstream) {
+      const response = await send(this.upstream);
+      const text = await response.text();
+      let body: unknown = text;
+      try {
+        const parsed: unknown = JSON.parse(text);
+        // A JSON string body is kept as the raw text, which replays byte for byte
+        if (typeof parsed !== "string") body = parsed;
+      } catch {
+        // Not JSON, stored as text
+      }
+      const fixture: IndexerFixture = { request, response: { status: response.status, body } };
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.writeFile(file, `${JSON.stringify(fixture, null, 2)}\n`);
+      logger.debug({ file }, "Recorded indexer fixture");
+      return new Response(text, { status: response.status, headers: response.headers });
+    }
+
+    let fixture: IndexerFixture;
+    try {
+      fixture = JSON.parse(await fs.promises.readFile(file, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new FixtureNotFoundError(request, file);
+      }
+      throw error;
+    }
+
+    const { status, body } = fixture.response;
+    return typeof body === "string"
+      ? new Response(body, { status })
+      : Response.json(body, { status });
+  }
+}
+
+/**
+ * The transport selected by INDEXER_TRANSPORT: "http" (default) talks to the
+ * network, "replay" serves fixtures from INDEXER_FIXTURES_DIR without any
+ * network access, and "record" does both, saving what the network returned.
+ */
+export function createIndexerTransport(config: ApiConfig): IndexerTransport {
+  const http = new HttpIndexerTransport(config);
+  switch (config.INDEXER_TRANSPORT) {
+    case "replay":
+      logger.info({ dir: config.INDEXER_FIXTURES_DIR }, "Replaying indexer responses from fixtures");
+      return new FixtureIndexerTransport(config.INDEXER_FIXTURES_DIR);
+    case "record":
+      logger.info({ dir: config.INDEXER_FIXTURES_DIR }, "Recording indexer responses as fixtures");
+      return new FixtureIndexerTransport(config.INDEXER_FIXTURES_DIR, http);
+    default:
+      return http;
+  }
+}
@@ -0,0 +1,291 @@
+import { EventEmitter } from "node:events";
+import type { Request, Response } from "express";
+import { logger } from "./logger";
+import {
+  getActivitiesAfter,
+  getBlobEventsAfter,
+  getLastBlobSyncedVersion,
+  getLastSyncedVersion,
+  type ActivityRecord,
+  type BlobEventRecord,
+} from "./db";
+
+export const LIVE_TOPICS = ["blobs", "activities"] as const;
+export type LiveTopic = (typeof LIVE_TOPICS)[number];
+
+// Missed events a resuming client is sent per topic; past that it gets a reset instead
+export const MAX_REPLAY_EVENTS = 1000;
+// Comment lines sent to idle connections so proxies don't close them
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+// How long a browser waits before reconnecting a dropped stream
+const RECONNECT_DELAY_MS = 5000;
+// Open streams allowed unless the caller sets its own limit
+export const DEFAULT_MAX_LIVE_STREAMS = 1000;
+
+/**
+ * A newly synced blob registration
+ */
+export interface LiveBlob {
+  version: string;
+  eventIndex: number;
+  blobId: string;
+  owner: string;
+  name: string;
+  sizeBytes: number;
+  encoding: string | null;
+  createdAt: number | null;
+  expiresAt: number | null;
+}
+
+/**
+ * A newly synced ShelbyUSD activity
+ */
+export interface LiveActivity {
+  version: string;
+  eventIndex: number;
+  address: string;
+  type: ActivityRecord["type"];
+  amount: number;
+  timestamp: number;
+}
+
+/**
+ * The last event a client has seen on a topic. A transaction can emit several
+ * events, so the event index is part of it; without one (a bare version from
+ * `since`, or the newest synced version) every event of the version is seen.
+ */
+export interface LivePosition {
+  version: number;
+  eventIndex: number;
+}
+
+/**
+ * The last event a client has seen on each topic. It is sent as each event's
+ * id, so a reconnecting browser resumes where it left off.
+ */
+export type LiveCursor = Record<LiveTopic, LivePosition>;
+
+type LiveEvent =
+  | ({ topic: "blobs"; data: LiveBlob } & LivePosition)
+  | ({ topic: "activities"; data: LiveActivity } & LivePosition);
+
+// Stands for "every event of the version"
+const ALL_EVENTS = Number.MAX_SAFE_INTEGER;
+
+const bus = new EventEmitter();
+// One listener per open stream
+bus.setMaxListeners(0);
+
+/**
+ * A stored blob registration as the stream sends it
+ */
+export function toLiveBlob(record: BlobEventRecord): LiveBlob {
+  return {
+    version: String(record.transaction_version),
+    eventIndex: record.event_index,
+    blobId: record.blob_id,
+    owner: record.owner_address,
+    name: record.blob_id.split("/").pop() || record.blob_id,
+    sizeBytes: record.size_bytes,
+    encoding: record.encoding,
+    createdAt: record.creation_timestamp,
+    expiresAt: record.expiration_timestamp,
+  };
+}
+
+/**
+ * A stored ShelbyUSD activity as the stream sends it
+ */
+export function toLiveActivity(record: ActivityRecord): LiveActivity {
+  return {
+    version: String(record.transaction_version),
+    eventIndex: record.event_index,
+    address: record.address,
+    type: record.type,
+    amount: record.amount,
+    timestamp: record.timestamp,
+  };
+}
+
+function toBlobEvent(record: BlobEventRecord): LiveEvent {
+  return {
+    topic: "blobs",
+    version: record.transaction_version,
+    eventIndex: record.event_index,
+    data: toLiveBlob(record),
+  };
+}
+
+function toActivityEvent(record: ActivityRecord): LiveEvent {
+  return {
+    topic: "activities",
+    version: record.transaction_version,
+    eventIndex: record.event_index,
+    data: toLiveActivity(record),
+  };
+}
+
+function comparePositions(a: LivePosition, b: LivePosition): number {
+  return a.version - b.version || a.eventIndex - b.eventIndex;
+}
+
+function maxPosition(a: LivePosition, b: LivePosition): LivePosition {
+  return comparePositions(a, b) >= 0 ? a : b;
+}
+
+function minPosition(a: LivePosition, b: LivePosition): LivePosition {
+  return comparePositions(a, b) <= 0 ? a : b;
+}
+
+/**
+ * Send newly synced blob registrations to the open streams. Call it right
+ * after they're stored, so a stream opening in between doesn't miss them.
+ */
+export function publishBlobEvents(records: BlobEventRecord[]): void {
+  if (records.length > 0) bus.emit("events", records.map(toBlobEvent));
+}
+
+/**
+ * Send newly synced ShelbyUSD activities to the open streams
+ */
+export function publishActivities(records: ActivityRecord[]): void {
+  if (records.length > 0) bus.emit("events", records.map(toActivityEvent));
+}
+
+export function getLiveStreamCount(): number {
+  return bus.listenerCount("events");
+}
+
+/**
+ * Read a `topics` query value: a comma-separated list, or all topics when absent.
+ * Returns null if it names an unknown topic.
+ */
+export function parseLiveTopics(value: unknown): LiveTopic[] | null {
+  if (value === undefined || value === "") return [...LIVE_TOPICS];
+  if (typeof value !== "string") return null;
+  const topics = value.split(",").map((topic) => topic.trim());
+  if (!topics.every((topic) => (LIVE_TOPICS as readonly string[]).includes(topic))) return null;
+  return LIVE_TOPICS.filter((topic) => topics.includes(topic));
+}
+
+/**
+ * Read where a client resumes from: an event id (`<blob position>:<activity
+ * position>`, each `<version>.<event index>` or a bare version) or a single
+ * position for every topic
+ */
+export function parseLiveCursor(value: string): LiveCursor | null {
+  const parts = value.split(":");
+  if (parts.length > LIVE_TOPICS.length || !parts.every((part) => /^\d+(\.\d+)?$/.test(part))) return null;
+  const [blobs, activities = blobs] = parts.map((part): LivePosition => {
+    const [version, eventIndex] = part.split(".");
+    return { version: Number(version), eventIndex: eventIndex === undefined ? ALL_EVENTS : Number(eventIndex) };
+  });
+  return { blobs, activities };
+}
+
+function formatLiveCursor(cursor: LiveCursor): string {
+  return LIVE_TOPICS.map((topic) => {
+    const { version, eventIndex } = cursor[topic];
+    return eventIndex === ALL_EVENTS ? String(version) : `${version}.${eventIndex}`;
+  }).join(":");
+}
+
+/**
+ * Stored events after the cursor on each topic, oldest first. A topic with
+ * more than MAX_REPLAY_EVENTS missed is left out and listed in `reset`.
+ */
+function getMissedEvents(
+  cursor: LiveCursor,
+  topics: LiveTopic[]
+): { events: LiveEvent[]; reset: LiveTopic[] } {
+  const events: LiveEvent[] = [];
+  const reset: LiveTopic[] = [];
+  const missed: Record<LiveTopic, () => LiveEvent[]> = {
+    blobs: () =>
+      getBlobEventsAfter(cursor.blobs.version, MAX_REPLAY_EVENTS + 1, cursor.blobs.eventIndex).map(toBlobEvent),
+    activities: () =>
+      getActivitiesAfter(cursor.activities.version, MAX_REPLAY_EVENTS + 1, cursor.activities.eventIndex).map(
+        toActivityEvent
+      ),
+  };
+
+  for (const topic of topics) {
+    const topicEvents = missed[topic]();
+    if (topicEvents.length > MAX_REPLAY_EVENTS) {
+      reset.push(topic);
+    } else {
+      events.push(...topicEvents);
+    }
+  }
+
+  events.sort(comparePositions);
+  return { events, reset };
+}
+
+/**
+ * Answer a request with a Server-Sent Events stream of the topics' newly
+ * synced events, until the client disconnects.
+ *
+ * Each event is named after its topic, with the event as JSON data and the
+ * client's cursor as id. With `since`, the stored events after it are sent
+ * first. A topic that missed too many is sent a `reset` event instead and
+ * continues from the newest stored version; the client should reload it over
+ * the REST endpoints. With `maxStreams` streams already open it answers 503
+ * instead.
+ */
+export function streamLiveEvents(
+  req: Request,
+  res: Response,
+  topics: LiveTopic[],
+  since: LiveCursor | null,
+  maxStreams: number = DEFAULT_MAX_LIVE_STREAMS
+): void {
+  if (getLiveStreamCount() >= maxStreams) {
+    res.setHeader("Retry-After", String(RECONNECT_DELAY_MS / 1000));
+    res.status(503).json({ error: "Too many live streams open", limit: maxStreams });
+    return;
+  }
+
+  const latest: LiveCursor = {
+    blobs: { version: getLastBlobSyncedVersion(), eventIndex: ALL_EVENTS },
+    activities: { version: getLastSyncedVersion(), eventIndex: ALL_EVENTS },
+  };
+  const cursor: LiveCursor = { ...latest };
+  const replay = since ? getMissedEvents(since, topics) : { events: [], reset: [] };
+  for (const topic of topics) {
+    if (since && !replay.reset.includes(topic)) cursor[topic] = minPosition(since[topic], latest[topic]);
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+  const send = (events: LiveEvent[]) => {
+    // An event already sent from the database may be published again
+    const seen = { ...cursor };
+    for (const event of events) {
+      if (!topics.includes(event.topic) || comparePositions(event, seen[event.topic]) <= 0) continue;
+      cursor[event.topic] = maxPosition(cursor[event.topic], { version: event.version, eventIndex: event.eventIndex });
+      res.write(`id: ${formatLiveCursor(cursor)}\nevent: ${event.topic}\ndata: ${JSON.stringify(event.data)}\n\n`);
+    }
+  };
+
+  if (replay.reset.length > 0) {
+    res.write(`id: ${formatLiveCursor(cursor)}\nevent: reset\ndata: ${JSON.stringify({ topics: replay.reset })}\n\n`);
+  }
+  send(replay.events);
+
+  const heartbeat = setInterval(() => res.write(": keepalive\n\n"), HEARTBEAT_INTERVAL_MS);
+  bus.on("events", send);
+  logger.debug({ topics, since, streams: getLiveStreamCount() }, "Live stream opened");
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    bus.off("events", send);
+    logger.debug({ streams: getLiveStreamCount() }, "Live stream closed");
+  });
+}
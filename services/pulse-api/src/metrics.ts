@@ -0,0 +1,125 @@
+import type { Request, RequestHandler, Response } from "express";
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from "prom-client";
+import { logger } from "./logger";
+
+/**
+ * Everything served on GET /metrics. Counters and histograms are updated as
+ * things happen; the database gauges in db-metrics.ts are read when
+ * Prometheus scrapes. This module doesn't import the database, so the
+ * indexer transport can count its queries here.
+ */
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry, prefix: "pulse_" });
+
+const httpRequestDuration = new Histogram({
+  name: "pulse_http_request_duration_seconds",
+  help: "HTTP request latency by route pattern",
+  labelNames: ["method", "route", "status"] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10],
+  registers: [metricsRegistry],
+});
+
+export const cacheLookups = new Counter({
+  name: "pulse_cache_lookups_total",
+  help: "DataService cache lookups, by whether the key was cached",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+export const coalescedRequests = new Counter({
+  name: "pulse_coalesced_requests_total",
+  help: "Coalesced fetches, by whether they started a fetch or shared one already in flight",
+  labelNames: ["result"] as const,
+  registers: [metricsRegistry],
+});
+
+const syncStepDuration = new Histogram({
+  name: "pulse_sync_step_duration_seconds",
+  help: "Duration of each step of the background sync",
+  labelNames: ["step"] as const,
+  buckets: [0.05, 0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+const syncStepFailures = new Counter({
+  name: "pulse_sync_step_failures_total",
+  help: "Background sync steps that threw",
+  labelNames: ["step"] as const,
+  registers: [metricsRegistry],
+});
+
+export const syncLag = new Gauge({
+  name: "pulse_sync_lag_versions",
+  help: "Indexer head minus the newest synced event's version, as of the last sync",
+  labelNames: ["stream"] as const,
+  registers: [metricsRegistry],
+});
+
+export const graphqlRequests = new Counter({
+  name: "pulse_graphql_requests_total",
+  help: "GraphQL queries sent to the indexer, by operation",
+  labelNames: ["operation"] as const,
+  registers: [metricsRegistry],
+});
+
+export const graphqlErrors = new Counter({
+  name: "pulse_graphql_errors_total",
+  help: "Failed indexer GraphQL queries: errors in the response, a non-2xx status or no response at all",
+  labelNames: ["operation", "kind"] as const,
+  registers: [metricsRegistry],
+});
+
+export const shelbyUsdSupply = new Gauge({
+  name: "pulse_shelbyusd_supply",
+  help: "ShelbyUSD in circulation in on-chain units, as of the last economy refresh",
+  registers: [metricsRegistry],
+});
+
+export const shelbyUsdHolders = new Gauge({
+  name: "pulse_shelbyusd_holders",
+  help: "Addresses holding ShelbyUSD, as of the last economy refresh",
+  registers: [metricsRegistry],
+});
+
+/**
+ * Time every request, labelled by the route pattern it matched (e.g.
+ * `/api/address/:address`) so addresses and ids don't each get a series
+ */
+export const metricsMiddleware: RequestHandler = (req, res, next) => {
+  const endTimer = httpRequestDuration.startTimer();
+  res.on("finish", () => {
+    const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+    endTimer({ method: req.method, route, status: String(res.statusCode) });
+  });
+  next();
+};
+
+/**
+ * GET /metrics in the Prometheus text format
+ */
+export async function metricsHandler(_req: Request, res: Response): Promise<void> {
+  try {
+    const metrics = await metricsRegistry.metrics();
+    res.type(metricsRegistry.contentType).send(metrics);
+  } catch (error) {
+    logger.error({ error }, "Failed to collect metrics");
+    res.status(500).type("text/plain").send("Failed to collect metrics\n");
+  }
+}
+
+/**
+ * Run one step of the background sync, recording how long it took and
+ * whether it threw. Errors are rethrown for the caller to handle.
+ */
+export async function observeSyncStep<T>(step: string, run: () => T | Promise<T>): Promise<T> {
+  const endTimer = syncStepDuration.startTimer({ step });
+  try {
+    return await run();
+  } catch (error) {
+    syncStepFailures.inc({ step });
+    throw error;
+  } finally {
+    endTimer();
+  }
+}
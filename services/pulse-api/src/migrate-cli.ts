@@ -0,0 +1,86 @@
+/**
+ * Schema migrations CLI
+ *
+ * Usage:
+ *   npm run migrate -- list [--db <file>]
+ *   npm run migrate -- up [--db <file>] [--to <version>]
+ *   npm run migrate -- down [--db <file>] [--to <version>]
+ *
+ * `down` without --to rolls back the newest migration only. The database
+ * defaults to the one the server uses ($DATA_DIR/shelby-pulse.db).
+ */
+
+import Database from "better-sqlite3";
+import fs from "node:fs";
+import { parseArgs } from "node:util";
+import { DEFAULT_DB_PATH } from "./db";
+import { getMigrationStates, MigrationError, rollbackMigrations, runMigrations } from "./migrate";
+import { MIGRATIONS } from "./migrations";
+
+const USAGE = "Usage: migrate <list|up|down> [--db <file>] [--to <version>]";
+
+function formatTime(ms: number | null): string {
+  return ms === null ? "-" : new Date(ms).toISOString();
+}
+
+function listMigrations(db: Database.Database): void {
+  const states = getMigrationStates(db, MIGRATIONS);
+  console.log(`${"VERSION".padEnd(8)} ${"STATUS".padEnd(8)} ${"APPLIED AT".padEnd(24)} NAME`);
+  for (const state of states) {
+    const known = MIGRATIONS.some((m) => m.version === state.version);
+    console.log(
+      `${String(state.version).padEnd(8)} ${state.status.padEnd(8)} ${formatTime(state.applied_at).padEnd(24)} ${state.name}${known ? "" : " (unknown to this build)"}`
+    );
+  }
+}
+
+function main(): void {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      db: { type: "string", default: DEFAULT_DB_PATH },
+      to: { type: "string" },
+    },
+  });
+
+  const [command] = positionals;
+  if (!command || !["list", "up", "down"].includes(command) || positionals.length > 1) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const targetVersion = values.to === undefined ? undefined : Number(values.to);
+  if (targetVersion !== undefined && !Number.isInteger(targetVersion)) {
+    console.error(`Invalid --to version: ${values.to}`);
+    process.exit(2);
+  }
+
+  const dbPath = values.db;
+  if (command !== "up" && !fs.existsSync(dbPath)) {
+    console.error(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new Database(dbPath);
+  try {
+    if (command === "list") {
+      listMigrations(db);
+    } else if (command === "up") {
+      const applied = runMigrations(db, MIGRATIONS, targetVersion);
+      console.log(applied.length > 0 ? `Applied ${applied.map((m) => m.version).join(", ")}` : "Nothing to apply");
+    } else {
+      const rolledBack = rollbackMigrations(db, MIGRATIONS, targetVersion);
+      console.log(
+        rolledBack.length > 0 ? `Rolled back ${rolledBack.map((m) => m.version).join(", ")}` : "Nothing to roll back"
+      );
+    }
+  } catch (error) {
+    if (!(error instanceof MigrationError)) throw error;
+    console.error(error.message);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+main();
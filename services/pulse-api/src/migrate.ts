@@ -0,0 +1,216 @@
+import type Database from 'better-sqlite3';
+import { logger } from './logger';
+
+/**
+ * A numbered schema change. Versions are applied in ascending order and each
+ * runs in its own transaction together with its schema_migrations bookkeeping.
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  /**
+   * Set to false for steps that can't share one transaction (e.g. backfills
+   * that commit in batches). If such a migration fails part way, the server
+   * refuses to start until it has been rolled back.
+   */
+  transactional?: boolean;
+  up(db: Database.Database): void;
+  down(db: Database.Database): void;
+}
+
+export type MigrationStatus = 'pending' | 'started' | 'applied';
+
+export interface MigrationState {
+  version: number;
+  name: string;
+  status: MigrationStatus;
+  started_at: number | null;
+  applied_at: number | null;
+}
+
+/**
+ * The database can't be brought to (or back from) the expected schema
+ */
+export class MigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MigrationError';
+  }
+}
+
+interface MigrationRow {
+  version: number;
+  name: string;
+  status: 'started' | 'applied';
+  started_at: number;
+  applied_at: number | null;
+}
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      status TEXT NOT NULL CHECK(status IN ('started', 'applied')),
+      started_at INTEGER NOT NULL,
+      applied_at INTEGER
+    )
+  `);
+}
+
+function getMigrationRows(db: Database.Database): MigrationRow[] {
+  return db.prepare('SELECT * FROM schema_migrations ORDER BY version').all() as MigrationRow[];
+}
+
+function checkMigrationList(migrations: Migration[]): void {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new MigrationError(
+        `Migrations must be in ascending version order (${migration.version} after ${migrations[i - 1].version})`
+      );
+    }
+  });
+}
+
+/**
+ * Every known migration with its recorded state, plus any recorded versions
+ * this build doesn't know about
+ */
+export function getMigrationStates(db: Database.Database, migrations: Migration[]): MigrationState[] {
+  ensureMigrationsTable(db);
+  const rows = new Map(getMigrationRows(db).map((row) => [row.version, row]));
+
+  const states: MigrationState[] = migrations.map((migration) => {
+    const row = rows.get(migration.version);
+    rows.delete(migration.version);
+    return {
+      version: migration.version,
+      name: migration.name,
+      status: row?.status ?? 'pending',
+      started_at: row?.started_at ?? null,
+      applied_at: row?.applied_at ?? null,
+    };
+  });
+  for (const row of rows.values()) {
+    states.push({ ...row });
+  }
+  return states.sort((a, b) => a.version - b.version);
+}
+
+/**
+ * Refuse to touch a database left mid-migration or migrated by a newer build
+ */
+function assertMigratable(db: Database.Database, migrations: Migration[]): void {
+  const known = new Set(migrations.map((m) => m.version));
+  for (const row of getMigrationRows(db)) {
+    if (row.status === 'started') {
+      throw new MigrationError(
+        `Migration ${row.version} (${row.name}) was started but never finished. ` +
+          'Check the database, then roll it back with the migrate CLI before starting the server.'
+      );
+    }
+    if (!known.has(row.version)) {
+      throw new MigrationError(
+        `Database has migration ${row.version} (${row.name}) applied, which this build doesn't know about`
+      );
+    }
+  }
+}
+
+/**
+ * Apply pending migrations in order, up to and including `targetVersion`.
+ * The "started" row is committed before each migration runs, so a crash or a
+ * failed non-transactional migration is caught on the next boot.
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[],
+  targetVersion: number = Number.POSITIVE_INFINITY
+): Migration[] {
+  checkMigrationList(migrations);
+  ensureMigrationsTable(db);
+  assertMigratable(db, migrations);
+
+  const applied = new Set(getMigrationRows(db).map((row) => row.version));
+  const pending = migrations.filter((m) => !applied.has(m.version) && m.version <= targetVersion);
+
+  for (const migration of pending) {
+    db.prepare(`
+      INSERT INTO schema_migrations (version, name, status, started_at) VALUES (?, ?, 'started', ?)
+    `).run(migration.version, migration.name, Date.now());
+
+    const startedAt = Date.now();
+    const apply = () => {
+      migration.up(db);
+      db.prepare(`
+        UPDATE schema_migrations SET status = 'applied', applied_at = ? WHERE version = ?
+      `).run(Date.now(), migration.version);
+    };
+
+    if (migration.transactional === false) {
+      apply();
+    } else {
+      try {
+        db.transaction(apply)();
+      } catch (error) {
+        // Rolled back as a whole, so the database is as it was before
+        db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+        throw error;
+      }
+    }
+    logger.info(
+      { version: migration.version, migration: migration.name, durationMs: Date.now() - startedAt },
+      'Applied migration'
+    );
+  }
+
+  return pending;
+}
+
+/**
+ * Roll back the newest migrations until only versions up to `targetVersion`
+ * remain (default: just the newest one). A migration left "started" is rolled
+ * back too, so its down() must cope with a partially applied up().
+ */
+export function rollbackMigrations(
+  db: Database.Database,
+  migrations: Migration[],
+  targetVersion?: number
+): Migration[] {
+  checkMigrationList(migrations);
+  ensureMigrationsTable(db);
+  const byVersion = new Map(migrations.map((m) => [m.version, m]));
+  const recorded = getMigrationRows(db).reverse();
+  const toRollBack =
+    targetVersion === undefined ? recorded.slice(0, 1) : recorded.filter((row) => row.version > targetVersion);
+
+  const rolledBack: Migration[] = [];
+  for (const row of toRollBack) {
+    const migration = byVersion.get(row.version);
+    if (!migration) {
+      throw new MigrationError(
+        `Can't roll back migration ${row.version} (${row.name}): this build doesn't know about it`
+      );
+    }
+
+    db.transaction(() => {
+      migration.down(db);
+      db.prepare('DELETE FROM schema_migrations WHERE version = ?').run(migration.version);
+    })();
+    logger.info({ version: migration.version, migration: migration.name }, 'Rolled back migration');
+    rolledBack.push(migration);
+  }
+
+  return rolledBack;
+}
+
+/**
+ * Add a column to a table created by an older version of the schema
+ */
+export function ensureColumn(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.pragma(`table_info(${table})`) as Array<{ name: string }>;
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    logger.info({ table, column }, 'Added missing column');
+  }
+}
@@ -0,0 +1,250 @@
+import type Database from 'better-sqlite3';
+import { ensureColumn, type Migration } from '../migrate';
+
+/**
+ * The schema as it stood when migrations were introduced. Everything is
+ * "IF NOT EXISTS" (and columns added later are ensured) so databases created
+ * before schema_migrations existed adopt it without losing data.
+ */
+export const initialSchema: Migration = {
+  version: 1,
+  name: 'initial_schema',
+
+  up(db: Database.Database): void {
+    // Raw activities table - stores all ShelbyUSD activities for future queries
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS shelbyusd_activities (
+        transaction_version INTEGER PRIMARY KEY,
+        event_index INTEGER DEFAULT 0,
+        address TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('deposit', 'withdraw', 'mint', 'burn')),
+        timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+      )
+    `);
+
+    // Indexes for common query patterns
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_activities_address ON shelbyusd_activities(address);
+      CREATE INDEX IF NOT EXISTS idx_activities_type ON shelbyusd_activities(type);
+      CREATE INDEX IF NOT EXISTS idx_activities_version_desc ON shelbyusd_activities(transaction_version DESC);
+    `);
+
+    // Address stats - pre-computed aggregates per address
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS address_stats (
+        address TEXT PRIMARY KEY,
+        tx_count INTEGER DEFAULT 0,
+        total_deposited INTEGER DEFAULT 0,
+        total_withdrawn INTEGER DEFAULT 0,
+        total_minted INTEGER DEFAULT 0,
+        total_burned INTEGER DEFAULT 0,
+        last_version INTEGER DEFAULT 0,
+        updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+      )
+    `);
+
+    // Leaderboard cache - stores pre-computed leaderboard JSON
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS leaderboard_cache (
+        type TEXT PRIMARY KEY,
+        data TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+      )
+    `);
+
+    // Sync state - tracks incremental sync progress
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_state (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000)
+      )
+    `);
+
+    // Continuous farming jobs - persistent farming sessions
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS farming_jobs (
+        id TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('active', 'paused', 'stopped', 'completed')),
+        started_at INTEGER NOT NULL,
+        stopped_at INTEGER,
+        total_minted INTEGER DEFAULT 0,
+        waves_completed INTEGER DEFAULT 0,
+        droplets_created INTEGER DEFAULT 0,
+        droplets_failed INTEGER DEFAULT 0,
+        last_wave_at INTEGER,
+        config TEXT NOT NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_farming_jobs_status ON farming_jobs(status);
+      CREATE INDEX IF NOT EXISTS idx_farming_jobs_wallet ON farming_jobs(wallet_address);
+    `);
+
+    // Farming waves - track each deployment wave
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS farming_waves (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        job_id TEXT NOT NULL,
+        wave_number INTEGER NOT NULL,
+        started_at INTEGER NOT NULL,
+        completed_at INTEGER,
+        regions TEXT NOT NULL,
+        droplets_per_region INTEGER NOT NULL,
+        total_droplets INTEGER NOT NULL,
+        droplets_succeeded INTEGER DEFAULT 0,
+        droplets_failed INTEGER DEFAULT 0,
+        estimated_minted INTEGER DEFAULT 0,
+        FOREIGN KEY (job_id) REFERENCES farming_jobs(id)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_farming_waves_job ON farming_waves(job_id);
+    `);
+
+    // Blob events table - stores all blob registered events for accurate counts
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS blob_events (
+        transaction_version INTEGER NOT NULL,
+        event_index INTEGER NOT NULL DEFAULT 0,
+        blob_id TEXT NOT NULL,
+        owner_address TEXT NOT NULL,
+        size_bytes INTEGER NOT NULL DEFAULT 0,
+        encoding TEXT,
+        blob_name TEXT,
+        creation_timestamp INTEGER,
+        expiration_timestamp INTEGER,
+        PRIMARY KEY (transaction_version, event_index)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_blob_events_owner ON blob_events(owner_address);
+      CREATE INDEX IF NOT EXISTS idx_blob_events_version_desc ON blob_events(transaction_version DESC);
+      CREATE INDEX IF NOT EXISTS idx_blob_events_creation ON blob_events(creation_timestamp DESC);
+    `);
+
+    // Shelby Share folder sessions - shareable links grouping uploaded files
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS share_sessions (
+        id TEXT PRIMARY KEY,
+        title TEXT,
+        manage_token TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      )
+    `);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS share_session_files (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        session_id TEXT NOT NULL,
+        blob_name TEXT NOT NULL,
+        original_name TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        viewer_url TEXT NOT NULL,
+        owner_address TEXT NOT NULL,
+        uploaded_at INTEGER NOT NULL,
+        relative_path TEXT,
+        content_hash TEXT,
+        content_type TEXT,
+        thumbnail_url TEXT,
+        FOREIGN KEY (session_id) REFERENCES share_sessions(id)
+      )
+    `);
+
+    // Folder uploads keep each file's path within the folder
+    ensureColumn(db, 'share_session_files', 'relative_path', 'TEXT');
+    ensureColumn(db, 'share_session_files', 'content_hash', 'TEXT');
+    ensureColumn(db, 'share_session_files', 'content_type', 'TEXT');
+    ensureColumn(db, 'share_session_files', 'thumbnail_url', 'TEXT');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_share_session_files_session ON share_session_files(session_id);
+    `);
+
+    // Shelby Share upload jobs - server-side progress for each uploaded file
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS share_upload_jobs (
+        id TEXT PRIMARY KEY,
+        status TEXT NOT NULL CHECK(status IN ('received', 'queued', 'encoding', 'registering', 'uploading', 'done', 'failed')),
+        file_name TEXT NOT NULL,
+        session_id TEXT,
+        bytes_processed INTEGER NOT NULL DEFAULT 0,
+        total_bytes INTEGER NOT NULL DEFAULT 0,
+        result TEXT,
+        error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_share_upload_jobs_status ON share_upload_jobs(status);
+    `);
+
+    // Shelby Share blobs by content hash - lets identical uploads reuse the existing blob
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS share_blob_index (
+        owner_address TEXT NOT NULL,
+        blob_name TEXT NOT NULL,
+        content_hash TEXT NOT NULL,
+        content_type TEXT,
+        size INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        viewer_url TEXT NOT NULL,
+        thumbnail_url TEXT,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (owner_address, blob_name)
+      )
+    `);
+
+    // Content type detected from the file's bytes at upload time
+    ensureColumn(db, 'share_blob_index', 'content_type', 'TEXT');
+    // Companion thumbnail blob rendered at upload time (null if the type has none)
+    ensureColumn(db, 'share_blob_index', 'thumbnail_url', 'TEXT');
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_share_blob_index_hash ON share_blob_index(content_hash, owner_address);
+    `);
+
+    // Shelby Share usage per client (IP or wallet) in hourly buckets, for upload quotas
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS share_usage (
+        scope TEXT NOT NULL CHECK(scope IN ('ip', 'wallet')),
+        client_key TEXT NOT NULL,
+        hour_start INTEGER NOT NULL,
+        bytes INTEGER NOT NULL DEFAULT 0,
+        files INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (scope, client_key, hour_start)
+      )
+    `);
+
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_share_usage_hour ON share_usage(hour_start);
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP TABLE IF EXISTS share_usage;
+      DROP TABLE IF EXISTS share_blob_index;
+      DROP TABLE IF EXISTS share_upload_jobs;
+      DROP TABLE IF EXISTS share_session_files;
+      DROP TABLE IF EXISTS share_sessions;
+      DROP TABLE IF EXISTS blob_events;
+      DROP TABLE IF EXISTS farming_waves;
+      DROP TABLE IF EXISTS farming_jobs;
+      DROP TABLE IF EXISTS sync_state;
+      DROP TABLE IF EXISTS leaderboard_cache;
+      DROP TABLE IF EXISTS address_stats;
+      DROP TABLE IF EXISTS shelbyusd_activities;
+    `);
+  },
+};
@@ -0,0 +1,92 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+// Stored versions per backfill range, so a restart only refetches the ranges
+// that hadn't finished
+const BACKFILL_RANGE_ROWS = 5000;
+
+function createActivitiesTable(db: Database.Database, table: string, primaryKey: string): void {
+  db.exec(`
+    CREATE TABLE ${table} (
+      transaction_version INTEGER NOT NULL,
+      event_index INTEGER NOT NULL DEFAULT 0,
+      address TEXT NOT NULL,
+      amount INTEGER NOT NULL,
+      type TEXT NOT NULL CHECK(type IN ('deposit', 'withdraw', 'mint', 'burn')),
+      timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
+      PRIMARY KEY (${primaryKey})
+    )
+  `);
+}
+
+function createActivityIndexes(db: Database.Database): void {
+  db.exec(`
+    CREATE INDEX IF NOT EXISTS idx_activities_address ON shelbyusd_activities(address);
+    CREATE INDEX IF NOT EXISTS idx_activities_type ON shelbyusd_activities(type);
+    CREATE INDEX IF NOT EXISTS idx_activities_version_desc ON shelbyusd_activities(transaction_version DESC);
+  `);
+}
+
+/**
+ * Key activities by (transaction_version, event_index). With the version
+ * alone as the key, every transaction kept only its first event, so a
+ * transfer lost either its withdraw or its deposit.
+ *
+ * The dropped events can only be refetched from the indexer, which can't
+ * happen inside a migration. Instead, the versions already stored are queued
+ * in activity_backfill_ranges and the sync service refetches them (see
+ * backfillActivities).
+ */
+export const activitiesEventKey: Migration = {
+  version: 2,
+  name: 'activities_event_key',
+
+  up(db: Database.Database): void {
+    createActivitiesTable(db, 'shelbyusd_activities_new', 'transaction_version, event_index');
+    db.exec(`
+      INSERT INTO shelbyusd_activities_new
+      SELECT transaction_version, COALESCE(event_index, 0), address, amount, type, timestamp
+      FROM shelbyusd_activities;
+      DROP TABLE shelbyusd_activities;
+      ALTER TABLE shelbyusd_activities_new RENAME TO shelbyusd_activities;
+    `);
+    createActivityIndexes(db);
+
+    // Version ranges to refetch from the indexer. Only versions with a
+    // stored row can be missing events.
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS activity_backfill_ranges (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        from_version INTEGER NOT NULL,
+        to_version INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        completed_at INTEGER
+      )
+    `);
+    db.prepare(`
+      INSERT INTO activity_backfill_ranges (from_version, to_version, created_at)
+      SELECT MIN(transaction_version), MAX(transaction_version), ?
+      FROM (
+        SELECT transaction_version, (ROW_NUMBER() OVER (ORDER BY transaction_version) - 1) / ${BACKFILL_RANGE_ROWS} AS chunk
+        FROM shelbyusd_activities
+      )
+      GROUP BY chunk
+      ORDER BY chunk
+    `).run(Date.now());
+  },
+
+  down(db: Database.Database): void {
+    // Lossy: only the first event of each transaction fits the old key
+    createActivitiesTable(db, 'shelbyusd_activities_old', 'transaction_version');
+    db.exec(`
+      INSERT OR IGNORE INTO shelbyusd_activities_old
+      SELECT transaction_version, event_index, address, amount, type, timestamp
+      FROM shelbyusd_activities
+      ORDER BY transaction_version, event_index;
+      DROP TABLE shelbyusd_activities;
+      ALTER TABLE shelbyusd_activities_old RENAME TO shelbyusd_activities;
+      DROP TABLE IF EXISTS activity_backfill_ranges;
+    `);
+    createActivityIndexes(db);
+  },
+};
@@ -0,0 +1,88 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+// Most rows one checkpoint covers, as CHECKPOINT_MAX_ROWS was when this shipped
+const CHECKPOINT_MAX_ROWS = 1000;
+
+interface CheckpointRange {
+  from_version: number;
+  to_version: number;
+  row_count: number;
+}
+
+/**
+ * Split every stored row (sorted by version) into contiguous checkpoint
+ * ranges of up to CHECKPOINT_MAX_ROWS rows, never splitting a transaction.
+ * A frozen copy of checkpointRanges in sync-checkpoints.ts, so changing that
+ * helper doesn't change what this migration does.
+ */
+function checkpointRanges(records: Array<{ transaction_version: number }>): CheckpointRange[] {
+  const ranges: CheckpointRange[] = [];
+  let current: CheckpointRange | null = null;
+
+  for (const { transaction_version: version } of records) {
+    if (current && current.row_count >= CHECKPOINT_MAX_ROWS && version !== current.to_version) {
+      ranges.push(current);
+      current = null;
+    }
+    if (!current) {
+      const from = ranges.length > 0 ? ranges[ranges.length - 1].to_version + 1 : 0;
+      current = { from_version: from, to_version: version, row_count: 0 };
+    }
+    current.to_version = version;
+    current.row_count++;
+  }
+
+  if (current) ranges.push(current);
+  return ranges;
+}
+
+/**
+ * Record the version ranges each sync covered so the verifier can recount
+ * them against the indexer. Rows synced before checkpoints existed are
+ * checkpointed here, so they get verified too.
+ */
+export const syncCheckpoints: Migration = {
+  version: 3,
+  name: 'sync_checkpoints',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS sync_checkpoints (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        stream TEXT NOT NULL CHECK(stream IN ('activities', 'blob_events')),
+        from_version INTEGER NOT NULL,
+        to_version INTEGER NOT NULL,
+        row_count INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'verified', 'repaired')),
+        indexer_count INTEGER,
+        local_count INTEGER,
+        missing_count INTEGER,
+        extra_count INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        verified_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_sync_checkpoints_status ON sync_checkpoints(status, created_at);
+      CREATE INDEX IF NOT EXISTS idx_sync_checkpoints_stream ON sync_checkpoints(stream, from_version);
+    `);
+
+    const insert = db.prepare(`
+      INSERT INTO sync_checkpoints (stream, from_version, to_version, row_count, created_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    const now = Date.now();
+    for (const [stream, table] of [['activities', 'shelbyusd_activities'], ['blob_events', 'blob_events']]) {
+      const rows = db
+        .prepare(`SELECT transaction_version FROM ${table} ORDER BY transaction_version`)
+        .all() as Array<{ transaction_version: number }>;
+      for (const range of checkpointRanges(rows)) {
+        insert.run(stream, range.from_version, range.to_version, range.row_count, now);
+      }
+    }
+  },
+
+  down(db: Database.Database): void {
+    db.exec('DROP TABLE IF EXISTS sync_checkpoints');
+  },
+};
@@ -0,0 +1,32 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * Hourly and daily rollups of the blob and ShelbyUSD metrics, for
+ * /api/timeseries. The table starts empty; the first rollup after the
+ * migration fills it from the stored events.
+ */
+export const timeseriesBuckets: Migration = {
+  version: 4,
+  name: 'timeseries_buckets',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS timeseries_buckets (
+        metric TEXT NOT NULL,
+        bucket TEXT NOT NULL CHECK(bucket IN ('hour', 'day')),
+        bucket_start INTEGER NOT NULL,
+        value REAL NOT NULL,
+        PRIMARY KEY (metric, bucket, bucket_start)
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS idx_activities_timestamp ON shelbyusd_activities(timestamp);
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_activities_timestamp;
+      DROP TABLE IF EXISTS timeseries_buckets;
+    `);
+  },
+};
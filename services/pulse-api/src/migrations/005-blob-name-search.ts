@@ -0,0 +1,57 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+// A blob's name without the "@owner/" prefix it is registered under
+const bareName = (column: string) =>
+  `CASE WHEN substr(${column}, 1, 1) = '@' AND instr(${column}, '/') > 0
+    THEN substr(${column}, instr(${column}, '/') + 1) ELSE ${column} END`;
+
+/**
+ * Trigram full-text index over blob names for GET /api/blobs, kept in step
+ * with blob_events by triggers and keyed by its rowid. Existing blobs are
+ * indexed here. Also indexes blob sizes for the size sorts.
+ */
+export const blobNameSearch: Migration = {
+  version: 5,
+  name: 'blob_name_search',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE VIRTUAL TABLE IF NOT EXISTS blob_names_fts USING fts5(name, tokenize = 'trigram');
+
+      INSERT INTO blob_names_fts (rowid, name)
+      SELECT rowid, ${bareName('blob_name')} FROM blob_events WHERE blob_name IS NOT NULL;
+
+      CREATE TRIGGER IF NOT EXISTS blob_events_fts_insert AFTER INSERT ON blob_events
+      WHEN new.blob_name IS NOT NULL
+      BEGIN
+        INSERT INTO blob_names_fts (rowid, name) VALUES (new.rowid, ${bareName('new.blob_name')});
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS blob_events_fts_delete AFTER DELETE ON blob_events
+      BEGIN
+        DELETE FROM blob_names_fts WHERE rowid = old.rowid;
+      END;
+
+      CREATE TRIGGER IF NOT EXISTS blob_events_fts_update AFTER UPDATE OF blob_name ON blob_events
+      BEGIN
+        DELETE FROM blob_names_fts WHERE rowid = old.rowid;
+        INSERT INTO blob_names_fts (rowid, name)
+        SELECT new.rowid, ${bareName('new.blob_name')} WHERE new.blob_name IS NOT NULL;
+      END;
+
+      CREATE INDEX IF NOT EXISTS idx_blob_events_size
+        ON blob_events(size_bytes, transaction_version, event_index);
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_blob_events_size;
+      DROP TRIGGER IF EXISTS blob_events_fts_update;
+      DROP TRIGGER IF EXISTS blob_events_fts_delete;
+      DROP TRIGGER IF EXISTS blob_events_fts_insert;
+      DROP TABLE IF EXISTS blob_names_fts;
+    `);
+  },
+};
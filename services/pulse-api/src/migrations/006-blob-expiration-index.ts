@@ -0,0 +1,23 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * Index blob expirations for the live/expired storage split,
+ * /api/blobs/expiring and the storage projection
+ */
+export const blobExpirationIndex: Migration = {
+  version: 6,
+  name: 'blob_expiration_index',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_blob_events_expiration ON blob_events(expiration_timestamp);
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_blob_events_expiration;
+    `);
+  },
+};
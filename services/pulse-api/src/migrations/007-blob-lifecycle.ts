@@ -0,0 +1,98 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+function createSyncCheckpointsTable(db: Database.Database, table: string, streams: string[]): void {
+  db.exec(`
+    CREATE TABLE ${table} (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      stream TEXT NOT NULL CHECK(stream IN (${streams.map((stream) => `'${stream}'`).join(', ')})),
+      from_version INTEGER NOT NULL,
+      to_version INTEGER NOT NULL,
+      row_count INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'verified', 'repaired')),
+      indexer_count INTEGER,
+      local_count INTEGER,
+      missing_count INTEGER,
+      extra_count INTEGER,
+      last_error TEXT,
+      created_at INTEGER NOT NULL,
+      verified_at INTEGER
+    )
+  `);
+}
+
+function replaceSyncCheckpointsTable(db: Database.Database, streams: string[]): void {
+  createSyncCheckpointsTable(db, 'sync_checkpoints_new', streams);
+  db.exec(`
+    INSERT INTO sync_checkpoints_new
+    SELECT * FROM sync_checkpoints
+    WHERE stream IN (${streams.map((stream) => `'${stream}'`).join(', ')});
+    DROP TABLE sync_checkpoints;
+    ALTER TABLE sync_checkpoints_new RENAME TO sync_checkpoints;
+    CREATE INDEX IF NOT EXISTS idx_sync_checkpoints_status ON sync_checkpoints(status, created_at);
+    CREATE INDEX IF NOT EXISTS idx_sync_checkpoints_stream ON sync_checkpoints(stream, from_version);
+  `);
+}
+
+/**
+ * Store the blob events that follow a registration (written, deleted, failed)
+ * in blob_lifecycle, and derive each registration's current status from them
+ * in the blob_states view. A lifecycle event applies to the latest earlier
+ * registration of its blob, so a blob deleted and registered again is live.
+ *
+ * The lifecycle events sync as their own stream, so sync_checkpoints is
+ * rebuilt to accept it.
+ */
+export const blobLifecycle: Migration = {
+  version: 7,
+  name: 'blob_lifecycle',
+
+  up(db: Database.Database): void {
+    replaceSyncCheckpointsTable(db, ['activities', 'blob_events', 'blob_lifecycle']);
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS blob_lifecycle (
+        transaction_version INTEGER NOT NULL,
+        event_index INTEGER NOT NULL,
+        blob_id TEXT NOT NULL,
+        owner_address TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK(kind IN ('written', 'deleted', 'failed')),
+        PRIMARY KEY (transaction_version, event_index)
+      );
+      CREATE INDEX IF NOT EXISTS idx_blob_lifecycle_blob
+        ON blob_lifecycle(blob_id, transaction_version, event_index);
+      CREATE INDEX IF NOT EXISTS idx_blob_events_blob
+        ON blob_events(blob_id, transaction_version, event_index);
+
+      CREATE VIEW IF NOT EXISTS blob_states AS
+      SELECT
+        b.*,
+        COALESCE(l.kind, 'registered') AS status,
+        l.transaction_version AS status_version
+      FROM blob_events b
+      LEFT JOIN blob_lifecycle l ON l.rowid = (
+        SELECT lc.rowid FROM blob_lifecycle lc
+        WHERE lc.blob_id = b.blob_id
+          AND (lc.transaction_version, lc.event_index) > (b.transaction_version, b.event_index)
+          AND NOT EXISTS (
+            SELECT 1 FROM blob_events r
+            WHERE r.blob_id = b.blob_id
+              AND (r.transaction_version, r.event_index) > (b.transaction_version, b.event_index)
+              AND (r.transaction_version, r.event_index) < (lc.transaction_version, lc.event_index)
+          )
+        ORDER BY lc.transaction_version DESC, lc.event_index DESC
+        LIMIT 1
+      );
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP VIEW IF EXISTS blob_states;
+      DROP INDEX IF EXISTS idx_blob_events_blob;
+      DROP TABLE IF EXISTS blob_lifecycle;
+    `);
+    replaceSyncCheckpointsTable(db, ['activities', 'blob_events']);
+  },
+};
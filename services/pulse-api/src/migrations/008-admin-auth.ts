@@ -0,0 +1,46 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * API keys for the admin routes, stored as SHA-256 hashes with a role, and
+ * an audit log of the requests made to those routes.
+ */
+export const adminAuth: Migration = {
+  version: 8,
+  name: 'admin_auth',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        role TEXT NOT NULL CHECK(role IN ('read-only', 'operator', 'admin')),
+        key_hash TEXT NOT NULL UNIQUE,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS admin_audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at INTEGER NOT NULL,
+        key_id TEXT,
+        actor TEXT NOT NULL,
+        method TEXT NOT NULL,
+        route TEXT NOT NULL,
+        params TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        result TEXT NOT NULL CHECK(result IN ('ok', 'failed', 'denied'))
+      );
+      CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at);
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP INDEX IF EXISTS idx_admin_audit_log_created;
+      DROP TABLE IF EXISTS admin_audit_log;
+      DROP TABLE IF EXISTS api_keys;
+    `);
+  },
+};
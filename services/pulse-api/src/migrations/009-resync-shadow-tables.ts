@@ -0,0 +1,45 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * Shadow copies of shelbyusd_activities and address_stats that a full resync
+ * builds into. The live tables keep serving until the rebuilt data has been
+ * verified and copied over in one transaction; between resyncs the shadow
+ * tables are empty.
+ */
+export const resyncShadowTables: Migration = {
+  version: 9,
+  name: 'resync_shadow_tables',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS resync_activities (
+        transaction_version INTEGER NOT NULL,
+        event_index INTEGER NOT NULL DEFAULT 0,
+        address TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('deposit', 'withdraw', 'mint', 'burn')),
+        timestamp INTEGER NOT NULL DEFAULT (strftime('%s', 'now') * 1000),
+        PRIMARY KEY (transaction_version, event_index)
+      );
+
+      CREATE TABLE IF NOT EXISTS resync_address_stats (
+        address TEXT PRIMARY KEY,
+        tx_count INTEGER DEFAULT 0,
+        total_deposited INTEGER DEFAULT 0,
+        total_withdrawn INTEGER DEFAULT 0,
+        total_minted INTEGER DEFAULT 0,
+        total_burned INTEGER DEFAULT 0,
+        last_version INTEGER DEFAULT 0,
+        updated_at INTEGER DEFAULT (strftime('%s', 'now') * 1000)
+      );
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP TABLE IF EXISTS resync_address_stats;
+      DROP TABLE IF EXISTS resync_activities;
+    `);
+  },
+};
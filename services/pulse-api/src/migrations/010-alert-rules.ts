@@ -0,0 +1,65 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * Alert rules evaluated after each sync, the webhook deliveries they queue
+ * and the dead letters left by deliveries that ran out of retries.
+ */
+export const alertRules: Migration = {
+  version: 10,
+  name: 'alert_rules',
+
+  up(db: Database.Database): void {
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS alert_rules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('address_upload', 'large_transfer', 'upload_rate_zero', 'provider_missing')),
+        params TEXT NOT NULL,
+        webhook_url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        enabled INTEGER NOT NULL DEFAULT 1,
+        state TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL,
+        last_triggered_at INTEGER
+      );
+
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        rule_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL CHECK(status IN ('pending', 'delivered')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_status INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        delivered_at INTEGER
+      );
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(status, next_attempt_at);
+
+      CREATE TABLE IF NOT EXISTS webhook_dead_letters (
+        id TEXT PRIMARY KEY,
+        rule_id INTEGER NOT NULL,
+        url TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        attempts INTEGER NOT NULL,
+        last_status INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        failed_at INTEGER NOT NULL
+      );
+    `);
+  },
+
+  down(db: Database.Database): void {
+    db.exec(`
+      DROP TABLE IF EXISTS webhook_dead_letters;
+      DROP INDEX IF EXISTS idx_webhook_deliveries_due;
+      DROP TABLE IF EXISTS webhook_deliveries;
+      DROP TABLE IF EXISTS alert_rules;
+    `);
+  },
+};
@@ -0,0 +1,103 @@
+import type Database from 'better-sqlite3';
+import type { Migration } from '../migrate';
+
+/**
+ * The latest lifecycle event of the given kinds that applies to registration
+ * `b`: after it, and before the next registration of the same blob
+ */
+function latestLifecycleEvent(kinds: string[]): string {
+  return `(
+    SELECT lc.rowid FROM blob_lifecycle lc
+    WHERE lc.blob_id = b.blob_id
+      AND lc.kind IN (${kinds.map((kind) => `'${kind}'`).join(', ')})
+      AND (lc.transaction_version, lc.event_index) > (b.transaction_version, b.event_index)
+      AND NOT EXISTS (
+        SELECT 1 FROM blob_events r
+        WHERE r.blob_id = b.blob_id
+          AND (r.transaction_version, r.event_index) > (b.transaction_version, b.event_index)
+          AND (r.transaction_version, r.event_index) < (lc.transaction_version, lc.event_index)
+      )
+    ORDER BY lc.transaction_version DESC, lc.event_index DESC
+    LIMIT 1
+  )`;
+}
+
+function createBlobLifecycleTable(db: Database.Database, table: string, kinds: string[], withExpiration: boolean): void {
+  db.exec(`
+    CREATE TABLE ${table} (
+      transaction_version INTEGER NOT NULL,
+      event_index INTEGER NOT NULL,
+      blob_id TEXT NOT NULL,
+      owner_address TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      kind TEXT NOT NULL CHECK(kind IN (${kinds.map((kind) => `'${kind}'`).join(', ')})),${
+        withExpiration ? '\n      expiration_timestamp INTEGER,' : ''
+      }
+      PRIMARY KEY (transaction_version, event_index)
+    )
+  `);
+}
+
+function replaceBlobLifecycleTable(db: Database.Database, kinds: string[], withExpiration: boolean): void {
+  const columns = 'transaction_version, event_index, blob_id, owner_address, event_type, kind';
+  createBlobLifecycleTable(db, 'blob_lifecycle_new', kinds, withExpiration);
+  db.exec(`
+    DROP VIEW IF EXISTS blob_states;
+    INSERT INTO blob_lifecycle_new (${columns})
+    SELECT ${columns} FROM blob_lifecycle
+    WHERE kind IN (${kinds.map((kind) => `'${kind}'`).join(', ')});
+    DROP TABLE blob_lifecycle;
+    ALTER TABLE blob_lifecycle_new RENAME TO blob_lifecycle;
+    CREATE INDEX IF NOT EXISTS idx_blob_lifecycle_blob
+      ON blob_lifecycle(blob_id, transaction_version, event_index);
+  `);
+}
+
+/**
+ * Map only the blob events the Shelby contract emits. BlobWriteFailedEvent
+ * and BlobAcknowledgedEvent don't exist, so the `failed` status goes, and
+ * BlobExpirationExtendedEvent is stored with the blob's new expiration.
+ * blob_states takes a registration's status from its latest written or
+ * deleted event and its expiration from its latest extension, if any.
+ */
+export const blobExpirationExtensions: Migration = {
+  version: 11,
+  name: 'blob_expiration_extensions',
+
+  up(db: Database.Database): void {
+    replaceBlobLifecycleTable(db, ['written', 'deleted', 'expiration_extended'], true);
+
+    db.exec(`
+      CREATE VIEW blob_states AS
+      SELECT
+        b.transaction_version,
+        b.event_index,
+        b.blob_id,
+        b.owner_address,
+        b.size_bytes,
+        b.encoding,
+        b.blob_name,
+        b.creation_timestamp,
+        COALESCE(x.expiration_timestamp, b.expiration_timestamp) AS expiration_timestamp,
+        COALESCE(l.kind, 'registered') AS status,
+        l.transaction_version AS status_version
+      FROM blob_events b
+      LEFT JOIN blob_lifecycle l ON l.rowid = ${latestLifecycleEvent(['written', 'deleted'])}
+      LEFT JOIN blob_lifecycle x ON x.rowid = ${latestLifecycleEvent(['expiration_extended'])};
+    `);
+  },
+
+  down(db: Database.Database): void {
+    replaceBlobLifecycleTable(db, ['written', 'deleted', 'failed'], false);
+
+    db.exec(`
+      CREATE VIEW blob_states AS
+      SELECT
+        b.*,
+        COALESCE(l.kind, 'registered') AS status,
+        l.transaction_version AS status_version
+      FROM blob_events b
+      LEFT JOIN blob_lifecycle l ON l.rowid = ${latestLifecycleEvent(['written', 'deleted', 'failed'])};
+    `);
+  },
+};
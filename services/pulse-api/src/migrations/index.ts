@@ -0,0 +1,30 @@
+import type { Migration } from '../migrate';
+import { initialSchema } from './001-initial-schema';
+import { activitiesEventKey } from './002-activities-event-key';
+import { syncCheckpoints } from './003-sync-checkpoints';
+import { timeseriesBuckets } from './004-timeseries-buckets';
+import { blobNameSearch } from './005-blob-name-search';
+import { blobExpirationIndex } from './006-blob-expiration-index';
+import { blobLifecycle } from './007-blob-lifecycle';
+import { adminAuth } from './008-admin-auth';
+import { resyncShadowTables } from './009-resync-shadow-tables';
+import { alertRules } from './010-alert-rules';
+import { blobExpirationExtensions } from './011-blob-expiration-extensions';
+
+/**
+ * Every schema migration, oldest first. Append new ones with the next version
+ * number; never edit or reorder a migration that has shipped.
+ */
+export const MIGRATIONS: Migration[] = [
+  initialSchema,
+  activitiesEventKey,
+  syncCheckpoints,
+  timeseriesBuckets,
+  blobNameSearch,
+  blobExpirationIndex,
+  blobLifecycle,
+  adminAuth,
+  resyncShadowTables,
+  alertRules,
+  blobExpirationExtensions,
+];
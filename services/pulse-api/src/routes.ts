@@ -1,71 +1,389 @@
-import { Router } from "express";
+import { Router, type Request, type RequestHandler } from "express";
 import multer from "multer";
-import fs from "fs";
-import os from "os";
-import path from "path";
-import type { DataService } from "./data-service";
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { normalizeAddress, type DataService } from "./data-service";
 import type { FarmingService } from "./farming-service";
 import type { GitHubFarmingService } from "./github-farming";
-import type { UploadService } from "./upload-service";
+import { WalletUploadLimitError, type UploadResult, type UploadService } from "./upload-service";
+import type { UploadJob, UploadJobService } from "./upload-jobs";
 import { logger } from "./logger";
-import { resetFarmingStats } from "./db";
-
-// In-memory session storage for folder links
-interface SessionFile {
-  blobName: string;
-  originalName: string;
-  size: number;
-  url: string;
-  viewerUrl: string;
-  uploadedAt: string;
-  address: string;
+import { proxyShelbyBlob } from "./share-proxy";
+import {
+  parseWalletAddress,
+  sendShareQuotaExceeded,
+  type ShareQuota,
+  type ShareQuotaReason,
+  type ShareQuotaService,
+  type ShareReservation,
+} from "./share-quota";
+import {
+  ALLOWED_UPLOAD_TYPES,
+  checkShareFileContent,
+  getShareContentType,
+  getShareFileTypeError,
+} from "./share-content-type";
+import {
+  extractZipArchive,
+  isZipUpload,
+  normalizeRelativePath,
+  type BatchFile,
+  type RejectedBatchFile,
+} from "./share-batch";
+import {
+  decodeBlobCursor,
+  isBlobSearchSort,
+  BLOB_SEARCH_SORTS,
+  DEFAULT_BLOB_SEARCH_LIMIT,
+  MAX_BLOB_SEARCH_LIMIT,
+} from "./blob-search";
+import { FILE_CATEGORIES } from "./analytics-service";
+import { requireRole } from "./admin-auth";
+import { createAlertRule, parseAlertRuleUpdate } from "./alert-rules";
+import { sendTestWebhook } from "./webhooks";
+import { LIVE_TOPICS, parseLiveCursor, parseLiveTopics, streamLiveEvents } from "./live-feed";
+import {
+  countBuckets,
+  isTimeseriesBucket,
+  isTimeseriesMetric,
+  MAX_TIMESERIES_POINTS,
+  TIMESERIES_METRICS,
+} from "./timeseries";
+import {
+  resetFarmingStats,
+  getAdminAuditLog,
+  getAlertRule,
+  getAlertRules,
+  updateAlertRule,
+  deleteAlertRule,
+  getWebhookDeliveries,
+  getWebhookDeadLetters,
+  requeueWebhookDeadLetter,
+  createShareSession,
+  getShareSession,
+  getShareSessionFiles,
+  addShareSessionFile,
+  updateShareSession,
+  deleteShareSession,
+  getShareBlob,
+  runInTransaction,
+  type AlertRuleRecord,
+  type BlobSearchFilters,
+  type ShareSession,
+  type WebhookDeadLetterRecord,
+  type WebhookDeliveryRecord,
+} from "./db";
+
+const MAX_SESSION_TITLE_LENGTH = 200;
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024; // 2GB per file
+const MAX_BATCH_FILES = 100;
+// A new folder's ID was taken between looking it up and creating it; its manage token isn't the caller's
+const FOLDER_CREATED_CONCURRENTLY = "Folder was created by another upload";
+// Unpacked size limit for a single zip archive
+const MAX_ZIP_UNPACKED_BYTES = 4 * 1024 * 1024 * 1024;
+// Window for /api/blobs/expiring
+const DEFAULT_EXPIRING_WITHIN_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EXPIRING_WITHIN_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an optional expiry (ISO date string or epoch ms) from a request body.
+ * Returns undefined when absent, null when explicitly cleared and NaN when invalid.
+ */
+function parseExpiresAt(value: unknown): number | null | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (value === null || value === "null") return null;
+  const raw = String(value);
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : Number.NaN;
 }
 
-interface Session {
-  id: string;
-  files: SessionFile[];
-  createdAt: string;
+/**
+ * Parse an optional timestamp (ISO date string or epoch ms) from a query string.
+ * Returns undefined when absent and NaN when invalid.
+ */
+function parseTimestamp(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const raw = String(value);
+  const ms = /^\d+$/.test(raw) ? Number(raw) : Date.parse(raw);
+  return Number.isFinite(ms) ? ms : Number.NaN;
+}
+
+/**
+ * Parse an optional byte count from a query string.
+ * Returns undefined when absent and NaN when it isn't a non-negative integer.
+ */
+function parseByteCount(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const raw = String(value);
+  return /^\d+$/.test(raw) && Number.isSafeInteger(Number(raw)) ? Number(raw) : Number.NaN;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parse an optional duration like "90m", "24h" or "7d" (bare numbers are ms)
+ * from a query string. Returns undefined when absent and NaN when invalid.
+ */
+function parseDuration(value: unknown): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const match = /^(\d+)([mhd]?)$/.exec(String(value));
+  if (!match) return Number.NaN;
+  return Number(match[1]) * (match[2] ? DURATION_UNITS_MS[match[2]] : 1);
+}
+
+/**
+ * Read an optional, non-empty text filter from a query string
+ */
+function parseTextFilter(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const text = value.trim();
+  return text.length > 0 ? text : undefined;
+}
+
+/**
+ * Parse an optional folder title. Returns undefined when absent and null when cleared.
+ */
+function parseSessionTitle(value: unknown): string | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  const title = String(value).trim().slice(0, MAX_SESSION_TITLE_LENGTH);
+  return title.length > 0 ? title : null;
+}
+
+function isShareSessionExpired(session: ShareSession): boolean {
+  return session.expires_at !== null && session.expires_at <= Date.now();
+}
+
+/**
+ * Check that an upload may target the given folder (if it already exists).
+ * Returns the error response to send, or null when the upload can go ahead.
+ */
+function validateShareUploadTarget(
+  req: Request,
+  existingSession: ShareSession | null,
+  expiresAt: number | null | undefined
+): { status: number; error: string } | null {
+  if (existingSession) {
+    if (isShareSessionExpired(existingSession)) {
+      return { status: 410, error: "Folder has expired" };
+    }
+    if (!hasShareManageToken(req, existingSession)) {
+      return { status: 403, error: "Invalid or missing share token for this folder" };
+    }
+  }
+  if (Number.isNaN(expiresAt)) {
+    return { status: 400, error: "Invalid expiresAt" };
+  }
+  return null;
+}
+
+/**
+ * Record a finished upload in its folder
+ */
+function recordShareSessionFile(
+  sessionId: string,
+  result: UploadResult,
+  names: { originalName: string; relativePath: string | null }
+): void {
+  addShareSessionFile({
+    session_id: sessionId,
+    blob_name: result.blobName,
+    original_name: names.originalName,
+    size: result.size,
+    url: result.url,
+    viewer_url: result.viewerUrl,
+    owner_address: result.owner,
+    uploaded_at: Date.now(),
+    relative_path: names.relativePath,
+    content_hash: result.contentHash,
+    content_type: result.contentType,
+    thumbnail_url: result.thumbnailUrl,
+  });
+}
+
+function removeTempFiles(paths: string[]): void {
+  for (const tempPath of paths) {
+    fs.unlink(tempPath, (err) => {
+      if (err) logger.warn({ err, tempPath }, "Failed to cleanup temp file");
+    });
+  }
+}
+
+/**
+ * Check the manage token sent via X-Share-Token header (or manageToken body field)
+ */
+function hasShareManageToken(req: Request, session: ShareSession): boolean {
+  const provided = req.get("x-share-token") || req.body?.manageToken;
+  if (typeof provided !== "string") return false;
+  const a = Buffer.from(provided);
+  const b = Buffer.from(session.manage_token);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
 }
 
-// Store sessions in memory (they persist until server restart)
-const sessions = new Map<string, Session>();
 
 // Configure multer for disk storage (handles large files without OOM)
+const uploadStorage = multer.diskStorage({
+  destination: os.tmpdir(),
+  filename: (req, file, cb) => {
+    const uniqueSuffix = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+    cb(null, `shelby-upload-${uniqueSuffix}${path.extname(file.originalname)}`);
+  },
+});
+
+/**
+ * A single-file upload declared a MIME type the share routes don't take
+ */
+class UnsupportedFileTypeError extends Error {
+  constructor(public readonly mimetype: string) {
+    super(`File type ${mimetype} not allowed`);
+    this.name = "UnsupportedFileTypeError";
+  }
+}
+
 const upload = multer({
-  storage: multer.diskStorage({
-    destination: os.tmpdir(),
-    filename: (req, file, cb) => {
-      const uniqueSuffix = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
-      cb(null, `shelby-upload-${uniqueSuffix}${path.extname(file.originalname)}`);
-    },
-  }),
+  storage: uploadStorage,
   limits: {
-    fileSize: 2 * 1024 * 1024 * 1024, // 2GB max
+    fileSize: MAX_UPLOAD_BYTES,
     files: 5, // Max 5 files per request
   },
   fileFilter: (req, file, cb) => {
-    const allowedTypes = [
-      "image/png", "image/jpeg", "image/gif", "image/webp", "image/svg+xml",
-      "image/x-icon", "image/avif",
-      "video/mp4", "video/webm", "video/quicktime", "video/x-msvideo", "video/x-matroska",
-      "application/pdf",
-    ];
-    if (allowedTypes.includes(file.mimetype)) {
+    if (ALLOWED_UPLOAD_TYPES.has(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error(`File type ${file.mimetype} not allowed`));
+      cb(new UnsupportedFileTypeError(file.mimetype));
     }
   },
 });
 
-export function createRouter(
-  dataService: DataService,
-  farmingService?: FarmingService,
-  githubFarmingService?: GitHubFarmingService,
-  uploadService?: UploadService
-): Router {
+/**
+ * Receive the multipart "file" field, answering 415 for a type that isn't
+ * allowed and 400 for anything else multer rejects
+ */
+const receiveFile: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (err: unknown) => {
+    if (err instanceof UnsupportedFileTypeError) {
+      return res.status(415).json({ error: err.message });
+    }
+    if (err instanceof multer.MulterError) {
+      return res.status(400).json({ error: err.message, code: err.code });
+    }
+    next(err);
+  });
+};
+
+// A batch file whose content has been checked
+type ShareBatchFile = BatchFile & { contentType: string };
+
+// Files skipped by the batch file filter, reported back per file
+type BatchUploadRequest = Request & { rejectedFiles?: RejectedBatchFile[] };
+
+// Batch uploads keep the client's relative path (e.g. "photos/cat.png") as the file name
+const batchUpload = multer({
+  storage: uploadStorage,
+  preservePath: true,
+  limits: {
+    fileSize: MAX_UPLOAD_BYTES,
+    files: MAX_BATCH_FILES,
+  },
+  fileFilter: (req, file, cb) => {
+    const typeError = isZipUpload(file) ? null : getShareFileTypeError(file.originalname, file.mimetype);
+    if (!typeError) {
+      cb(null, true);
+      return;
+    }
+    const batchReq = req as BatchUploadRequest;
+    batchReq.rejectedFiles = [...(batchReq.rejectedFiles ?? []), { relativePath: file.originalname, error: typeError }];
+    cb(null, false);
+  },
+});
+
+/**
+ * An alert rule as the API returns it. The secret is only returned when it
+ * is created or rotated.
+ */
+function alertRuleJson(rule: AlertRuleRecord) {
+  return {
+    id: rule.id,
+    name: rule.name,
+    type: rule.type,
+    params: JSON.parse(rule.params),
+    webhookUrl: rule.webhook_url,
+    enabled: rule.enabled === 1,
+    createdAt: rule.created_at,
+    updatedAt: rule.updated_at,
+    lastTriggeredAt: rule.last_triggered_at,
+  };
+}
+
+function webhookDeliveryJson(delivery: WebhookDeliveryRecord | WebhookDeadLetterRecord) {
+  return {
+    id: delivery.id,
+    ruleId: delivery.rule_id,
+    url: delivery.url,
+    ...("status" in delivery
+      ? { status: delivery.status, nextAttemptAt: delivery.next_attempt_at, deliveredAt: delivery.delivered_at }
+      : { failedAt: delivery.failed_at }),
+    attempts: delivery.attempts,
+    lastStatus: delivery.last_status,
+    lastError: delivery.last_error,
+    createdAt: delivery.created_at,
+    payload: JSON.parse(delivery.payload),
+  };
+}
+
+function parseAlertRuleId(value: string): number | null {
+  return /^\d+$/.test(value) ? Number(value) : null;
+}
+
+/**
+ * Services the API routes use. Everything but the data service is optional;
+ * routes for a missing service respond 503.
+ */
+export interface RouterDeps {
+  dataService: DataService;
+  farmingService?: FarmingService;
+  githubFarmingService?: GitHubFarmingService;
+  uploadService?: UploadService;
+  uploadJobService?: UploadJobService;
+  shareQuotaService?: ShareQuotaService;
+  /** Open /api/stream connections allowed at once */
+  maxLiveStreams?: number;
+}
+
+export function createRouter({
+  dataService,
+  farmingService,
+  githubFarmingService,
+  uploadService,
+  uploadJobService,
+  shareQuotaService,
+  maxLiveStreams,
+}: RouterDeps): Router {
   const router = Router();
 
+  // Per-IP quotas for the upload routes that the server receives. A batch may
+  // hold its whole file limit, and zips in it unpack past its Content-Length.
+  const noQuota: RequestHandler = (_req, _res, next) => next();
+  const shareQuota: RequestHandler = shareQuotaService ? shareQuotaService.middleware({ maxFiles: 1 }) : noQuota;
+  const shareBatchQuota: RequestHandler = shareQuotaService
+    ? shareQuotaService.middleware({ maxFiles: MAX_BATCH_FILES, unpacks: true })
+    : noQuota;
+
   /**
    * GET /api/network/stats
    * Returns overall network statistics
@@ -95,6 +413,113 @@ export function createRouter(
     }
   });
 
+  /**
+   * GET /api/blobs?name=harbor&category=Images&sort=largest&limit=20&cursor=...
+   * Searches the synced blobs. Filters: owner, name (substring), name_prefix,
+   * extension, category, min_size, max_size (bytes), created_after,
+   * created_before, expiring_before (ISO dates or epoch ms) and encoding.
+   * Sorts: newest (default), oldest, largest, smallest. Pass `nextCursor`
+   * back as `cursor` for the next page.
+   */
+  router.get("/blobs", (req, res) => {
+    const { sort = "newest" } = req.query;
+    if (!isBlobSearchSort(sort)) {
+      return res.status(400).json({ error: `sort must be one of: ${BLOB_SEARCH_SORTS.join(", ")}` });
+    }
+
+    const filters: BlobSearchFilters = {
+      name: parseTextFilter(req.query.name),
+      namePrefix: parseTextFilter(req.query.name_prefix),
+      extension: parseTextFilter(req.query.extension)?.toLowerCase().replace(/^\./, ""),
+      encoding: parseTextFilter(req.query.encoding),
+    };
+
+    const owner = parseTextFilter(req.query.owner);
+    if (owner !== undefined) {
+      const address = normalizeAddress(owner);
+      if (!address) {
+        return res.status(400).json({ error: "Invalid owner address" });
+      }
+      filters.owner = address;
+    }
+
+    const category = parseTextFilter(req.query.category);
+    if (category !== undefined) {
+      filters.category = FILE_CATEGORIES.find((name) => name.toLowerCase() === category.toLowerCase());
+      if (!filters.category) {
+        return res.status(400).json({ error: `category must be one of: ${FILE_CATEGORIES.join(", ")}` });
+      }
+    }
+
+    filters.minSize = parseByteCount(req.query.min_size);
+    filters.maxSize = parseByteCount(req.query.max_size);
+    if (Number.isNaN(filters.minSize) || Number.isNaN(filters.maxSize)) {
+      return res.status(400).json({ error: "min_size and max_size must be byte counts" });
+    }
+
+    filters.createdAfter = parseTimestamp(req.query.created_after);
+    filters.createdBefore = parseTimestamp(req.query.created_before);
+    filters.expiringBefore = parseTimestamp(req.query.expiring_before);
+    if ([filters.createdAfter, filters.createdBefore, filters.expiringBefore].some(Number.isNaN)) {
+      return res
+        .status(400)
+        .json({ error: "created_after, created_before and expiring_before must be ISO dates or epoch milliseconds" });
+    }
+
+    const cursor = parseTextFilter(req.query.cursor);
+    const after = cursor === undefined ? undefined : decodeBlobCursor(cursor);
+    if (after === null) {
+      return res.status(400).json({ error: "Invalid cursor" });
+    }
+
+    const limit = Math.min(
+      Math.max(Number.parseInt(req.query.limit as string) || DEFAULT_BLOB_SEARCH_LIMIT, 1),
+      MAX_BLOB_SEARCH_LIMIT
+    );
+
+    try {
+      res.json(dataService.searchBlobs(filters, { sort, limit, after }));
+    } catch (error) {
+      logger.error({ error }, "Failed to search blobs");
+      res.status(500).json({ error: "Failed to search blobs" });
+    }
+  });
+
+  /**
+   * GET /api/blobs/expiring?within=7d&limit=50&offset=0
+   * Returns the live blobs that expire within a duration ("90m", "24h", "7d"
+   * or ms; default 7d, at most 365d), soonest first, with their count and size.
+   */
+  router.get("/blobs/expiring", (req, res) => {
+    const within = parseDuration(req.query.within) ?? DEFAULT_EXPIRING_WITHIN_MS;
+    if (Number.isNaN(within) || within <= 0 || within > MAX_EXPIRING_WITHIN_MS) {
+      return res.status(400).json({ error: "within must be a duration like 24h or 7d, up to 365d" });
+    }
+    const limit = Math.min(Math.max(Number.parseInt(req.query.limit as string) || 50, 1), 200);
+    const offset = Math.max(Number.parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+      res.json(dataService.getExpiringBlobs(within, { limit, offset }));
+    } catch (error) {
+      logger.error({ error }, "Failed to get expiring blobs");
+      res.status(500).json({ error: "Failed to fetch expiring blobs" });
+    }
+  });
+
+  /**
+   * GET /api/storage/projection
+   * Returns live storage projected day by day for the next year, with
+   * 30, 90 and 365 day summaries
+   */
+  router.get("/storage/projection", (req, res) => {
+    try {
+      res.json(dataService.getStorageProjection());
+    } catch (error) {
+      logger.error({ error }, "Failed to get storage projection");
+      res.status(500).json({ error: "Failed to fetch storage projection" });
+    }
+  });
+
   /**
    * GET /api/events/recent?limit=100
    * Returns recent blob events (for activity feed)
@@ -110,6 +535,32 @@ export function createRouter(
     }
   });
 
+  /**
+   * GET /api/stream?topics=blobs,activities&since=<version>
+   * Server-Sent Events feed of newly synced blob registrations and ShelbyUSD activities.
+   * Resumes after `since`, or after the Last-Event-ID a reconnecting browser sends.
+   * 503 once maxLiveStreams streams are open.
+   */
+  router.get("/stream", (req, res) => {
+    const topics = parseLiveTopics(req.query.topics);
+    if (!topics) {
+      return res.status(400).json({ error: `topics must be a comma-separated list of ${LIVE_TOPICS.join(", ")}` });
+    }
+
+    const resumeFrom = req.get("last-event-id") || (req.query.since as string | undefined);
+    const since = resumeFrom ? parseLiveCursor(resumeFrom) : null;
+    if (resumeFrom && !since) {
+      return res.status(400).json({ error: "since must be a transaction version or event id" });
+    }
+
+    try {
+      streamLiveEvents(req, res, topics, since, maxLiveStreams);
+    } catch (error) {
+      logger.error({ error }, "Failed to open live stream");
+      res.status(500).json({ error: "Failed to open live stream" });
+    }
+  });
+
   /**
    * GET /api/providers
    * Returns storage provider information
@@ -152,6 +603,39 @@ export function createRouter(
     }
   });
 
+  /**
+   * GET /api/timeseries?metric=blob_count&bucket=hour&from=...&to=...
+   * Returns a metric's hourly or daily history. from/to are ISO dates or epoch
+   * ms and default to the last 7 days (hour) or 90 days (day).
+   */
+  router.get("/timeseries", (req, res) => {
+    const { metric, bucket = "hour" } = req.query;
+    if (!isTimeseriesMetric(metric)) {
+      return res.status(400).json({ error: `metric must be one of: ${TIMESERIES_METRICS.join(", ")}` });
+    }
+    if (!isTimeseriesBucket(bucket)) {
+      return res.status(400).json({ error: "bucket must be 'hour' or 'day'" });
+    }
+    const from = parseTimestamp(req.query.from);
+    const to = parseTimestamp(req.query.to);
+    if (Number.isNaN(from) || Number.isNaN(to)) {
+      return res.status(400).json({ error: "from and to must be ISO dates or epoch milliseconds" });
+    }
+    if (from !== undefined && to !== undefined && from > to) {
+      return res.status(400).json({ error: "from must not be after to" });
+    }
+    if (from !== undefined && countBuckets(bucket, from, to ?? Date.now()) > MAX_TIMESERIES_POINTS) {
+      return res.status(400).json({ error: `Range covers more than ${MAX_TIMESERIES_POINTS} buckets` });
+    }
+
+    try {
+      res.json(dataService.getTimeseries(metric, bucket, { from, to }));
+    } catch (error) {
+      logger.error({ error }, "Failed to get timeseries");
+      res.status(500).json({ error: "Failed to fetch timeseries" });
+    }
+  });
+
   /**
    * GET /api/economy?refresh=true
    * Returns ShelbyUSD economy data (leaderboards, volume, earners, spenders)
@@ -191,11 +675,38 @@ export function createRouter(
     }
   });
 
+  /**
+   * GET /api/address/:address?blobs_limit=20&blobs_offset=0&activity_limit=20&activity_offset=0
+   * Returns an address's blobs, ShelbyUSD activity, totals and leaderboard ranks.
+   * Limits default to 20 and are capped at 100.
+   */
+  router.get("/address/:address", async (req, res) => {
+    const address = normalizeAddress(req.params.address);
+    if (!address) {
+      return res.status(400).json({ error: "Invalid address" });
+    }
+    const limit = (value: unknown) => Math.min(Math.max(Number.parseInt(value as string) || 20, 1), 100);
+    const offset = (value: unknown) => Math.max(Number.parseInt(value as string) || 0, 0);
+
+    try {
+      const details = await dataService.getAddressDetails(address, {
+        blobsLimit: limit(req.query.blobs_limit),
+        blobsOffset: offset(req.query.blobs_offset),
+        activityLimit: limit(req.query.activity_limit),
+        activityOffset: offset(req.query.activity_offset),
+      });
+      res.json(details);
+    } catch (error) {
+      logger.error({ error, address }, "Failed to get address details");
+      res.status(500).json({ error: "Failed to fetch address details" });
+    }
+  });
+
   /**
    * POST /api/cache/clear
-   * Clear the cache (for debugging)
+   * Clear the cache (for debugging). Needs an operator API key.
    */
-  router.post("/cache/clear", (req, res) => {
+  router.post("/cache/clear", requireRole("operator"), (req, res) => {
     try {
       dataService.clearCache();
       res.json({ message: "Cache cleared successfully" });
@@ -226,11 +737,12 @@ export function createRouter(
   /**
    * POST /api/sync/force
    * Force a full resync from the blockchain
-   * WARNING: This is an expensive operation - use sparingly
+   * WARNING: This refetches every activity and replaces the stored ones - needs an admin API key
+   * Progress is in the `resync` section of /api/sync/status
    */
-  router.post("/sync/force", async (req, res) => {
+  router.post("/sync/force", requireRole("admin"), async (req, res) => {
     try {
-      logger.info("Force resync requested via API");
+      logger.info({ actor: res.locals.apiKey.name }, "Force resync requested via API");
       const count = await dataService.forceResync();
       res.json({
         message: "Full resync completed",
@@ -246,10 +758,11 @@ export function createRouter(
    * POST /api/farming/reset-stats
    * Reset farming stats after a network reset
    * Keeps jobs active but zeroes out cumulative stats (waves, minted amounts)
+   * Needs an admin API key
    */
-  router.post("/farming/reset-stats", async (req, res) => {
+  router.post("/farming/reset-stats", requireRole("admin"), async (req, res) => {
     try {
-      logger.info("Farming stats reset requested via API");
+      logger.info({ actor: res.locals.apiKey.name }, "Farming stats reset requested via API");
       const result = resetFarmingStats();
       res.json({
         message: "Farming stats reset complete",
@@ -261,15 +774,224 @@ export function createRouter(
     }
   });
 
+  /**
+   * GET /api/admin/audit?limit=50&offset=0
+   * Recent admin actions, newest first. Needs a read-only API key or better.
+   */
+  router.get("/admin/audit", requireRole("read-only"), (req, res) => {
+    const limit = Math.min(Number.parseInt(req.query.limit as string) || 50, 500);
+    const offset = Math.max(Number.parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+      const entries = getAdminAuditLog(limit, offset);
+      res.json({
+        entries: entries.map((entry) => ({
+          id: entry.id,
+          timestamp: entry.created_at,
+          keyId: entry.key_id,
+          actor: entry.actor,
+          method: entry.method,
+          route: entry.route,
+          params: JSON.parse(entry.params),
+          status: entry.status,
+          result: entry.result,
+        })),
+        limit,
+        offset,
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to get admin audit log");
+      res.status(500).json({ error: "Failed to get admin audit log" });
+    }
+  });
+
+  // ============================================
+  // ALERT RULE ENDPOINTS
+  // ============================================
+
+  /**
+   * GET /api/alerts/rules
+   * Every alert rule. Needs a read-only API key or better.
+   */
+  router.get("/alerts/rules", requireRole("read-only"), (req, res) => {
+    try {
+      res.json({ rules: getAlertRules().map(alertRuleJson) });
+    } catch (error) {
+      logger.error({ error }, "Failed to get alert rules");
+      res.status(500).json({ error: "Failed to get alert rules" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/rules
+   * Create an alert rule: { name, type, params, webhookUrl, enabled? }
+   * The response has the secret that signs its webhooks. Needs an operator API key.
+   */
+  router.post("/alerts/rules", requireRole("operator"), (req, res) => {
+    try {
+      const result = createAlertRule(req.body);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+      res.status(201).json({ rule: alertRuleJson(result.rule), secret: result.rule.secret });
+    } catch (error) {
+      logger.error({ error }, "Failed to create alert rule");
+      res.status(500).json({ error: "Failed to create alert rule" });
+    }
+  });
+
+  /**
+   * GET /api/alerts/rules/:id
+   * Needs a read-only API key or better
+   */
+  router.get("/alerts/rules/:id", requireRole("read-only"), (req, res) => {
+    try {
+      const id = parseAlertRuleId(req.params.id);
+      const rule = id === null ? null : getAlertRule(id);
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      res.json({ rule: alertRuleJson(rule) });
+    } catch (error) {
+      logger.error({ error }, "Failed to get alert rule");
+      res.status(500).json({ error: "Failed to get alert rule" });
+    }
+  });
+
+  /**
+   * PATCH /api/alerts/rules/:id
+   * Change a rule's name, params, webhookUrl or enabled; { rotateSecret: true }
+   * replaces its secret and returns the new one. Needs an operator API key.
+   */
+  router.patch("/alerts/rules/:id", requireRole("operator"), (req, res) => {
+    try {
+      const id = parseAlertRuleId(req.params.id);
+      const rule = id === null ? null : getAlertRule(id);
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+
+      const result = parseAlertRuleUpdate(rule, req.body);
+      if ("error" in result) {
+        return res.status(400).json({ error: result.error });
+      }
+
+      const updated = updateAlertRule(rule.id, result.updates) ?? rule;
+      res.json({
+        rule: alertRuleJson(updated),
+        ...(result.updates.secret ? { secret: updated.secret } : {}),
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to update alert rule");
+      res.status(500).json({ error: "Failed to update alert rule" });
+    }
+  });
+
+  /**
+   * DELETE /api/alerts/rules/:id
+   * Delete a rule and drop its pending webhooks. Needs an operator API key.
+   */
+  router.delete("/alerts/rules/:id", requireRole("operator"), (req, res) => {
+    try {
+      const id = parseAlertRuleId(req.params.id);
+      if (id === null || !deleteAlertRule(id)) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      res.json({ success: true, id });
+    } catch (error) {
+      logger.error({ error }, "Failed to delete alert rule");
+      res.status(500).json({ error: "Failed to delete alert rule" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/rules/:id/test
+   * Send a test webhook to the rule's URL right away and return how it went.
+   * Needs an operator API key.
+   */
+  router.post("/alerts/rules/:id/test", requireRole("operator"), async (req, res) => {
+    try {
+      const id = parseAlertRuleId(req.params.id);
+      const rule = id === null ? null : getAlertRule(id);
+      if (!rule) {
+        return res.status(404).json({ error: "Alert rule not found" });
+      }
+      const delivery = await sendTestWebhook(rule);
+      res.json({ delivery: webhookDeliveryJson(delivery) });
+    } catch (error) {
+      logger.error({ error }, "Failed to send test webhook");
+      res.status(500).json({ error: "Failed to send test webhook" });
+    }
+  });
+
+  /**
+   * GET /api/alerts/deliveries?status=pending&rule_id=1&limit=50&offset=0
+   * Queued and delivered webhooks, newest first. Needs a read-only API key or better.
+   */
+  router.get("/alerts/deliveries", requireRole("read-only"), (req, res) => {
+    const status = req.query.status;
+    if (status !== undefined && status !== "pending" && status !== "delivered") {
+      return res.status(400).json({ error: "status must be pending or delivered" });
+    }
+    const ruleId = req.query.rule_id === undefined ? undefined : parseAlertRuleId(String(req.query.rule_id));
+    if (ruleId === null) {
+      return res.status(400).json({ error: "rule_id must be an alert rule id" });
+    }
+    const limit = Math.min(Number.parseInt(req.query.limit as string) || 50, 500);
+    const offset = Math.max(Number.parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+      const deliveries = getWebhookDeliveries({ status, ruleId, limit, offset });
+      res.json({ deliveries: deliveries.map(webhookDeliveryJson), limit, offset });
+    } catch (error) {
+      logger.error({ error }, "Failed to get webhook deliveries");
+      res.status(500).json({ error: "Failed to get webhook deliveries" });
+    }
+  });
+
+  /**
+   * GET /api/alerts/dead-letters?limit=50&offset=0
+   * Webhooks that failed every retry, newest first. Needs a read-only API key or better.
+   */
+  router.get("/alerts/dead-letters", requireRole("read-only"), (req, res) => {
+    const limit = Math.min(Number.parseInt(req.query.limit as string) || 50, 500);
+    const offset = Math.max(Number.parseInt(req.query.offset as string) || 0, 0);
+
+    try {
+      const deadLetters = getWebhookDeadLetters(limit, offset);
+      res.json({ deadLetters: deadLetters.map(webhookDeliveryJson), limit, offset });
+    } catch (error) {
+      logger.error({ error }, "Failed to get webhook dead letters");
+      res.status(500).json({ error: "Failed to get webhook dead letters" });
+    }
+  });
+
+  /**
+   * POST /api/alerts/dead-letters/:id/retry
+   * Queue a dead letter again, with fresh retries, to its rule's current URL.
+   * Needs an operator API key.
+   */
+  router.post("/alerts/dead-letters/:id/retry", requireRole("operator"), (req, res) => {
+    try {
+      if (!requeueWebhookDeadLetter(req.params.id, Date.now())) {
+        return res.status(404).json({ error: "Dead letter not found, or its alert rule was deleted" });
+      }
+      res.json({ success: true, id: req.params.id });
+    } catch (error) {
+      logger.error({ error }, "Failed to retry dead letter");
+      res.status(500).json({ error: "Failed to retry dead letter" });
+    }
+  });
+
   // ============================================
   // FARMING ENDPOINTS
   // ============================================
 
   /**
    * POST /api/farming/start
-   * Start a farming session with cloud nodes
+   * Start a farming session with cloud nodes. Needs an operator API key.
    */
-  router.post("/farming/start", async (req, res) => {
+  router.post("/farming/start", requireRole("operator"), async (req, res) => {
     if (!farmingService) {
       return res.status(503).json({ error: "Farming service not available" });
     }
@@ -332,9 +1054,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/stop
-   * Stop a farming session
+   * Stop a farming session. Needs an operator API key.
    */
-  router.post("/farming/stop", async (req, res) => {
+  router.post("/farming/stop", requireRole("operator"), async (req, res) => {
     if (!farmingService) {
       return res.status(503).json({ error: "Farming service not available" });
     }
@@ -358,9 +1080,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/cleanup
-   * Stop all farming nodes
+   * Stop all farming nodes. Needs an operator API key.
    */
-  router.post("/farming/cleanup", async (req, res) => {
+  router.post("/farming/cleanup", requireRole("operator"), async (req, res) => {
     if (!farmingService) {
       return res.status(503).json({ error: "Farming service not available" });
     }
@@ -378,9 +1100,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/clear-sessions
-   * Clear old/failed sessions from memory
+   * Clear old/failed sessions from memory. Needs an operator API key.
    */
-  router.post("/farming/clear-sessions", async (req, res) => {
+  router.post("/farming/clear-sessions", requireRole("operator"), async (req, res) => {
     if (!farmingService) {
       return res.status(503).json({ error: "Farming service not available" });
     }
@@ -398,9 +1120,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/faucet
-   * Direct faucet request from this server
+   * Direct faucet request from this server. Needs an operator API key.
    */
-  router.post("/farming/faucet", async (req, res) => {
+  router.post("/farming/faucet", requireRole("operator"), async (req, res) => {
     if (!farmingService) {
       return res.status(503).json({ error: "Farming service not available" });
     }
@@ -428,9 +1150,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/continuous/start
-   * Start a continuous farming job via GitHub Actions
+   * Start a continuous farming job via GitHub Actions. Needs an operator API key.
    */
-  router.post("/farming/continuous/start", async (req, res) => {
+  router.post("/farming/continuous/start", requireRole("operator"), async (req, res) => {
     if (!githubFarmingService || !githubFarmingService.isAvailable()) {
       return res.status(503).json({ error: "GitHub Actions farming not available (GITHUB_TOKEN not set)" });
     }
@@ -499,9 +1221,9 @@ export function createRouter(
 
   /**
    * POST /api/farming/continuous/stop
-   * Stop a continuous farming job
+   * Stop a continuous farming job. Needs an operator API key.
    */
-  router.post("/farming/continuous/stop", async (req, res) => {
+  router.post("/farming/continuous/stop", requireRole("operator"), async (req, res) => {
     if (!githubFarmingService) {
       return res.status(503).json({ error: "GitHub Actions farming not available" });
     }
@@ -575,9 +1297,10 @@ export function createRouter(
   /**
    * POST /api/share/upload
    * Upload a file to Shelby (no wallet needed - server pays)
+   * Responds 202 with a job ID once the file is received; track it via /api/share/uploads/:id
    */
-  router.post("/share/upload", upload.single("file"), async (req, res) => {
-    if (!uploadService || !uploadService.isAvailable()) {
+  router.post("/share/upload", shareQuota, receiveFile, async (req, res) => {
+    if (!uploadService || !uploadService.isAvailable() || !uploadJobService) {
       return res.status(503).json({
         error: "Upload service not available",
         message: "SHELBY_PRIVATE_KEY not configured",
@@ -590,76 +1313,642 @@ export function createRouter(
     }
 
     const tempPath = file.path;
-    const cleanup = () => {
-      fs.unlink(tempPath, (err) => {
-        if (err) logger.warn({ err, tempPath }, "Failed to cleanup temp file");
-      });
-    };
+    const cleanup = () => removeTempFiles([tempPath]);
+
+    const sessionId: string | undefined = req.body.sessionId || undefined;
+    const title = parseSessionTitle(req.body.title);
+    const expiresAt = parseExpiresAt(req.body.expiresAt);
+
+    // Validate the target folder before paying for the upload
+    const existingSession = sessionId ? getShareSession(sessionId) : null;
+    const targetError = validateShareUploadTarget(req, existingSession, expiresAt);
+    if (targetError) {
+      cleanup();
+      return res.status(targetError.status).json({ error: targetError.error });
+    }
+
+    // The middleware only saw Content-Length; check the size actually received
+    const quota = res.locals.shareQuota as ShareQuota | undefined;
+    if (quota && quota.bytesPerDay.remaining !== null && file.size > quota.bytesPerDay.remaining) {
+      cleanup();
+      return sendShareQuotaExceeded(res, quota, "bytes_per_day");
+    }
 
     try {
-      const sessionId = req.body.sessionId;
+      // The client's MIME type is only a claim - check the bytes before paying for the upload
+      const { contentType, error: contentError } = await checkShareFileContent(tempPath, {
+        name: file.originalname,
+        mimetype: file.mimetype,
+      });
+      if (contentError !== null) {
+        cleanup();
+        return res.status(415).json({ error: contentError });
+      }
 
       logger.info(
-        { filename: file.originalname, size: file.size, sessionId },
+        { filename: file.originalname, size: file.size, contentType, sessionId },
         "Received file for upload"
       );
 
-      const fileBuffer = await fs.promises.readFile(tempPath);
-      const result = await uploadService.uploadFile(fileBuffer, file.originalname);
+      // Create the folder up front so the manage token can be returned immediately
+      let manageToken: string | undefined;
+      if (sessionId && !existingSession) {
+        const folder = createShareSession(sessionId, { title, expiresAt });
+        if (!folder.created) {
+          cleanup();
+          return res.status(409).json({ error: FOLDER_CREATED_CONCURRENTLY });
+        }
+        manageToken = folder.session.manage_token;
+      }
+
+      const job = uploadJobService.createJob({
+        fileName: file.originalname,
+        totalBytes: file.size,
+        sessionId,
+      });
+
+      // Stream from the multer temp file in the background - never buffer the whole upload
+      uploadJobService.run(
+        job.id,
+        (onProgress) => uploadService.uploadFile(tempPath, file.originalname, contentType, onProgress),
+        {
+          onSuccess: (result) => {
+            if (!sessionId) return;
+            recordShareSessionFile(sessionId, result, { originalName: file.originalname, relativePath: null });
+            logger.info({ sessionId, jobId: job.id }, "Added file to session");
+          },
+          onSettled: cleanup,
+        }
+      );
+
+      res.locals.shareUsage = { bytes: file.size, files: 1 };
+      res.status(202).json({
+        success: true,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/share/uploads/${job.id}`,
+        eventsUrl: `/api/share/uploads/${job.id}/events`,
+        sessionId,
+        manageToken,
+      });
+    } catch (error) {
       cleanup();
+      const errMsg = error instanceof Error ? error.message : String(error);
+      const errStack = error instanceof Error ? error.stack : undefined;
+      logger.error({ errMsg, errStack }, "Failed to start upload");
+      res.status(500).json({ error: errMsg });
+    }
+  });
+
+  /**
+   * POST /api/share/upload-batch
+   * Upload many files (or zip archives, unpacked in place) into one folder.
+   * Folder uploads send each file's relative path as its multipart filename.
+   * Responds 202 with the folder link and a per-file report; accepted files
+   * are tracked as upload jobs like /api/share/upload.
+   */
+  router.post(
+    "/share/upload-batch",
+    shareBatchQuota,
+    (req, res, next) => {
+      batchUpload.array("files", MAX_BATCH_FILES)(req, res, (err: unknown) => {
+        if (err instanceof multer.MulterError) {
+          return res.status(400).json({ error: err.message, code: err.code });
+        }
+        next(err);
+      });
+    },
+    async (req, res) => {
+      const received = (req.files as Express.Multer.File[] | undefined) ?? [];
+      const rejected: RejectedBatchFile[] = [...((req as BatchUploadRequest).rejectedFiles ?? [])];
+      const cleanupReceived = () => removeTempFiles(received.map((file) => file.path));
+
+      if (!uploadService || !uploadService.isAvailable() || !uploadJobService) {
+        cleanupReceived();
+        return res.status(503).json({
+          error: "Upload service not available",
+          message: "SHELBY_PRIVATE_KEY not configured",
+        });
+      }
+
+      if (received.length === 0 && rejected.length === 0) {
+        return res.status(400).json({ error: "No files provided" });
+      }
+
+      const requestedSessionId: string | undefined = req.body.sessionId || undefined;
+      const title = parseSessionTitle(req.body.title);
+      const expiresAt = parseExpiresAt(req.body.expiresAt);
 
-      // If a session ID was provided, add the file to the session
-      if (sessionId) {
-        if (!sessions.has(sessionId)) {
-          sessions.set(sessionId, {
-            id: sessionId,
-            files: [],
-            createdAt: new Date().toISOString(),
+      // Validate the target folder before unpacking anything
+      const existingSession = requestedSessionId ? getShareSession(requestedSessionId) : null;
+      const targetError = validateShareUploadTarget(req, existingSession, expiresAt);
+      if (targetError) {
+        cleanupReceived();
+        return res.status(targetError.status).json({ error: targetError.error });
+      }
+
+      // Expand zip archives into their entries, next to where the archive sat in the folder
+      const unpacked: Array<BatchFile & { mimetype: string }> = [];
+      for (const file of received) {
+        const relativePath = normalizeRelativePath(file.originalname);
+        if (!relativePath) {
+          rejected.push({ relativePath: file.originalname, error: "Invalid path" });
+          removeTempFiles([file.path]);
+          continue;
+        }
+        if (!isZipUpload(file)) {
+          unpacked.push({ relativePath, tempPath: file.path, size: file.size, mimetype: file.mimetype });
+          continue;
+        }
+
+        const baseDir = path.posix.dirname(relativePath);
+        const withBaseDir = <T extends { relativePath: string }>(entry: T): T =>
+          baseDir === "." ? entry : { ...entry, relativePath: `${baseDir}/${entry.relativePath}` };
+        try {
+          const archive = await extractZipArchive(file.path, {
+            maxEntries: Math.max(0, MAX_BATCH_FILES - unpacked.length),
+            maxEntryBytes: MAX_UPLOAD_BYTES,
+            maxTotalBytes: MAX_ZIP_UNPACKED_BYTES,
+            validateEntry: (entryPath) => getShareFileTypeError(entryPath, ""),
           });
+          // Zip entries carry no MIME type - their extension is the only claim
+          unpacked.push(...archive.files.map((entry) => ({ ...withBaseDir(entry), mimetype: "" })));
+          rejected.push(...archive.rejected.map(withBaseDir));
+        } catch (error) {
+          const errMsg = error instanceof Error ? error.message : String(error);
+          rejected.push({ relativePath, error: `Invalid zip archive: ${errMsg}` });
+        } finally {
+          removeTempFiles([file.path]);
         }
-        const session = sessions.get(sessionId)!;
-        session.files.push({
-          blobName: result.blobName,
-          originalName: file.originalname,
-          size: result.size,
-          url: result.url,
-          viewerUrl: result.viewerUrl,
-          uploadedAt: new Date().toISOString(),
-          address: result.owner,
+      }
+
+      // Every file's bytes have to match what it claims to be
+      let accepted: ShareBatchFile[] = [];
+      for (const { mimetype, ...file } of unpacked) {
+        const { contentType, error } = await checkShareFileContent(file.tempPath, {
+          name: file.relativePath,
+          mimetype,
         });
-        logger.info({ sessionId, fileCount: session.files.length }, "Added file to session");
+        if (error !== null) {
+          rejected.push({ relativePath: file.relativePath, error });
+          removeTempFiles([file.tempPath]);
+          continue;
+        }
+        accepted.push({ ...file, contentType });
+      }
+
+      // Zips can expand past the per-request file limit, and the quota may not cover everything
+      const quota = res.locals.shareQuota as ShareQuota | undefined;
+      const quotaFiles = quota?.filesPerHour.remaining ?? null;
+      let quotaBytes = quota?.bytesPerDay.remaining ?? null;
+      let quotaReason: ShareQuotaReason | null = null;
+      const withinLimits: ShareBatchFile[] = [];
+      for (const file of accepted) {
+        let error: string | null = null;
+        if (withinLimits.length >= MAX_BATCH_FILES) {
+          error = `Too many files (max ${MAX_BATCH_FILES} per batch)`;
+        } else if (quotaFiles !== null && withinLimits.length >= quotaFiles) {
+          error = "Upload quota exceeded (files per hour)";
+          quotaReason ??= "files_per_hour";
+        } else if (quotaBytes !== null && file.size > quotaBytes) {
+          error = "Upload quota exceeded (bytes per day)";
+          quotaReason ??= "bytes_per_day";
+        }
+
+        if (error) {
+          rejected.push({ relativePath: file.relativePath, error });
+          removeTempFiles([file.tempPath]);
+          continue;
+        }
+        withinLimits.push(file);
+        if (quotaBytes !== null) quotaBytes -= file.size;
+      }
+      accepted = withinLimits;
+
+      const rejectedReport = rejected.map((file) => ({
+        relativePath: file.relativePath,
+        status: "rejected" as const,
+        error: file.error,
+      }));
+
+      if (accepted.length === 0) {
+        if (quota && quotaReason) {
+          return sendShareQuotaExceeded(res, quota, quotaReason);
+        }
+        return res.status(400).json({ error: "No files could be uploaded", files: rejectedReport });
+      }
+
+      try {
+        // Create the folder and all of its jobs together, so a failure leaves nothing half-made
+        const sessionId = requestedSessionId ?? randomBytes(9).toString("base64url");
+        const batch = runInTransaction(() => {
+          const folder = existingSession ? null : createShareSession(sessionId, { title, expiresAt });
+          if (folder && !folder.created) return null;
+          const jobs = uploadJobService.createJobs(
+            accepted.map((file) => ({ fileName: file.relativePath, totalBytes: file.size, sessionId }))
+          );
+          return { jobs, manageToken: folder?.session.manage_token };
+        });
+        if (!batch) {
+          removeTempFiles(accepted.map((file) => file.tempPath));
+          return res.status(409).json({ error: FOLDER_CREATED_CONCURRENTLY });
+        }
+        const { jobs, manageToken } = batch;
+
+        logger.info(
+          { sessionId, accepted: accepted.length, rejected: rejected.length },
+          "Received batch for upload"
+        );
+
+        accepted.forEach((file, i) => {
+          uploadJobService.run(
+            jobs[i].id,
+            (onProgress) => uploadService.uploadFile(file.tempPath, file.relativePath, file.contentType, onProgress),
+            {
+              onSuccess: (result) => {
+                recordShareSessionFile(sessionId, result, {
+                  originalName: path.posix.basename(file.relativePath),
+                  relativePath: file.relativePath,
+                });
+              },
+              onSettled: () => removeTempFiles([file.tempPath]),
+            }
+          );
+        });
+
+        res.locals.shareUsage = {
+          bytes: accepted.reduce((sum, file) => sum + file.size, 0),
+          files: accepted.length,
+        };
+        res.status(202).json({
+          success: true,
+          sessionId,
+          manageToken,
+          folderUrl: `/api/share/folder/${sessionId}`,
+          accepted: jobs.length,
+          rejected: rejected.length,
+          files: [
+            ...jobs.map((job, i) => ({
+              relativePath: accepted[i].relativePath,
+              size: accepted[i].size,
+              status: "accepted" as const,
+              jobId: job.id,
+              statusUrl: `/api/share/uploads/${job.id}`,
+              eventsUrl: `/api/share/uploads/${job.id}/events`,
+            })),
+            ...rejectedReport,
+          ],
+        });
+      } catch (error) {
+        removeTempFiles(accepted.map((file) => file.tempPath));
+        const errMsg = error instanceof Error ? error.message : String(error);
+        const errStack = error instanceof Error ? error.stack : undefined;
+        logger.error({ errMsg, errStack }, "Failed to start batch upload");
+        res.status(500).json({ error: errMsg });
+      }
+    }
+  );
+
+  /**
+   * POST /api/share/wallet/prepare
+   * Start an upload that the caller's wallet (X-Wallet-Address header) owns and pays for.
+   * The server encodes the file and responds with the register_blob payload for the
+   * wallet to sign and submit, then /api/share/wallet/complete finishes the upload.
+   * Content the wallet already stored is returned straight away with status "existing".
+   * Counts against the caller's IP quota, and each IP and wallet may only have a few
+   * prepared uploads waiting for a signature (429 past that).
+   */
+  router.post("/share/wallet/prepare", shareQuota, receiveFile, async (req, res) => {
+    if (!uploadService || !uploadService.isAvailable()) {
+      return res.status(503).json({
+        error: "Upload service not available",
+        message: "SHELBY_PRIVATE_KEY not configured",
+      });
+    }
+
+    const file = req.file;
+    if (!file) {
+      return res.status(400).json({ error: "No file provided" });
+    }
+
+    const tempPath = file.path;
+    const owner = parseWalletAddress(req.get("x-wallet-address"));
+    if (!owner) {
+      removeTempFiles([tempPath]);
+      return res.status(400).json({ error: "X-Wallet-Address header with a wallet address is required" });
+    }
+
+    const requestedSessionId: string | undefined = req.body.sessionId || undefined;
+    const title = parseSessionTitle(req.body.title);
+    const expiresAt = parseExpiresAt(req.body.expiresAt);
+
+    const existingSession = requestedSessionId ? getShareSession(requestedSessionId) : null;
+    const targetError = validateShareUploadTarget(req, existingSession, expiresAt);
+    if (targetError) {
+      removeTempFiles([tempPath]);
+      return res.status(targetError.status).json({ error: targetError.error });
+    }
+
+    // The middleware only saw Content-Length; check the size actually received
+    const quota = res.locals.shareQuota as ShareQuota | undefined;
+    if (quota && quota.bytesPerDay.remaining !== null && file.size > quota.bytesPerDay.remaining) {
+      removeTempFiles([tempPath]);
+      return sendShareQuotaExceeded(res, quota, "bytes_per_day");
+    }
+
+    // Once prepared, the temp file is kept by the upload service until the upload completes
+    let prepared = false;
+    try {
+      const { contentType, error: contentError } = await checkShareFileContent(tempPath, {
+        name: file.originalname,
+        mimetype: file.mimetype,
+      });
+      if (contentError !== null) {
+        removeTempFiles([tempPath]);
+        return res.status(415).json({ error: contentError });
+      }
+
+      logger.info({ filename: file.originalname, size: file.size, contentType, owner }, "Preparing wallet upload");
+      const clientIp = req.ip || req.socket.remoteAddress || "unknown";
+      const preparation = await uploadService.prepareWalletUpload(
+        tempPath,
+        file.originalname,
+        contentType,
+        owner,
+        clientIp
+      );
+      prepared = true;
+
+      // Like batch uploads, files always land in a folder (a new one unless sessionId is given)
+      const sessionId = requestedSessionId ?? randomBytes(9).toString("base64url");
+      const folder = existingSession ? null : createShareSession(sessionId, { title, expiresAt });
+      if (folder && !folder.created) {
+        if (preparation.status === "awaiting_signature") uploadService.cancelWalletUpload(preparation.uploadId);
+        return res.status(409).json({ error: FOLDER_CREATED_CONCURRENTLY });
+      }
+      const manageToken = folder?.session.manage_token;
+      res.locals.shareUsage = { bytes: file.size, files: 1 };
+      if (preparation.status === "existing") {
+        recordShareSessionFile(sessionId, preparation.result, { originalName: file.originalname, relativePath: null });
       }
 
       res.json({
+        ...preparation,
+        completeUrl: preparation.status === "awaiting_signature" ? "/api/share/wallet/complete" : undefined,
+        sessionId,
+        manageToken,
+      });
+    } catch (error) {
+      if (!prepared) removeTempFiles([tempPath]);
+      if (error instanceof WalletUploadLimitError) {
+        return res.status(429).json({
+          error: error.message,
+          reason: "pending_wallet_uploads",
+          scope: error.scope,
+          limit: error.limit,
+        });
+      }
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.error({ errMsg, owner }, "Failed to prepare wallet upload");
+      res.status(500).json({ error: errMsg });
+    }
+  });
+
+  /**
+   * POST /api/share/wallet/complete
+   * Body: { uploadId, transactionHash, sessionId?, title?, expiresAt? }
+   * Called once the wallet has submitted the registration transaction. Responds 202
+   * with an upload job that checks the transaction and pushes the file to Shelby.
+   * A failed job leaves the upload pending, so the call can be retried until it expires.
+   */
+  router.post("/share/wallet/complete", (req, res) => {
+    if (!uploadService || !uploadService.isAvailable() || !uploadJobService) {
+      return res.status(503).json({
+        error: "Upload service not available",
+        message: "SHELBY_PRIVATE_KEY not configured",
+      });
+    }
+
+    const { uploadId, transactionHash } = req.body ?? {};
+    if (typeof uploadId !== "string" || typeof transactionHash !== "string" || !/^0x[0-9a-fA-F]{1,64}$/.test(transactionHash)) {
+      return res.status(400).json({ error: "uploadId and transactionHash are required" });
+    }
+
+    const sessionId: string | undefined = req.body.sessionId || undefined;
+    const title = parseSessionTitle(req.body.title);
+    const expiresAt = parseExpiresAt(req.body.expiresAt);
+
+    const existingSession = sessionId ? getShareSession(sessionId) : null;
+    const targetError = validateShareUploadTarget(req, existingSession, expiresAt);
+    if (targetError) {
+      return res.status(targetError.status).json({ error: targetError.error });
+    }
+
+    const pending = uploadService.claimWalletUpload(uploadId);
+    if (!pending) {
+      return res.status(404).json({ error: "Upload not found, expired or already completing" });
+    }
+
+    // The registration the wallet signed proves it owns the upload, so the
+    // wallet's own quota applies. It is only charged if the job succeeds.
+    let reservation: ShareReservation | null = null;
+    if (shareQuotaService) {
+      const reserved = shareQuotaService.reserve(
+        { scope: "wallet", key: pending.owner },
+        { bytes: pending.size, maxFiles: 1 }
+      );
+      if (reserved.reservation === null) {
+        uploadService.releaseWalletUpload(pending);
+        return sendShareQuotaExceeded(res, reserved.quota, reserved.reason);
+      }
+      reservation = reserved.reservation;
+    }
+    let used = { bytes: 0, files: 0 };
+    const settleQuota = () => {
+      if (!reservation) return;
+      try {
+        shareQuotaService?.settle(reservation, used);
+      } catch (error) {
+        logger.error({ error }, "Failed to settle share usage");
+      }
+      reservation = null;
+    };
+
+    try {
+      let manageToken: string | undefined;
+      if (sessionId && !existingSession) {
+        const folder = createShareSession(sessionId, { title, expiresAt });
+        if (!folder.created) {
+          uploadService.releaseWalletUpload(pending);
+          settleQuota();
+          return res.status(409).json({ error: FOLDER_CREATED_CONCURRENTLY });
+        }
+        manageToken = folder.session.manage_token;
+      }
+
+      const job = uploadJobService.createJob({
+        fileName: pending.originalName,
+        totalBytes: pending.size,
+        sessionId,
+      });
+
+      uploadJobService.run(
+        job.id,
+        (onProgress) => uploadService.completeWalletUpload(pending, transactionHash, onProgress),
+        {
+          onSuccess: (result) => {
+            used = { bytes: pending.size, files: 1 };
+            if (!sessionId) return;
+            recordShareSessionFile(sessionId, result, { originalName: pending.originalName, relativePath: null });
+            logger.info({ sessionId, jobId: job.id }, "Added wallet upload to session");
+          },
+          onSettled: settleQuota,
+        }
+      );
+
+      res.status(202).json({
         success: true,
-        url: result.url,
-        viewerUrl: result.viewerUrl,
-        blobName: result.blobName,
-        size: result.size,
-        expiresAt: result.expiresAt,
+        jobId: job.id,
+        status: job.status,
+        statusUrl: `/api/share/uploads/${job.id}`,
+        eventsUrl: `/api/share/uploads/${job.id}/events`,
+        owner: pending.owner,
+        blobName: pending.blobName,
         sessionId,
+        manageToken,
       });
     } catch (error) {
-      cleanup();
+      uploadService.releaseWalletUpload(pending);
+      settleQuota();
       const errMsg = error instanceof Error ? error.message : String(error);
       const errStack = error instanceof Error ? error.stack : undefined;
-      logger.error({ errMsg, errStack }, "Failed to upload file");
+      logger.error({ errMsg, errStack }, "Failed to start wallet upload completion");
       res.status(500).json({ error: errMsg });
     }
   });
 
+  /**
+   * GET /api/share/uploads/:id
+   * Get the status of an upload job
+   */
+  router.get("/share/uploads/:id", (req, res) => {
+    if (!uploadJobService) {
+      return res.status(503).json({ error: "Upload service not available" });
+    }
+
+    try {
+      const job = uploadJobService.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: "Upload job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      logger.error({ error }, "Failed to get upload job");
+      res.status(500).json({ error: "Failed to get upload job" });
+    }
+  });
+
+  /**
+   * GET /api/share/uploads/:id/events
+   * Server-Sent Events stream of upload job progress (closes once the job finishes)
+   */
+  router.get("/share/uploads/:id/events", (req, res) => {
+    if (!uploadJobService) {
+      return res.status(503).json({ error: "Upload service not available" });
+    }
+
+    const jobId = req.params.id;
+    const job = uploadJobService.getJob(jobId);
+    if (!job) {
+      return res.status(404).json({ error: "Upload job not found" });
+    }
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+
+    const send = (update: UploadJob) => {
+      res.write(`event: progress\ndata: ${JSON.stringify(update)}\n\n`);
+    };
+    const isFinished = (update: UploadJob) => update.status === "done" || update.status === "failed";
+
+    send(job);
+    if (isFinished(job)) {
+      res.end();
+      return;
+    }
+
+    const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    const unsubscribe = uploadJobService.subscribe(jobId, (update) => {
+      send(update);
+      if (isFinished(update)) close();
+    });
+    req.on("close", close);
+  });
+
   /**
    * GET /api/share/info
    * Get info about the share/upload service
    */
   router.get("/share/info", (req, res) => {
-    res.json({
-      available: uploadService?.isAvailable() ?? false,
-      uploaderAddress: uploadService?.getAddress() ?? null,
-      maxFileSize: "2GB",
-      allowedTypes: ["png", "jpg", "jpeg", "gif", "webp", "svg", "ico", "avif", "mp4", "webm", "mov", "avi", "mkv", "pdf"],
-      expiration: "1 year",
-    });
+    try {
+      res.json({
+        available: uploadService?.isAvailable() ?? false,
+        uploaderAddress: uploadService?.getAddress() ?? null,
+        maxFileSize: "2GB",
+        allowedTypes: ["png", "jpg", "jpeg", "gif", "webp", "svg", "ico", "avif", "mp4", "webm", "mov", "avi", "mkv", "pdf"],
+        expiration: "1 year",
+        // Remaining quota for this caller's IP
+        quota: shareQuotaService ? shareQuotaService.getQuota(shareQuotaService.getClient(req)) : null,
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to get share info");
+      res.status(500).json({ error: "Failed to get share info" });
+    }
+  });
+
+  /**
+   * GET /api/share/admin/usage
+   * Today's upload usage per IP / wallet (read-only role)
+   * Query params: scope (ip|wallet), limit (default 100, max 1000)
+   */
+  router.get("/share/admin/usage", requireRole("read-only"), (req, res) => {
+    if (!shareQuotaService) {
+      return res.status(503).json({
+        error: "Upload service not available",
+        message: "SHELBY_PRIVATE_KEY not configured",
+      });
+    }
+
+    const scope = req.query.scope;
+    if (scope !== undefined && scope !== "ip" && scope !== "wallet") {
+      return res.status(400).json({ error: "scope must be 'ip' or 'wallet'" });
+    }
+    const limit = Math.min(Number.parseInt(req.query.limit as string) || 100, 1000);
+
+    try {
+      const clients = shareQuotaService.getUsageReport({ scope, limit });
+      res.json({
+        limits: shareQuotaService.getLimits(),
+        clients: clients.map((row) => ({
+          scope: row.scope,
+          client: row.client_key,
+          bytesToday: row.bytes_today,
+          filesThisHour: row.files_this_hour,
+        })),
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to get share usage");
+      res.status(500).json({ error: "Failed to get share usage" });
+    }
   });
 
   /**
@@ -674,9 +1963,10 @@ export function createRouter(
         return res.status(400).send("Missing session ID");
       }
 
-      const session = sessions.get(sessionId);
+      const session = getShareSession(sessionId);
+      const files = session && !isShareSessionExpired(session) ? getShareSessionFiles(sessionId) : [];
 
-      if (!session || session.files.length === 0) {
+      if (!session || files.length === 0) {
         // Return a nice "folder not found" page
         const html = `<!DOCTYPE html>
 <html lang="en">
@@ -749,22 +2039,33 @@ export function createRouter(
         return '📁';
       };
 
+      // Thumbnail when one was rendered at upload, otherwise an icon
+      const getFilePreview = (file: (typeof files)[number]): string =>
+        file.thumbnail_url
+          ? `<img class="file-thumbnail" src="${file.thumbnail_url}" alt="" loading="lazy" />`
+          : getFileIcon(file.original_name);
+
       // Generate file list HTML
-      const filesHtml = session.files.map(file => `
+      const filesHtml = files.map(file => `
         <div class="file-item">
-          <div class="file-icon">${getFileIcon(file.originalName)}</div>
+          <div class="file-icon">${getFilePreview(file)}</div>
           <div class="file-info">
-            <div class="file-name">${file.originalName}</div>
-            <div class="file-meta">${formatSize(file.size)}</div>
+            <div class="file-name">${escapeHtml(file.relative_path ?? file.original_name)}</div>
+            <div class="file-meta">${formatSize(file.size)}${file.content_hash ? ` · <span title="SHA-256 ${file.content_hash}">sha256 ${file.content_hash.slice(0, 12)}</span>` : ""}</div>
           </div>
           <div class="file-actions">
-            <a href="${file.viewerUrl}" target="_blank" class="btn-tab">View</a>
+            <a href="${file.viewer_url}" target="_blank" class="btn-tab">View</a>
             <a href="${file.url}" download class="btn-tab">Download</a>
           </div>
         </div>
       `).join('');
 
-      const totalSize = session.files.reduce((sum, f) => sum + f.size, 0);
+      const totalSize = files.reduce((sum, f) => sum + f.size, 0);
+      const folderTitle = session.title ? escapeHtml(session.title) : "Shared Folder";
+      const expiryHtml = session.expires_at
+        ? `<span style="color: var(--foreground2)">|</span>
+        <span style="color: var(--foreground2)">expires ${new Date(session.expires_at).toISOString().slice(0, 10)}</span>`
+        : "";
 
       const html = `<!DOCTYPE html>
 <html lang="en">
@@ -772,7 +2073,7 @@ export function createRouter(
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
   <meta name="theme-color" content="#FCFAF8">
-  <title>Shared Folder - Shelby Share</title>
+  <title>${folderTitle} - Shelby Share</title>
   <style>
     * { box-sizing: border-box; margin: 0; padding: 0; }
 
@@ -981,6 +2282,13 @@ export function createRouter(
       font-size: 1.25rem;
       flex-shrink: 0;
     }
+    .file-thumbnail {
+      display: block;
+      width: 48px;
+      height: 48px;
+      object-fit: cover;
+      border: 1px solid var(--background2);
+    }
     .file-info {
       flex: 1;
       min-width: 0;
@@ -1053,9 +2361,10 @@ export function createRouter(
       <!-- Status Bar -->
       <div class="status-bar">
         <span class="badge-success">● SHARED</span>
-        <span style="color: var(--foreground2)">${session.files.length} file${session.files.length !== 1 ? 's' : ''}</span>
+        <span style="color: var(--foreground2)">${files.length} file${files.length !== 1 ? 's' : ''}</span>
         <span style="color: var(--foreground2)">|</span>
         <span style="color: var(--foreground2)">${formatSize(totalSize)} total</span>
+        ${expiryHtml}
       </div>
 
       <!-- Terminal Content -->
@@ -1068,8 +2377,8 @@ export function createRouter(
         <!-- Files Section -->
         <div class="folder-section">
           <div class="section-header">
-            <span class="section-title">📁 Files</span>
-            <span class="file-count">${session.files.length}</span>
+            <span class="section-title">📁 ${folderTitle}</span>
+            <span class="file-count">${files.length}</span>
           </div>
           <div class="file-list">
             ${filesHtml}
@@ -1103,69 +2412,86 @@ export function createRouter(
   });
 
   /**
-   * GET /api/share/view/:address/:filename
-   * Proxy file from Shelby Protocol with Content-Disposition: inline
-   * This allows files to be displayed in browser instead of downloaded
+   * PATCH /api/share/folder/:sessionId
+   * Update a folder's title and/or expiry (requires the folder's manage token)
    */
-  router.get("/share/view/:address/:filename", async (req, res) => {
+  router.patch("/share/folder/:sessionId", (req, res) => {
     try {
-      const { address, filename } = req.params;
-
-      if (!address || !filename) {
-        return res.status(400).json({ error: "address and filename are required" });
+      const session = getShareSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      if (!hasShareManageToken(req, session)) {
+        return res.status(403).json({ error: "Invalid or missing share token for this folder" });
       }
 
-      // Determine content type from file extension
-      const ext = filename.split('.').pop()?.toLowerCase() || '';
-      const contentTypeMap: Record<string, string> = {
-        // Images
-        png: 'image/png',
-        jpg: 'image/jpeg',
-        jpeg: 'image/jpeg',
-        gif: 'image/gif',
-        webp: 'image/webp',
-        svg: 'image/svg+xml',
-        ico: 'image/x-icon',
-        avif: 'image/avif',
-        // Videos
-        mp4: 'video/mp4',
-        webm: 'video/webm',
-        mov: 'video/quicktime',
-        avi: 'video/x-msvideo',
-        mkv: 'video/x-matroska',
-        // Documents
-        pdf: 'application/pdf',
-      };
+      const title = parseSessionTitle(req.body?.title);
+      const expiresAt = parseExpiresAt(req.body?.expiresAt);
+      if (Number.isNaN(expiresAt)) {
+        return res.status(400).json({ error: "Invalid expiresAt" });
+      }
 
-      const contentType = contentTypeMap[ext] || 'application/octet-stream';
+      updateShareSession(session.id, { title, expiresAt });
+      const updated = getShareSession(session.id)!;
+      res.json({
+        sessionId: updated.id,
+        title: updated.title,
+        expiresAt: updated.expires_at ? new Date(updated.expires_at).toISOString() : null,
+      });
+    } catch (error) {
+      logger.error({ error }, "Failed to update folder");
+      res.status(500).json({ error: "Failed to update folder" });
+    }
+  });
 
-      // Fetch from Shelby Protocol
-      const shelbyUrl = `https://api.shelbynet.shelby.xyz/shelby/v1/blobs/${address}/${encodeURIComponent(filename)}`;
+  /**
+   * DELETE /api/share/folder/:sessionId
+   * Delete a folder link (requires the folder's manage token)
+   * Uploaded blobs remain on Shelby until they expire
+   */
+  router.delete("/share/folder/:sessionId", (req, res) => {
+    try {
+      const session = getShareSession(req.params.sessionId);
+      if (!session) {
+        return res.status(404).json({ error: "Folder not found" });
+      }
+      if (!hasShareManageToken(req, session)) {
+        return res.status(403).json({ error: "Invalid or missing share token for this folder" });
+      }
 
-      logger.info({ shelbyUrl, contentType }, "Proxying file for inline view");
+      const result = deleteShareSession(session.id);
+      res.json({ success: true, sessionId: session.id, filesDeleted: result.filesDeleted });
+    } catch (error) {
+      logger.error({ error }, "Failed to delete folder");
+      res.status(500).json({ error: "Failed to delete folder" });
+    }
+  });
 
-      const response = await fetch(shelbyUrl);
+  /**
+   * GET /api/share/view/:address/:filename
+   * Proxy file from Shelby Protocol with Content-Disposition: inline
+   * This allows files to be displayed in browser instead of downloaded.
+   * Streams the body and supports Range requests so video seeking works.
+   */
+  router.get("/share/view/:address/:filename", async (req, res) => {
+    try {
+      const { address, filename } = req.params;
 
-      if (!response.ok) {
-        logger.error({ status: response.status, shelbyUrl }, "Failed to fetch from Shelby");
-        return res.status(response.status).json({
-          error: `Failed to fetch file: ${response.statusText}`
-        });
+      if (!address || !filename) {
+        return res.status(400).json({ error: "address and filename are required" });
       }
 
-      // Set headers for inline display
-      res.setHeader('Content-Type', contentType);
-      res.setHeader('Content-Disposition', `inline; filename="${filename}"`);
+      // Serve the type detected at upload; blobs uploaded elsewhere fall back to the extension
+      const contentType =
+        getShareBlob(address, filename)?.content_type ?? getShareContentType(filename) ?? "application/octet-stream";
 
-      // Cache for 1 hour (files are immutable on Shelby)
-      res.setHeader('Cache-Control', 'public, max-age=3600');
-
-      // Stream the response
-      const arrayBuffer = await response.arrayBuffer();
-      res.send(Buffer.from(arrayBuffer));
+      // Stream from Shelby Protocol (handles HEAD, Range and conditional requests)
+      await proxyShelbyBlob(req, res, { address, filename, contentType });
     } catch (error) {
       logger.error({ error }, "Failed to proxy file for viewing");
-      res.status(500).json({ error: "Failed to fetch file" });
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Failed to fetch file" });
+      }
     }
   });
 
@@ -1181,15 +2507,14 @@ export function createRouter(
         return res.status(400).send("Missing address or filename");
       }
 
-      // Determine file type from extension
-      const ext = filename.split('.').pop()?.toLowerCase() || '';
-      const imageExts = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'svg', 'ico', 'avif'];
-      const videoExts = ['mp4', 'webm', 'mov', 'avi', 'mkv'];
-      const pdfExts = ['pdf'];
+      // Embed by the same type the view route serves
+      const blob = getShareBlob(address, filename);
+      const contentType = blob?.content_type ?? getShareContentType(filename) ?? '';
+      const thumbnailUrl = blob?.thumbnail_url ?? null;
 
-      const isImage = imageExts.includes(ext);
-      const isVideo = videoExts.includes(ext);
-      const isPdf = pdfExts.includes(ext);
+      const isImage = contentType.startsWith('image/');
+      const isVideo = contentType.startsWith('video/');
+      const isPdf = contentType === 'application/pdf';
 
       // URLs for viewing and downloading
       const viewUrl = `/api/share/view/${address}/${encodeURIComponent(filename)}`;
@@ -1208,7 +2533,7 @@ export function createRouter(
       } else if (isVideo) {
         embedHtml = `
           <div class="media-container video-container">
-            <video src="${viewUrl}" controls playsinline webkit-playsinline id="mainVideo"></video>
+            <video src="${viewUrl}"${thumbnailUrl ? ` poster="${thumbnailUrl}"` : ''} controls playsinline webkit-playsinline id="mainVideo"></video>
           </div>`;
         extraScripts = `
           // Auto-play video when loaded (muted for mobile autoplay policy)
@@ -1225,13 +2550,14 @@ export function createRouter(
             <iframe src="${viewUrl}" id="pdfFrame" class="pdf-desktop"></iframe>
             <div class="pdf-mobile">
               <div class="pdf-icon">
+                ${thumbnailUrl ? `<img src="${thumbnailUrl}" alt="First page of ${filename}" class="pdf-thumbnail" />` : `
                 <svg width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="1.5">
                   <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
                   <polyline points="14 2 14 8 20 8"/>
                   <line x1="16" y1="13" x2="8" y2="13"/>
                   <line x1="16" y1="17" x2="8" y2="17"/>
                   <polyline points="10 9 9 9 8 9"/>
-                </svg>
+                </svg>`}
               </div>
               <p class="pdf-filename">${filename}</p>
               <p class="pdf-hint">Tap the button below to view or download</p>
@@ -1260,6 +2586,7 @@ export function createRouter(
               gap: 1rem;
             }
             .pdf-icon { color: #FF1493; margin-bottom: 0.5rem; }
+            .pdf-thumbnail { display: block; max-width: 60vw; max-height: 40vh; border: 1px solid #FFC2E1; }
             .pdf-filename { font-size: 1.1rem; font-weight: 500; word-break: break-all; color: #1a1a1a; }
             .pdf-hint { color: #737373; font-size: 0.9rem; }
           }
@@ -1286,7 +2613,8 @@ export function createRouter(
   <meta name="theme-color" content="#FCFAF8">
   <meta name="apple-mobile-web-app-capable" content="yes">
   <meta name="apple-mobile-web-app-status-bar-style" content="default">
-  <title>${filename} - Shelby Share</title>
+  <title>${filename} - Shelby Share</title>${thumbnailUrl ? `
+  <meta property="og:image" content="${req.protocol}://${req.get("host")}${thumbnailUrl}">` : ''}
   <style>
     * { box-sizing: border-box; margin: 0; padding: 0; }
     html, body {
@@ -0,0 +1,122 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { pipeline } from "node:stream/promises";
+import yauzl from "yauzl";
+
+// Files that archivers add alongside the real content
+const ZIP_JUNK_PATTERN = /(^|\/)(__MACOSX\/|\.DS_Store$|Thumbs\.db$)/;
+const MAX_RELATIVE_PATH_LENGTH = 512;
+
+/**
+ * A file in a batch upload, written to a temp file and ready to push to Shelby
+ */
+export interface BatchFile {
+  relativePath: string;
+  tempPath: string;
+  size: number;
+}
+
+export interface RejectedBatchFile {
+  relativePath: string;
+  error: string;
+}
+
+export interface ZipExtractOptions {
+  maxEntries: number;
+  maxEntryBytes: number;
+  maxTotalBytes: number;
+  /** Returns an error message for entries that should not be extracted */
+  validateEntry: (relativePath: string) => string | null;
+}
+
+/**
+ * Normalize a client-supplied relative path ("photos\\2024/./cat.png" -> "photos/2024/cat.png").
+ * Returns null for empty paths or paths that try to escape the folder.
+ */
+export function normalizeRelativePath(raw: string): string | null {
+  const segments = raw
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".");
+
+  if (segments.length === 0 || segments.includes("..")) return null;
+
+  const normalized = segments.join("/");
+  return normalized.length <= MAX_RELATIVE_PATH_LENGTH ? normalized : null;
+}
+
+export function isZipUpload(file: { originalname: string; mimetype: string }): boolean {
+  return (
+    file.mimetype === "application/zip" ||
+    file.mimetype === "application/x-zip-compressed" ||
+    path.extname(file.originalname).toLowerCase() === ".zip"
+  );
+}
+
+/**
+ * Temp file path in the same style as the multer uploads
+ */
+export function createTempUploadPath(name: string): string {
+  const uniqueSuffix = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return path.join(os.tmpdir(), `shelby-upload-${uniqueSuffix}${path.extname(name)}`);
+}
+
+/**
+ * Unpack a zip archive into temp files.
+ * Entries are streamed one at a time; sizes are checked against the central
+ * directory and enforced while inflating, so a zip bomb cannot fill the disk.
+ * Throws (after removing anything already extracted) if the archive itself is invalid.
+ */
+export async function extractZipArchive(
+  zipPath: string,
+  options: ZipExtractOptions
+): Promise<{ files: BatchFile[]; rejected: RejectedBatchFile[] }> {
+  const files: BatchFile[] = [];
+  const rejected: RejectedBatchFile[] = [];
+  let totalBytes = 0;
+
+  const zip = await yauzl.openPromise(zipPath, { validateEntrySizes: true });
+  try {
+    for await (const entry of zip.eachEntry()) {
+      // Directory entries end with a slash; their files are listed separately
+      if (entry.fileName.endsWith("/") || ZIP_JUNK_PATTERN.test(entry.fileName)) continue;
+
+      const relativePath = normalizeRelativePath(entry.fileName);
+      if (!relativePath) {
+        rejected.push({ relativePath: entry.fileName, error: "Invalid path" });
+        continue;
+      }
+      const validationError = options.validateEntry(relativePath);
+      if (validationError) {
+        rejected.push({ relativePath, error: validationError });
+        continue;
+      }
+      if (entry.uncompressedSize > options.maxEntryBytes) {
+        rejected.push({ relativePath, error: "File too large" });
+        continue;
+      }
+      if (files.length >= options.maxEntries) {
+        rejected.push({ relativePath, error: `Too many files in archive (max ${options.maxEntries})` });
+        continue;
+      }
+      if (totalBytes + entry.uncompressedSize > options.maxTotalBytes) {
+        rejected.push({ relativePath, error: "Archive too large when unpacked" });
+        continue;
+      }
+
+      const file = { relativePath, tempPath: createTempUploadPath(relativePath), size: entry.uncompressedSize };
+      files.push(file);
+      totalBytes += file.size;
+      const stream = await zip.openReadStreamPromise(entry);
+      await pipeline(stream, fs.createWriteStream(file.tempPath));
+    }
+  } catch (error) {
+    await Promise.all(files.map((file) => fs.promises.rm(file.tempPath, { force: true })));
+    throw error;
+  } finally {
+    if (zip.isOpen) zip.close();
+  }
+
+  return { files, rejected };
+}
@@ -0,0 +1,157 @@
+import fs from "node:fs";
+import path from "node:path";
+
+// Enough of the file for every signature below, including an SVG's XML prolog and comments
+const SNIFF_BYTES = 4096;
+
+// Content types Shelby Share accepts and serves, keyed by file extension
+export const SHARE_CONTENT_TYPES: Record<string, string> = {
+  // Images
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+  avif: "image/avif",
+  // Videos
+  mp4: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  // Documents
+  pdf: "application/pdf",
+};
+
+export const ALLOWED_UPLOAD_TYPES = new Set(Object.values(SHARE_CONTENT_TYPES));
+
+// Types that share a container format, so a file labelled as one may really be the other
+const COMPATIBLE_TYPES = [
+  ["video/mp4", "video/quicktime"],
+  ["video/webm", "video/x-matroska"],
+];
+
+// Leading XML that may come before an SVG's root element
+const SVG_PREAMBLE_PATTERN = /^(\s+|<\?xml[\s\S]*?\?>|<!--[\s\S]*?-->|<!DOCTYPE[^>]*>)/i;
+
+export function getShareContentType(filename: string): string | null {
+  const ext = filename.split(".").pop()?.toLowerCase() || "";
+  return SHARE_CONTENT_TYPES[ext] ?? null;
+}
+
+/**
+ * Check a batch file's type. Browsers send a generic type for files they don't
+ * recognise (and zip entries have none), so fall back to the extension.
+ */
+export function getShareFileTypeError(name: string, mimetype: string): string | null {
+  if (ALLOWED_UPLOAD_TYPES.has(mimetype)) return null;
+  const isGeneric = mimetype === "" || mimetype === "application/octet-stream";
+  if (isGeneric && getShareContentType(name)) return null;
+  return `File type ${mimetype || path.extname(name) || "unknown"} not allowed`;
+}
+
+/**
+ * ISO base media files (MP4, QuickTime, AVIF) list their brands in the leading ftyp box
+ */
+function detectIsoMediaType(header: Buffer): string | null {
+  const boxEnd = Math.min(header.readUInt32BE(0), header.length);
+  const brands: string[] = [header.toString("latin1", 8, 12)];
+  for (let offset = 16; offset + 4 <= boxEnd; offset += 4) {
+    brands.push(header.toString("latin1", offset, offset + 4));
+  }
+
+  if (brands.includes("avif") || brands.includes("avis")) return "image/avif";
+  if (brands[0] === "qt  ") return "video/quicktime";
+  // Other HEIF images (e.g. HEIC photos) aren't supported
+  if (brands.some((brand) => ["heic", "heix", "mif1", "msf1"].includes(brand))) return null;
+  return "video/mp4";
+}
+
+/**
+ * Matroska and WebM share the EBML container; the DocType element tells them apart
+ */
+function detectMatroskaType(header: Buffer): string | null {
+  const docTypeAt = header.indexOf(Buffer.from([0x42, 0x82]));
+  if (docTypeAt === -1 || docTypeAt + 3 > header.length) return null;
+  // One-byte size (0x8N) for the short DocType strings
+  const length = header[docTypeAt + 2] & 0x7f;
+  const docType = header.toString("latin1", docTypeAt + 3, docTypeAt + 3 + length);
+  if (docType === "webm") return "video/webm";
+  if (docType === "matroska") return "video/x-matroska";
+  return null;
+}
+
+function isSvg(header: Buffer): boolean {
+  let text = header.toString("utf8").replace(/^\uFEFF/, "");
+  for (let match = SVG_PREAMBLE_PATTERN.exec(text); match; match = SVG_PREAMBLE_PATTERN.exec(text)) {
+    text = text.slice(match[0].length);
+  }
+  return /^<svg[\s>/]/i.test(text);
+}
+
+/**
+ * Detect a file's type from its leading bytes. Returns null for anything Shelby Share doesn't accept.
+ */
+export function detectContentType(header: Buffer): string | null {
+  const startsWith = (bytes: number[], offset = 0) => bytes.every((byte, i) => header[offset + i] === byte);
+  const ascii = (start: number, end: number) => header.toString("latin1", start, end);
+
+  if (startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (startsWith([0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "AVI ") return "video/x-msvideo";
+  // ICO: reserved 0, type 1, at least one image
+  if (header.length >= 6 && startsWith([0x00, 0x00, 0x01, 0x00]) && header.readUInt16LE(4) > 0) return "image/x-icon";
+  if (ascii(0, 5) === "%PDF-") return "application/pdf";
+  if (startsWith([0x1a, 0x45, 0xdf, 0xa3])) return detectMatroskaType(header);
+  if (header.length >= 12 && ascii(4, 8) === "ftyp") return detectIsoMediaType(header);
+  if (isSvg(header)) return "image/svg+xml";
+  return null;
+}
+
+/**
+ * Detect the type of a file on disk from its contents
+ */
+export async function sniffContentType(filePath: string): Promise<string | null> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(SNIFF_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_BYTES, 0);
+    return detectContentType(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+function isCompatibleType(claimed: string, detected: string): boolean {
+  return claimed === detected || COMPATIBLE_TYPES.some((group) => group.includes(claimed) && group.includes(detected));
+}
+
+/**
+ * Check that an uploaded file really is what its MIME type and extension say.
+ * Returns the detected content type to store and serve, or an error message.
+ */
+export async function checkShareFileContent(
+  filePath: string,
+  claimed: { name: string; mimetype: string }
+): Promise<{ contentType: string; error: null } | { contentType: null; error: string }> {
+  const detected = await sniffContentType(filePath);
+  if (!detected) {
+    return { contentType: null, error: "File content is not a supported type" };
+  }
+
+  // Generic MIME types and unknown extensions say nothing, so only known claims are checked
+  const claims = [
+    ALLOWED_UPLOAD_TYPES.has(claimed.mimetype) ? claimed.mimetype : null,
+    getShareContentType(claimed.name),
+  ].filter((type): type is string => type !== null);
+  const mismatch = claims.find((type) => !isCompatibleType(type, detected));
+  if (mismatch) {
+    return { contentType: null, error: `File content (${detected}) does not match its type (${mismatch})` };
+  }
+
+  return { contentType: detected, error: null };
+}
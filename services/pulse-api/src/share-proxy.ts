@@ -0,0 +1,252 @@
+import { createHash } from "node:crypto";
+import { Readable, Transform, type TransformCallback } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import type { Request, Response } from "express";
+import { logger } from "./logger";
+import { getBlobEventByName } from "./db";
+import { SHELBY_RPC_BASE } from "./upload-service";
+
+// Inline styles are all an SVG needs to render; sandbox also blocks scripts when opened directly
+const SVG_CONTENT_SECURITY_POLICY = "default-src 'none'; style-src 'unsafe-inline'; sandbox";
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Parse a single-range "bytes=" Range header against a known size.
+ * Returns null when the header is absent, malformed or multi-range (serve the full body),
+ * and "unsatisfiable" when the range lies outside the blob.
+ */
+export function parseRangeHeader(header: string | undefined, size: number): ByteRange | "unsatisfiable" | null {
+  if (!header) return null;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return null;
+
+  const [, startStr, endStr] = match;
+  if (startStr === "" && endStr === "") return null;
+
+  if (startStr === "") {
+    // Suffix range: last N bytes
+    const suffix = Number(endStr);
+    if (suffix === 0) return "unsatisfiable";
+    return { start: Math.max(0, size - suffix), end: size - 1 };
+  }
+
+  const start = Number(startStr);
+  const end = endStr === "" ? size - 1 : Math.min(Number(endStr), size - 1);
+  if (start >= size || start > end) return "unsatisfiable";
+  return { start, end };
+}
+
+/**
+ * Parse "bytes start-end/total" (or "bytes *\/total") from a Content-Range header
+ */
+function parseContentRangeTotal(header: string | null): number | null {
+  if (!header) return null;
+  const match = /\/(\d+)\s*$/.exec(header);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Transform that only passes through bytes [start, end] of the stream.
+ * Used when the upstream ignores our Range header and returns the full body.
+ */
+function createByteRangeTransform(range: ByteRange): Transform {
+  let offset = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback) {
+      const chunkStart = offset;
+      const chunkEnd = offset + chunk.length; // exclusive
+      offset = chunkEnd;
+
+      if (chunkEnd <= range.start || chunkStart > range.end) {
+        callback();
+        return;
+      }
+      const from = Math.max(0, range.start - chunkStart);
+      const to = Math.min(chunk.length, range.end - chunkStart + 1);
+      callback(null, chunk.subarray(from, to));
+    },
+  });
+}
+
+function etagMatches(ifNoneMatch: string, etag: string): boolean {
+  if (ifNoneMatch.trim() === "*") return true;
+  // Weak comparison (RFC 9110 section 13.1.2)
+  const normalize = (tag: string) => tag.trim().replace(/^W\//, "");
+  return ifNoneMatch.split(",").some((tag) => normalize(tag) === normalize(etag));
+}
+
+/**
+ * Blobs are immutable once registered, so the name plus size plus modification
+ * time identifies the content well enough for a weak validator.
+ */
+function computeWeakEtag(address: string, filename: string, size: number | null, lastModified: string | null): string {
+  const hash = createHash("sha1")
+    .update(`${address}/${filename}:${size ?? ""}:${lastModified ?? ""}`)
+    .digest("hex")
+    .slice(0, 27);
+  return `W/"${hash}"`;
+}
+
+/**
+ * An inline Content-Disposition for a blob name (RFC 6266). The quoted
+ * filename is an ASCII fallback with quotes and backslashes escaped; the
+ * exact name goes in filename* (RFC 5987), which current browsers prefer.
+ */
+export function formatContentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "\\$&");
+  // encodeURIComponent leaves these unescaped, but they aren't attr-chars
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Stream a blob from the Shelby RPC to the client.
+ * Supports HEAD, single byte ranges (206/416) and conditional requests (304).
+ */
+export async function proxyShelbyBlob(
+  req: Request,
+  res: Response,
+  options: { address: string; filename: string; contentType: string }
+): Promise<void> {
+  const { address, filename, contentType } = options;
+  const shelbyUrl = `${SHELBY_RPC_BASE}/v1/blobs/${address}/${encodeURIComponent(filename)}`;
+  const isHead = req.method === "HEAD";
+  const rangeHeader = req.get("range");
+
+  // Abort the upstream request if the client goes away
+  const controller = new AbortController();
+  res.on("close", () => controller.abort());
+
+  // HEAD only needs the metadata, so ask for a single byte
+  const upstreamHeaders: Record<string, string> = {};
+  if (isHead) {
+    upstreamHeaders.Range = "bytes=0-0";
+  } else if (rangeHeader) {
+    upstreamHeaders.Range = rangeHeader;
+  }
+
+  logger.debug({ shelbyUrl, range: upstreamHeaders.Range }, "Proxying blob from Shelby");
+
+  const upstream = await fetch(shelbyUrl, { headers: upstreamHeaders, signal: controller.signal });
+  const discardBody = () => {
+    upstream.body?.cancel().catch(() => {});
+  };
+
+  if (!upstream.ok && upstream.status !== 416) {
+    discardBody();
+    logger.error({ status: upstream.status, shelbyUrl }, "Failed to fetch from Shelby");
+    res.status(upstream.status).json({ error: `Failed to fetch file: ${upstream.statusText}` });
+    return;
+  }
+
+  // Work out the full blob size from whichever header the upstream gave us
+  const upstreamLength = upstream.headers.get("content-length");
+  const totalSize =
+    parseContentRangeTotal(upstream.headers.get("content-range")) ??
+    (upstream.status === 200 && upstreamLength !== null ? Number(upstreamLength) : null);
+
+  // Validators: prefer upstream headers, fall back to the indexed registration event
+  let lastModified = upstream.headers.get("last-modified");
+  if (!lastModified) {
+    const blobEvent = getBlobEventByName(address, filename);
+    if (blobEvent?.creation_timestamp) {
+      lastModified = new Date(blobEvent.creation_timestamp).toUTCString();
+    }
+  }
+  const etag = upstream.headers.get("etag") ?? computeWeakEtag(address, filename, totalSize, lastModified);
+
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Disposition", formatContentDisposition(filename));
+  // Browsers must not second-guess the type, and SVGs can carry scripts, so they get no script or network access
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  if (contentType === "image/svg+xml") {
+    res.setHeader("Content-Security-Policy", SVG_CONTENT_SECURITY_POLICY);
+  }
+  // Cache for 1 hour (files are immutable on Shelby)
+  res.setHeader("Cache-Control", "public, max-age=3600");
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  if (lastModified) {
+    res.setHeader("Last-Modified", lastModified);
+  }
+
+  // Conditional request: If-None-Match wins over If-Modified-Since
+  const ifNoneMatch = req.get("if-none-match");
+  const ifModifiedSince = req.get("if-modified-since");
+  const notModified = ifNoneMatch
+    ? etagMatches(ifNoneMatch, etag)
+    : Boolean(
+        ifModifiedSince &&
+          lastModified &&
+          Date.parse(lastModified) <= Date.parse(ifModifiedSince)
+      );
+  if (notModified) {
+    discardBody();
+    res.status(304).end();
+    return;
+  }
+
+  if (upstream.status === 416) {
+    discardBody();
+    if (totalSize !== null) res.setHeader("Content-Range", `bytes */${totalSize}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (isHead) {
+    discardBody();
+    if (totalSize !== null) res.setHeader("Content-Length", totalSize);
+    res.status(200).end();
+    return;
+  }
+
+  let body = upstream.body ? Readable.fromWeb(upstream.body as WebReadableStream<Uint8Array>) : null;
+
+  if (upstream.status === 206) {
+    // Upstream honoured the range - pass it straight through
+    const contentRange = upstream.headers.get("content-range");
+    if (contentRange) res.setHeader("Content-Range", contentRange);
+    if (upstreamLength !== null) res.setHeader("Content-Length", upstreamLength);
+    res.status(206);
+  } else {
+    const range = totalSize !== null ? parseRangeHeader(rangeHeader, totalSize) : null;
+    if (range === "unsatisfiable") {
+      discardBody();
+      res.setHeader("Content-Range", `bytes */${totalSize}`);
+      res.status(416).end();
+      return;
+    }
+    if (range && body) {
+      // Upstream ignored the range - slice the full body ourselves
+      body = body.pipe(createByteRangeTransform(range));
+      res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${totalSize}`);
+      res.setHeader("Content-Length", range.end - range.start + 1);
+      res.status(206);
+    } else {
+      if (totalSize !== null) res.setHeader("Content-Length", totalSize);
+      res.status(200);
+    }
+  }
+
+  if (!body) {
+    res.end();
+    return;
+  }
+
+  try {
+    await pipeline(body, res);
+  } catch (error) {
+    // Client disconnects mid-stream are expected (seeking in video players)
+    if ((error as NodeJS.ErrnoException).code !== "ERR_STREAM_PREMATURE_CLOSE" && !controller.signal.aborted) {
+      logger.warn({ error, shelbyUrl }, "Blob stream interrupted");
+    }
+  }
+}
@@ -0,0 +1,273 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import { logger } from "./logger";
+import {
+  addShareUsage,
+  deleteShareUsageBefore,
+  getShareUsage,
+  getShareUsageReport,
+  runInTransaction,
+  type ShareUsageReportRow,
+  type ShareUsageScope,
+} from "./db";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Usage is only needed for the current day; keep a little extra for the admin view
+const USAGE_RETENTION_MS = 2 * DAY_MS;
+const WALLET_ADDRESS_PATTERN = /^0x[0-9a-f]{1,64}$/;
+
+export interface ShareQuotaOptions {
+  /** Max bytes a client may upload per UTC day (0 = unlimited) */
+  bytesPerDay: number;
+  /** Max files a client may upload per clock hour (0 = unlimited) */
+  filesPerHour: number;
+}
+
+/**
+ * Whose quota an upload counts against: the IP it came from or, for a wallet
+ * upload, the wallet that signed its registration. A wallet address a client
+ * merely sends proves nothing, so it never gets a quota of its own.
+ */
+export interface ShareClient {
+  scope: ShareUsageScope;
+  key: string;
+}
+
+export interface ShareQuotaWindow {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: string;
+  /** Whose quota this is */
+  scope: ShareUsageScope;
+}
+
+export interface ShareQuota {
+  bytesPerDay: ShareQuotaWindow;
+  filesPerHour: ShareQuotaWindow;
+}
+
+export type ShareQuotaReason = "bytes_per_day" | "files_per_hour";
+
+export interface ShareUsage {
+  bytes: number;
+  files: number;
+}
+
+/**
+ * Usage held against a client's quotas while its upload is received, so
+ * concurrent uploads can't all spend the same remaining quota
+ */
+export interface ShareReservation {
+  client: ShareClient;
+  hourStart: number;
+  usage: ShareUsage;
+}
+
+export interface ShareReserveOptions {
+  /** Bytes the request will use at most, e.g. its Content-Length (null = unknown) */
+  bytes: number | null;
+  /** Files the request may upload */
+  maxFiles: number;
+  /** The files may unpack to more than `bytes` (zip archives), so hold all the bytes left */
+  unpacks?: boolean;
+}
+
+export type ShareReserveResult =
+  | { reservation: ShareReservation; quota: ShareQuota }
+  | { reservation: null; quota: ShareQuota; reason: ShareQuotaReason };
+
+function getWindowStarts(now: number): { dayStart: number; hourStart: number } {
+  return {
+    dayStart: Math.floor(now / DAY_MS) * DAY_MS,
+    hourStart: Math.floor(now / HOUR_MS) * HOUR_MS,
+  };
+}
+
+/**
+ * Read a wallet address sent by a client (e.g. the X-Wallet-Address header)
+ */
+export function parseWalletAddress(value: string | undefined): string | null {
+  const wallet = value?.trim().toLowerCase();
+  return wallet && WALLET_ADDRESS_PATTERN.test(wallet) ? wallet : null;
+}
+
+/**
+ * Upload quotas for the Shelby Share endpoints: per IP, and per wallet for the
+ * uploads a wallet signs
+ */
+export class ShareQuotaService {
+  private lastPrunedHour = 0;
+
+  constructor(private readonly options: ShareQuotaOptions) {}
+
+  getLimits(): { bytesPerDay: number | null; filesPerHour: number | null } {
+    return {
+      bytesPerDay: this.options.bytesPerDay > 0 ? this.options.bytesPerDay : null,
+      filesPerHour: this.options.filesPerHour > 0 ? this.options.filesPerHour : null,
+    };
+  }
+
+  /**
+   * The IP a request came from; headers can't vouch for a wallet
+   */
+  getClient(req: Request): ShareClient {
+    return { scope: "ip", key: req.ip || req.socket.remoteAddress || "unknown" };
+  }
+
+  /**
+   * Remaining quota for a client
+   */
+  getQuota(client: ShareClient, now: number = Date.now()): ShareQuota {
+    const { dayStart, hourStart } = getWindowStarts(now);
+    const limits = this.getLimits();
+    const usage = getShareUsage(client.scope, client.key, dayStart, hourStart);
+
+    const buildWindow = (limit: number | null, resetAt: number, used: number): ShareQuotaWindow => ({
+      limit,
+      used,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      resetAt: new Date(resetAt).toISOString(),
+      scope: client.scope,
+    });
+
+    return {
+      bytesPerDay: buildWindow(limits.bytesPerDay, dayStart + DAY_MS, usage.bytes_today),
+      filesPerHour: buildWindow(limits.filesPerHour, hourStart + HOUR_MS, usage.files_this_hour),
+    };
+  }
+
+  /**
+   * Count accepted uploads against the client's quota
+   */
+  recordUsage(client: ShareClient, usage: ShareUsage, now: number = Date.now()): void {
+    if (usage.bytes === 0 && usage.files === 0) return;
+    const { hourStart } = getWindowStarts(now);
+    this.addUsage(client, hourStart, usage);
+    this.pruneUsage(now);
+  }
+
+  /**
+   * Hold the most a request may use against the client's quotas, or say which
+   * quota it would exceed. Reading the quota and holding the usage share one
+   * transaction, so concurrent requests each see the others' reservations.
+   */
+  reserve(client: ShareClient, options: ShareReserveOptions, now: number = Date.now()): ShareReserveResult {
+    return runInTransaction(() => {
+      const quota = this.getQuota(client, now);
+      const filesLeft = quota.filesPerHour.remaining;
+      const bytesLeft = quota.bytesPerDay.remaining;
+
+      if (filesLeft === 0) {
+        return { reservation: null, quota, reason: "files_per_hour" as const };
+      }
+      if (bytesLeft !== null && options.bytes !== null && options.bytes > bytesLeft) {
+        return { reservation: null, quota, reason: "bytes_per_day" as const };
+      }
+
+      const usage = {
+        bytes: bytesLeft !== null && (options.unpacks || options.bytes === null) ? bytesLeft : (options.bytes ?? 0),
+        files: filesLeft === null ? options.maxFiles : Math.min(options.maxFiles, filesLeft),
+      };
+      const { hourStart } = getWindowStarts(now);
+      this.addUsage(client, hourStart, usage);
+      return { reservation: { client, hourStart, usage }, quota };
+    });
+  }
+
+  /**
+   * Replace a reservation with what the request actually used, refunding the
+   * rest (all of it when the upload was rejected)
+   */
+  settle(reservation: ShareReservation, used: ShareUsage, now: number = Date.now()): void {
+    this.addUsage(reservation.client, reservation.hourStart, {
+      bytes: used.bytes - reservation.usage.bytes,
+      files: used.files - reservation.usage.files,
+    });
+    this.pruneUsage(now);
+  }
+
+  /**
+   * Express middleware for upload routes. Reserves quota for the request
+   * before the upload is received, rejecting clients that are out of quota
+   * (or whose request body is larger than what is left). The route sees what
+   * it may use as `res.locals.shareQuota`; when the response is done the
+   * reservation is settled with whatever the route reported in
+   * `res.locals.shareUsage`, or refunded if it reported nothing.
+   */
+  middleware(options: Omit<ShareReserveOptions, "bytes">): RequestHandler {
+    return (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const client = this.getClient(req);
+        const contentLength = req.get("content-length");
+        const result = this.reserve(client, {
+          ...options,
+          bytes: contentLength === undefined ? null : Number(contentLength) || 0,
+        });
+        if (result.reservation === null) {
+          return sendShareQuotaExceeded(res, result.quota, result.reason);
+        }
+
+        const { reservation, quota } = result;
+        res.locals.shareQuota = {
+          bytesPerDay: { ...quota.bytesPerDay, remaining: quota.bytesPerDay.remaining === null ? null : reservation.usage.bytes },
+          filesPerHour: { ...quota.filesPerHour, remaining: quota.filesPerHour.remaining === null ? null : reservation.usage.files },
+        } satisfies ShareQuota;
+
+        // "close" follows "finish", and also fires alone when the client goes away
+        res.once("close", () => {
+          const usage = (res.locals.shareUsage as ShareUsage | undefined) ?? { bytes: 0, files: 0 };
+          try {
+            this.settle(reservation, usage);
+          } catch (error) {
+            logger.error({ error }, "Failed to settle share usage");
+          }
+        });
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  private addUsage(client: ShareClient, hourStart: number, usage: ShareUsage): void {
+    if (usage.bytes === 0 && usage.files === 0) return;
+    addShareUsage(client.scope, client.key, hourStart, usage);
+  }
+
+  private pruneUsage(now: number): void {
+    const { hourStart } = getWindowStarts(now);
+    if (hourStart === this.lastPrunedHour) return;
+    this.lastPrunedHour = hourStart;
+    const pruned = deleteShareUsageBefore(now - USAGE_RETENTION_MS);
+    if (pruned > 0) logger.debug({ pruned }, "Pruned old share usage");
+  }
+
+  /**
+   * Today's usage across all clients, heaviest first
+   */
+  getUsageReport(options: { scope?: ShareUsageScope; limit: number }, now: number = Date.now()): ShareUsageReportRow[] {
+    const { dayStart, hourStart } = getWindowStarts(now);
+    return getShareUsageReport(dayStart, hourStart, options);
+  }
+}
+
+/**
+ * Send a 429 explaining which quota ran out and when it resets
+ */
+export function sendShareQuotaExceeded(res: Response, quota: ShareQuota, reason: ShareQuotaReason): void {
+  const window = reason === "bytes_per_day" ? quota.bytesPerDay : quota.filesPerHour;
+  const retryAfterSeconds = Math.max(1, Math.ceil((Date.parse(window.resetAt) - Date.now()) / 1000));
+
+  res.setHeader("Retry-After", String(retryAfterSeconds));
+  res.status(429).json({
+    error: "Upload quota exceeded",
+    reason,
+    scope: window.scope,
+    limit: window.limit,
+    used: window.used,
+    resetAt: window.resetAt,
+    retryAfterSeconds,
+    quota,
+  });
+}
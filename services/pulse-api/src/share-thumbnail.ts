@@ -0,0 +1,100 @@
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import ffmpeg from "@ffmpeg-installer/ffmpeg";
+import sharp from "sharp";
+
+// Longest side of a thumbnail, in pixels
+export const THUMBNAIL_SIZE = 320;
+export const THUMBNAIL_EXTENSION = "webp";
+// Seconds into a video to take the poster frame from (skips fade-ins)
+const POSTER_FRAME_SECONDS = 1;
+const VIDEO_FRAME_TIMEOUT_MS = 30 * 1000;
+
+/**
+ * Renders a thumbnail for a file, or null when its type has none
+ */
+export type ThumbnailGenerator = (filePath: string, contentType: string) => Promise<Buffer | null>;
+
+/**
+ * Render the first page of a PDF at roughly twice the thumbnail size
+ */
+async function renderPdfPage(filePath: string): Promise<Buffer> {
+  // The WASM build is large, so only load it once a PDF is uploaded
+  const mupdf = await import("mupdf");
+  const document = mupdf.Document.openDocument(await fs.promises.readFile(filePath), "application/pdf");
+  try {
+    const page = document.loadPage(0);
+    const [x0, y0, x1, y1] = page.getBounds();
+    const scale = (THUMBNAIL_SIZE * 2) / Math.max(x1 - x0, y1 - y0, 1);
+    const pixmap = page.toPixmap(mupdf.Matrix.scale(scale, scale), mupdf.ColorSpace.DeviceRGB, false, true);
+    return Buffer.from(pixmap.asPNG());
+  } finally {
+    document.destroy();
+  }
+}
+
+/**
+ * Grab one frame of a video as a PNG with the bundled ffmpeg
+ */
+function extractVideoFrame(filePath: string, atSeconds: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const args = ["-hide_banner", "-loglevel", "error", "-ss", String(atSeconds), "-i", filePath];
+    args.push("-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "pipe:1");
+    const child = spawn(ffmpeg.path, args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    const chunks: Buffer[] = [];
+    let stderr = "";
+    child.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+
+    const timer = setTimeout(() => child.kill("SIGKILL"), VIDEO_FRAME_TIMEOUT_MS);
+    child.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (code === 0) {
+        resolve(Buffer.concat(chunks));
+      } else {
+        reject(new Error(`ffmpeg exited with ${signal ?? code}: ${stderr.trim().slice(0, 200)}`));
+      }
+    });
+  });
+}
+
+async function renderVideoPoster(filePath: string): Promise<Buffer | null> {
+  const frame = await extractVideoFrame(filePath, POSTER_FRAME_SECONDS);
+  if (frame.length > 0) return frame;
+  // Clips shorter than the poster offset produce no frame there
+  const firstFrame = await extractVideoFrame(filePath, 0);
+  return firstFrame.length > 0 ? firstFrame : null;
+}
+
+/**
+ * Render a WebP thumbnail for an image, the first page of a PDF or a poster
+ * frame of a video. Everything runs in-process or with the bundled ffmpeg,
+ * so no network access or system packages are needed.
+ */
+export async function generateThumbnail(filePath: string, contentType: string): Promise<Buffer | null> {
+  let source: string | Buffer | null;
+  if (contentType === "application/pdf") {
+    source = await renderPdfPage(filePath);
+  } else if (contentType.startsWith("video/")) {
+    source = await renderVideoPoster(filePath);
+  } else if (contentType.startsWith("image/") && contentType !== "image/x-icon") {
+    // Icons are already thumbnail-sized (and not something sharp reads)
+    source = filePath;
+  } else {
+    source = null;
+  }
+  if (!source) return null;
+
+  return sharp(source, { animated: false })
+    .rotate()
+    .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+    .webp({ quality: 75 })
+    .toBuffer();
+}
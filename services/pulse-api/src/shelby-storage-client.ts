@@ -0,0 +1,273 @@
+import {
+  type Account,
+  AccountAddress,
+  Hex,
+  MoveVector,
+  Network,
+  type U8,
+  isUserTransactionResponse,
+} from "@aptos-labs/ts-sdk";
+import {
+  ShelbyBlobClient,
+  ShelbyNodeClient,
+  createDefaultErasureCodingProvider,
+  expectedTotalChunksets,
+  generateCommitments,
+  type ErasureCodingProvider,
+} from "@shelby-protocol/sdk/node";
+import { logger } from "./logger";
+
+/**
+ * register_blob entry function payload in a JSON-safe form, for a browser wallet
+ * to sign and submit (`signAndSubmitTransaction({ data: payload })`)
+ */
+export interface RegisterBlobPayload {
+  function: `${string}::${string}::${string}`;
+  typeArguments: [];
+  functionArguments: Array<string | number | number[]>;
+}
+
+/**
+ * The subset of Shelby operations the upload pipeline needs.
+ * Kept narrow so tests can substitute a local fake client.
+ */
+export interface ShelbyStorageClient {
+  /** Whether a blob with this name is already registered for the owner */
+  blobExists(owner: string, blobName: string): Promise<boolean>;
+  /** Erasure-code the data stream and return its merkle root */
+  generateCommitments(data: ReadableStream<Uint8Array>): Promise<{ blobMerkleRoot: string }>;
+  /** Register the blob on-chain and wait for the transaction; returns the transaction hash */
+  registerBlob(params: {
+    signer: Account;
+    blobName: string;
+    blobMerkleRoot: string;
+    size: number;
+    expirationMicros: number;
+  }): Promise<string>;
+  /** Build the registration payload for the owner's wallet to sign (the owner pays for the blob) */
+  createRegisterBlobPayload(params: {
+    owner: string;
+    blobName: string;
+    blobMerkleRoot: string;
+    size: number;
+    expirationMicros: number;
+  }): RegisterBlobPayload;
+  /**
+   * Wait for a wallet-submitted transaction and check that it registered this
+   * blob for the owner with the expected commitments. Throws if it did not.
+   */
+  verifyBlobRegistration(params: {
+    transactionHash: string;
+    owner: string;
+    blobName: string;
+    blobMerkleRoot: string;
+  }): Promise<void>;
+  /** Start a multipart upload to the Shelby RPC; returns the upload ID */
+  startMultipartUpload(params: { owner: string; blobName: string; partSize: number }): Promise<string>;
+  uploadPart(uploadId: string, partIdx: number, data: Uint8Array<ArrayBuffer>): Promise<void>;
+  completeMultipartUpload(uploadId: string): Promise<void>;
+  fundAccountWithShelbyUSD(address: string, amount: number): Promise<void>;
+  fundAccountWithAPT(address: string, amount: number): Promise<void>;
+}
+
+const PART_UPLOAD_RETRIES = 5;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * MoveVector<u8> arguments become plain byte arrays, which the wallet converts back
+ */
+function toJsonArgument(arg: unknown): string | number | number[] {
+  if (arg instanceof MoveVector) return arg.values.map((value) => (value as U8).value);
+  if (typeof arg === "string" || typeof arg === "number") return arg;
+  if (typeof arg === "bigint") return arg.toString();
+  throw new Error(`Unsupported register_blob argument: ${String(arg)}`);
+}
+
+async function readErrorBody(response: Response): Promise<string> {
+  try {
+    return await response.text();
+  } catch {
+    return "Could not read error body";
+  }
+}
+
+/**
+ * ShelbyStorageClient backed by the Shelby SDK.
+ *
+ * The SDK's own `putBlob` only accepts a fully buffered Uint8Array, so the
+ * multipart RPC calls are made directly here to let callers stream parts from disk.
+ */
+export class SdkShelbyStorageClient implements ShelbyStorageClient {
+  private readonly client: ShelbyNodeClient;
+  private provider: Promise<ErasureCodingProvider> | null = null;
+
+  constructor(apiKey?: string) {
+    this.client = new ShelbyNodeClient({
+      network: Network.SHELBYNET,
+      apiKey: apiKey || undefined,
+    });
+  }
+
+  async blobExists(owner: string, blobName: string): Promise<boolean> {
+    const metadata = await this.client.coordination.getBlobMetadata({
+      account: owner,
+      name: blobName,
+    });
+    return Boolean(metadata);
+  }
+
+  async generateCommitments(data: ReadableStream<Uint8Array>): Promise<{ blobMerkleRoot: string }> {
+    if (!this.provider) {
+      this.provider = createDefaultErasureCodingProvider();
+    }
+    const commitments = await generateCommitments(await this.provider, data);
+    return { blobMerkleRoot: commitments.blob_merkle_root };
+  }
+
+  async registerBlob(params: {
+    signer: Account;
+    blobName: string;
+    blobMerkleRoot: string;
+    size: number;
+    expirationMicros: number;
+  }): Promise<string> {
+    const { transaction } = await this.client.coordination.registerBlob({
+      account: params.signer,
+      blobName: params.blobName,
+      blobMerkleRoot: params.blobMerkleRoot,
+      size: params.size,
+      expirationMicros: params.expirationMicros,
+    });
+    await this.client.coordination.aptos.waitForTransaction({
+      transactionHash: transaction.hash,
+    });
+    return transaction.hash;
+  }
+
+  createRegisterBlobPayload(params: {
+    owner: string;
+    blobName: string;
+    blobMerkleRoot: string;
+    size: number;
+    expirationMicros: number;
+  }): RegisterBlobPayload {
+    const payload = ShelbyBlobClient.createRegisterBlobPayload({
+      deployer: this.client.coordination.deployer,
+      account: AccountAddress.from(params.owner),
+      blobName: params.blobName,
+      blobSize: params.size,
+      blobMerkleRoot: params.blobMerkleRoot,
+      expirationMicros: params.expirationMicros,
+      numChunksets: expectedTotalChunksets(params.size),
+    });
+    if (!("function" in payload)) {
+      throw new Error("Unexpected register_blob payload");
+    }
+    return {
+      function: payload.function,
+      typeArguments: [],
+      functionArguments: payload.functionArguments.map(toJsonArgument),
+    };
+  }
+
+  async verifyBlobRegistration(params: {
+    transactionHash: string;
+    owner: string;
+    blobName: string;
+    blobMerkleRoot: string;
+  }): Promise<void> {
+    const transaction = await this.client.coordination.aptos.waitForTransaction({
+      transactionHash: params.transactionHash,
+    });
+    if (!isUserTransactionResponse(transaction) || !transaction.success) {
+      throw new Error(`Registration transaction failed: ${transaction.vm_status}`);
+    }
+    if (!AccountAddress.from(transaction.sender).equals(AccountAddress.from(params.owner))) {
+      throw new Error("Registration transaction was not sent by the blob owner");
+    }
+
+    // register_blob(blob_name, expiration_micros, blob_merkle_root, ...)
+    const payload = transaction.payload;
+    const [moduleAddress, moduleName, functionName] = "function" in payload ? payload.function.split("::") : [];
+    const isRegisterBlob =
+      moduleName === "blob_metadata" &&
+      functionName === "register_blob" &&
+      AccountAddress.from(moduleAddress).equals(this.client.coordination.deployer);
+    if (
+      !isRegisterBlob ||
+      !("arguments" in payload) ||
+      payload.arguments[0] !== params.blobName ||
+      !Hex.fromHexInput(payload.arguments[2]).equals(Hex.fromHexInput(params.blobMerkleRoot))
+    ) {
+      throw new Error("Transaction did not register the prepared blob");
+    }
+  }
+
+  async startMultipartUpload(params: { owner: string; blobName: string; partSize: number }): Promise<string> {
+    const response = await fetch(`${this.client.rpc.baseUrl}/v1/multipart-uploads`, {
+      method: "POST",
+      headers: this.headers("application/json"),
+      body: JSON.stringify({
+        rawAccount: params.owner,
+        rawBlobName: params.blobName,
+        rawPartSize: params.partSize,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to start multipart upload! status: ${response.status}, body: ${await readErrorBody(response)}`
+      );
+    }
+    const { uploadId } = (await response.json()) as { uploadId: string };
+    return uploadId;
+  }
+
+  async uploadPart(uploadId: string, partIdx: number, data: Uint8Array<ArrayBuffer>): Promise<void> {
+    for (let attempt = 0; attempt < PART_UPLOAD_RETRIES; attempt++) {
+      const response = await fetch(
+        `${this.client.rpc.baseUrl}/v1/multipart-uploads/${uploadId}/parts/${partIdx}`,
+        {
+          method: "PUT",
+          headers: this.headers("application/octet-stream"),
+          body: data,
+        }
+      );
+      if (response.ok) return;
+
+      logger.warn({ uploadId, partIdx, status: response.status, attempt }, "Part upload failed");
+      if (attempt < PART_UPLOAD_RETRIES - 1) {
+        await sleep(2 ** attempt * 100);
+      }
+    }
+    throw new Error(`Failed to upload part ${partIdx}.`);
+  }
+
+  async completeMultipartUpload(uploadId: string): Promise<void> {
+    const response = await fetch(`${this.client.rpc.baseUrl}/v1/multipart-uploads/${uploadId}/complete`, {
+      method: "POST",
+      headers: this.headers("application/json"),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `Failed to complete multipart upload! status: ${response.status}, body: ${await readErrorBody(response)}`
+      );
+    }
+  }
+
+  async fundAccountWithShelbyUSD(address: string, amount: number): Promise<void> {
+    await this.client.fundAccountWithShelbyUSD({ address, amount });
+  }
+
+  async fundAccountWithAPT(address: string, amount: number): Promise<void> {
+    await this.client.fundAccountWithAPT({ address, amount });
+  }
+
+  private headers(contentType: string): Record<string, string> {
+    const apiKey = this.client.rpc.apiKey;
+    return {
+      "Content-Type": contentType,
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    };
+  }
+}
@@ -1,6 +1,7 @@
 import type { ShelbyAptosClient } from '../aptos-client';
 import { logger } from '../logger';
 import { getAllTimeAggregates, getActivityCount, getLastSyncedVersion } from '../db';
+import { shelbyUsdHolders, shelbyUsdSupply } from '../metrics';
 
 export interface AllTimeStats {
   totalSupply: number; // Total ShelbyUSD in circulation
@@ -41,6 +42,8 @@ export async function getAllTimeStats(
       const balances = await aptosClient.getShelbyUSDBalances(10000);
       const totalSupply = balances.reduce((sum, b) => sum + b.balance, 0);
       const totalHolders = balances.filter(b => b.balance > 0).length;
+      shelbyUsdSupply.set(totalSupply);
+      shelbyUsdHolders.set(totalHolders);
 
       // Calculate total volume from DB aggregates
       // Volume = all token movement (deposits include faucet mints)
@@ -82,6 +85,8 @@ export async function getAllTimeStats(
     const totalSupply = balances.reduce((sum, b) => sum + b.balance, 0);
     const totalHolders = balances.filter(b => b.balance > 0).length;
     const totalTransactions = activities.length;
+    shelbyUsdSupply.set(totalSupply);
+    shelbyUsdHolders.set(totalHolders);
 
     const uniqueTransfers = new Map<string, number>();
     for (const activity of activities) {
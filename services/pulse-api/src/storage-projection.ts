@@ -0,0 +1,80 @@
+import { getBlobExpirationStats, getExpiringBytesByDay, getUploadedBytesSince } from './db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Horizons the projection summarizes, in days; the curve runs to the last one
+export const PROJECTION_HORIZONS = [30, 90, 365] as const;
+// Recent window the upload rate is averaged over
+const UPLOAD_RATE_WINDOW_DAYS = 30;
+
+export interface StorageProjectionPoint {
+  timestamp: number;
+  // Bytes of today's live blobs that will still be live
+  retainedBytes: number;
+  // retainedBytes plus new uploads at the recent daily rate
+  projectedBytes: number;
+  // Bytes expiring during the day that ends at `timestamp`
+  expiringBytes: number;
+}
+
+export interface StorageProjectionHorizon {
+  days: number;
+  retainedBytes: number;
+  projectedBytes: number;
+  // Blobs and bytes expiring within the horizon
+  expiringBlobs: number;
+  expiringBytes: number;
+}
+
+export interface StorageProjection {
+  from: number;
+  liveBytes: number;
+  dailyUploadBytes: number;
+  horizons: StorageProjectionHorizon[];
+  // One point per day, starting at `from`
+  points: StorageProjectionPoint[];
+}
+
+/**
+ * Project live storage a year ahead, day by day. Today's blobs drop out as
+ * they expire; new uploads are assumed to keep arriving at the last 30 days'
+ * average and to outlive the projection.
+ */
+export function getStorageProjection(now: number = Date.now()): StorageProjection {
+  const maxDays = PROJECTION_HORIZONS[PROJECTION_HORIZONS.length - 1];
+  const { live_bytes: liveBytes } = getBlobExpirationStats(now, now);
+  const dailyUploadBytes = Math.round(
+    getUploadedBytesSince(now - UPLOAD_RATE_WINDOW_DAYS * DAY_MS) / UPLOAD_RATE_WINDOW_DAYS
+  );
+  const expiring = new Map(getExpiringBytesByDay(now, maxDays).map((row) => [row.day, row]));
+
+  const points: StorageProjectionPoint[] = [];
+  const horizons: StorageProjectionHorizon[] = [];
+  let retainedBytes = liveBytes;
+  let expiringBlobs = 0;
+  for (let day = 0; day <= maxDays; day++) {
+    const expiringBytes = expiring.get(day)?.bytes ?? 0;
+    retainedBytes -= expiringBytes;
+    expiringBlobs += expiring.get(day)?.blobs ?? 0;
+
+    const point = {
+      timestamp: now + day * DAY_MS,
+      retainedBytes,
+      projectedBytes: retainedBytes + dailyUploadBytes * day,
+      expiringBytes,
+    };
+    points.push(point);
+
+    if ((PROJECTION_HORIZONS as readonly number[]).includes(day)) {
+      horizons.push({
+        days: day,
+        expiringBlobs,
+        retainedBytes: point.retainedBytes,
+        projectedBytes: point.projectedBytes,
+        expiringBytes: liveBytes - point.retainedBytes,
+      });
+    }
+  }
+
+  return { from: now, liveBytes, dailyUploadBytes, horizons, points };
+}
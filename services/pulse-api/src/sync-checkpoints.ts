@@ -0,0 +1,73 @@
+/**
+ * Helpers shared by the activity and blob event syncs for paging the indexer
+ * by version and recording what each sync covered (see sync-verifier.ts)
+ */
+
+// Most rows one checkpoint covers, so repairing a range refetches a few pages at most
+export const CHECKPOINT_MAX_ROWS = 1000;
+
+/**
+ * A Hasura bigint_comparison_exp on transaction_version ({} matches all)
+ */
+export type VersionFilter = { _gt?: number; _gte?: number; _lte?: number };
+
+/**
+ * A version range (both ends inclusive) and how many rows the indexer
+ * returned for it when it was synced
+ */
+export interface CheckpointRange {
+  from_version: number;
+  to_version: number;
+  row_count: number;
+}
+
+/**
+ * GraphQL variables for a version filter (bigints are sent as strings)
+ */
+export function versionVariables(versions: VersionFilter): Record<string, string> {
+  return Object.fromEntries(Object.entries(versions).map(([op, version]) => [op, version.toString()]));
+}
+
+/**
+ * Drop the last transaction of a fetch that stopped before the end. Some of
+ * its events may be on the page that wasn't fetched, and a later `_gt` sync
+ * would never see them.
+ */
+export function dropPartialTransaction<T extends { transaction_version: number }>(records: T[]): T[] {
+  if (records.length === 0) return records;
+  const lastVersion = records[records.length - 1].transaction_version;
+  let end = records.length;
+  while (end > 0 && records[end - 1].transaction_version === lastVersion) end--;
+  return records.slice(0, end);
+}
+
+/**
+ * Split rows synced after `sinceVersion` (sorted by version) into checkpoint
+ * ranges of up to `maxRows` rows, never splitting a transaction. The ranges
+ * are contiguous from `sinceVersion + 1` to the last row's version, so
+ * versions the indexer returned nothing for are covered too.
+ */
+export function checkpointRanges(
+  sinceVersion: number,
+  records: Array<{ transaction_version: number }>,
+  maxRows: number = CHECKPOINT_MAX_ROWS
+): CheckpointRange[] {
+  const ranges: CheckpointRange[] = [];
+  let current: CheckpointRange | null = null;
+
+  for (const { transaction_version: version } of records) {
+    if (current && current.row_count >= maxRows && version !== current.to_version) {
+      ranges.push(current);
+      current = null;
+    }
+    if (!current) {
+      const from = ranges.length > 0 ? ranges[ranges.length - 1].to_version + 1 : sinceVersion + 1;
+      current = { from_version: from, to_version: version, row_count: 0 };
+    }
+    current.to_version = version;
+    current.row_count++;
+  }
+
+  if (current) ranges.push(current);
+  return ranges;
+}
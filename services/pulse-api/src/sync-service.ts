@@ -3,17 +3,60 @@ import { ShelbyAptosClient, SHELBYUSD_METADATA } from './aptos-client';
 import {
   getLastSyncedVersion,
   insertActivities,
+  insertNewActivities,
   updateAddressStats,
   invalidateAllLeaderboards,
-  resetDatabase,
   getDatabaseStats,
+  getActivityCount,
+  getPendingActivityBackfillRanges,
+  completeActivityBackfillRange,
+  rebuildAddressStats,
+  runInTransaction,
+  recordSyncCheckpoints,
+  clearResyncShadow,
+  insertResyncActivities,
+  buildResyncAddressStats,
+  getResyncActivityCount,
+  swapInResyncShadow,
   type ActivityRecord,
 } from './db';
+import {
+  checkpointRanges,
+  dropPartialTransaction,
+  versionVariables,
+  type VersionFilter,
+} from './sync-checkpoints';
+import { publishActivities } from './live-feed';
 
 // Track if initial sync has completed
 let initialSyncComplete = false;
 let syncInProgress = false;
 
+export type ResyncPhase = 'fetching' | 'building' | 'verifying' | 'swapping' | 'completed' | 'failed';
+
+/**
+ * Where a full resync is, or how the last one ended
+ */
+export interface ResyncProgress {
+  phase: ResyncPhase;
+  startedAt: number;
+  finishedAt: number | null;
+  // Activities fetched from the indexer so far
+  fetchedActivities: number;
+  // Rows in the shadow table, and the indexer's count for the same versions
+  shadowActivities: number | null;
+  indexerActivities: number | null;
+  error: string | null;
+}
+
+// The running full resync, or the last one since startup
+let resyncProgress: ResyncProgress | null = null;
+
+// Rows per shadow table insert, to keep each transaction short
+const RESYNC_BATCH_SIZE = 10000;
+// Safety limit on a full resync's fetch
+const MAX_RESYNC_ACTIVITIES = 500000;
+
 /**
  * Check if initial sync has completed (DB has data)
  */
@@ -48,7 +91,10 @@ export async function incrementalSync(aptosClient: ShelbyAptosClient): Promise<n
     }
 
     // Insert activities into database
-    const inserted = insertActivities(newActivities);
+    const insertedActivities = insertNewActivities(newActivities);
+    const inserted = insertedActivities.length;
+    publishActivities(insertedActivities);
+    recordSyncCheckpoints('activities', checkpointRanges(lastVersion, newActivities));
 
     // Update address stats incrementally
     updateAddressStats(newActivities);
@@ -73,8 +119,13 @@ export async function incrementalSync(aptosClient: ShelbyAptosClient): Promise<n
 }
 
 /**
- * Perform a full sync - reset DB and fetch all activities from scratch
+ * Perform a full sync - refetch every activity from scratch
  * Use sparingly - only for recovery or data corrections
+ *
+ * The activities are built into the resync shadow tables while the live ones
+ * keep serving. Once the shadow row count matches both the fetch and the
+ * indexer's count for the same versions (just the fetch, if the indexer can't
+ * count), the shadow is swapped in in one transaction. If anything fails before that, the live data is left as it was.
  */
 export async function fullSync(aptosClient: ShelbyAptosClient): Promise<number> {
   if (syncInProgress) {
@@ -84,44 +135,93 @@ export async function fullSync(aptosClient: ShelbyAptosClient): Promise<number>
 
   syncInProgress = true;
   const startTime = Date.now();
+  const progress: ResyncProgress = {
+    phase: 'fetching',
+    startedAt: startTime,
+    finishedAt: null,
+    fetchedActivities: 0,
+    shadowActivities: null,
+    indexerActivities: null,
+    error: null,
+  };
+  resyncProgress = progress;
 
   try {
-    logger.info('Starting full sync - resetting database');
-    resetDatabase();
+    logger.info('Starting full sync into the shadow tables');
+    clearResyncShadow();
 
     // Fetch all activities (this is the expensive operation)
-    const allActivities = await fetchAllActivities(aptosClient);
+    const { activities: allActivities, complete } = await fetchActivities(
+      aptosClient,
+      {},
+      MAX_RESYNC_ACTIVITIES,
+      (fetched) => {
+        progress.fetchedActivities = fetched;
+      }
+    );
+    progress.fetchedActivities = allActivities.length;
+    logger.info({ totalFetched: allActivities.length, complete }, 'Finished fetching all activities');
 
+    // A partial fetch only beats no data at all; the incremental sync picks up after it
+    const liveActivities = getActivityCount();
+    if (!complete && liveActivities > 0) {
+      throw new Error(`Full sync fetched only ${allActivities.length} activities before stopping`);
+    }
     if (allActivities.length === 0) {
+      if (liveActivities > 0) throw new Error('Full sync fetched no activities');
       logger.info('No activities found during full sync');
+      progress.phase = 'completed';
+      progress.finishedAt = Date.now();
       initialSyncComplete = true;
       return 0;
     }
 
-    // Insert in batches to avoid memory issues
-    const BATCH_SIZE = 10000;
-    let totalInserted = 0;
+    progress.phase = 'building';
+    for (let i = 0; i < allActivities.length; i += RESYNC_BATCH_SIZE) {
+      insertResyncActivities(allActivities.slice(i, i + RESYNC_BATCH_SIZE));
+    }
+    buildResyncAddressStats();
 
-    for (let i = 0; i < allActivities.length; i += BATCH_SIZE) {
-      const batch = allActivities.slice(i, i + BATCH_SIZE);
-      const inserted = insertActivities(batch);
-      totalInserted += inserted;
-      logger.info({ batch: Math.floor(i / BATCH_SIZE) + 1, inserted }, 'Inserted batch');
+    progress.phase = 'verifying';
+    progress.shadowActivities = getResyncActivityCount();
+    try {
+      progress.indexerActivities = await countActivitiesInRange(
+        aptosClient,
+        allActivities[0].transaction_version,
+        allActivities[allActivities.length - 1].transaction_version
+      );
+    } catch (error) {
+      // Not every indexer serves aggregates, so check against the fetched rows alone
+      logger.warn({ error }, 'Indexer count unavailable, verifying the full sync against the fetch');
+    }
+    if (
+      progress.shadowActivities !== allActivities.length ||
+      (progress.indexerActivities !== null && progress.shadowActivities !== progress.indexerActivities)
+    ) {
+      throw new Error(
+        `Full sync row counts don't match: fetched ${allActivities.length}, ` +
+          `stored ${progress.shadowActivities}, indexer ${progress.indexerActivities ?? 'unavailable'}`
+      );
     }
 
-    // Build address stats from all activities
-    updateAddressStats(allActivities);
+    progress.phase = 'swapping';
+    const { activityCount } = swapInResyncShadow(checkpointRanges(-1, allActivities));
 
-    const duration = Date.now() - startTime;
+    progress.phase = 'completed';
+    progress.finishedAt = Date.now();
     logger.info(
-      { totalInserted, duration },
+      { activityCount, duration: progress.finishedAt - startTime },
       'Full sync complete'
     );
 
     initialSyncComplete = true;
-    return totalInserted;
+    return activityCount;
   } catch (error) {
-    logger.error({ error }, 'Full sync failed');
+    progress.phase = 'failed';
+    progress.finishedAt = Date.now();
+    progress.error = error instanceof Error ? error.message : String(error);
+    logger.error({ error }, 'Full sync failed, keeping the current data');
+    clearResyncShadow();
     throw error;
   } finally {
     syncInProgress = false;
@@ -129,205 +229,236 @@ export async function fullSync(aptosClient: ShelbyAptosClient): Promise<number>
 }
 
 /**
- * Fetch activities since a specific version (incremental)
+ * Refetch the version ranges queued in activity_backfill_ranges (events the
+ * old transaction_version key dropped) and rebuild address stats once the
+ * last range is in. A range that fails to fetch is retried on the next call.
+ * Returns the number of activities restored.
  */
-async function fetchActivitiesSinceVersion(
-  aptosClient: ShelbyAptosClient,
-  sinceVersion: number
-): Promise<ActivityRecord[]> {
-  const activities: ActivityRecord[] = [];
-  const pageSize = 100;
-  let offset = 0;
-  let hasMore = true;
+export async function backfillActivities(aptosClient: ShelbyAptosClient): Promise<number> {
+  const ranges = getPendingActivityBackfillRanges();
+  if (ranges.length === 0) return 0;
 
-  // For incremental sync, allow catching up large backlogs
-  // Fetch up to 100k activities per sync cycle
-  const maxNewActivities = 100000;
+  if (syncInProgress) {
+    logger.info('Sync already in progress, skipping activity backfill');
+    return 0;
+  }
 
-  while (hasMore && activities.length < maxNewActivities) {
-    const query = `
-      query GetNewActivities($limit: Int!, $offset: Int!, $metadata: String!, $sinceVersion: bigint!) {
-        fungible_asset_activities(
-          where: {
-            asset_type: {_eq: $metadata},
-            transaction_version: {_gt: $sinceVersion}
-          }
-          order_by: {transaction_version: asc}
-          limit: $limit
-          offset: $offset
-        ) {
-          owner_address
-          type
-          amount
-          transaction_version
-          transaction_timestamp
-          event_index
-        }
+  syncInProgress = true;
+  let restored = 0;
+
+  try {
+    logger.info({ ranges: ranges.length }, 'Starting activity backfill');
+
+    for (const [i, range] of ranges.entries()) {
+      let activities: ActivityRecord[];
+      try {
+        activities = await fetchActivitiesInRange(aptosClient, range.from_version, range.to_version);
+      } catch (error) {
+        logger.warn({ error, range }, 'Activity backfill range incomplete, will retry');
+        return restored;
       }
-    `;
 
-    try {
-      const response = await fetch(aptosClient['config'].APTOS_INDEXER_URL!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(aptosClient['config'].APTOS_API_KEY
-            ? { Authorization: `Bearer ${aptosClient['config'].APTOS_API_KEY}` }
-            : {}),
-        },
-        body: JSON.stringify({
-          query,
-          variables: {
-            limit: pageSize,
-            offset,
-            metadata: SHELBYUSD_METADATA,
-            sinceVersion: sinceVersion.toString(),
-          },
-        }),
+      runInTransaction(() => {
+        restored += insertActivities(activities);
+        completeActivityBackfillRange(range.id);
+        // The incremental stats never saw the restored events
+        if (i === ranges.length - 1) rebuildAddressStats();
       });
+    }
 
-      const result = await response.json();
+    invalidateAllLeaderboards();
+    logger.info({ restored }, 'Activity backfill complete');
+    return restored;
+  } finally {
+    syncInProgress = false;
+  }
+}
 
-      if (result.errors) {
-        logger.warn({ errors: result.errors }, 'GraphQL query returned errors');
-        break;
-      }
+// Indexer page size, and how often to log progress on long fetches
+const ACTIVITY_PAGE_SIZE = 100;
+const PROGRESS_LOG_INTERVAL = 10000;
 
-      const fetched = result.data?.fungible_asset_activities || [];
+/**
+ * A fungible_asset_activities row as the indexer returns it
+ */
+interface IndexerActivity {
+  owner_address: string;
+  type: string;
+  amount: string | number | null;
+  transaction_version: string | number;
+  transaction_timestamp: string | null;
+  event_index: number | null;
+}
 
-      if (fetched.length === 0) {
-        hasMore = false;
-        break;
+/**
+ * Fetch one page of ShelbyUSD activities. Pages are ordered by version and
+ * then event index, so offset paging never reorders a transaction's events.
+ */
+async function fetchActivityPage(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  offset: number
+): Promise<ActivityRecord[]> {
+  const query = `
+    query GetActivities($limit: Int!, $offset: Int!, $metadata: String!, $versions: bigint_comparison_exp!) {
+      fungible_asset_activities(
+        where: {
+          asset_type: {_eq: $metadata},
+          transaction_version: $versions
+        }
+        order_by: [{transaction_version: asc}, {event_index: asc}]
+        limit: $limit
+        offset: $offset
+      ) {
+        owner_address
+        type
+        amount
+        transaction_version
+        transaction_timestamp
+        event_index
       }
+    }
+  `;
 
-      for (const activity of fetched) {
-        // Parse blockchain timestamp (ISO string) to milliseconds
-        const txTimestamp = activity.transaction_timestamp
-          ? new Date(activity.transaction_timestamp).getTime()
-          : Date.now();
-
-        activities.push({
-          transaction_version: parseInt(activity.transaction_version, 10),
-          event_index: activity.event_index || 0,
-          address: activity.owner_address,
-          amount: parseInt(activity.amount || '0', 10),
-          type: parseActivityType(activity.type),
-          timestamp: txTimestamp,
-        });
-      }
+  const response = await aptosClient.getIndexerTransport().graphql(query, {
+    limit: ACTIVITY_PAGE_SIZE,
+    offset,
+    metadata: SHELBYUSD_METADATA,
+    versions: versionVariables(versions),
+  });
 
-      offset += pageSize;
+  const result = await response.json();
 
-      if (fetched.length < pageSize) {
-        hasMore = false;
-      }
-    } catch (error) {
-      logger.error({ error, offset }, 'Failed to fetch activities page');
-      break;
-    }
+  if (result.errors) {
+    logger.warn({ errors: result.errors }, 'GraphQL query returned errors');
+    throw new Error('Indexer query for activities failed');
   }
 
-  return activities;
+  const fetched: IndexerActivity[] = result.data?.fungible_asset_activities || [];
+
+  return fetched.map((activity): ActivityRecord => ({
+    transaction_version: parseInt(String(activity.transaction_version), 10),
+    event_index: activity.event_index || 0,
+    address: activity.owner_address,
+    amount: parseInt(String(activity.amount || '0'), 10),
+    type: parseActivityType(activity.type),
+    // Parse blockchain timestamp (ISO string) to milliseconds
+    timestamp: activity.transaction_timestamp
+      ? new Date(activity.transaction_timestamp).getTime()
+      : Date.now(),
+  }));
 }
 
 /**
- * Fetch ALL activities (for full sync)
- * This is expensive - use only for initial sync or recovery
+ * Page through the activities matching a version filter. `complete` is false
+ * when paging stopped early (limit reached or a page failed), in which case
+ * the possibly partial last transaction is left out.
  */
-async function fetchAllActivities(aptosClient: ShelbyAptosClient): Promise<ActivityRecord[]> {
+async function fetchActivities(
+  aptosClient: ShelbyAptosClient,
+  versions: VersionFilter,
+  maxActivities: number,
+  onPage?: (fetched: number) => void
+): Promise<{ activities: ActivityRecord[]; complete: boolean }> {
   const activities: ActivityRecord[] = [];
-  const pageSize = 100;
   let offset = 0;
-  let hasMore = true;
-  const maxResults = 500000; // Safety limit
-
-  logger.info('Fetching all activities for full sync...');
-
-  while (hasMore && activities.length < maxResults) {
-    const query = `
-      query GetAllActivities($limit: Int!, $offset: Int!, $metadata: String!) {
-        fungible_asset_activities(
-          where: {asset_type: {_eq: $metadata}}
-          order_by: {transaction_version: asc}
-          limit: $limit
-          offset: $offset
-        ) {
-          owner_address
-          type
-          amount
-          transaction_version
-          transaction_timestamp
-          event_index
-        }
-      }
-    `;
+  let complete = false;
 
+  while (activities.length < maxActivities) {
+    let fetched: ActivityRecord[];
     try {
-      const response = await fetch(aptosClient['config'].APTOS_INDEXER_URL!, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(aptosClient['config'].APTOS_API_KEY
-            ? { Authorization: `Bearer ${aptosClient['config'].APTOS_API_KEY}` }
-            : {}),
-        },
-        body: JSON.stringify({
-          query,
-          variables: {
-            limit: pageSize,
-            offset,
-            metadata: SHELBYUSD_METADATA,
-          },
-        }),
-      });
-
-      const result = await response.json();
-
-      if (result.errors) {
-        logger.warn({ errors: result.errors }, 'GraphQL query returned errors');
-        break;
-      }
+      fetched = await fetchActivityPage(aptosClient, versions, offset);
+    } catch (error) {
+      logger.error({ error, offset }, 'Failed to fetch activities page');
+      break;
+    }
 
-      const fetched = result.data?.fungible_asset_activities || [];
+    activities.push(...fetched);
+    offset += ACTIVITY_PAGE_SIZE;
+    onPage?.(activities.length);
 
-      if (fetched.length === 0) {
-        hasMore = false;
-        break;
-      }
+    if (fetched.length > 0 && activities.length % PROGRESS_LOG_INTERVAL < fetched.length) {
+      logger.info({ fetched: activities.length }, 'Activity fetch progress');
+    }
 
-      for (const activity of fetched) {
-        // Parse blockchain timestamp (ISO string) to milliseconds
-        const txTimestamp = activity.transaction_timestamp
-          ? new Date(activity.transaction_timestamp).getTime()
-          : Date.now();
-
-        activities.push({
-          transaction_version: parseInt(activity.transaction_version, 10),
-          event_index: activity.event_index || 0,
-          address: activity.owner_address,
-          amount: parseInt(activity.amount || '0', 10),
-          type: parseActivityType(activity.type),
-          timestamp: txTimestamp,
-        });
-      }
+    if (fetched.length < ACTIVITY_PAGE_SIZE) {
+      complete = true;
+      break;
+    }
+  }
 
-      offset += pageSize;
+  return { activities: complete ? activities : dropPartialTransaction(activities), complete };
+}
 
-      // Log progress every 10k activities
-      if (activities.length % 10000 === 0) {
-        logger.info({ fetched: activities.length }, 'Full sync progress');
-      }
+/**
+ * Fetch every activity in a version range (both ends inclusive), throwing if
+ * the indexer couldn't return all of it
+ */
+export async function fetchActivitiesInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<ActivityRecord[]> {
+  const { activities, complete } = await fetchActivities(
+    aptosClient,
+    { _gte: fromVersion, _lte: toVersion },
+    Number.POSITIVE_INFINITY
+  );
+  if (!complete) {
+    throw new Error(`Couldn't fetch activities for versions ${fromVersion}-${toVersion}`);
+  }
+  return activities;
+}
 
-      if (fetched.length < pageSize) {
-        hasMore = false;
+/**
+ * Count the indexer's activities in a version range (both ends inclusive)
+ */
+export async function countActivitiesInRange(
+  aptosClient: ShelbyAptosClient,
+  fromVersion: number,
+  toVersion: number
+): Promise<number> {
+  const query = `
+    query CountActivities($metadata: String!, $versions: bigint_comparison_exp!) {
+      fungible_asset_activities_aggregate(
+        where: {
+          asset_type: {_eq: $metadata},
+          transaction_version: $versions
+        }
+      ) {
+        aggregate {
+          count
+        }
       }
-    } catch (error) {
-      logger.error({ error, offset }, 'Failed to fetch activities page during full sync');
-      break;
     }
+  `;
+
+  const response = await aptosClient.getIndexerTransport().graphql(query, {
+    metadata: SHELBYUSD_METADATA,
+    versions: versionVariables({ _gte: fromVersion, _lte: toVersion }),
+  });
+
+  const result = await response.json();
+  const count = result.data?.fungible_asset_activities_aggregate?.aggregate?.count;
+  if (result.errors || typeof count !== 'number') {
+    logger.warn({ errors: result.errors }, 'Activity count query failed');
+    throw new Error('Indexer count query for activities failed');
   }
+  return count;
+}
+
+/**
+ * Fetch activities since a specific version (incremental)
+ */
+async function fetchActivitiesSinceVersion(
+  aptosClient: ShelbyAptosClient,
+  sinceVersion: number
+): Promise<ActivityRecord[]> {
+  // For incremental sync, allow catching up large backlogs
+  // Fetch up to 100k activities per sync cycle
+  const maxNewActivities = 100000;
 
-  logger.info({ totalFetched: activities.length }, 'Finished fetching all activities');
+  const { activities } = await fetchActivities(aptosClient, { _gt: sinceVersion }, maxNewActivities);
   return activities;
 }
 
@@ -348,11 +479,15 @@ function parseActivityType(typeStr: string): 'deposit' | 'withdraw' | 'mint' | '
 export function getSyncStatus(): {
   initialSyncComplete: boolean;
   syncInProgress: boolean;
+  pendingBackfillRanges: number;
+  resync: ResyncProgress | null;
   dbStats: ReturnType<typeof getDatabaseStats>;
 } {
   return {
     initialSyncComplete,
     syncInProgress,
+    pendingBackfillRanges: getPendingActivityBackfillRanges().length,
+    resync: resyncProgress && { ...resyncProgress },
     dbStats: getDatabaseStats(),
   };
 }
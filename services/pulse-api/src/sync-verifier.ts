@@ -0,0 +1,229 @@
+import { logger } from './logger';
+import type { ShelbyAptosClient } from './aptos-client';
+import {
+  countSyncedRows,
+  deleteSyncedRows,
+  getCheckpointsToVerify,
+  getSyncCheckpointCounts,
+  getSyncDiscrepancies,
+  getSyncedRowKeys,
+  insertActivities,
+  insertBlobEvents,
+  insertBlobLifecycleEvents,
+  invalidateAllLeaderboards,
+  rebuildAddressStats,
+  runInTransaction,
+  updateSyncCheckpoint,
+  type ActivityRecord,
+  type BlobEventRecord,
+  type BlobLifecycleRecord,
+  type SyncCheckpoint,
+  type SyncStream,
+} from './db';
+import { countActivitiesInRange, fetchActivitiesInRange } from './sync-service';
+import {
+  countBlobEventsInRange,
+  countBlobLifecycleEventsInRange,
+  fetchBlobEventsInRange,
+  fetchBlobLifecycleEventsInRange,
+} from './blob-sync-service';
+
+// How old a checkpoint must be before it's verified, so a lagging indexer
+// has caught up with the range
+const CHECKPOINT_SETTLE_MS = 10 * 60 * 1000;
+// Checkpoints verified per run, to stay well under the indexer's rate limits
+const VERIFY_BATCH_SIZE = 10;
+// Discrepancies listed in the sync status
+const RECENT_DISCREPANCIES = 20;
+
+type SyncedRow = { transaction_version: number; event_index: number };
+
+/**
+ * How the verifier reads a synced stream from the indexer and writes it back
+ */
+interface StreamSource<T extends SyncedRow> {
+  count(aptosClient: ShelbyAptosClient, fromVersion: number, toVersion: number): Promise<number>;
+  fetch(aptosClient: ShelbyAptosClient, fromVersion: number, toVersion: number): Promise<T[]>;
+  insert(rows: T[]): number;
+  // Runs in the repair transaction, to fix anything derived from the rows
+  afterRepair?(): void;
+}
+
+const activitySource: StreamSource<ActivityRecord> = {
+  count: countActivitiesInRange,
+  fetch: fetchActivitiesInRange,
+  insert: insertActivities,
+  afterRepair() {
+    rebuildAddressStats();
+    invalidateAllLeaderboards();
+  },
+};
+
+const blobEventSource: StreamSource<BlobEventRecord> = {
+  count: countBlobEventsInRange,
+  fetch: fetchBlobEventsInRange,
+  insert: insertBlobEvents,
+};
+
+const blobLifecycleSource: StreamSource<BlobLifecycleRecord> = {
+  count: countBlobLifecycleEventsInRange,
+  fetch: fetchBlobLifecycleEventsInRange,
+  insert: insertBlobLifecycleEvents,
+};
+
+const STREAM_SOURCES: { [S in SyncStream]: StreamSource<SyncedRow> } = {
+  activities: activitySource,
+  blob_events: blobEventSource,
+  blob_lifecycle: blobLifecycleSource,
+};
+
+// Keys of each stream's checkpoint counts in the sync status
+const STREAM_STATUS_KEYS: Record<SyncStream, 'activities' | 'blobEvents' | 'blobLifecycle'> = {
+  activities: 'activities',
+  blob_events: 'blobEvents',
+  blob_lifecycle: 'blobLifecycle',
+};
+
+let verifierInProgress = false;
+
+function rowKey(row: SyncedRow): string {
+  return `${row.transaction_version}:${row.event_index}`;
+}
+
+/**
+ * Recount one checkpoint's range against the indexer. When the counts differ,
+ * the range is refetched and the stored rows replaced with it, which restores
+ * skipped rows and drops ones the indexer no longer has.
+ */
+async function verifyCheckpoint<T extends SyncedRow>(
+  aptosClient: ShelbyAptosClient,
+  checkpoint: SyncCheckpoint,
+  source: StreamSource<T>
+): Promise<SyncCheckpoint['status']> {
+  const { stream, from_version: fromVersion, to_version: toVersion } = checkpoint;
+
+  let rows: T[] | null = null;
+  let indexerCount: number;
+  try {
+    indexerCount = await source.count(aptosClient, fromVersion, toVersion);
+  } catch {
+    // Not every indexer serves aggregates, so count the rows themselves
+    rows = await source.fetch(aptosClient, fromVersion, toVersion);
+    indexerCount = rows.length;
+  }
+
+  const localCount = countSyncedRows(stream, fromVersion, toVersion);
+  if (indexerCount === localCount) {
+    updateSyncCheckpoint(checkpoint.id, {
+      status: 'verified',
+      indexer_count: indexerCount,
+      local_count: localCount,
+      missing_count: 0,
+      extra_count: 0,
+      last_error: null,
+      verified_at: Date.now(),
+    });
+    return 'verified';
+  }
+
+  const fetched = rows ?? (await source.fetch(aptosClient, fromVersion, toVersion));
+  const fetchedKeys = new Set(fetched.map(rowKey));
+
+  runInTransaction(() => {
+    const localKeys = getSyncedRowKeys(stream, fromVersion, toVersion);
+    const localKeySet = new Set(localKeys);
+    const missing = fetched.filter((row) => !localKeySet.has(rowKey(row))).length;
+    const extra = localKeys.filter((key) => !fetchedKeys.has(key)).length;
+
+    deleteSyncedRows(stream, fromVersion, toVersion);
+    source.insert(fetched);
+    source.afterRepair?.();
+
+    updateSyncCheckpoint(checkpoint.id, {
+      status: 'repaired',
+      indexer_count: fetched.length,
+      local_count: localCount,
+      missing_count: missing,
+      extra_count: extra,
+      last_error: null,
+      verified_at: Date.now(),
+    });
+    logger.warn({ stream, fromVersion, toVersion, missing, extra }, 'Repaired sync checkpoint');
+  });
+  return 'repaired';
+}
+
+/**
+ * Verify the oldest unverified checkpoints that have had time to settle.
+ * A checkpoint the indexer can't answer for stays open and is retried on the
+ * next run.
+ */
+export async function verifySyncCheckpoints(
+  aptosClient: ShelbyAptosClient,
+  now: number = Date.now()
+): Promise<{ verified: number; repaired: number; failed: number }> {
+  const summary = { verified: 0, repaired: 0, failed: 0 };
+  if (verifierInProgress) {
+    logger.debug('Checkpoint verification already in progress, skipping');
+    return summary;
+  }
+
+  verifierInProgress = true;
+  try {
+    for (const checkpoint of getCheckpointsToVerify(now - CHECKPOINT_SETTLE_MS, VERIFY_BATCH_SIZE)) {
+      try {
+        const status = await verifyCheckpoint(aptosClient, checkpoint, STREAM_SOURCES[checkpoint.stream]);
+        if (status === 'verified') summary.verified++;
+        else summary.repaired++;
+      } catch (error) {
+        summary.failed++;
+        logger.warn({ error, checkpointId: checkpoint.id }, 'Failed to verify sync checkpoint');
+        updateSyncCheckpoint(checkpoint.id, {
+          status: 'open',
+          indexer_count: null,
+          local_count: null,
+          missing_count: null,
+          extra_count: null,
+          last_error: error instanceof Error ? error.message : String(error),
+          verified_at: null,
+        });
+      }
+    }
+
+    if (summary.verified + summary.repaired + summary.failed > 0) {
+      logger.info(summary, 'Verified sync checkpoints');
+    }
+    return summary;
+  } finally {
+    verifierInProgress = false;
+  }
+}
+
+/**
+ * Checkpoint counts per stream and the most recent discrepancies, for /api/sync/status
+ */
+export function getSyncVerificationStatus() {
+  const counts = { open: 0, verified: 0, repaired: 0 };
+  const checkpoints = { activities: { ...counts }, blobEvents: { ...counts }, blobLifecycle: { ...counts } };
+  for (const row of getSyncCheckpointCounts()) {
+    checkpoints[STREAM_STATUS_KEYS[row.stream]][row.status] = row.count;
+  }
+
+  return {
+    verifierInProgress,
+    checkpoints,
+    discrepancies: getSyncDiscrepancies(RECENT_DISCREPANCIES).map((checkpoint) => ({
+      stream: checkpoint.stream,
+      fromVersion: checkpoint.from_version,
+      toVersion: checkpoint.to_version,
+      status: checkpoint.status,
+      syncedCount: checkpoint.row_count,
+      indexerCount: checkpoint.indexer_count,
+      localCount: checkpoint.local_count,
+      missing: checkpoint.missing_count,
+      extra: checkpoint.extra_count,
+      error: checkpoint.last_error,
+      verifiedAt: checkpoint.verified_at,
+    })),
+  };
+}
@@ -0,0 +1,151 @@
+import { logger } from './logger';
+import {
+  getActivityBuckets,
+  getBlobBuckets,
+  getBlobTotalsBefore,
+  getEarliestEventTimestamp,
+  getLatestTimeseriesBucketStart,
+  getTimeseriesBuckets,
+  upsertTimeseriesBuckets,
+  TIMESERIES_BUCKET_MS,
+  type TimeseriesBucket,
+  type TimeseriesRow,
+} from './db';
+
+/**
+ * blob_count, bytes_stored and unique_owners are running totals at the end of
+ * each bucket; shelbyusd_volume and shelbyusd_mints are what happened within it.
+ * Blobs without a creation time aren't counted.
+ */
+export const TIMESERIES_METRICS = [
+  'blob_count',
+  'bytes_stored',
+  'unique_owners',
+  'shelbyusd_volume',
+  'shelbyusd_mints',
+] as const;
+
+export type TimeseriesMetric = (typeof TIMESERIES_METRICS)[number];
+
+export const TIMESERIES_BUCKETS: readonly TimeseriesBucket[] = ['hour', 'day'];
+
+// Buckets recomputed on every rollup, so late syncs and verifier repairs
+// reach the buckets they belong to
+const ROLLUP_LOOKBACK_MS = 48 * 60 * 60 * 1000;
+// How far back the first rollup fills hourly buckets; daily ones go back to
+// the oldest event
+const HOURLY_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+// Range served when a request doesn't give `from`
+const DEFAULT_RANGE_MS: Record<TimeseriesBucket, number> = {
+  hour: 7 * 24 * 60 * 60 * 1000,
+  day: 90 * 24 * 60 * 60 * 1000,
+};
+// Most buckets one request may cover
+export const MAX_TIMESERIES_POINTS = 1000;
+
+export interface TimeseriesPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface TimeseriesData {
+  metric: TimeseriesMetric;
+  bucket: TimeseriesBucket;
+  from: number;
+  to: number;
+  points: TimeseriesPoint[];
+}
+
+export function isTimeseriesMetric(value: unknown): value is TimeseriesMetric {
+  return TIMESERIES_METRICS.includes(value as TimeseriesMetric);
+}
+
+export function isTimeseriesBucket(value: unknown): value is TimeseriesBucket {
+  return TIMESERIES_BUCKETS.includes(value as TimeseriesBucket);
+}
+
+export function bucketStart(timestamp: number, bucket: TimeseriesBucket): number {
+  const size = TIMESERIES_BUCKET_MS[bucket];
+  return Math.floor(timestamp / size) * size;
+}
+
+/**
+ * Compute every metric for the buckets of one size from `from` up to and
+ * including the bucket containing `now`, which is partial until it closes
+ */
+function computeBuckets(bucket: TimeseriesBucket, from: number, now: number): TimeseriesRow[] {
+  const size = TIMESERIES_BUCKET_MS[bucket];
+  const blobBuckets = new Map(getBlobBuckets(bucket, from).map((row) => [row.bucket_start, row]));
+  const activityBuckets = new Map(getActivityBuckets(bucket, from).map((row) => [row.bucket_start, row]));
+  const totals = getBlobTotalsBefore(from);
+
+  const rows: TimeseriesRow[] = [];
+  for (let start = from; start <= now; start += size) {
+    const blobs = blobBuckets.get(start);
+    const activity = activityBuckets.get(start);
+    totals.blobs += blobs?.blobs ?? 0;
+    totals.bytes += blobs?.bytes ?? 0;
+    totals.owners += blobs?.new_owners ?? 0;
+
+    rows.push(
+      { metric: 'blob_count', bucket, bucket_start: start, value: totals.blobs },
+      { metric: 'bytes_stored', bucket, bucket_start: start, value: totals.bytes },
+      { metric: 'unique_owners', bucket, bucket_start: start, value: totals.owners },
+      { metric: 'shelbyusd_volume', bucket, bucket_start: start, value: activity?.volume ?? 0 },
+      { metric: 'shelbyusd_mints', bucket, bucket_start: start, value: activity?.mints ?? 0 }
+    );
+  }
+  return rows;
+}
+
+/**
+ * Bring the hourly and daily buckets up to date. The first run fills in the
+ * history; later runs recompute the last two days. Returns the rows written.
+ */
+export function rollupTimeseries(now: number = Date.now()): number {
+  let written = 0;
+  for (const bucket of TIMESERIES_BUCKETS) {
+    const latest = getLatestTimeseriesBucketStart(bucket);
+    let from = latest === null ? getEarliestEventTimestamp() : latest - ROLLUP_LOOKBACK_MS;
+    if (from === null) continue;
+    if (bucket === 'hour') from = Math.max(from, now - HOURLY_HISTORY_MS);
+
+    const rows = computeBuckets(bucket, bucketStart(from, bucket), now);
+    upsertTimeseriesBuckets(rows);
+    written += rows.length;
+  }
+
+  logger.debug({ rows: written }, 'Rolled up timeseries');
+  return written;
+}
+
+/**
+ * A metric's buckets between two timestamps, defaulting to the last week of
+ * hours or last 90 days. Both ends are rounded down to the start of their bucket.
+ */
+export function getTimeseries(
+  metric: TimeseriesMetric,
+  bucket: TimeseriesBucket,
+  range: { from?: number; to?: number } = {}
+): TimeseriesData {
+  const to = bucketStart(range.to ?? Date.now(), bucket);
+  const from = bucketStart(range.from ?? to - DEFAULT_RANGE_MS[bucket], bucket);
+
+  return {
+    metric,
+    bucket,
+    from,
+    to,
+    points: getTimeseriesBuckets(metric, bucket, from, to).map((row) => ({
+      timestamp: row.bucket_start,
+      value: row.value,
+    })),
+  };
+}
+
+/**
+ * Number of buckets a range covers
+ */
+export function countBuckets(bucket: TimeseriesBucket, from: number, to: number): number {
+  return Math.floor((bucketStart(to, bucket) - bucketStart(from, bucket)) / TIMESERIES_BUCKET_MS[bucket]) + 1;
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import { logger } from "./logger";
+import {
+  insertShareUploadJob,
+  updateShareUploadJob,
+  getShareUploadJob,
+  failInterruptedShareUploadJobs,
+  deleteShareUploadJobsBefore,
+  runInTransaction,
+  type ShareUploadJob,
+  type ShareUploadJobStatus,
+} from "./db";
+import type { UploadProgress, UploadResult } from "./upload-service";
+
+// Keep finished jobs around long enough for a returning browser to pick them up
+const JOB_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// Byte-level progress is frequent - only write it to SQLite / push it to clients this often
+const PERSIST_INTERVAL_MS = 1000;
+const EMIT_INTERVAL_MS = 250;
+
+/**
+ * Upload job as exposed by the API
+ */
+export interface UploadJob {
+  id: string;
+  status: ShareUploadJobStatus;
+  fileName: string;
+  sessionId: string | null;
+  bytesProcessed: number;
+  totalBytes: number;
+  /** Overall completion across all stages, 0-100 */
+  progress: number;
+  result: UploadResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface NewUploadJob {
+  fileName: string;
+  totalBytes: number;
+  sessionId?: string | null;
+}
+
+/**
+ * Map stage-local byte progress onto an overall percentage.
+ * Encoding and uploading each read the whole file, registration is one transaction.
+ */
+function computeProgress(status: ShareUploadJobStatus, bytesProcessed: number, totalBytes: number): number {
+  const fraction = totalBytes > 0 ? Math.min(1, bytesProcessed / totalBytes) : 1;
+  switch (status) {
+    case "received":
+    case "queued":
+      return 0;
+    case "encoding":
+      return Math.round(fraction * 40);
+    case "registering":
+      return 45;
+    case "uploading":
+      return 50 + Math.round(fraction * 50);
+    case "done":
+      return 100;
+    case "failed":
+      return 0;
+  }
+}
+
+function isTerminal(status: ShareUploadJobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+function toUploadJob(record: ShareUploadJob): UploadJob {
+  return {
+    id: record.id,
+    status: record.status,
+    fileName: record.file_name,
+    sessionId: record.session_id,
+    bytesProcessed: record.bytes_processed,
+    totalBytes: record.total_bytes,
+    progress: computeProgress(record.status, record.bytes_processed, record.total_bytes),
+    result: record.result ? (JSON.parse(record.result) as UploadResult) : null,
+    error: record.error,
+    createdAt: new Date(record.created_at).toISOString(),
+    updatedAt: new Date(record.updated_at).toISOString(),
+  };
+}
+
+/**
+ * Tracks Shelby Share uploads as server-side jobs.
+ * Job state lives in SQLite so it survives page refreshes; running jobs are
+ * also held in memory and broadcast to SSE subscribers as they progress.
+ */
+export class UploadJobService {
+  private readonly active = new Map<string, ShareUploadJob>();
+  private readonly lastPersistedAt = new Map<string, number>();
+  private readonly lastEmittedAt = new Map<string, number>();
+  private readonly events = new EventEmitter();
+
+  constructor() {
+    // One listener per open SSE connection
+    this.events.setMaxListeners(0);
+
+    const interrupted = failInterruptedShareUploadJobs();
+    const pruned = deleteShareUploadJobsBefore(Date.now() - JOB_RETENTION_MS);
+    if (interrupted > 0 || pruned > 0) {
+      logger.info({ interrupted, pruned }, "Cleaned up share upload jobs");
+    }
+  }
+
+  /**
+   * Create a job for a file that has been fully received by the server
+   */
+  createJob(params: NewUploadJob): UploadJob {
+    return this.createJobs([params])[0];
+  }
+
+  /**
+   * Create jobs for several received files in one transaction
+   */
+  createJobs(params: NewUploadJob[]): UploadJob[] {
+    const now = Date.now();
+    const records = params.map((p): ShareUploadJob => ({
+      id: randomUUID(),
+      status: "received",
+      file_name: p.fileName,
+      session_id: p.sessionId ?? null,
+      bytes_processed: 0,
+      total_bytes: p.totalBytes,
+      result: null,
+      error: null,
+      created_at: now,
+      updated_at: now,
+    }));
+
+    runInTransaction(() => {
+      for (const record of records) insertShareUploadJob(record);
+    });
+    for (const record of records) this.active.set(record.id, record);
+    return records.map(toUploadJob);
+  }
+
+  getJob(jobId: string): UploadJob | null {
+    const record = this.active.get(jobId) ?? getShareUploadJob(jobId);
+    return record ? toUploadJob(record) : null;
+  }
+
+  /**
+   * Run the upload in the background, recording progress on the job.
+   * `onSuccess` runs before the job is marked done so follow-up work
+   * (e.g. adding the file to a folder) is visible once clients see "done".
+   * If it throws, the error is logged and the job is still done: the blob
+   * was uploaded, so the client gets its result.
+   */
+  run(
+    jobId: string,
+    task: (onProgress: (progress: UploadProgress) => void) => Promise<UploadResult>,
+    hooks: { onSuccess?: (result: UploadResult) => void; onSettled?: () => void } = {}
+  ): void {
+    const execute = async () => {
+      try {
+        const result = await task((progress) => {
+          if (progress.stage === "done") return;
+          this.update(jobId, { status: progress.stage, bytes_processed: progress.bytesProcessed });
+        });
+        try {
+          hooks.onSuccess?.(result);
+        } catch (error) {
+          logger.error({ jobId, error: error instanceof Error ? error.message : String(error) }, "Upload job follow-up failed");
+        }
+        this.update(jobId, {
+          status: "done",
+          bytes_processed: result.size,
+          result: JSON.stringify(result),
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        logger.error({ jobId, error: message }, "Upload job failed");
+        this.update(jobId, { status: "failed", error: message });
+      } finally {
+        hooks.onSettled?.();
+      }
+    };
+
+    void execute();
+  }
+
+  /**
+   * Subscribe to updates for a job. Returns an unsubscribe function.
+   */
+  subscribe(jobId: string, listener: (job: UploadJob) => void): () => void {
+    this.events.on(jobId, listener);
+    return () => {
+      this.events.off(jobId, listener);
+    };
+  }
+
+  private update(
+    jobId: string,
+    changes: Partial<Pick<ShareUploadJob, "status" | "bytes_processed" | "result" | "error">>
+  ): void {
+    const record = this.active.get(jobId);
+    if (!record) return;
+
+    const stageChanged = changes.status !== undefined && changes.status !== record.status;
+    Object.assign(record, changes, { updated_at: Date.now() });
+
+    const terminal = isTerminal(record.status);
+    const lastPersisted = this.lastPersistedAt.get(jobId) ?? 0;
+    if (stageChanged || terminal || record.updated_at - lastPersisted >= PERSIST_INTERVAL_MS) {
+      updateShareUploadJob(jobId, record);
+      this.lastPersistedAt.set(jobId, record.updated_at);
+    }
+
+    const lastEmitted = this.lastEmittedAt.get(jobId) ?? 0;
+    if (stageChanged || terminal || record.updated_at - lastEmitted >= EMIT_INTERVAL_MS) {
+      this.events.emit(jobId, toUploadJob(record));
+      this.lastEmittedAt.set(jobId, record.updated_at);
+    }
+
+    if (terminal) {
+      this.active.delete(jobId);
+      this.lastPersistedAt.delete(jobId);
+      this.lastEmittedAt.delete(jobId);
+    }
+  }
+}
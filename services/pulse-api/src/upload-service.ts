@@ -1,8 +1,37 @@
-import { Account, Ed25519PrivateKey, Network } from "@aptos-labs/ts-sdk";
-import { ShelbyNodeClient } from "@shelby-protocol/sdk/node";
+import { Account, AccountAddress, Ed25519PrivateKey } from "@aptos-labs/ts-sdk";
+import { createHash, randomUUID } from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
 import { logger } from "./logger";
+import {
+  addShareBlobToIndex,
+  findShareBlobByHash,
+  isShareBlobNameTaken,
+  type ShareBlobIndexRecord,
+} from "./db";
+import { generateThumbnail, THUMBNAIL_EXTENSION, type ThumbnailGenerator } from "./share-thumbnail";
+import {
+  SdkShelbyStorageClient,
+  type RegisterBlobPayload,
+  type ShelbyStorageClient,
+} from "./shelby-storage-client";
 
-const SHELBY_RPC_BASE = "https://api.shelbynet.shelby.xyz/shelby";
+export const SHELBY_RPC_BASE = "https://api.shelbynet.shelby.xyz/shelby";
+
+// Multipart part size used by the Shelby RPC
+const DEFAULT_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_MAX_CONCURRENT_UPLOADS = 2;
+// Give up looking for a free "name_N.ext" after this many candidates
+const MAX_BLOB_NAME_ATTEMPTS = 1000;
+// Blobs are stored for a year
+const BLOB_LIFETIME_MS = 365 * 24 * 60 * 60 * 1000;
+// Prepared wallet uploads are dropped if the wallet hasn't signed by then
+const WALLET_UPLOAD_TTL_MS = 30 * 60 * 1000;
+const WALLET_UPLOAD_PRUNE_INTERVAL_MS = 60 * 1000;
+// Each one holds a temp file, so one IP or wallet can only leave so many unsigned
+const DEFAULT_MAX_PENDING_WALLET_UPLOADS = 10;
 
 // Characters that cause issues with Shelby blob names
 function sanitizeFilename(name: string): string {
@@ -18,29 +47,211 @@ export interface UploadResult {
   owner: string;
   size: number;
   expiresAt: string;
+  /** SHA-256 of the file contents (hex), for clients to verify downloads */
+  contentHash: string;
+  /** Type detected from the file contents (null for blobs indexed before detection) */
+  contentType: string | null;
+  /** Thumbnail companion blob (through the view route), null when none could be rendered */
+  thumbnailUrl: string | null;
+  /** True when identical content was already stored and its blob was reused */
+  deduplicated: boolean;
+}
+
+/**
+ * Previously uploaded blobs, looked up by content hash and by name
+ */
+export interface ShareBlobIndex {
+  findByHash(owner: string, contentHash: string): ShareBlobIndexRecord | null;
+  isNameTaken(owner: string, blobName: string): boolean;
+  add(record: ShareBlobIndexRecord): void;
+}
+
+const sqliteBlobIndex: ShareBlobIndex = {
+  findByHash: findShareBlobByHash,
+  isNameTaken: isShareBlobNameTaken,
+  add: addShareBlobToIndex,
+};
+
+/**
+ * A file encoded for a wallet-owned upload, waiting for the owner's wallet to register it
+ */
+export interface PendingWalletUpload {
+  id: string;
+  owner: string;
+  /** IP the upload was prepared from */
+  clientIp: string;
+  filePath: string;
+  originalName: string;
+  contentType: string;
+  blobName: string;
+  blobMerkleRoot: string;
+  size: number;
+  contentHash: string;
+  expirationMicros: number;
+  createdAt: number;
+}
+
+/**
+ * What the owner's wallet needs to do for a prepared upload: nothing if the
+ * content is already stored under their address, otherwise sign the payload
+ */
+export type WalletUploadPreparation =
+  | { status: "existing"; result: UploadResult }
+  | {
+      status: "awaiting_signature";
+      uploadId: string;
+      owner: string;
+      blobName: string;
+      size: number;
+      contentHash: string;
+      expiresAt: string;
+      payload: RegisterBlobPayload;
+    };
+
+export type UploadStage = "queued" | "encoding" | "registering" | "uploading" | "done";
+
+export interface UploadProgress {
+  stage: UploadStage;
+  /** Bytes processed within the current stage */
+  bytesProcessed: number;
+  totalBytes: number;
+}
+
+export interface UploadServiceOptions {
+  /** Storage client override (tests use a local fake) */
+  client?: ShelbyStorageClient;
+  /** Content hash index override (defaults to the SQLite share_blob_index table) */
+  blobIndex?: ShareBlobIndex;
+  /** Thumbnail renderer override (defaults to sharp, mupdf and the bundled ffmpeg) */
+  thumbnails?: ThumbnailGenerator;
+  maxConcurrentUploads?: number;
+  /** Prepared wallet uploads allowed to wait for a signature, per IP and per wallet */
+  maxPendingWalletUploads?: number;
+  partSize?: number;
+}
+
+/**
+ * An IP or wallet already has as many prepared wallet uploads waiting for a
+ * signature as it may
+ */
+export class WalletUploadLimitError extends Error {
+  constructor(
+    public readonly scope: "ip" | "wallet",
+    public readonly limit: number
+  ) {
+    super(`Too many wallet uploads awaiting a signature for this ${scope === "ip" ? "IP" : "wallet"}`);
+    this.name = "WalletUploadLimitError";
+  }
+}
+
+/**
+ * FIFO limiter for concurrent uploads. Each upload holds the erasure coding
+ * provider and a multipart part in memory, so the total is kept bounded.
+ */
+class UploadQueue {
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrent: number) {}
+
+  async run<T>(task: () => Promise<T>, onQueued?: () => void): Promise<T> {
+    if (this.active < this.maxConcurrent) {
+      this.active++;
+    } else {
+      onQueued?.();
+      // The releasing task hands its slot over directly
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+
+  getStats(): { active: number; queued: number; maxConcurrent: number } {
+    return { active: this.active, queued: this.waiting.length, maxConcurrent: this.maxConcurrent };
+  }
+}
+
+async function hashFile(filePath: string): Promise<string> {
+  const hash = createHash("sha256");
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
+
+/**
+ * Passthrough that reports how many bytes have flowed through it
+ */
+function createProgressTransform(onBytes: (total: number) => void): Transform {
+  let total = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      total += chunk.length;
+      onBytes(total);
+      callback(null, chunk);
+    },
+  });
 }
 
 export class UploadService {
   private account: Account | null = null;
-  private client: ShelbyNodeClient | null = null;
+  private client: ShelbyStorageClient | null = null;
   private isInitialized = false;
   private lastFundTime = 0;
   private readonly FUND_COOLDOWN_MS = 60 * 1000; // 1 minute between fund attempts
+  private readonly queue: UploadQueue;
+  private readonly partSize: number;
+  private readonly blobIndex: ShareBlobIndex;
+  private readonly renderThumbnail: ThumbnailGenerator;
+  // "owner/blobName" keys claimed by uploads that haven't been indexed yet
+  private readonly reservedNames = new Set<string>();
+  // Uploads in progress by "owner:contentHash", shared by identical files
+  private readonly inFlightUploads = new Map<string, Promise<UploadResult>>();
+  // Wallet uploads waiting for the owner's registration transaction, by upload ID
+  private readonly walletUploads = new Map<string, PendingWalletUpload>();
+  // Wallet uploads still being prepared, counted against the same limits
+  private readonly preparingWalletUploads = new Set<Pick<PendingWalletUpload, "owner" | "clientIp">>();
+  private readonly maxPendingWalletUploads: number;
+  private pruneInterval: NodeJS.Timeout | null = null;
 
-  constructor(privateKey?: string, apiKey?: string) {
+  constructor(privateKey?: string, apiKey?: string, options: UploadServiceOptions = {}) {
+    this.queue = new UploadQueue(options.maxConcurrentUploads ?? DEFAULT_MAX_CONCURRENT_UPLOADS);
+    this.partSize = options.partSize ?? DEFAULT_PART_SIZE;
+    this.maxPendingWalletUploads = options.maxPendingWalletUploads ?? DEFAULT_MAX_PENDING_WALLET_UPLOADS;
+    this.blobIndex = options.blobIndex ?? sqliteBlobIndex;
+    this.renderThumbnail = options.thumbnails ?? generateThumbnail;
     if (privateKey) {
-      this.initialize(privateKey, apiKey);
+      this.initialize(privateKey, apiKey, options.client);
     }
+    // Expired uploads hold temp files, so don't wait for the next wallet upload to drop them
+    this.pruneInterval = setInterval(() => this.pruneWalletUploads(), WALLET_UPLOAD_PRUNE_INTERVAL_MS);
+    this.pruneInterval.unref();
   }
 
-  private initialize(privateKey: string, apiKey?: string): void {
+  /**
+   * Stop pruning expired wallet uploads
+   */
+  shutdown(): void {
+    if (this.pruneInterval) {
+      clearInterval(this.pruneInterval);
+      this.pruneInterval = null;
+    }
+  }
+
+  private initialize(privateKey: string, apiKey?: string, client?: ShelbyStorageClient): void {
     try {
       const pk = new Ed25519PrivateKey(privateKey);
       this.account = Account.fromPrivateKey({ privateKey: pk });
-      this.client = new ShelbyNodeClient({
-        network: Network.SHELBYNET,
-        apiKey: apiKey || undefined,
-      });
+      this.client = client ?? new SdkShelbyStorageClient(apiKey);
       this.isInitialized = true;
       logger.info(
         { address: this.account.accountAddress.toString(), hasApiKey: !!apiKey },
@@ -60,6 +271,13 @@ export class UploadService {
     return this.account?.accountAddress.toString() || null;
   }
 
+  /**
+   * Get current upload queue occupancy
+   */
+  getQueueStats(): { active: number; queued: number; maxConcurrent: number } {
+    return this.queue.getStats();
+  }
+
   /**
    * Fund the upload account if needed (rate limited)
    */
@@ -75,17 +293,11 @@ export class UploadService {
       const address = this.account.accountAddress.toString();
 
       // Try to fund with ShelbyUSD
-      await this.client.fundAccountWithShelbyUSD({
-        address,
-        amount: 1_000_000_000, // 10 ShelbyUSD
-      });
+      await this.client.fundAccountWithShelbyUSD(address, 1_000_000_000); // 10 ShelbyUSD
       logger.info("Funded upload account with ShelbyUSD");
 
       // Also fund with APT for gas
-      await this.client.fundAccountWithAPT({
-        address,
-        amount: 100_000_000, // 1 APT
-      });
+      await this.client.fundAccountWithAPT(address, 100_000_000); // 1 APT
       logger.info("Funded upload account with APT");
 
       this.lastFundTime = now;
@@ -96,91 +308,523 @@ export class UploadService {
   }
 
   /**
-   * Upload a file to Shelby
+   * Upload a file from disk to Shelby.
+   * The file is streamed twice (once for commitments, once for the multipart
+   * upload) so memory use stays at roughly one part regardless of file size.
+   * Content that is already stored is not uploaded again - the existing blob is returned.
    */
   async uploadFile(
-    fileBuffer: Buffer,
-    originalName: string
+    filePath: string,
+    originalName: string,
+    contentType: string,
+    onProgress?: (progress: UploadProgress) => void
   ): Promise<UploadResult> {
-    if (!this.client || !this.account) {
+    const client = this.client;
+    const account = this.account;
+    if (!client || !account) {
       throw new Error("Upload service not initialized");
     }
 
-    // Sanitize filename
-    const blobName = sanitizeFilename(originalName);
-    const address = this.account.accountAddress.toString();
+    const address = account.accountAddress.toString();
+    const { size } = await fs.promises.stat(filePath);
+    const report = (stage: UploadStage, bytesProcessed: number) => {
+      onProgress?.({ stage, bytesProcessed, totalBytes: size });
+    };
+
+    // Hash before queueing so duplicates never wait for an upload slot
+    const contentHash = await hashFile(filePath);
+    const existing = this.findExistingBlob(address, contentHash, contentType);
+    if (existing) {
+      report("done", size);
+      return existing;
+    }
+
+    // The same file sent twice at once is only uploaded once
+    const inFlightKey = `${address}:${contentHash}`;
+    const inFlight = this.inFlightUploads.get(inFlightKey);
+    if (inFlight) {
+      const result = await inFlight;
+      report("done", size);
+      return { ...result, deduplicated: true };
+    }
+
+    const upload = this.queue
+      .run(
+        () => this.runUpload(client, account, filePath, { originalName, contentType, size, contentHash }, report),
+        () => report("queued", 0)
+      )
+      .finally(() => this.inFlightUploads.delete(inFlightKey));
+    this.inFlightUploads.set(inFlightKey, upload);
+    return upload;
+  }
+
+  private async runUpload(
+    client: ShelbyStorageClient,
+    account: Account,
+    filePath: string,
+    file: { originalName: string; contentType: string; size: number; contentHash: string },
+    report: (stage: UploadStage, bytesProcessed: number) => void
+  ): Promise<UploadResult> {
+    const address = account.accountAddress.toString();
+    const { originalName, contentType, size, contentHash } = file;
 
     // Try to ensure we have funds
     await this.ensureFunded();
 
+    // Sanitized names can collide, so pick a free one rather than overwrite
+    const blobName = await this.reserveBlobName(client, address, sanitizeFilename(originalName));
+
     // Expiration: 1 year from now (in microseconds)
-    const expirationMicros =
-      Date.now() * 1000 + 365 * 24 * 60 * 60 * 1000 * 1000;
+    const expirationMicros = (Date.now() + BLOB_LIFETIME_MS) * 1000;
 
-    logger.info(
-      { blobName, size: fileBuffer.length },
-      "Uploading file to Shelby"
-    );
+    logger.info({ blobName, size, contentHash }, "Uploading file to Shelby");
 
     try {
-      await this.client.upload({
-        blobData: new Uint8Array(fileBuffer),
-        signer: this.account,
+      report("encoding", 0);
+      const fileStream = fs
+        .createReadStream(filePath)
+        .pipe(createProgressTransform((bytes) => report("encoding", bytes)));
+      const { blobMerkleRoot } = await client.generateCommitments(
+        Readable.toWeb(fileStream) as WebReadableStream<Uint8Array> as ReadableStream<Uint8Array>
+      );
+
+      report("registering", size);
+      await this.registerWithFundingRetry(client, {
+        signer: account,
         blobName,
+        blobMerkleRoot,
+        size,
         expirationMicros,
       });
 
-      const url = `${SHELBY_RPC_BASE}/v1/blobs/${address}/${encodeURIComponent(blobName)}`;
-      const viewerUrl = `/api/share/viewer/${address}/${encodeURIComponent(blobName)}`;
-      const expiresAt = new Date(expirationMicros / 1000).toISOString();
+      await this.putBlobFromFile(client, filePath, address, blobName, size, (bytes) => report("uploading", bytes));
+      const thumbnailUrl = await this.createThumbnail(client, filePath, { contentType, contentHash, expirationMicros });
+      report("done", size);
+
+      const result = this.indexUploadedBlob(
+        address,
+        blobName,
+        { size, contentHash, contentType, thumbnailUrl },
+        expirationMicros
+      );
+      logger.info({ url: result.url, viewerUrl: result.viewerUrl, blobName }, "File uploaded successfully");
+      return result;
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      const errStack = error instanceof Error ? error.stack : undefined;
+      logger.error({ errMsg, errStack, blobName }, "Failed to upload file");
+      throw error;
+    } finally {
+      this.reservedNames.delete(`${address}/${blobName}`);
+    }
+  }
+
+  /**
+   * Prepare an upload that the owner's wallet pays for: hash and encode the
+   * file, pick a free blob name under the owner's address and build the
+   * register_blob payload for the wallet to sign and submit.
+   * On success the temp file belongs to the service until the upload is
+   * completed or expires; on failure the caller still has to remove it.
+   * Throws WalletUploadLimitError if the IP or wallet has too many uploads
+   * waiting for a signature.
+   */
+  async prepareWalletUpload(
+    filePath: string,
+    originalName: string,
+    contentType: string,
+    ownerAddress: string,
+    clientIp: string
+  ): Promise<WalletUploadPreparation> {
+    const client = this.client;
+    if (!client) {
+      throw new Error("Upload service not initialized");
+    }
+    this.pruneWalletUploads();
 
-      logger.info({ url, viewerUrl, blobName }, "File uploaded successfully");
+    const owner = AccountAddress.from(ownerAddress).toString();
+    const preparing = { owner, clientIp };
+    this.checkPendingWalletUploads(preparing);
+    this.preparingWalletUploads.add(preparing);
+    try {
+      return await this.createWalletUpload(client, filePath, originalName, contentType, preparing);
+    } finally {
+      this.preparingWalletUploads.delete(preparing);
+    }
+  }
+
+  /**
+   * Hash, deduplicate and encode a wallet upload that has been given a slot
+   */
+  private async createWalletUpload(
+    client: ShelbyStorageClient,
+    filePath: string,
+    originalName: string,
+    contentType: string,
+    { owner, clientIp }: Pick<PendingWalletUpload, "owner" | "clientIp">
+  ): Promise<WalletUploadPreparation> {
+    const { size } = await fs.promises.stat(filePath);
+    const contentHash = await hashFile(filePath);
+
+    // The owner already paid for this content - hand back the existing blob
+    const existing = this.findExistingBlob(owner, contentHash, contentType);
+    if (existing) {
+      await fs.promises.rm(filePath, { force: true });
+      return { status: "existing", result: existing };
+    }
+
+    const blobName = await this.reserveBlobName(client, owner, sanitizeFilename(originalName));
+    try {
+      const { blobMerkleRoot } = await this.queue.run(() =>
+        client.generateCommitments(
+          Readable.toWeb(fs.createReadStream(filePath)) as WebReadableStream<Uint8Array> as ReadableStream<Uint8Array>
+        )
+      );
+      const expirationMicros = (Date.now() + BLOB_LIFETIME_MS) * 1000;
+      const payload = client.createRegisterBlobPayload({ owner, blobName, blobMerkleRoot, size, expirationMicros });
+
+      const pending: PendingWalletUpload = {
+        id: randomUUID(),
+        owner,
+        clientIp,
+        filePath,
+        originalName,
+        contentType,
+        blobName,
+        blobMerkleRoot,
+        size,
+        contentHash,
+        expirationMicros,
+        createdAt: Date.now(),
+      };
+      this.walletUploads.set(pending.id, pending);
+      logger.info({ uploadId: pending.id, owner, blobName, size }, "Prepared wallet upload");
 
       return {
-        url,
-        viewerUrl,
+        status: "awaiting_signature",
+        uploadId: pending.id,
+        owner,
         blobName,
-        owner: address,
-        size: fileBuffer.length,
-        expiresAt,
+        size,
+        contentHash,
+        expiresAt: new Date(expirationMicros / 1000).toISOString(),
+        payload,
       };
+    } catch (error) {
+      this.reservedNames.delete(`${owner}/${blobName}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Take a prepared wallet upload so it can be completed. Returns null for
+   * unknown or expired uploads, and for uploads that are already being completed.
+   */
+  claimWalletUpload(uploadId: string): PendingWalletUpload | null {
+    this.pruneWalletUploads();
+    const pending = this.walletUploads.get(uploadId);
+    if (!pending) return null;
+    this.walletUploads.delete(uploadId);
+    return pending;
+  }
+
+  /**
+   * Drop a prepared wallet upload that won't be completed, with its temp file
+   */
+  cancelWalletUpload(uploadId: string): void {
+    const pending = this.walletUploads.get(uploadId);
+    if (pending) this.dropWalletUpload(pending);
+  }
+
+  /**
+   * Put back a claimed wallet upload that could not be started
+   */
+  releaseWalletUpload(pending: PendingWalletUpload): void {
+    this.walletUploads.set(pending.id, pending);
+  }
+
+  /**
+   * Finish a claimed wallet upload: check the owner's transaction registered
+   * the prepared blob, then push the file to the Shelby RPC.
+   * If anything fails the upload goes back to pending so the client can retry.
+   */
+  async completeWalletUpload(
+    pending: PendingWalletUpload,
+    transactionHash: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<UploadResult> {
+    const client = this.client;
+    if (!client) {
+      throw new Error("Upload service not initialized");
+    }
+    const { owner, blobName, size } = pending;
+    const report = (stage: UploadStage, bytesProcessed: number) => {
+      onProgress?.({ stage, bytesProcessed, totalBytes: size });
+    };
+
+    let thumbnailUrl: string | null;
+    try {
+      report("registering", size);
+      await client.verifyBlobRegistration({
+        transactionHash,
+        owner,
+        blobName,
+        blobMerkleRoot: pending.blobMerkleRoot,
+      });
+
+      thumbnailUrl = await this.queue.run(
+        async () => {
+          await this.putBlobFromFile(client, pending.filePath, owner, blobName, size, (bytes) =>
+            report("uploading", bytes)
+          );
+          return this.createThumbnail(client, pending.filePath, pending);
+        },
+        () => report("queued", 0)
+      );
+      report("done", size);
     } catch (error) {
       const errMsg = error instanceof Error ? error.message : String(error);
-      const errStack = error instanceof Error ? error.stack : undefined;
-      logger.error({ errMsg, errStack, blobName }, "Failed to upload file");
+      logger.error({ errMsg, uploadId: pending.id, blobName }, "Failed to complete wallet upload");
+      this.walletUploads.set(pending.id, pending);
+      throw error;
+    }
+
+    const result = this.indexUploadedBlob(
+      owner,
+      blobName,
+      { size, contentHash: pending.contentHash, contentType: pending.contentType, thumbnailUrl },
+      pending.expirationMicros
+    );
+    this.reservedNames.delete(`${owner}/${blobName}`);
+    await fs.promises.rm(pending.filePath, { force: true });
+    logger.info({ url: result.url, owner, blobName }, "Wallet upload completed");
+    return result;
+  }
 
-      // If it's an insufficient funds error, try to fund and retry once
-      if (
-        error instanceof Error &&
-        error.message.includes("INSUFFICIENT_FUNDS")
-      ) {
-        logger.info("Retrying upload after funding...");
-        this.lastFundTime = 0; // Reset cooldown to force fund
-        await this.ensureFunded();
-
-        // Retry upload
-        await this.client.upload({
-          blobData: new Uint8Array(fileBuffer),
-          signer: this.account,
+  /**
+   * Throw if the IP or wallet already has the most wallet uploads allowed
+   * waiting for a signature, counting those still being prepared
+   */
+  private checkPendingWalletUploads({ owner, clientIp }: Pick<PendingWalletUpload, "owner" | "clientIp">): void {
+    let byIp = 0;
+    let byOwner = 0;
+    for (const pending of [...this.walletUploads.values(), ...this.preparingWalletUploads]) {
+      if (pending.clientIp === clientIp) byIp++;
+      if (pending.owner === owner) byOwner++;
+    }
+    if (byOwner >= this.maxPendingWalletUploads) {
+      throw new WalletUploadLimitError("wallet", this.maxPendingWalletUploads);
+    }
+    if (byIp >= this.maxPendingWalletUploads) {
+      throw new WalletUploadLimitError("ip", this.maxPendingWalletUploads);
+    }
+  }
+
+  /**
+   * Drop prepared wallet uploads the owner never signed, with their temp files
+   */
+  private pruneWalletUploads(now: number = Date.now()): void {
+    for (const pending of this.walletUploads.values()) {
+      if (now - pending.createdAt < WALLET_UPLOAD_TTL_MS) continue;
+      this.dropWalletUpload(pending);
+    }
+  }
+
+  private dropWalletUpload(pending: PendingWalletUpload): void {
+    this.walletUploads.delete(pending.id);
+    this.reservedNames.delete(`${pending.owner}/${pending.blobName}`);
+    fs.rm(pending.filePath, { force: true }, (err) => {
+      if (err) logger.warn({ err, uploadId: pending.id }, "Failed to remove wallet upload");
+    });
+  }
+
+  /**
+   * The owner's existing blob with the same content, as a deduplicated result
+   */
+  private findExistingBlob(owner: string, contentHash: string, contentType: string): UploadResult | null {
+    const existing = this.blobIndex.findByHash(owner, contentHash);
+    if (!existing) return null;
+
+    logger.info({ blobName: existing.blob_name, contentHash }, "Duplicate upload - reusing existing blob");
+    return {
+      url: existing.url,
+      viewerUrl: existing.viewer_url,
+      blobName: existing.blob_name,
+      owner: existing.owner_address,
+      size: existing.size,
+      expiresAt: new Date(existing.expires_at).toISOString(),
+      contentHash,
+      // Same bytes, so the same type for blobs indexed before types were stored
+      contentType: existing.content_type ?? contentType,
+      thumbnailUrl: existing.thumbnail_url,
+      deduplicated: true,
+    };
+  }
+
+  /**
+   * Add a stored blob to the index and build its result
+   */
+  private indexUploadedBlob(
+    owner: string,
+    blobName: string,
+    file: { size: number; contentHash: string; contentType: string; thumbnailUrl: string | null },
+    expirationMicros: number
+  ): UploadResult {
+    const { size, contentHash, contentType, thumbnailUrl } = file;
+    const url = `${SHELBY_RPC_BASE}/v1/blobs/${owner}/${encodeURIComponent(blobName)}`;
+    const viewerUrl = `/api/share/viewer/${owner}/${encodeURIComponent(blobName)}`;
+    const expiresAtMs = expirationMicros / 1000;
+
+    this.blobIndex.add({
+      owner_address: owner,
+      blob_name: blobName,
+      content_hash: contentHash,
+      content_type: contentType,
+      size,
+      url,
+      viewer_url: viewerUrl,
+      thumbnail_url: thumbnailUrl,
+      expires_at: expiresAtMs,
+      created_at: Date.now(),
+    });
+
+    return {
+      url,
+      viewerUrl,
+      blobName,
+      owner,
+      size,
+      expiresAt: new Date(expiresAtMs).toISOString(),
+      contentHash,
+      contentType,
+      thumbnailUrl,
+      deduplicated: false,
+    };
+  }
+
+  /**
+   * Render a thumbnail and store it as a companion blob owned by the service
+   * account (also for wallet uploads, whose owner only signs for the file
+   * itself). Named after the content hash, so identical files share one.
+   * Best effort: on failure the upload goes ahead without a thumbnail.
+   */
+  private async createThumbnail(
+    client: ShelbyStorageClient,
+    filePath: string,
+    file: { contentType: string; contentHash: string; expirationMicros: number }
+  ): Promise<string | null> {
+    const account = this.account;
+    if (!account) return null;
+    const owner = account.accountAddress.toString();
+    const blobName = `thumb_${file.contentHash}.${THUMBNAIL_EXTENSION}`;
+
+    try {
+      const thumbnail = await this.renderThumbnail(filePath, file.contentType);
+      if (!thumbnail) return null;
+
+      if (!(await client.blobExists(owner, blobName))) {
+        const { blobMerkleRoot } = await client.generateCommitments(
+          Readable.toWeb(Readable.from([thumbnail])) as WebReadableStream<Uint8Array> as ReadableStream<Uint8Array>
+        );
+        await this.registerWithFundingRetry(client, {
+          signer: account,
           blobName,
-          expirationMicros,
+          blobMerkleRoot,
+          size: thumbnail.length,
+          expirationMicros: file.expirationMicros,
         });
 
-        const url = `${SHELBY_RPC_BASE}/v1/blobs/${address}/${encodeURIComponent(blobName)}`;
-        const viewerUrl = `/api/share/viewer/${address}/${encodeURIComponent(blobName)}`;
-        const expiresAt = new Date(expirationMicros / 1000).toISOString();
+        const uploadId = await client.startMultipartUpload({ owner, blobName, partSize: this.partSize });
+        for (let offset = 0, partIdx = 0; offset < thumbnail.length; offset += this.partSize, partIdx++) {
+          await client.uploadPart(uploadId, partIdx, new Uint8Array(thumbnail.subarray(offset, offset + this.partSize)));
+        }
+        await client.completeMultipartUpload(uploadId);
+        logger.info({ blobName, size: thumbnail.length }, "Thumbnail uploaded");
+      }
 
-        return {
-          url,
-          viewerUrl,
-          blobName,
-          owner: address,
-          size: fileBuffer.length,
-          expiresAt,
-        };
+      return `/api/share/view/${owner}/${blobName}`;
+    } catch (error) {
+      const errMsg = error instanceof Error ? error.message : String(error);
+      logger.warn({ errMsg, blobName }, "Failed to create thumbnail");
+      return null;
+    }
+  }
+
+  /**
+   * Claim a blob name the account isn't using yet, adding a numeric suffix on
+   * collision ("photo.png" -> "photo_1.png"). Checks uploads in progress, the
+   * local index and the chain (for blobs registered before the index existed).
+   */
+  private async reserveBlobName(client: ShelbyStorageClient, owner: string, baseName: string): Promise<string> {
+    const ext = path.extname(baseName);
+    const stem = baseName.slice(0, baseName.length - ext.length);
+
+    for (let attempt = 0; attempt < MAX_BLOB_NAME_ATTEMPTS; attempt++) {
+      const candidate = attempt === 0 ? baseName : `${stem}_${attempt}${ext}`;
+      const key = `${owner}/${candidate}`;
+      if (this.reservedNames.has(key) || this.blobIndex.isNameTaken(owner, candidate)) continue;
+
+      // Reserve before the async check so concurrent uploads skip it too
+      this.reservedNames.add(key);
+      if (await client.blobExists(owner, candidate)) {
+        this.reservedNames.delete(key);
+        continue;
       }
+      return candidate;
+    }
 
-      throw error;
+    throw new Error(`No free blob name for ${baseName}`);
+  }
+
+  /**
+   * Register the blob, funding the account and retrying once on INSUFFICIENT_FUNDS
+   */
+  private async registerWithFundingRetry(
+    client: ShelbyStorageClient,
+    params: Parameters<ShelbyStorageClient["registerBlob"]>[0]
+  ): Promise<void> {
+    try {
+      await client.registerBlob(params);
+    } catch (error) {
+      if (!(error instanceof Error) || !error.message.includes("INSUFFICIENT_FUNDS")) {
+        throw error;
+      }
+      logger.info("Retrying registration after funding...");
+      this.lastFundTime = 0; // Reset cooldown to force fund
+      await this.ensureFunded();
+      await client.registerBlob(params);
     }
   }
+
+  /**
+   * Push the file to the Shelby RPC as a multipart upload, reading one part at a time
+   */
+  private async putBlobFromFile(
+    client: ShelbyStorageClient,
+    filePath: string,
+    owner: string,
+    blobName: string,
+    size: number,
+    onBytes: (uploaded: number) => void
+  ): Promise<void> {
+    const uploadId = await client.startMultipartUpload({ owner, blobName, partSize: this.partSize });
+    const totalParts = Math.max(1, Math.ceil(size / this.partSize));
+
+    onBytes(0);
+    const handle = await fs.promises.open(filePath, "r");
+    try {
+      let uploaded = 0;
+      for (let partIdx = 0; partIdx < totalParts; partIdx++) {
+        const length = Math.min(this.partSize, size - partIdx * this.partSize);
+        const buffer = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(buffer, 0, length, partIdx * this.partSize);
+        await client.uploadPart(uploadId, partIdx, buffer.subarray(0, bytesRead));
+        uploaded += bytesRead;
+        onBytes(uploaded);
+      }
+    } finally {
+      await handle.close();
+    }
+
+    await client.completeMultipartUpload(uploadId);
+  }
 }
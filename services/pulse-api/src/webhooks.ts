@@ -0,0 +1,221 @@
+import { createHmac, randomBytes, randomUUID, timingSafeEqual } from "node:crypto";
+import { logger } from "./logger";
+import {
+  deleteDeliveredWebhooksBefore,
+  getAlertRule,
+  getDueWebhookDeliveries,
+  getWebhookDelivery,
+  insertWebhookDelivery,
+  markWebhookDelivered,
+  moveWebhookToDeadLetters,
+  scheduleWebhookRetry,
+  type AlertRuleRecord,
+  type AlertRuleType,
+  type WebhookDeliveryRecord,
+} from "./db";
+
+export const WEBHOOK_SIGNATURE_HEADER = "X-Pulse-Signature";
+export const WEBHOOK_DELIVERY_HEADER = "X-Pulse-Delivery";
+// Wait before each retry; a delivery whose last retry fails too goes to the dead letters
+export const WEBHOOK_RETRY_DELAYS_MS = [30 * 1000, 2 * 60 * 1000, 10 * 60 * 1000, 60 * 60 * 1000];
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+const MAX_DELIVERIES_PER_RUN = 50;
+// Receivers sent to at once; each one still gets its webhooks one at a time, in order
+const MAX_CONCURRENT_RECEIVERS = 5;
+// A run starts no new delivery after this, so a slow receiver can't hold up the sync loop
+const DELIVERY_RUN_BUDGET_MS = 20 * 1000;
+// Delivered webhooks are kept this long for GET /api/alerts/deliveries
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+// verifyWebhookSignature rejects signatures older than this, so a captured request can't be replayed later
+const SIGNATURE_TOLERANCE_MS = 5 * 60 * 1000;
+
+/**
+ * The JSON body of every webhook
+ */
+export interface WebhookPayload {
+  id: string;
+  type: AlertRuleType | "test";
+  rule: { id: number; name: string };
+  createdAt: number;
+  data: unknown;
+}
+
+export interface WebhookRunResult {
+  delivered: number;
+  retrying: number;
+  deadLettered: number;
+}
+
+type AttemptResult = { ok: true; status: number } | { ok: false; status: number | null; error: string };
+
+// Deliveries being attempted right now, so a test send and the sync loop don't both send one
+const inFlight = new Set<string>();
+let deliveryRunInProgress = false;
+
+export function createWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * The signature header value for a body: `t=<ms timestamp>,v1=<hex HMAC-SHA256 of "<timestamp>.<body>">`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Check a webhook's signature header against its raw body, as a receiver would
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  header: string,
+  body: string,
+  now: number = Date.now()
+): boolean {
+  const parts = new Map(header.split(",").map((part) => part.split("=", 2) as [string, string]));
+  const timestamp = Number(parts.get("t"));
+  const signature = parts.get("v1");
+  if (!Number.isInteger(timestamp) || !signature || Math.abs(now - timestamp) > SIGNATURE_TOLERANCE_MS) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body).split("v1=")[1], "hex");
+  const actual = Buffer.from(signature, "hex");
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Queue a webhook to a rule's URL. It is sent by the next delivery run.
+ */
+export function queueWebhook(
+  rule: AlertRuleRecord,
+  type: WebhookPayload["type"],
+  data: unknown,
+  now: number = Date.now()
+): WebhookPayload {
+  const payload: WebhookPayload = { id: randomUUID(), type, rule: { id: rule.id, name: rule.name }, createdAt: now, data };
+  insertWebhookDelivery({
+    id: payload.id,
+    rule_id: rule.id,
+    url: rule.webhook_url,
+    payload: JSON.stringify(payload),
+    created_at: now,
+  });
+  return payload;
+}
+
+async function attemptDelivery(delivery: WebhookDeliveryRecord, secret: string): Promise<AttemptResult> {
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "shelby-pulse-webhooks",
+        [WEBHOOK_DELIVERY_HEADER]: delivery.id,
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(secret, Date.now(), delivery.payload),
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await response.body?.cancel();
+    if (response.ok) return { ok: true, status: response.status };
+    return { ok: false, status: response.status, error: `Receiver answered ${response.status}` };
+  } catch (error) {
+    return { ok: false, status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Attempt one delivery and record how it went: delivered, retried later, or
+ * moved to the dead letters once its retries are used up
+ */
+async function deliverWebhook(
+  delivery: WebhookDeliveryRecord,
+  now: number
+): Promise<keyof WebhookRunResult | null> {
+  if (inFlight.has(delivery.id)) return null;
+  inFlight.add(delivery.id);
+
+  try {
+    const rule = getAlertRule(delivery.rule_id);
+    const result: AttemptResult = rule
+      ? await attemptDelivery(delivery, rule.secret)
+      : { ok: false, status: null, error: "Alert rule was deleted" };
+
+    if (result.ok) {
+      markWebhookDelivered(delivery.id, result.status, now);
+      return "delivered";
+    }
+
+    const failure = { status: result.status, error: result.error };
+    const retryDelay = WEBHOOK_RETRY_DELAYS_MS[delivery.attempts];
+    if (rule && retryDelay !== undefined) {
+      scheduleWebhookRetry(delivery.id, failure, now + retryDelay);
+      logger.warn({ deliveryId: delivery.id, ruleId: delivery.rule_id, ...failure }, "Webhook delivery failed, will retry");
+      return "retrying";
+    }
+
+    moveWebhookToDeadLetters(delivery.id, failure, now);
+    logger.error(
+      { deliveryId: delivery.id, ruleId: delivery.rule_id, attempts: delivery.attempts + 1, ...failure },
+      "Webhook delivery failed for good, moved to dead letters"
+    );
+    return "deadLettered";
+  } finally {
+    inFlight.delete(delivery.id);
+  }
+}
+
+/**
+ * Send the webhooks that are due and prune old delivered ones. Up to
+ * MAX_CONCURRENT_RECEIVERS receivers are sent to at once. Whatever the run's
+ * time budget leaves unsent stays due for the next run.
+ */
+export async function deliverDueWebhooks(now: number = Date.now()): Promise<WebhookRunResult> {
+  const result: WebhookRunResult = { delivered: 0, retrying: 0, deadLettered: 0 };
+  if (deliveryRunInProgress) return result;
+  deliveryRunInProgress = true;
+
+  try {
+    const byReceiver = new Map<string, WebhookDeliveryRecord[]>();
+    for (const delivery of getDueWebhookDeliveries(now, MAX_DELIVERIES_PER_RUN)) {
+      byReceiver.set(delivery.url, [...(byReceiver.get(delivery.url) ?? []), delivery]);
+    }
+    const queues = [...byReceiver.values()];
+    const deadline = Date.now() + DELIVERY_RUN_BUDGET_MS;
+
+    const sendQueues = async (): Promise<void> => {
+      for (let queue = queues.shift(); queue; queue = queues.shift()) {
+        for (const delivery of queue) {
+          if (Date.now() >= deadline) return;
+          const outcome = await deliverWebhook(delivery, now);
+          if (outcome) result[outcome]++;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: MAX_CONCURRENT_RECEIVERS }, sendQueues));
+    deleteDeliveredWebhooksBefore(now - DELIVERED_RETENTION_MS);
+  } finally {
+    deliveryRunInProgress = false;
+  }
+
+  if (result.delivered + result.retrying + result.deadLettered > 0) {
+    logger.info(result, "Webhook delivery run complete");
+  }
+  return result;
+}
+
+/**
+ * Send a test webhook to a rule's URL right away. A failed one is retried
+ * like any other. Returns the delivery as it stands after the first attempt.
+ */
+export async function sendTestWebhook(rule: AlertRuleRecord, now: number = Date.now()): Promise<WebhookDeliveryRecord> {
+  const payload = queueWebhook(rule, "test", { message: `Test webhook for alert rule "${rule.name}"` }, now);
+  const delivery = getWebhookDelivery(payload.id);
+  if (!delivery) throw new Error(`Webhook delivery ${payload.id} was not queued`);
+
+  await deliverWebhook(delivery, now);
+  return getWebhookDelivery(payload.id) ?? delivery;
+}
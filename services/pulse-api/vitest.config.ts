@@ -0,0 +1,10 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+    env: {
+      LOG_LEVEL: "silent",
+    },
+  },
+});
@@ -1,11 +1,14 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { backendApi } from './api/backend'
+import { useLiveFeed } from './hooks/useLiveFeed'
 import { MetricsTab } from './components/MetricsTab'
 import { ProvidersTab } from './components/ProvidersTab'
 import { ActivityTab } from './components/ActivityTab'
 import { EconomyTab } from './components/EconomyTab'
 import { ShareTab } from './components/ShareTab'
 import { WalletButton } from './components/WalletButton'
+import { AddressView } from './components/AddressView'
+import { addressFromHash } from './components/AddressLink'
 
 type Tab = 'activity' | 'metrics' | 'providers' | 'economy' | 'share'
 
@@ -13,6 +16,7 @@ interface NetworkStats {
   totalBlobs: number
   totalStorage: number
   totalStorageFormatted: string
+  liveStorageFormatted: string
   uploadRate: number
   timestamp: number
 }
@@ -25,15 +29,47 @@ function App() {
   const [isLoading, setIsLoading] = useState(true)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
   const [windowWidth, setWindowWidth] = useState(window.innerWidth)
+  // Address links point at #/address/<address>, which replaces the tab content
+  const [viewedAddress, setViewedAddress] = useState<string | null>(() => addressFromHash(window.location.hash))
 
-  useEffect(() => {
-    // Initial fetch
-    fetchNetworkStats()
+  const fetchNetworkStats = useCallback(async () => {
+    try {
+      const stats = await backendApi.getNetworkStats()
+      setNetworkStats(stats)
+      setLastUpdate(new Date())
+      setError(null)
+      setIsLoading(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch data')
+      setIsLoading(false)
+    }
+  }, [])
+
+  const statsRefetch = useRef<ReturnType<typeof setTimeout>>()
 
-    // Poll for updates every 15 seconds (reduced from 5s for better mobile performance)
+  // New blobs change the stats: refetch them at most every 5 seconds while they arrive
+  const live = useLiveFeed(['blobs'], {
+    onBlob: () => {
+      if (statsRefetch.current) return
+      statsRefetch.current = setTimeout(() => {
+        statsRefetch.current = undefined
+        fetchNetworkStats()
+      }, 5000)
+    },
+  })
+
+  // Poll every 15 seconds while the live feed is down; otherwise only once a
+  // minute, since the upload rate changes even when no blobs arrive
+  useEffect(() => {
     const statsInterval = setInterval(() => {
       fetchNetworkStats()
-    }, 15000)
+    }, live ? 60000 : 15000)
+    return () => clearInterval(statsInterval)
+  }, [live, fetchNetworkStats])
+
+  useEffect(() => {
+    // Initial fetch
+    fetchNetworkStats()
 
     // Update time every 30 seconds instead of every second (huge performance gain!)
     const timeInterval = setInterval(() => {
@@ -44,24 +80,27 @@ function App() {
     const handleResize = () => setWindowWidth(window.innerWidth)
     window.addEventListener('resize', handleResize)
 
+    const handleHashChange = () => setViewedAddress(addressFromHash(window.location.hash))
+    window.addEventListener('hashchange', handleHashChange)
+
     return () => {
-      clearInterval(statsInterval)
+      clearTimeout(statsRefetch.current)
       clearInterval(timeInterval)
       window.removeEventListener('resize', handleResize)
+      window.removeEventListener('hashchange', handleHashChange)
     }
-  }, [])
+  }, [fetchNetworkStats])
 
-  async function fetchNetworkStats() {
-    try {
-      const stats = await backendApi.getNetworkStats()
-      setNetworkStats(stats)
-      setLastUpdate(new Date())
-      setError(null)
-      setIsLoading(false)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch data')
-      setIsLoading(false)
+  function closeAddress() {
+    if (window.location.hash) {
+      window.history.pushState(null, '', window.location.pathname + window.location.search)
     }
+    setViewedAddress(null)
+  }
+
+  function selectTab(tab: Tab) {
+    closeAddress()
+    setActiveTab(tab)
   }
 
   function getTimeSinceUpdate() {
@@ -137,31 +176,31 @@ function App() {
           </row>
           <row className="tab-nav">
             <button
-              onClick={() => setActiveTab('activity')}
+              onClick={() => selectTab('activity')}
               className={activeTab === 'activity' ? 'active' : ''}
             >
               Activity
             </button>
             <button
-              onClick={() => setActiveTab('economy')}
+              onClick={() => selectTab('economy')}
               className={activeTab === 'economy' ? 'active' : ''}
             >
               ShelbyUSD
             </button>
             <button
-              onClick={() => setActiveTab('metrics')}
+              onClick={() => selectTab('metrics')}
               className={activeTab === 'metrics' ? 'active' : ''}
             >
               Metrics
             </button>
             <button
-              onClick={() => setActiveTab('providers')}
+              onClick={() => selectTab('providers')}
               className={activeTab === 'providers' ? 'active' : ''}
             >
               Providers
             </button>
             <button
-              onClick={() => setActiveTab('share')}
+              onClick={() => selectTab('share')}
               className={activeTab === 'share' ? 'active' : ''}
             >
               Share
@@ -184,7 +223,7 @@ function App() {
         >
           <span is-="badge" variant-="success">● LIVE</span>
           <span style={{ color: 'var(--foreground2)' }}>
-            Storage: {networkStats.totalStorageFormatted}
+            Storage: {networkStats.liveStorageFormatted}
           </span>
           <span style={{ color: 'var(--foreground2)' }}>|</span>
           <span style={{ color: 'var(--foreground2)' }}>
@@ -211,11 +250,18 @@ function App() {
             position: 'relative'
           }}
         >
-          {activeTab === 'activity' && <ActivityTab currentTime={currentTime} />}
-          {activeTab === 'economy' && <EconomyTab />}
-          {activeTab === 'metrics' && <MetricsTab />}
-          {activeTab === 'providers' && <ProvidersTab />}
-          {activeTab === 'share' && <ShareTab />}
+          {viewedAddress ? (
+            // Keyed so another address starts from fresh state and first pages
+            <AddressView key={viewedAddress} address={viewedAddress} onClose={closeAddress} />
+          ) : (
+            <>
+              {activeTab === 'activity' && <ActivityTab currentTime={currentTime} />}
+              {activeTab === 'economy' && <EconomyTab />}
+              {activeTab === 'metrics' && <MetricsTab />}
+              {activeTab === 'providers' && <ProvidersTab />}
+              {activeTab === 'share' && <ShareTab />}
+            </>
+          )}
         </column>
       </column>
     </column>
@@ -5,11 +5,24 @@
 
 // Use Vercel serverless function catch-all proxy
 const API_BASE_URL = '/api';
+// EventSource gives up on an error response (e.g. 503 when the server has too many streams open)
+const LIVE_FEED_RETRY_MS = 30_000;
 
 export interface NetworkStats {
+  // Every blob ever registered, whatever became of it
   totalBlobs: number;
   totalStorage: number;
   totalStorageFormatted: string;
+  liveBlobs: number;
+  liveStorage: number;
+  liveStorageFormatted: string;
+  expiredBlobs: number;
+  expiredStorage: number;
+  expiredStorageFormatted: string;
+  // Deleted by their owner
+  deletedBlobs: number;
+  deletedStorage: number;
+  deletedStorageFormatted: string;
   uploadRate: number;
   timestamp: number;
 }
@@ -17,6 +30,7 @@ export interface NetworkStats {
 export interface BlobData {
   id: string;
   owner: string;
+  ownerAddress: string | null;
   name: string;
   encoding: string;
   expires: string;
@@ -194,11 +208,197 @@ export interface AnalyticsData {
   blobsPerHour: number;
   bytesPerHour: number;
   bytesPerHourFormatted: string;
+  expiration?: StorageExpirationSummary;
   timestamp: number;
 }
 
+export interface StorageExpirationSummary {
+  liveBlobs: number;
+  liveSize: number;
+  liveSizeFormatted: string;
+  expiredBlobs: number;
+  expiredSize: number;
+  expiredSizeFormatted: string;
+  // Live blobs expiring within the next 7 days
+  expiringSoonBlobs: number;
+  expiringSoonSize: number;
+  expiringSoonSizeFormatted: string;
+  // No longer stored whether or not they expired
+  deletedBlobs: number;
+  deletedSize: number;
+  deletedSizeFormatted: string;
+}
+
+// Blob expiration types
+export interface ExpiringBlob extends AddressBlob {
+  owner: string;
+  eventIndex: number;
+  extension: string;
+  category: string;
+}
+
+export interface ExpiringBlobs {
+  from: number;
+  until: number;
+  total: number;
+  totalBytes: number;
+  totalBytesFormatted: string;
+  limit: number;
+  offset: number;
+  blobs: ExpiringBlob[];
+  timestamp: number;
+}
+
+export interface StorageProjectionPoint {
+  timestamp: number;
+  // Bytes of today's live blobs that will still be live
+  retainedBytes: number;
+  // retainedBytes plus new uploads at the recent daily rate
+  projectedBytes: number;
+  expiringBytes: number;
+}
+
+export interface StorageProjection {
+  from: number;
+  liveBytes: number;
+  dailyUploadBytes: number;
+  horizons: Array<{
+    days: number;
+    retainedBytes: number;
+    projectedBytes: number;
+    expiringBlobs: number;
+    expiringBytes: number;
+  }>;
+  points: StorageProjectionPoint[];
+}
+
+// Address explorer types
+export interface AddressBlob {
+  blobId: string;
+  name: string | null;
+  sizeBytes: number;
+  size: string;
+  encoding: string | null;
+  createdAt: number | null;
+  expiresAt: number | null;
+  expired: boolean;
+  version: number;
+}
+
+export interface AddressActivity {
+  version: number;
+  eventIndex: number;
+  type: 'deposit' | 'withdraw' | 'mint' | 'burn';
+  amount: number;
+  timestamp: number;
+}
+
+export interface Page<T> {
+  total: number;
+  limit: number;
+  offset: number;
+  items: T[];
+}
+
+export interface AddressDetails {
+  address: string;
+  stats: {
+    blobCount: number;
+    activeBlobs: number;
+    totalBytes: number;
+    totalBytesFormatted: string;
+    firstUploadAt: number | null;
+    lastUploadAt: number | null;
+    txCount: number;
+    totalDeposited: number;
+    totalWithdrawn: number;
+    totalMinted: number;
+    totalBurned: number;
+    balance: number | null;
+  };
+  // Leaderboard positions (1 = top), null when not on the board
+  ranks: {
+    holders: number | null;
+    mostActive: number | null;
+    topSpenders: number | null;
+    topMinters: number | null;
+    storage: number | null;
+  };
+  blobs: Page<AddressBlob>;
+  activity: Page<AddressActivity>;
+  timestamp: number;
+}
+
+// Timeseries types
+// blob_count, bytes_stored and unique_owners are totals at the end of each
+// bucket; shelbyusd_volume and shelbyusd_mints are per bucket
+export type TimeseriesMetric =
+  | 'blob_count'
+  | 'bytes_stored'
+  | 'unique_owners'
+  | 'shelbyusd_volume'
+  | 'shelbyusd_mints';
+
+export type TimeseriesBucket = 'hour' | 'day';
+
+export interface TimeseriesPoint {
+  timestamp: number;
+  value: number;
+}
+
+export interface TimeseriesData {
+  metric: TimeseriesMetric;
+  bucket: TimeseriesBucket;
+  from: number;
+  to: number;
+  points: TimeseriesPoint[];
+}
+
+// Live feed types (/api/stream)
+export type LiveTopic = 'blobs' | 'activities';
+
+export interface LiveBlob {
+  version: string;
+  eventIndex: number;
+  blobId: string;
+  owner: string;
+  name: string;
+  sizeBytes: number;
+  encoding: string | null;
+  createdAt: number | null;
+  expiresAt: number | null;
+}
+
+export interface LiveActivity {
+  version: string;
+  eventIndex: number;
+  address: string;
+  type: 'deposit' | 'withdraw' | 'mint' | 'burn';
+  amount: number;
+  timestamp: number;
+}
+
+export interface LiveFeedHandlers {
+  onBlob?: (blob: LiveBlob) => void;
+  onActivity?: (activity: LiveActivity) => void;
+  // The stream skipped too many events on these topics; reload them over REST
+  onReset?: (topics: LiveTopic[]) => void;
+  // Whether the stream is connected; while it isn't, fall back to polling
+  onConnectionChange?: (connected: boolean) => void;
+}
+
+// An open /api/stream connection and the subscribers sharing it
+interface LiveFeedConnection {
+  source: EventSource | null;
+  subscribers: Set<LiveFeedHandlers>;
+  connected: boolean;
+  retryTimer: ReturnType<typeof setTimeout> | null;
+}
+
 class BackendApiClient {
   private baseUrl: string;
+  // One stream per topic set, however many components subscribe to it
+  private liveFeeds = new Map<string, LiveFeedConnection>();
 
   constructor(baseUrl: string = API_BASE_URL) {
     this.baseUrl = baseUrl;
@@ -237,6 +437,72 @@ class BackendApiClient {
     return response.json();
   }
 
+  /**
+   * Subscribe to newly synced blobs and ShelbyUSD activities over Server-Sent
+   * Events. Subscribers to the same topics share one stream, which the browser
+   * reconnects on its own, resuming after the last event it received, and
+   * which is reopened later if the server refuses it. Returns a function that
+   * unsubscribes; the stream closes with its last subscriber.
+   */
+  subscribeLiveFeed(topics: LiveTopic[], handlers: LiveFeedHandlers): () => void {
+    if (typeof EventSource === 'undefined') {
+      handlers.onConnectionChange?.(false);
+      return () => {};
+    }
+
+    const key = [...new Set(topics)].sort().join(',');
+    const feed = this.liveFeeds.get(key) ?? this.openLiveFeed(key);
+    this.liveFeeds.set(key, feed);
+    feed.subscribers.add(handlers);
+    handlers.onConnectionChange?.(feed.connected);
+
+    return () => {
+      feed.subscribers.delete(handlers);
+      if (feed.subscribers.size > 0) return;
+      feed.source?.close();
+      if (feed.retryTimer) clearTimeout(feed.retryTimer);
+      this.liveFeeds.delete(key);
+    };
+  }
+
+  private openLiveFeed(topics: string): LiveFeedConnection {
+    const feed: LiveFeedConnection = { source: null, subscribers: new Set(), connected: false, retryTimer: null };
+    const setConnected = (connected: boolean) => {
+      feed.connected = connected;
+      for (const handlers of feed.subscribers) handlers.onConnectionChange?.(connected);
+    };
+    const connect = () => {
+      feed.retryTimer = null;
+      feed.source = this.connectLiveFeed(topics, feed.subscribers);
+      feed.source.onopen = () => setConnected(true);
+      feed.source.onerror = () => {
+        setConnected(false);
+        if (feed.source?.readyState === EventSource.CLOSED) {
+          feed.retryTimer = setTimeout(connect, LIVE_FEED_RETRY_MS);
+        }
+      };
+    };
+    connect();
+    return feed;
+  }
+
+  private connectLiveFeed(topics: string, subscribers: Set<LiveFeedHandlers>): EventSource {
+    const source = new EventSource(`${this.baseUrl}/stream?topics=${topics}`);
+    source.addEventListener('blobs', (event) => {
+      const blob: LiveBlob = JSON.parse((event as MessageEvent<string>).data);
+      for (const handlers of subscribers) handlers.onBlob?.(blob);
+    });
+    source.addEventListener('activities', (event) => {
+      const activity: LiveActivity = JSON.parse((event as MessageEvent<string>).data);
+      for (const handlers of subscribers) handlers.onActivity?.(activity);
+    });
+    source.addEventListener('reset', (event) => {
+      const { topics: resetTopics }: { topics: LiveTopic[] } = JSON.parse((event as MessageEvent<string>).data);
+      for (const handlers of subscribers) handlers.onReset?.(resetTopics);
+    });
+    return source;
+  }
+
   /**
    * Fetch economy data
    * @param forceRefresh - bypass cache to get fresh data
@@ -274,6 +540,71 @@ class BackendApiClient {
     return response.json();
   }
 
+  /**
+   * Get an address's blobs, ShelbyUSD activity, totals and leaderboard ranks
+   */
+  async getAddress(
+    address: string,
+    options: { blobsOffset?: number; activityOffset?: number; limit?: number } = {}
+  ): Promise<AddressDetails> {
+    const limit = (options.limit ?? 20).toString();
+    const params = new URLSearchParams({
+      blobs_limit: limit,
+      blobs_offset: (options.blobsOffset ?? 0).toString(),
+      activity_limit: limit,
+      activity_offset: (options.activityOffset ?? 0).toString(),
+    });
+    const response = await fetch(`${this.baseUrl}/address/${encodeURIComponent(address)}?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch address: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Get a metric's hourly or daily history (defaults to the last 7 days of hours)
+   */
+  async getTimeseries(
+    metric: TimeseriesMetric,
+    options: { bucket?: TimeseriesBucket; from?: number; to?: number } = {}
+  ): Promise<TimeseriesData> {
+    const params = new URLSearchParams({ metric, bucket: options.bucket ?? 'hour' });
+    if (options.from !== undefined) {
+      params.append('from', options.from.toString());
+    }
+    if (options.to !== undefined) {
+      params.append('to', options.to.toString());
+    }
+    const response = await fetch(`${this.baseUrl}/timeseries?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch timeseries: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Get the live blobs expiring within a duration such as '24h' or '7d', soonest first
+   */
+  async getExpiringBlobs(within = '7d', limit = 50): Promise<ExpiringBlobs> {
+    const params = new URLSearchParams({ within, limit: limit.toString() });
+    const response = await fetch(`${this.baseUrl}/blobs/expiring?${params}`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch expiring blobs: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  /**
+   * Get live storage projected a year ahead, with 30, 90 and 365 day summaries
+   */
+  async getStorageProjection(): Promise<StorageProjection> {
+    const response = await fetch(`${this.baseUrl}/storage/projection`);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch storage projection: ${response.statusText}`);
+    }
+    return response.json();
+  }
+
   /**
    * Get user's recent ShelbyUSD deposits with transaction hashes
    */
@@ -5,6 +5,8 @@
 
 export interface Blob {
   owner: string
+  // Full address behind the shortened owner, when known
+  ownerAddress?: string | null
   name: string
   encoding: string
   expires: string
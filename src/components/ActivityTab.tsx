@@ -1,5 +1,9 @@
 import { useEffect, useState, useRef } from 'react'
 import { backendApi } from '../api/backend'
+import { useLiveFeed } from '../hooks/useLiveFeed'
+
+// Number of recent blob events the Events stat counts
+const RECENT_EVENTS_LIMIT = 50
 
 interface ActivityTabProps {
   currentTime: Date
@@ -54,20 +58,25 @@ export function ActivityTab({ currentTime }: ActivityTabProps) {
     return () => clearInterval(interval)
   }, [])
 
-  // Fetch event count every 15s (optimized for scale - 100+ users)
+  // Count new blob events as they arrive; poll every 15s while the live feed is down
+  const live = useLiveFeed(['blobs'], {
+    onBlob: () => setEventCount(count => Math.min(count + 1, RECENT_EVENTS_LIMIT)),
+  })
+
   useEffect(() => {
     const fetchEvents = async () => {
       try {
-        const events = await backendApi.getRecentEvents(50)
+        const events = await backendApi.getRecentEvents(RECENT_EVENTS_LIMIT)
         setEventCount(events.length)
       } catch {
         // Failed to fetch events - will retry on next interval
       }
     }
     fetchEvents()
+    if (live) return
     const interval = setInterval(fetchEvents, 15000) // 15s for scale (was 5s)
     return () => clearInterval(interval)
-  }, [])
+  }, [live])
 
   // Direct pointer positioning - no smoothing for instant response
   useEffect(() => {
@@ -0,0 +1,37 @@
+import type { CSSProperties, ReactNode } from 'react'
+
+// Address detail views live at #/address/<address>
+const ADDRESS_HASH_PREFIX = '#/address/'
+
+export function addressHref(address: string): string {
+  return `${ADDRESS_HASH_PREFIX}${address}`
+}
+
+/**
+ * The address in a location hash, or null when the hash isn't an address view
+ */
+export function addressFromHash(hash: string): string | null {
+  if (!hash.startsWith(ADDRESS_HASH_PREFIX)) return null
+  const address = decodeURIComponent(hash.slice(ADDRESS_HASH_PREFIX.length))
+  return /^0x[0-9a-fA-F]{1,64}$/.test(address) ? address : null
+}
+
+export function AddressLink({
+  address,
+  children,
+  style
+}: {
+  address: string
+  children?: ReactNode
+  style?: CSSProperties
+}) {
+  return (
+    <a
+      href={addressHref(address)}
+      title={address}
+      style={{ color: 'inherit', textDecoration: 'none', ...style }}
+    >
+      {children ?? address}
+    </a>
+  )
+}
@@ -0,0 +1,259 @@
+import { useEffect, useState } from 'react'
+import { backendApi, type AddressDetails, type AddressActivity } from '../api/backend'
+
+const PAGE_SIZE = 20
+
+const activityLabels: Record<AddressActivity['type'], { label: string; color: string }> = {
+  deposit: { label: 'Deposit', color: '#00C896' },
+  withdraw: { label: 'Withdraw', color: '#E67E22' },
+  mint: { label: 'Mint', color: '#FF69B4' },
+  burn: { label: 'Burn', color: '#7F8C8D' },
+}
+
+function Pager({
+  offset,
+  total,
+  onChange
+}: {
+  offset: number
+  total: number
+  onChange: (offset: number) => void
+}) {
+  if (total <= PAGE_SIZE) return null
+
+  return (
+    <row gap-="1" style={{ alignItems: 'center', justifyContent: 'flex-end', fontSize: '0.75rem' }}>
+      <button
+        type="button"
+        is-="button"
+        size-="half"
+        disabled={offset === 0}
+        onClick={() => onChange(Math.max(0, offset - PAGE_SIZE))}
+      >
+        ← Prev
+      </button>
+      <small style={{ color: 'var(--foreground2)', fontVariantNumeric: 'tabular-nums' }}>
+        {offset + 1}–{Math.min(offset + PAGE_SIZE, total)} of {total}
+      </small>
+      <button
+        type="button"
+        is-="button"
+        size-="half"
+        disabled={offset + PAGE_SIZE >= total}
+        onClick={() => onChange(offset + PAGE_SIZE)}
+      >
+        Next →
+      </button>
+    </row>
+  )
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <column gap-="0" style={{ minWidth: '110px' }}>
+      <small style={{ color: 'var(--foreground2)', fontSize: '0.65rem', textTransform: 'uppercase' }}>{label}</small>
+      <strong style={{ fontVariantNumeric: 'tabular-nums' }}>{value}</strong>
+    </column>
+  )
+}
+
+export function AddressView({ address, onClose }: { address: string; onClose: () => void }) {
+  const [details, setDetails] = useState<AddressDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [blobsOffset, setBlobsOffset] = useState(0)
+  const [activityOffset, setActivityOffset] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    backendApi
+      .getAddress(address, { blobsOffset, activityOffset, limit: PAGE_SIZE })
+      .then(data => {
+        if (!cancelled) setDetails(data)
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load address')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [address, blobsOffset, activityOffset])
+
+  const header = (
+    <row gap-="1" style={{ alignItems: 'center', flexWrap: 'wrap' }}>
+      <span is-="badge" variant-="pink" cap-="ribbon slant-top" size-="half">Address</span>
+      <span style={{ fontFamily: 'monospace', fontSize: '0.75rem', wordBreak: 'break-all', flex: 1, minWidth: 0 }}>
+        {address}
+      </span>
+      <a
+        href={`https://explorer.aptoslabs.com/account/${address}?network=shelbynet`}
+        target="_blank"
+        rel="noopener noreferrer"
+        style={{ color: 'var(--foreground2)', fontSize: '0.75rem' }}
+      >
+        Explorer ↗
+      </a>
+      <button type="button" is-="button" size-="half" onClick={onClose}>
+        ✕ Close
+      </button>
+    </row>
+  )
+
+  if (error && !details) {
+    return (
+      <column gap-="1">
+        {header}
+        <small style={{ color: 'var(--error)' }}>{error}</small>
+      </column>
+    )
+  }
+
+  if (!details) {
+    return (
+      <column gap-="1">
+        {header}
+        <row gap-="1" style={{ alignItems: 'center' }}>
+          <span is-="spinner" style={{ color: 'var(--accent)' }}></span>
+          <small style={{ color: 'var(--foreground2)' }}>Loading address...</small>
+        </row>
+      </column>
+    )
+  }
+
+  const { stats, ranks, blobs, activity } = details
+  const rankBadges = [
+    { label: 'Holders', rank: ranks.holders },
+    { label: 'Most active', rank: ranks.mostActive },
+    { label: 'Spenders', rank: ranks.topSpenders },
+    { label: 'Minters', rank: ranks.topMinters },
+    { label: 'Storage', rank: ranks.storage },
+  ].filter(badge => badge.rank !== null)
+
+  return (
+    <column gap-="1.5">
+      {header}
+
+      {/* Totals */}
+      <column box-="round" shear-="top" pad-="1" gap-="1">
+        <row gap-="1">
+          <span is-="badge" variant-="blue" cap-="slant-bottom triangle" size-="half">Overview</span>
+        </row>
+        <row gap-="2" style={{ flexWrap: 'wrap' }}>
+          <Stat label="Balance" value={stats.balance === null ? '—' : formatAmount(stats.balance)} />
+          <Stat label="Transactions" value={stats.txCount.toLocaleString()} />
+          <Stat label="Deposited" value={formatAmount(stats.totalDeposited)} />
+          <Stat label="Withdrawn" value={formatAmount(stats.totalWithdrawn)} />
+          <Stat label="Minted" value={formatAmount(stats.totalMinted)} />
+          <Stat label="Blobs" value={`${stats.blobCount.toLocaleString()} (${stats.activeBlobs.toLocaleString()} active)`} />
+          <Stat label="Stored" value={stats.totalBytesFormatted} />
+          <Stat label="Last upload" value={stats.lastUploadAt ? formatTime(stats.lastUploadAt) : '—'} />
+        </row>
+        {rankBadges.length > 0 && (
+          <row gap-="1" style={{ flexWrap: 'wrap' }}>
+            {rankBadges.map(badge => (
+              <span key={badge.label} is-="badge" variant-="background2" cap-="round" size-="half">
+                #{badge.rank} {badge.label}
+              </span>
+            ))}
+          </row>
+        )}
+      </column>
+
+      {/* Blobs */}
+      <column box-="round" shear-="top" pad-="1" gap-="0.5">
+        <row gap-="1">
+          <span is-="badge" variant-="pink" cap-="ribbon slant-top" size-="half">📦 Blobs</span>
+        </row>
+        {blobs.items.length === 0 ? (
+          <small style={{ color: 'var(--foreground2)' }}>No blobs registered by this address</small>
+        ) : (
+          <column gap-="0" style={{ fontSize: '0.75rem' }}>
+            {blobs.items.map(blob => (
+              <row
+                key={blob.blobId}
+                gap-="1"
+                style={{
+                  padding: '0.3rem 0.5rem',
+                  alignItems: 'center',
+                  borderBottom: '1px solid var(--background2)',
+                  opacity: blob.expired ? 0.5 : 1
+                }}
+              >
+                <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {blob.name ?? blob.blobId}
+                </span>
+                <span style={{ color: 'var(--foreground2)', flexShrink: 0 }}>
+                  {blob.createdAt ? formatTime(blob.createdAt) : '—'}
+                </span>
+                {blob.expired && (
+                  <span is-="badge" variant-="background2" size-="half" style={{ fontSize: '0.6rem' }}>expired</span>
+                )}
+                <span style={{ width: '70px', flexShrink: 0, textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>
+                  {blob.size}
+                </span>
+              </row>
+            ))}
+          </column>
+        )}
+        <Pager offset={blobsOffset} total={blobs.total} onChange={setBlobsOffset} />
+      </column>
+
+      {/* ShelbyUSD activity */}
+      <column box-="round" shear-="top" pad-="1" gap-="0.5">
+        <row gap-="1">
+          <span is-="badge" variant-="green" cap-="ribbon slant-top" size-="half">ShelbyUSD Activity</span>
+        </row>
+        {activity.items.length === 0 ? (
+          <small style={{ color: 'var(--foreground2)' }}>No ShelbyUSD activity</small>
+        ) : (
+          <column gap-="0" style={{ fontSize: '0.75rem' }}>
+            {activity.items.map(item => {
+              const info = activityLabels[item.type]
+              return (
+                <row
+                  key={`${item.version}-${item.eventIndex}`}
+                  gap-="1"
+                  style={{ padding: '0.3rem 0.5rem', alignItems: 'center', borderBottom: '1px solid var(--background2)' }}
+                >
+                  <span style={{ color: info.color, width: '70px', flexShrink: 0 }}>{info.label}</span>
+                  <span style={{ color: 'var(--foreground2)', flex: 1, minWidth: 0 }}>
+                    {formatTime(item.timestamp)}
+                  </span>
+                  <a
+                    href={`https://explorer.aptoslabs.com/txn/${item.version}?network=shelbynet`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: 'var(--foreground2)', textDecoration: 'none', fontFamily: 'monospace' }}
+                  >
+                    v{item.version}
+                  </a>
+                  <span style={{ width: '80px', flexShrink: 0, textAlign: 'right', fontWeight: 600 }}>
+                    {formatAmount(item.amount)}
+                  </span>
+                </row>
+              )
+            })}
+          </column>
+        )}
+        <Pager offset={activityOffset} total={activity.total} onChange={setActivityOffset} />
+      </column>
+    </column>
+  )
+}
+
+// ShelbyUSD amounts come in 8-decimal base units
+function formatAmount(amount: number): string {
+  const shelbyUSD = amount / 100_000_000
+  if (shelbyUSD >= 1_000_000) return `${(shelbyUSD / 1_000_000).toFixed(2)}M`
+  if (shelbyUSD >= 1_000) return `${(shelbyUSD / 1_000).toFixed(2)}K`
+  return shelbyUSD.toFixed(2)
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+}
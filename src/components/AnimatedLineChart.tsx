@@ -1,56 +1,59 @@
 import { useEffect, useState } from 'react'
-
-interface DataPoint {
-  value: number
-  timestamp: number
-}
+import { backendApi, type TimeseriesBucket, type TimeseriesMetric, type TimeseriesPoint } from '../api/backend'
 
 interface AnimatedLineChartProps {
-  maxDataPoints?: number
+  metric: TimeseriesMetric
+  bucket?: TimeseriesBucket
+  // How far back the chart goes, in milliseconds
+  rangeMs?: number
   label: string
   color?: string
   height?: number
+  formatValue?: (value: number) => string
 }
 
 export function AnimatedLineChart({
-  maxDataPoints = 20,
+  metric,
+  bucket = 'hour',
+  rangeMs = 24 * 60 * 60 * 1000,
   label,
   color = 'var(--lime)',
-  height = 200
+  height = 200,
+  formatValue = value => value.toLocaleString()
 }: AnimatedLineChartProps) {
-  const [dataPoints, setDataPoints] = useState<DataPoint[]>([])
+  const [dataPoints, setDataPoints] = useState<TimeseriesPoint[]>([])
 
   useEffect(() => {
-    // Initial data - reduced for better performance
-    const initial = Array.from({ length: 10 }, (_, i) => ({
-      value: Math.random() * 100,
-      timestamp: Date.now() - (10 - i) * 5000
-    }))
-    setDataPoints(initial)
+    // History comes from the server's rollups, so it survives a reload
+    const fetchHistory = async () => {
+      try {
+        const now = Date.now()
+        const data = await backendApi.getTimeseries(metric, { bucket, from: now - rangeMs, to: now })
+        setDataPoints(data.points)
+      } catch {
+        // Keep the last history we had
+      }
+    }
 
-    // Add new data point every 5 seconds (reduced from 1s for better performance)
-    const interval = setInterval(() => {
-      setDataPoints(prev => {
-        const newPoint: DataPoint = {
-          value: Math.max(0, Math.min(100, prev[prev.length - 1]?.value + (Math.random() - 0.5) * 30)),
-          timestamp: Date.now()
-        }
-        return [...prev.slice(1), newPoint]
-      })
-    }, 5000)
+    fetchHistory()
+    // New buckets are rolled up with every sync; refresh every 5 minutes
+    const interval = setInterval(fetchHistory, 5 * 60 * 1000)
 
     return () => clearInterval(interval)
-  }, [maxDataPoints])
+  }, [metric, bucket, rangeMs])
 
   const width = 100 // percentage
   const padding = 10
 
+  // Scale to the range of the values shown, so slow-growing totals stay visible
+  const values = dataPoints.map(point => point.value)
+  const minValue = values.length > 0 ? Math.min(...values) : 0
+  const maxValue = Math.max(...values, minValue + 1)
+  const toX = (index: number) => (index / Math.max(dataPoints.length - 1, 1)) * (width - padding * 2) + padding
+  const toY = (value: number) => height - ((value - minValue) / (maxValue - minValue)) * (height - padding * 2) - padding
+
   // Calculate path
-  const points = dataPoints.map((point, index) => {
-    const x = (index / (maxDataPoints - 1)) * (width - padding * 2) + padding
-    const y = height - (point.value / 100) * (height - padding * 2) - padding
-    return `${x},${y}`
-  }).join(' ')
+  const points = dataPoints.map((point, index) => `${toX(index)},${toY(point.value)}`).join(' ')
 
   const pathD = `M ${points.split(' ').join(' L ')}`
 
@@ -87,12 +90,14 @@ export function AnimatedLineChart({
         ))}
 
         {/* Static line - animations disabled for better performance */}
-        <path
-          d={pathD}
-          fill="none"
-          stroke={color}
-          strokeWidth="2"
-        />
+        {dataPoints.length > 1 && (
+          <path
+            d={pathD}
+            fill="none"
+            stroke={color}
+            strokeWidth="2"
+          />
+        )}
 
         {/* Static fill gradient */}
         <defs>
@@ -101,29 +106,28 @@ export function AnimatedLineChart({
             <stop offset="100%" stopColor={color} stopOpacity="0" />
           </linearGradient>
         </defs>
-        <path
-          d={`${pathD} L ${width - padding},${height - padding} L ${padding},${height - padding} Z`}
-          fill={`url(#gradient-${label})`}
-        />
+        {dataPoints.length > 1 && (
+          <path
+            d={`${pathD} L ${width - padding},${height - padding} L ${padding},${height - padding} Z`}
+            fill={`url(#gradient-${label})`}
+          />
+        )}
 
         {/* Static dots - removed animation for performance */}
-        {dataPoints.map((point, index) => {
-          const x = (index / (dataPoints.length - 1)) * (width - padding * 2) + padding
-          const y = height - (point.value / 100) * (height - padding * 2) - padding
-
-          return (
-            <circle
-              key={point.timestamp}
-              cx={x}
-              cy={y}
-              r="2"
-              fill={color}
-            />
-          )
-        })}
+        {dataPoints.map((point, index) => (
+          <circle
+            key={point.timestamp}
+            cx={toX(index)}
+            cy={toY(point.value)}
+            r="2"
+            fill={color}
+          />
+        ))}
       </svg>
       <p style={{ fontSize: 'var(--font-size-small)', color: 'var(--white-20)', marginTop: '0.5rem' }}>
-        {label}: <span style={{ color }}>{dataPoints[dataPoints.length - 1]?.value.toFixed(1)}</span>
+        {label}: <span style={{ color }}>
+          {dataPoints.length > 0 ? formatValue(dataPoints[dataPoints.length - 1].value) : '—'}
+        </span>
       </p>
     </div>
   )
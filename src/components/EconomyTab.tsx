@@ -1,6 +1,7 @@
 import { useEffect, useState, memo } from 'react';
 import { backendApi } from '../api/backend';
 import { AsciiBar } from './AsciiBar';
+import { AddressLink } from './AddressLink';
 import { FarmingPanel } from './FarmingPanel';
 import { ContinuousFarmingPanel } from './ContinuousFarmingPanel';
 
@@ -558,7 +559,7 @@ const EconomyTabComponent = () => {
                     }}>
                       <span style={{ color: 'var(--foreground2)', minWidth: '1.2rem' }}>{i + 1}.</span>
                       <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
-                        {uploader.addressShort}
+                        <AddressLink address={uploader.address}>{uploader.addressShort}</AddressLink>
                       </span>
                       <span style={{ color: '#9B59B6', fontWeight: 600 }}>
                         {uploader.totalBytesFormatted}
@@ -621,7 +622,7 @@ const EconomyTabComponent = () => {
                     minWidth: 0,
                   }}
                 >
-                  {shortenAddress(entry.address)}
+                  <AddressLink address={entry.address}>{shortenAddress(entry.address)}</AddressLink>
                 </span>
                 <span style={{ flex: 1, minWidth: 0, overflow: 'hidden' }}>
                   <AsciiBar width={entry.barWidth} />
@@ -682,7 +683,7 @@ const EconomyTabComponent = () => {
                     minWidth: 0,
                   }}
                 >
-                  {shortenAddress(entry.address)}
+                  <AddressLink address={entry.address}>{shortenAddress(entry.address)}</AddressLink>
                 </span>
                 <span style={{ flex: 1, minWidth: 0, overflow: 'hidden' }}>
                   <AsciiBar width={entry.barWidth} />
@@ -746,7 +747,7 @@ const EconomyTabComponent = () => {
                     minWidth: 0,
                   }}
                 >
-                  {shortenAddress(entry.address)}
+                  <AddressLink address={entry.address}>{shortenAddress(entry.address)}</AddressLink>
                 </span>
                 <span style={{ flex: 1, minWidth: 0, overflow: 'hidden' }}>
                   <AsciiBar width={entry.barWidth} />
@@ -814,7 +815,7 @@ const EconomyTabComponent = () => {
                       whiteSpace: 'nowrap',
                     }}
                   >
-                    {shortenAddress(tx.address)}
+                    <AddressLink address={tx.address}>{shortenAddress(tx.address)}</AddressLink>
                   </span>
                   <span
                     style={{
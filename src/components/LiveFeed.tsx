@@ -1,5 +1,18 @@
 import type { Blob } from '../api/shelby'
 import { useState, useEffect } from 'react'
+import { backendApi } from '../api/backend'
+import { toBlobData, useLiveFeed } from '../hooks/useLiveFeed'
+import { AddressLink } from './AddressLink'
+
+const MAX_BLOBS = 10
+
+async function loadRecentBlobs(setBlobs: (blobs: Blob[]) => void) {
+  try {
+    setBlobs(await backendApi.getRecentBlobs(MAX_BLOBS))
+  } catch {
+    // Failed to fetch blobs - keep the ones shown
+  }
+}
 
 interface Props {
   blobs: Blob[]
@@ -15,6 +28,23 @@ export default function LiveFeed({ blobs }: Props) {
     return () => clearInterval(interval)
   }, [])
 
+  // Blobs newer than the ones passed in: pushed by the live feed, or polled while it is down
+  const [newBlobs, setNewBlobs] = useState<Blob[]>([])
+
+  const live = useLiveFeed(['blobs'], {
+    onBlob: (blob) => setNewBlobs(prev => [toBlobData(blob), ...prev].slice(0, MAX_BLOBS)),
+    // The feed skipped blobs, so the list has gaps
+    onReset: () => loadRecentBlobs(setNewBlobs),
+  })
+
+  useEffect(() => {
+    if (live) return
+    const interval = setInterval(() => loadRecentBlobs(setNewBlobs), 15000)
+    return () => clearInterval(interval)
+  }, [live])
+
+  const shown = [...newBlobs, ...blobs.filter(blob => !newBlobs.some(newBlob => newBlob.id === blob.id))].slice(0, MAX_BLOBS)
+
   return (
     <column
       box-="double"
@@ -32,12 +62,12 @@ export default function LiveFeed({ blobs }: Props) {
           ╚════════════════╝
         </h3>
         <span is-="badge" variant-="green">
-          ◉ {blobs.length} recent
+          ◉ {shown.length} recent
         </span>
       </row>
 
       <column gap-="1.5">
-        {blobs.map((blob, index) => (
+        {shown.map((blob, index) => (
           <column
             key={blob.id}
             box-="square"
@@ -61,7 +91,7 @@ export default function LiveFeed({ blobs }: Props) {
               color: 'var(--foreground0)',
               marginBottom: '0.5lh'
             }}>
-              ▸ {blob.owner} • {blob.name}
+              ▸ {blob.ownerAddress ? <AddressLink address={blob.ownerAddress}>{blob.owner}</AddressLink> : blob.owner} • {blob.name}
             </span>
             <row gap-="2" style={{ fontSize: '0.9em' }}>
               <span is-="badge" variant-="blue">
@@ -1,55 +1,82 @@
 import { useState, useEffect } from 'react'
 import type { NetworkStats } from '../api/shelby'
+import { backendApi, type BlobData, type LiveActivity } from '../api/backend'
+import { toBlobData, useLiveFeed } from '../hooks/useLiveFeed'
 
 interface Props {
   stats: NetworkStats | undefined
 }
 
-// Simulate streaming data
+// A blob upload or a ShelbyUSD activity
 interface TickerItem {
   id: string
-  type: 'upload' | 'download' | 'expire'
+  type: 'upload' | LiveActivity['type']
   owner: string
   name: string
   size: string
   timestamp: number
 }
 
+const MAX_ITEMS = 10
+
+function blobItem(blob: BlobData, timestamp: number): TickerItem {
+  return { id: `blob-${blob.version}-${blob.id}`, type: 'upload', owner: blob.owner, name: blob.name, size: blob.size, timestamp }
+}
+
+function activityItem(activity: LiveActivity): TickerItem {
+  return {
+    id: `activity-${activity.version}-${activity.eventIndex}`,
+    type: activity.type,
+    owner: `${activity.address.slice(0, 6)}...${activity.address.slice(-5)}`,
+    name: `ShelbyUSD ${activity.type}`,
+    size: `${(activity.amount / 1e8).toFixed(2)} USD`,
+    timestamp: activity.timestamp,
+  }
+}
+
 export default function LiveTicker({ stats }: Props) {
   const [items, setItems] = useState<TickerItem[]>([])
 
-  // Simulate new items appearing
-  useEffect(() => {
-    const interval = setInterval(() => {
-      const newItem: TickerItem = {
-        id: Math.random().toString(),
-        type: ['upload', 'download', 'expire'][Math.floor(Math.random() * 3)] as any,
-        owner: `0x${Math.random().toString(16).slice(2, 6)}...${Math.random().toString(16).slice(2, 7)}`,
-        name: ['image.jpg', 'data.json', 'metadata.txt', 'video.mp4', 'config.yaml'][Math.floor(Math.random() * 5)],
-        size: ['2 KB', '156 KB', '1.2 MB', '450 KB', '89 KB'][Math.floor(Math.random() * 5)],
-        timestamp: Date.now(),
-      }
+  const addItem = (item: TickerItem) => setItems(prev => [item, ...prev].slice(0, MAX_ITEMS))
 
-      setItems(prev => [newItem, ...prev].slice(0, 10))
-    }, 2000 + Math.random() * 2000) // Random interval 2-4s
+  const live = useLiveFeed(['blobs', 'activities'], {
+    onBlob: (blob) => addItem(blobItem(toBlobData(blob), blob.createdAt ?? Date.now())),
+    onActivity: (activity) => addItem(activityItem(activity)),
+  })
 
+  // Poll recent uploads every 15s while the live feed is down
+  useEffect(() => {
+    if (live) return
+    const fetchBlobs = async () => {
+      try {
+        const blobs = await backendApi.getRecentBlobs(MAX_ITEMS)
+        const now = Date.now()
+        setItems(blobs.map(blob => blobItem(blob, now)))
+      } catch {
+        // Failed to fetch blobs - will retry on next interval
+      }
+    }
+    fetchBlobs()
+    const interval = setInterval(fetchBlobs, 15000)
     return () => clearInterval(interval)
-  }, [])
+  }, [live])
 
-  const getIcon = (type: string) => {
+  const getIcon = (type: TickerItem['type']) => {
     switch (type) {
       case 'upload': return '↑'
-      case 'download': return '↓'
-      case 'expire': return '⏱'
+      case 'deposit': return '↓'
+      case 'withdraw': return '↑'
+      case 'mint': return '+'
+      case 'burn': return '×'
       default: return '·'
     }
   }
 
-  const getBadgeVariant = (type: string) => {
+  const getBadgeVariant = (type: TickerItem['type']) => {
     switch (type) {
       case 'upload': return 'lime'
-      case 'download': return 'pink'
-      case 'expire': return 'orange'
+      case 'deposit': return 'pink'
+      case 'burn': return 'orange'
       default: return 'purple'
     }
   }
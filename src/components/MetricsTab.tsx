@@ -1,5 +1,14 @@
 import { useEffect, useState, useRef } from 'react'
-import { backendApi, type AnalyticsData, type StorageLeader } from '../api/backend'
+import {
+  backendApi,
+  type AnalyticsData,
+  type ExpiringBlobs,
+  type StorageExpirationSummary,
+  type StorageLeader,
+  type StorageProjection
+} from '../api/backend'
+import { AnimatedLineChart } from './AnimatedLineChart'
+import { AddressLink } from './AddressLink'
 
 // Color mapping for file type categories (lowercase to match DB output from getBlobStatsByType)
 // These match the SQL CASE statement in db.ts
@@ -288,19 +297,16 @@ function StorageLeaderboard({ leaders }: { leaders: StorageLeader[] }) {
           </span>
           <column style={{ flex: 1, minWidth: 0 }}>
             <row gap-="0.5" align-="center">
-              <a
-                href={`https://explorer.aptoslabs.com/account/${leader.address}?network=shelbynet`}
-                target="_blank"
-                rel="noopener noreferrer"
+              <AddressLink
+                address={leader.address}
                 style={{
                   color: 'var(--foreground1)',
-                  textDecoration: 'none',
                   fontFamily: 'monospace',
                   fontSize: '0.75rem'
                 }}
               >
                 {leader.addressShort}
-              </a>
+              </AddressLink>
               <span is-="badge" variant-="background2" size-="half" style={{ fontSize: '0.6rem' }}>
                 {leader.blobCount} blobs
               </span>
@@ -339,6 +345,175 @@ function StorageLeaderboard({ leaders }: { leaders: StorageLeader[] }) {
   )
 }
 
+function StorageLifecyclePanel({ expiration }: { expiration?: StorageExpirationSummary }) {
+  const [projection, setProjection] = useState<StorageProjection | null>(null)
+  const [expiring, setExpiring] = useState<ExpiringBlobs | null>(null)
+
+  useEffect(() => {
+    const fetchLifecycle = async () => {
+      try {
+        const [nextProjection, nextExpiring] = await Promise.all([
+          backendApi.getStorageProjection(),
+          backendApi.getExpiringBlobs('7d', 5)
+        ])
+        setProjection(nextProjection)
+        setExpiring(nextExpiring)
+      } catch {
+        // Silently fail - the panel shows what the analytics already have
+      }
+    }
+
+    fetchLifecycle()
+    const interval = setInterval(fetchLifecycle, 5 * 60 * 1000) // The projection moves a day at a time
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!expiration) return null
+
+  const stored = expiration.liveSize + expiration.expiredSize
+  const livePercent = stored > 0 ? (expiration.liveSize / stored) * 100 : 100
+
+  // Retained (today's blobs) and projected (plus new uploads) curves, scaled to the larger
+  const width = 300
+  const height = 90
+  const points = projection?.points ?? []
+  const maxBytes = Math.max(...points.map(p => p.projectedBytes), 1)
+  const toPath = (values: number[]) =>
+    values
+      .map((value, i) => `${(i / Math.max(values.length - 1, 1)) * width},${height - (value / maxBytes) * height}`)
+      .join(' ')
+
+  return (
+    <div style={{
+      background: 'var(--background1)',
+      border: '1px solid var(--background2)',
+      borderRadius: '8px',
+      padding: '1rem'
+    }}>
+      <div style={{ marginBottom: '0.75rem' }}>
+        <span is-="badge" variant-="green" cap-="ribbon slant-bottom">Storage Lifecycle</span>
+      </div>
+
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))',
+        gap: '1.5rem'
+      }}>
+        {/* Live versus expired */}
+        <column gap-="0.75">
+          <row style={{ justifyContent: 'space-between', fontSize: '0.75rem' }}>
+            <span style={{ color: '#00C896' }}>
+              Live {expiration.liveSizeFormatted} · {expiration.liveBlobs.toLocaleString()} blobs
+            </span>
+            <span style={{ color: 'var(--foreground2)' }}>
+              Expired {expiration.expiredSizeFormatted}
+            </span>
+          </row>
+          <div style={{
+            height: '8px',
+            background: 'var(--background2)',
+            borderRadius: '4px',
+            overflow: 'hidden'
+          }}>
+            <div style={{
+              width: `${livePercent}%`,
+              height: '100%',
+              background: '#00C896',
+              transition: 'width 0.5s ease'
+            }} />
+          </div>
+          <small style={{ color: 'var(--foreground2)', fontSize: '0.7rem' }}>
+            {expiration.expiringSoonBlobs.toLocaleString()} blobs ({expiration.expiringSoonSizeFormatted}) expire in the next 7 days
+          </small>
+          {expiration.deletedBlobs > 0 && (
+            <small style={{ color: 'var(--foreground2)', fontSize: '0.7rem' }}>
+              {expiration.deletedBlobs.toLocaleString()} deleted ({expiration.deletedSizeFormatted})
+            </small>
+          )}
+
+          {expiring && expiring.blobs.length > 0 && (
+            <column gap-="0.25" style={{ fontSize: '0.7rem' }}>
+              {expiring.blobs.map(blob => (
+                <row key={`${blob.version}-${blob.eventIndex}`} gap-="1" style={{ alignItems: 'center' }}>
+                  <span style={{ flex: 1, minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {(blob.name ?? blob.blobId).split('/').pop()}
+                  </span>
+                  <AddressLink
+                    address={blob.owner}
+                    style={{ color: 'var(--foreground2)', fontFamily: 'monospace' }}
+                  >
+                    {`${blob.owner.slice(0, 6)}...${blob.owner.slice(-4)}`}
+                  </AddressLink>
+                  <span style={{ color: '#E67E22', width: '50px', textAlign: 'right', flexShrink: 0 }}>
+                    {blob.expiresAt ? formatTimeUntil(blob.expiresAt - Date.now()) : ''}
+                  </span>
+                </row>
+              ))}
+            </column>
+          )}
+        </column>
+
+        {/* Projection */}
+        <column gap-="0.5">
+          {points.length > 0 ? (
+            <>
+              <svg viewBox={`0 0 ${width} ${height}`} width="100%" height={height} preserveAspectRatio="none">
+                <title>Projected storage over the next year</title>
+                {[30, 90].map(day => (
+                  <line
+                    key={day}
+                    x1={(day / (points.length - 1)) * width}
+                    x2={(day / (points.length - 1)) * width}
+                    y1={0}
+                    y2={height}
+                    stroke="var(--background2)"
+                    strokeDasharray="2 3"
+                  />
+                ))}
+                <polyline
+                  points={toPath(points.map(p => p.projectedBytes))}
+                  fill="none"
+                  stroke="#4A90E2"
+                  strokeWidth={1.5}
+                />
+                <polyline
+                  points={toPath(points.map(p => p.retainedBytes))}
+                  fill="none"
+                  stroke="#00C896"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 2"
+                />
+              </svg>
+              <row gap-="1" style={{ fontSize: '0.65rem', color: 'var(--foreground2)' }}>
+                <span style={{ color: '#4A90E2' }}>━ with new uploads</span>
+                <span style={{ color: '#00C896' }}>┅ today's blobs only</span>
+              </row>
+              <div style={{
+                display: 'grid',
+                gridTemplateColumns: 'repeat(3, 1fr)',
+                gap: '0.5rem',
+                fontSize: '0.7rem'
+              }}>
+                {projection?.horizons.map(horizon => (
+                  <column key={horizon.days} gap-="0">
+                    <small style={{ color: 'var(--foreground2)', textTransform: 'uppercase' }}>{horizon.days} days</small>
+                    <strong style={{ color: '#4A90E2' }}>{formatBytes(horizon.projectedBytes)}</strong>
+                    <small style={{ color: 'var(--foreground2)' }}>
+                      −{formatBytes(horizon.expiringBytes)} expiring
+                    </small>
+                  </column>
+                ))}
+              </div>
+            </>
+          ) : (
+            <small style={{ color: 'var(--foreground2)' }}>Loading projection...</small>
+          )}
+        </column>
+      </div>
+    </div>
+  )
+}
+
 export function MetricsTab() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null)
   const [loading, setLoading] = useState(true)
@@ -492,6 +667,70 @@ export function MetricsTab() {
         </column>
       </row>
 
+      {/* History - hourly and daily rollups from the backend */}
+      <div style={{
+        display: 'grid',
+        gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))',
+        gap: '1rem'
+      }}>
+        <div style={{
+          background: 'var(--background1)',
+          border: '1px solid var(--background2)',
+          borderRadius: '8px',
+          padding: '1rem'
+        }}>
+          <div style={{ marginBottom: '0.75rem' }}>
+            <span is-="badge" variant-="pink" cap-="ribbon slant-bottom">Storage · 30 days</span>
+          </div>
+          <AnimatedLineChart
+            metric="bytes_stored"
+            bucket="day"
+            rangeMs={30 * 24 * 60 * 60 * 1000}
+            label="Stored"
+            color="#FF69B4"
+            height={120}
+            formatValue={formatBytes}
+          />
+        </div>
+        <div style={{
+          background: 'var(--background1)',
+          border: '1px solid var(--background2)',
+          borderRadius: '8px',
+          padding: '1rem'
+        }}>
+          <div style={{ marginBottom: '0.75rem' }}>
+            <span is-="badge" variant-="blue" cap-="ribbon slant-bottom">Blobs · 7 days</span>
+          </div>
+          <AnimatedLineChart
+            metric="blob_count"
+            rangeMs={7 * 24 * 60 * 60 * 1000}
+            label="Blobs"
+            color="#4A90E2"
+            height={120}
+          />
+        </div>
+        <div style={{
+          background: 'var(--background1)',
+          border: '1px solid var(--background2)',
+          borderRadius: '8px',
+          padding: '1rem'
+        }}>
+          <div style={{ marginBottom: '0.75rem' }}>
+            <span is-="badge" variant-="green" cap-="ribbon slant-bottom">Uploaders · 7 days</span>
+          </div>
+          <AnimatedLineChart
+            metric="unique_owners"
+            rangeMs={7 * 24 * 60 * 60 * 1000}
+            label="Uploaders"
+            color="#00C896"
+            height={120}
+          />
+        </div>
+      </div>
+
+      {/* Live vs expired storage and where it's headed */}
+      <StorageLifecyclePanel expiration={analytics.expiration} />
+
       {/* File Types Distribution - Donut Chart + Leaderboard */}
       <div style={{
         display: 'grid',
@@ -570,3 +809,10 @@ function formatBytes(bytes: number): string {
   const i = Math.floor(Math.log(bytes) / Math.log(k))
   return `${(bytes / Math.pow(k, i)).toFixed(2)} ${sizes[i]}`
 }
+
+function formatTimeUntil(ms: number): string {
+  const hours = Math.max(ms, 0) / (60 * 60 * 1000)
+  if (hours < 1) return `${Math.round(hours * 60)}m`
+  if (hours < 48) return `${Math.round(hours)}h`
+  return `${Math.round(hours / 24)}d`
+}
@@ -1,26 +1,33 @@
 import { useEffect, useRef, useState } from 'react';
 import p5 from 'p5';
+import { backendApi } from '../api/backend';
 
-interface Props {
-  stats: any;
-}
+const HOUR = 60 * 60 * 1000;
 
-export default function P5ActivityChart({ stats }: Props) {
+export default function P5ActivityChart() {
   const containerRef = useRef<HTMLDivElement>(null);
   const p5Instance = useRef<p5 | null>(null);
   const [data, setData] = useState<Array<{ time: string; value: number }>>([]);
+  // The sketch is created once, so it reads the data through a ref
+  const dataRef = useRef(data);
 
-  // Update data every 10 seconds
+  // Blobs uploaded in each of the last 24 hours, from the hourly blob totals
   useEffect(() => {
-    const interval = setInterval(() => {
-      setData(prev => {
-        const newPoint = {
-          time: new Date().toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
-          value: Math.floor(Math.random() * 30) + 70
-        };
-        return [...prev.slice(-14), newPoint];
-      });
-    }, 10000);
+    const fetchHistory = async () => {
+      try {
+        const now = Date.now();
+        const { points } = await backendApi.getTimeseries('blob_count', { bucket: 'hour', from: now - 25 * HOUR, to: now });
+        setData(points.slice(1).map((point, i) => ({
+          time: new Date(point.timestamp).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' }),
+          value: point.value - points[i].value
+        })));
+      } catch {
+        // Keep the last history we had
+      }
+    };
+
+    fetchHistory();
+    const interval = setInterval(fetchHistory, 5 * 60 * 1000);
 
     return () => clearInterval(interval);
   }, []);
@@ -43,6 +50,9 @@ export default function P5ActivityChart({ stats }: Props) {
       };
 
       p.draw = () => {
+        const data = dataRef.current;
+        const maxValue = Math.max(...data.map(d => d.value), 1);
+
         // Clear background
         p.background('#FFDFEF');
 
@@ -51,7 +61,7 @@ export default function P5ActivityChart({ stats }: Props) {
           p.noStroke();
           p.textAlign(p.CENTER, p.CENTER);
           p.textSize(16);
-          p.text('Building chart...', canvasWidth / 2, canvasHeight / 2);
+          p.text('Loading upload history...', canvasWidth / 2, canvasHeight / 2);
           return;
         }
 
@@ -75,7 +85,7 @@ export default function P5ActivityChart({ stats }: Props) {
 
         for (let i = 0; i < data.length; i++) {
           const x = padding + (graphWidth / (data.length - 1)) * i;
-          const y = canvasHeight - padding - (data[i].value / 100) * graphHeight;
+          const y = canvasHeight - padding - (data[i].value / maxValue) * graphHeight;
           p.vertex(x, y);
         }
 
@@ -90,7 +100,7 @@ export default function P5ActivityChart({ stats }: Props) {
 
         for (let i = 0; i < data.length; i++) {
           const x = padding + (graphWidth / (data.length - 1)) * i;
-          const y = canvasHeight - padding - (data[i].value / 100) * graphHeight;
+          const y = canvasHeight - padding - (data[i].value / maxValue) * graphHeight;
           p.vertex(x, y);
         }
 
@@ -101,7 +111,7 @@ export default function P5ActivityChart({ stats }: Props) {
         p.noStroke();
         for (let i = 0; i < data.length; i++) {
           const x = padding + (graphWidth / (data.length - 1)) * i;
-          const y = canvasHeight - padding - (data[i].value / 100) * graphHeight;
+          const y = canvasHeight - padding - (data[i].value / maxValue) * graphHeight;
           p.circle(x, y, 6);
         }
 
@@ -111,7 +121,7 @@ export default function P5ActivityChart({ stats }: Props) {
         p.textAlign(p.RIGHT, p.CENTER);
         p.textSize(12);
         for (let i = 0; i <= 4; i++) {
-          const value = 100 - (i * 25);
+          const value = Math.round(maxValue * (1 - i / 4));
           const y = padding + (graphHeight / 4) * i;
           p.text(value.toString(), padding - 10, y);
         }
@@ -147,9 +157,14 @@ export default function P5ActivityChart({ stats }: Props) {
 
   // Update the sketch when data changes
   useEffect(() => {
-    // The draw loop will automatically use the updated data
+    dataRef.current = data;
   }, [data]);
 
+  const values = data.map(d => d.value);
+  const peak = values.length > 0 ? Math.max(...values) : 0;
+  const avg = values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  const min = values.length > 0 ? Math.min(...values) : 0;
+
   return (
     <column
       box-="square"
@@ -165,7 +180,7 @@ export default function P5ActivityChart({ stats }: Props) {
           ┗━━━━━━━━━━━━━━━━━━━┛
         </h3>
         <span is-="badge" variant-="pink">
-          ⏱ Last 60m
+          ⏱ Last 24h
         </span>
       </row>
 
@@ -186,13 +201,13 @@ export default function P5ActivityChart({ stats }: Props) {
         borderTop: '0.2ch solid var(--pink)'
       }}>
         <span is-="badge" variant-="lime">
-          ▲ Peak: 98
+          ▲ Peak: {peak}
         </span>
         <span is-="badge" variant-="pink">
-          ◇ Avg: 82
+          ◇ Avg: {avg.toFixed(1)}
         </span>
         <span is-="badge" variant-="purple">
-          ▼ Min: 65
+          ▼ Min: {min}
         </span>
       </row>
     </column>
@@ -1,4 +1,5 @@
 import { useState, useCallback, useRef, memo, useEffect } from 'react';
+import { useWallet } from '@aptos-labs/wallet-adapter-react';
 import { useToast } from './Toast';
 
 interface UploadedFile {
@@ -8,61 +9,395 @@ interface UploadedFile {
   viewerUrl: string;
   uploadedAt: Date;
   sessionId?: string;
+  contentHash?: string;
+  thumbnailUrl?: string;
 }
 
+// Client-side "sending" (and "signing" for wallet uploads) followed by the server-side job stages
+type UploadPhase = 'sending' | 'signing' | 'received' | 'queued' | 'encoding' | 'registering' | 'uploading' | 'done' | 'failed';
 
-// Generate a random session ID for grouping files
-const generateSessionId = () => {
-  return Math.random().toString(36).substring(2, 10) + Date.now().toString(36);
+interface UploadItem {
+  key: string;
+  name: string;
+  size: number;
+  phase: UploadPhase;
+  progress: number;
+  jobId?: string;
+  error?: string;
+}
+
+interface UploadJobResult {
+  url: string;
+  viewerUrl: string;
+  size: number;
+  contentHash: string;
+  thumbnailUrl?: string | null;
+  deduplicated: boolean;
+}
+
+interface UploadJobStatus {
+  id: string;
+  status: Exclude<UploadPhase, 'sending' | 'signing'>;
+  progress: number;
+  result: UploadJobResult | null;
+  error: string | null;
+}
+
+// Jobs still running on the server, kept so progress survives a page refresh
+interface PendingJob {
+  jobId: string;
+  name: string;
+  size: number;
+  sessionId: string;
+  manageToken?: string;
+}
+
+// A picked or dropped file, with its path inside a dropped folder
+interface SelectedFile {
+  file: File;
+  relativePath: string;
+}
+
+interface BatchFileReport {
+  relativePath: string;
+  status: 'accepted' | 'rejected';
+  size?: number;
+  jobId?: string;
+  error?: string;
+}
+
+interface BatchResponse {
+  sessionId?: string;
+  manageToken?: string;
+  files: BatchFileReport[];
+}
+
+// Register_blob payload for the connected wallet to sign, from /wallet/prepare
+type WalletPrepareResponse = {
+  sessionId?: string;
+  manageToken?: string;
+} & (
+  | { status: 'existing'; result: UploadJobResult }
+  | {
+      status: 'awaiting_signature';
+      uploadId: string;
+      payload: {
+        function: `${string}::${string}::${string}`;
+        typeArguments: [];
+        functionArguments: Array<string | number | number[]>;
+      };
+    }
+);
+
+interface ShareQuotaWindow {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  resetAt: string;
+}
+
+// Remaining upload quota for this IP, from /share/info
+interface ShareQuota {
+  bytesPerDay: ShareQuotaWindow;
+  filesPerHour: ShareQuotaWindow;
+}
+
+const PENDING_JOBS_KEY = 'shelby-share-pending-jobs';
+const JOB_POLL_INTERVAL_MS = 2000;
+// Matches the server's per-request file limit for /upload-batch
+const BATCH_MAX_FILES = 100;
+
+const PHASE_LABELS: Record<UploadPhase, string> = {
+  sending: 'sending',
+  signing: 'sign in wallet',
+  received: 'received',
+  queued: 'queued',
+  encoding: 'encoding',
+  registering: 'registering',
+  uploading: 'storing',
+  done: 'done',
+  failed: 'failed',
+};
+
+const loadPendingJobs = (): PendingJob[] => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_JOBS_KEY) || '[]');
+  } catch {
+    return [];
+  }
+};
+
+const savePendingJobs = (jobs: PendingJob[]) => {
+  localStorage.setItem(PENDING_JOBS_KEY, JSON.stringify(jobs));
+};
+
+const addPendingJob = (job: PendingJob) => {
+  savePendingJobs([...loadPendingJobs().filter(j => j.jobId !== job.jobId), job]);
+};
+
+const removePendingJob = (jobId: string) => {
+  savePendingJobs(loadPendingJobs().filter(j => j.jobId !== jobId));
+};
+
+// Upload directly to API server to bypass Vercel's 4.5MB proxy limit
+const getShareApiUrl = (path: string) => {
+  return window.location.hostname === 'localhost'
+    ? `/api/share${path}`
+    : `https://shelby.cash.trading/api/share${path}`;
+};
+
+// POST a multipart form with upload progress; resolves with the status and parsed JSON body
+const sendFormData = <T,>(
+  url: string,
+  formData: FormData,
+  headers: Record<string, string>,
+  onProgress: (percent: number) => void
+): Promise<{ status: number; data: (T & { error?: string }) | null }> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    let settled = false;
+
+    const settle = (fn: () => void) => {
+      if (!settled) {
+        settled = true;
+        fn();
+      }
+    };
+
+    // Track upload progress - cap at 99% until server responds
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        const percent = Math.min(99, Math.round((event.loaded / event.total) * 100));
+        onProgress(percent);
+      }
+    };
+
+    xhr.onload = () => {
+      settle(() => {
+        let data: (T & { error?: string }) | null = null;
+        try {
+          data = JSON.parse(xhr.responseText);
+        } catch {
+          // Left to the caller
+        }
+        resolve({ status: xhr.status, data });
+      });
+    };
+
+    xhr.onerror = () => {
+      settle(() => reject(new Error('Network error - check your connection')));
+    };
+
+    xhr.ontimeout = () => {
+      settle(() => reject(new Error('Upload timed out')));
+    };
+
+    xhr.onabort = () => {
+      settle(() => reject(new Error('Upload was cancelled')));
+    };
+
+    // 10 minute timeout for large files on mobile
+    xhr.timeout = 10 * 60 * 1000;
+
+    xhr.open('POST', url);
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+    xhr.send(formData);
+  });
+};
+
+const readDirectoryEntries = (reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> => {
+  return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+};
+
+// Walk a dropped file or folder, keeping each file's path relative to the drop
+const collectEntryFiles = async (entry: FileSystemEntry): Promise<SelectedFile[]> => {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => {
+      (entry as FileSystemFileEntry).file(resolve, reject);
+    });
+    return [{ file, relativePath: entry.fullPath.replace(/^\//, '') }];
+  }
+  if (entry.isDirectory) {
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const children: FileSystemEntry[] = [];
+    // readEntries returns the listing in chunks until it yields an empty one
+    let chunk = await readDirectoryEntries(reader);
+    while (chunk.length > 0) {
+      children.push(...chunk);
+      chunk = await readDirectoryEntries(reader);
+    }
+    return (await Promise.all(children.map(collectEntryFiles))).flat();
+  }
+  return [];
+};
+
+const getDroppedFiles = async (dataTransfer: DataTransfer): Promise<SelectedFile[]> => {
+  // Entries have to be taken before the drop event handler yields
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map(file => ({ file, relativePath: file.name }));
+  }
+  return (await Promise.all(entries.map(collectEntryFiles))).flat();
 };
 
 export const ShareTab = memo(() => {
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
-  const [currentFileName, setCurrentFileName] = useState('');
-  const [currentFileIndex, setCurrentFileIndex] = useState(0);
-  const [totalFiles, setTotalFiles] = useState(0);
-  const [targetProgress, setTargetProgress] = useState(0);
-  const [displayProgress, setDisplayProgress] = useState(0);
+  const [isSending, setIsSending] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
   const [uploadedFiles, setUploadedFiles] = useState<UploadedFile[]>([]);
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
+  const [currentManageToken, setCurrentManageToken] = useState<string | null>(null);
+  const [folderTitle, setFolderTitle] = useState('');
   const [error, setError] = useState<string | null>(null);
+  const [quota, setQuota] = useState<ShareQuota | null>(null);
+  const [payWithWallet, setPayWithWallet] = useState(false);
+  const { account, signAndSubmitTransaction } = useWallet();
+  const walletAddress = account?.address?.toString() ?? null;
+  // Wallet uploads are registered (and paid for) by the connected wallet
+  const useWalletUploads = payWithWallet && walletAddress !== null;
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const animationRef = useRef<number | null>(null);
+  // jobId -> stop function for its SSE stream / poll loop
+  const trackersRef = useRef(new Map<string, () => void>());
+  const resumedRef = useRef(false);
   const { showToast } = useToast();
 
-  // Smooth animation for progress bar
-  useEffect(() => {
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+  const updateUpload = useCallback((key: string, changes: Partial<UploadItem>) => {
+    setUploads(prev => prev.map(u => (u.key === key ? { ...u, ...changes } : u)));
+  }, []);
+
+  // Move a finished upload from the progress list to the uploaded files
+  const addUploadedFile = useCallback((
+    key: string,
+    file: { name: string; size: number; sessionId?: string },
+    result: UploadJobResult
+  ) => {
+    const viewerUrl = result.viewerUrl
+      ? `${window.location.origin}${result.viewerUrl}`
+      : result.url;
+    setUploadedFiles(prev => [{
+      name: file.name,
+      size: file.size,
+      url: result.url,
+      viewerUrl,
+      uploadedAt: new Date(),
+      sessionId: file.sessionId,
+      contentHash: result.contentHash,
+      thumbnailUrl: result.thumbnailUrl ?? undefined,
+    }, ...prev]);
+    setUploads(prev => prev.filter(u => u.key !== key));
+    showToast({
+      type: 'success',
+      message: result.deduplicated ? `${file.name} was already stored - reusing it` : `Uploaded ${file.name}`,
+    });
+  }, [showToast]);
+
+  const handleJobUpdate = useCallback((key: string, pending: PendingJob, job: UploadJobStatus) => {
+    if (job.status === 'done' && job.result) {
+      removePendingJob(pending.jobId);
+      addUploadedFile(key, pending, job.result);
+    } else if (job.status === 'failed') {
+      removePendingJob(pending.jobId);
+      updateUpload(key, { phase: 'failed', progress: 0, error: job.error ?? 'Upload failed' });
+      showToast({ type: 'error', message: `Failed: ${pending.name}` });
+    } else {
+      updateUpload(key, { phase: job.status, progress: job.progress });
     }
+  }, [showToast, updateUpload, addUploadedFile]);
 
-    const animate = () => {
-      setDisplayProgress(prev => {
-        const diff = targetProgress - prev;
-        // If we're resetting (going from high to 0), snap immediately
-        if (targetProgress === 0 && prev > 50) {
-          return 0;
+  // Follow a server-side job over SSE, falling back to polling
+  const trackJob = useCallback((key: string, pending: PendingJob, preferStream: boolean) => {
+    let stopped = false;
+    let timer: number | undefined;
+    let source: EventSource | null = null;
+
+    const stop = () => {
+      stopped = true;
+      source?.close();
+      if (timer) window.clearTimeout(timer);
+      trackersRef.current.delete(pending.jobId);
+    };
+    trackersRef.current.set(pending.jobId, stop);
+
+    const onStatus = (job: UploadJobStatus) => {
+      if (stopped) return;
+      if (job.status === 'done' || job.status === 'failed') stop();
+      handleJobUpdate(key, pending, job);
+    };
+
+    const poll = async () => {
+      if (stopped) return;
+      try {
+        const response = await fetch(getShareApiUrl(`/uploads/${pending.jobId}`));
+        if (response.status === 404) {
+          // Job expired on the server - nothing left to resume
+          stop();
+          removePendingJob(pending.jobId);
+          setUploads(prev => prev.filter(u => u.key !== key));
+          return;
         }
-        // Smooth animation toward target
-        if (Math.abs(diff) < 0.5) {
-          return targetProgress;
+        if (response.ok) {
+          onStatus(await response.json());
         }
-        // Faster when catching up, slower when close
-        const speed = Math.max(0.5, Math.abs(diff) * 0.15);
-        return prev + (diff > 0 ? speed : -speed);
-      });
-      animationRef.current = requestAnimationFrame(animate);
+      } catch {
+        // Network blip - try again on the next tick
+      }
+      if (!stopped) {
+        timer = window.setTimeout(poll, JOB_POLL_INTERVAL_MS);
+      }
     };
 
-    animationRef.current = requestAnimationFrame(animate);
+    if (preferStream && typeof EventSource !== 'undefined') {
+      source = new EventSource(getShareApiUrl(`/uploads/${pending.jobId}/events`));
+      source.addEventListener('progress', (event) => {
+        onStatus(JSON.parse((event as MessageEvent).data));
+      });
+      source.onerror = () => {
+        source?.close();
+        source = null;
+        poll();
+      };
+    } else {
+      poll();
+    }
+  }, [handleJobUpdate]);
+
+  // Resume jobs that were still running when the page was last closed
+  useEffect(() => {
+    if (resumedRef.current) return;
+    resumedRef.current = true;
+
+    const pending = loadPendingJobs();
+    if (pending.length === 0) return;
 
+    setUploads(pending.map(job => ({
+      key: job.jobId,
+      name: job.name,
+      size: job.size,
+      jobId: job.jobId,
+      phase: 'received',
+      progress: 0,
+    })));
+    const latest = pending[pending.length - 1];
+    setCurrentSessionId(latest.sessionId);
+    setCurrentManageToken(latest.manageToken ?? null);
+
+    for (const job of pending) {
+      trackJob(job.jobId, job, false);
+    }
+  }, [trackJob]);
+
+  // Stop all streams / poll loops on unmount
+  useEffect(() => {
+    const trackers = trackersRef.current;
     return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
+      for (const stop of [...trackers.values()]) stop();
     };
-  }, [targetProgress]);
+  }, []);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -76,90 +411,155 @@ export const ShareTab = memo(() => {
     setIsDragging(false);
   }, []);
 
-  const uploadFile = async (file: File, sessionId: string, onProgress: (percent: number) => void): Promise<UploadedFile> => {
-    return new Promise((resolve, reject) => {
-      const formData = new FormData();
-      formData.append('file', file);
-      formData.append('sessionId', sessionId);
+  const refreshQuota = useCallback(async () => {
+    try {
+      const response = await fetch(getShareApiUrl('/info'));
+      if (!response.ok) return;
+      const data: { quota: ShareQuota | null } = await response.json();
+      setQuota(data.quota);
+    } catch {
+      // The quota line is informational only
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshQuota();
+  }, [refreshQuota]);
+
+  // Send a batch of files to the server; resolves with the per-file report once it has been received
+  const uploadBatch = async (
+    files: SelectedFile[],
+    options: { sessionId?: string; title?: string; manageToken?: string },
+    onProgress: (percent: number) => void
+  ): Promise<BatchResponse> => {
+    const formData = new FormData();
+    if (options.sessionId) {
+      formData.append('sessionId', options.sessionId);
+    }
+    if (options.title) {
+      formData.append('title', options.title);
+    }
+    // The multipart filename carries the path inside a dropped folder
+    for (const { file, relativePath } of files) {
+      formData.append('files', file, relativePath);
+    }
+
+    const headers: Record<string, string> = {};
+    if (options.manageToken) {
+      headers['X-Share-Token'] = options.manageToken;
+    }
+
+    const { status, data } = await sendFormData<Partial<BatchResponse> & { resetAt?: string }>(
+      getShareApiUrl('/upload-batch'),
+      formData,
+      headers,
+      onProgress
+    );
+    const ok = status >= 200 && status < 300;
+
+    if (ok && data?.sessionId && data.files) {
+      return { sessionId: data.sessionId, manageToken: data.manageToken, files: data.files };
+    }
+    if (data?.files) {
+      // Every file was rejected - still report why, per file
+      return { files: data.files };
+    }
+    if (ok) {
+      throw new Error('Invalid response from server');
+    }
+    if (status === 429 && data?.resetAt) {
+      const resetTime = new Date(data.resetAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      throw new Error(`Upload quota exceeded - try again after ${resetTime}`);
+    }
+    throw new Error(data?.error || `Upload failed (${status})`);
+  };
 
-      const xhr = new XMLHttpRequest();
-      let settled = false;
+  // Upload files one at a time with the connected wallet signing each registration
+  const uploadWithWallet = useCallback(async (items: UploadItem[], files: SelectedFile[]) => {
+    if (!walletAddress) return;
+    let sessionId: string | undefined;
+    let manageToken: string | undefined;
 
-      const settle = (fn: () => void) => {
-        if (!settled) {
-          settled = true;
-          fn();
+    for (const [i, { file }] of files.entries()) {
+      const key = items[i].key;
+      try {
+        const formData = new FormData();
+        if (sessionId) {
+          formData.append('sessionId', sessionId);
         }
-      };
+        if (folderTitle.trim()) {
+          formData.append('title', folderTitle.trim());
+        }
+        formData.append('file', file);
 
-      // Track upload progress - cap at 99% until server responds
-      xhr.upload.onprogress = (event) => {
-        if (event.lengthComputable) {
-          const percent = Math.min(99, Math.round((event.loaded / event.total) * 100));
-          onProgress(percent);
+        const headers: Record<string, string> = { 'X-Wallet-Address': walletAddress };
+        if (manageToken) {
+          headers['X-Share-Token'] = manageToken;
+        }
+        const { status, data } = await sendFormData<WalletPrepareResponse>(
+          getShareApiUrl('/wallet/prepare'),
+          formData,
+          headers,
+          (percent) => updateUpload(key, { progress: percent })
+        );
+        if (status !== 200 || !data?.status) {
+          throw new Error(data?.error || `Upload failed (${status})`);
         }
-      };
 
-      xhr.onload = () => {
-        settle(() => {
-          if (xhr.status >= 200 && xhr.status < 300) {
-            try {
-              const data = JSON.parse(xhr.responseText);
-              const viewerUrl = data.viewerUrl
-                ? `${window.location.origin}${data.viewerUrl}`
-                : data.url;
-              resolve({
-                name: file.name,
-                size: file.size,
-                url: data.url,
-                viewerUrl,
-                uploadedAt: new Date(),
-                sessionId,
-              });
-            } catch {
-              reject(new Error('Invalid response from server'));
-            }
-          } else {
-            try {
-              const errorData = JSON.parse(xhr.responseText);
-              reject(new Error(errorData.error || `Upload failed (${xhr.status})`));
-            } catch {
-              reject(new Error(`Upload failed (${xhr.status})`));
-            }
+        // The first file's response creates the folder for the rest
+        if (!sessionId) {
+          if (!data.sessionId) {
+            throw new Error('Invalid response from server');
           }
-        });
-      };
-
-      xhr.onerror = () => {
-        settle(() => reject(new Error('Network error - check your connection')));
-      };
-
-      xhr.ontimeout = () => {
-        settle(() => reject(new Error('Upload timed out')));
-      };
+          sessionId = data.sessionId;
+          manageToken = data.manageToken;
+          setCurrentSessionId(sessionId);
+          setCurrentManageToken(manageToken ?? null);
+        }
 
-      xhr.onabort = () => {
-        settle(() => reject(new Error('Upload was cancelled')));
-      };
+        if (data.status === 'existing') {
+          addUploadedFile(key, { name: file.name, size: file.size, sessionId }, data.result);
+          continue;
+        }
 
-      // 10 minute timeout for large files on mobile
-      xhr.timeout = 10 * 60 * 1000;
+        updateUpload(key, { phase: 'signing', progress: 0 });
+        let transactionHash: string;
+        try {
+          ({ hash: transactionHash } = await signAndSubmitTransaction({ data: data.payload }));
+        } catch {
+          throw new Error('Transaction was not signed');
+        }
 
-      // Upload directly to API server to bypass Vercel's 4.5MB proxy limit
-      const apiUrl = window.location.hostname === 'localhost'
-        ? '/api/share/upload'
-        : 'https://shelby.cash.trading/api/share/upload';
+        const response = await fetch(getShareApiUrl('/wallet/complete'), {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(manageToken ? { 'X-Share-Token': manageToken } : {}),
+          },
+          body: JSON.stringify({ uploadId: data.uploadId, transactionHash, sessionId }),
+        });
+        const completed: { jobId?: string; error?: string } = await response.json();
+        if (!response.ok || !completed.jobId) {
+          throw new Error(completed.error || `Upload failed (${response.status})`);
+        }
 
-      xhr.open('POST', apiUrl);
-      xhr.send(formData);
-    });
-  };
+        const pending: PendingJob = { jobId: completed.jobId, name: file.name, size: file.size, sessionId, manageToken };
+        updateUpload(key, { jobId: completed.jobId, phase: 'received' });
+        addPendingJob(pending);
+        trackJob(key, pending, true);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Upload failed';
+        updateUpload(key, { phase: 'failed', progress: 0, error: message });
+        showToast({ type: 'error', message: `${file.name}: ${message}` });
+      }
+    }
+  }, [walletAddress, folderTitle, signAndSubmitTransaction, updateUpload, addUploadedFile, trackJob, showToast]);
 
-  const handleFiles = useCallback(async (files: FileList | null) => {
-    if (!files || files.length === 0) return;
+  const handleFiles = useCallback(async (selected: SelectedFile[]) => {
+    if (selected.length === 0) return;
 
     // Filter valid files first
-    const validFiles = Array.from(files).filter(file => {
+    const validFiles = selected.filter(({ file }) => {
       if (file.size > 2 * 1024 * 1024 * 1024) {
         showToast({
           type: 'error',
@@ -167,91 +567,136 @@ export const ShareTab = memo(() => {
         });
         return false;
       }
+      if (useWalletUploads && /\.zip$/i.test(file.name)) {
+        showToast({ type: 'error', message: `${file.name}: zip archives can't be uploaded with a wallet` });
+        return false;
+      }
       return true;
     });
 
     if (validFiles.length === 0) return;
 
     setError(null);
-    setIsUploading(true);
-    setTotalFiles(validFiles.length);
-    setCurrentFileIndex(0);
-    setTargetProgress(0);
-    setDisplayProgress(0);
+    setIsSending(true);
 
-    // Generate a new session ID for this batch
-    const sessionId = generateSessionId();
-    setCurrentSessionId(sessionId);
+    const batchKey = `batch-${Date.now()}`;
+    const items: UploadItem[] = validFiles.map(({ file, relativePath }, i) => ({
+      key: `${batchKey}-${i}`,
+      name: relativePath,
+      size: file.size,
+      phase: 'sending',
+      progress: 0,
+    }));
+    setUploads(prev => [...prev.filter(u => u.phase !== 'failed'), ...items]);
 
-    const newFiles: UploadedFile[] = [];
-
-    try {
-      for (let i = 0; i < validFiles.length; i++) {
-        const file = validFiles[i];
+    if (useWalletUploads) {
+      try {
+        await uploadWithWallet(items, validFiles);
+      } finally {
+        setIsSending(false);
+      }
+      return;
+    }
 
-        // Reset progress for each file
-        setCurrentFileIndex(i + 1);
-        setCurrentFileName(file.name);
-        setTargetProgress(0);
-        setDisplayProgress(0);
+    // The server creates the folder with the first batch and returns its manage token
+    let sessionId: string | undefined;
+    let manageToken: string | undefined;
 
-        // Small delay to ensure UI updates before starting upload
-        await new Promise(r => setTimeout(r, 100));
+    try {
+      for (let start = 0; start < validFiles.length; start += BATCH_MAX_FILES) {
+        const chunk = validFiles.slice(start, start + BATCH_MAX_FILES);
+        const chunkItems = items.slice(start, start + BATCH_MAX_FILES);
+        const chunkKeys = new Set(chunkItems.map(item => item.key));
 
         try {
-          const uploaded = await uploadFile(file, sessionId, (percent) => {
-            setTargetProgress(percent);
-          });
-
-          // Animate to 100%
-          setTargetProgress(100);
+          const response = await uploadBatch(
+            chunk,
+            { sessionId, title: folderTitle.trim(), manageToken },
+            (percent) => {
+              setUploads(prev => prev.map(u => (chunkKeys.has(u.key) ? { ...u, progress: percent } : u)));
+            }
+          );
 
-          // Wait for animation to reach 100%
-          await new Promise(r => setTimeout(r, 500));
+          if (response.sessionId && !sessionId) {
+            sessionId = response.sessionId;
+            manageToken = response.manageToken;
+            setCurrentSessionId(sessionId);
+            setCurrentManageToken(manageToken ?? null);
+          }
 
-          newFiles.push(uploaded);
-          showToast({ type: 'success', message: `Uploaded ${file.name}` });
+          // Zip archives expand into their entries, so rebuild the list from the report
+          const reported: UploadItem[] = response.files.map((report, i) => ({
+            key: report.jobId ?? `${batchKey}-${start}-rejected-${i}`,
+            name: report.relativePath,
+            size: report.size ?? 0,
+            phase: report.status === 'accepted' ? 'received' : 'failed',
+            progress: 0,
+            jobId: report.jobId,
+            error: report.error,
+          }));
+          setUploads(prev => [...prev.filter(u => !chunkKeys.has(u.key)), ...reported]);
 
-          // Delay before next file
-          if (i < validFiles.length - 1) {
-            await new Promise(r => setTimeout(r, 300));
+          for (const report of response.files) {
+            if (report.status === 'accepted' && report.jobId && sessionId) {
+              const pending: PendingJob = {
+                jobId: report.jobId,
+                name: report.relativePath,
+                size: report.size ?? 0,
+                sessionId,
+                manageToken,
+              };
+              addPendingJob(pending);
+              trackJob(report.jobId, pending, true);
+            } else if (report.status === 'rejected') {
+              showToast({ type: 'error', message: `Failed: ${report.relativePath}` });
+            }
           }
         } catch (err) {
-          showToast({
-            type: 'error',
-            message: `Failed: ${file.name}`
-          });
-          if (i < validFiles.length - 1) {
-            await new Promise(r => setTimeout(r, 300));
-          }
+          const message = err instanceof Error ? err.message : 'Upload failed';
+          setUploads(prev => prev.map(u => (
+            chunkKeys.has(u.key) ? { ...u, phase: 'failed', progress: 0, error: message } : u
+          )));
+          showToast({ type: 'error', message });
         }
       }
+    } finally {
+      setIsSending(false);
+      refreshQuota();
+    }
+  }, [showToast, folderTitle, trackJob, refreshQuota, useWalletUploads, uploadWithWallet]);
 
-      if (newFiles.length > 0) {
-        setUploadedFiles(prev => [...newFiles, ...prev]);
+  const deleteFolder = useCallback(async () => {
+    if (!currentSessionId || !currentManageToken) return;
+    try {
+      const response = await fetch(getShareApiUrl(`/folder/${currentSessionId}`), {
+        method: 'DELETE',
+        headers: { 'X-Share-Token': currentManageToken },
+      });
+      if (!response.ok) {
+        throw new Error(`Delete failed (${response.status})`);
       }
-
-      // Brief delay before resetting
-      await new Promise(r => setTimeout(r, 500));
-    } finally {
-      setIsUploading(false);
-      setTargetProgress(0);
-      setDisplayProgress(0);
-      setCurrentFileName('');
-      setTotalFiles(0);
-      setCurrentFileIndex(0);
+      setUploadedFiles(prev => prev.filter(f => f.sessionId !== currentSessionId));
+      setCurrentSessionId(null);
+      setCurrentManageToken(null);
+      showToast({ type: 'success', message: 'Folder link deleted' });
+    } catch {
+      showToast({ type: 'error', message: 'Failed to delete folder' });
     }
-  }, [showToast]);
+  }, [currentSessionId, currentManageToken, showToast]);
 
-  const handleDrop = useCallback((e: React.DragEvent) => {
+  const handleDrop = useCallback(async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    handleFiles(e.dataTransfer.files);
-  }, [handleFiles]);
+    try {
+      handleFiles(await getDroppedFiles(e.dataTransfer));
+    } catch {
+      showToast({ type: 'error', message: 'Could not read the dropped folder' });
+    }
+  }, [handleFiles, showToast]);
 
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    handleFiles(e.target.files);
+    handleFiles(Array.from(e.target.files ?? []).map(file => ({ file, relativePath: file.name })));
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
@@ -269,9 +714,16 @@ export const ShareTab = memo(() => {
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
-    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
   };
 
+  // Wallet uploads are paid by the wallet, so the server quota doesn't apply
+  const quotaSummary = quota && !useWalletUploads && [
+    quota.bytesPerDay.remaining !== null && `${formatFileSize(quota.bytesPerDay.remaining)} left today`,
+    quota.filesPerHour.remaining !== null && `${quota.filesPerHour.remaining} files left this hour`,
+  ].filter(Boolean).join(' · ');
+
   return (
     <column gap-="2" style={{ maxWidth: '800px', margin: '0 auto' }}>
       {/* Header */}
@@ -290,6 +742,46 @@ export const ShareTab = memo(() => {
         </p>
       </column>
 
+      {/* Optional folder title */}
+      <input
+        type="text"
+        value={folderTitle}
+        onChange={(e) => setFolderTitle(e.target.value)}
+        placeholder="Folder title (optional)"
+        maxLength={200}
+        disabled={isSending}
+        style={{
+          background: 'var(--background0)',
+          border: '1px solid var(--background2)',
+          borderRadius: '8px',
+          color: 'var(--foreground0)',
+          fontFamily: 'monospace',
+          fontSize: '0.85rem',
+          padding: '0.5rem 0.75rem',
+        }}
+      />
+
+      {/* Wallet-owned uploads */}
+      {walletAddress && (
+        <label style={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: '0.5rem',
+          color: 'var(--foreground1)',
+          fontFamily: 'monospace',
+          fontSize: '0.8rem',
+          cursor: 'pointer',
+        }}>
+          <input
+            type="checkbox"
+            checked={payWithWallet}
+            onChange={(e) => setPayWithWallet(e.target.checked)}
+            disabled={isSending}
+          />
+          Pay with my wallet - files are stored under {walletAddress.slice(0, 6)}...{walletAddress.slice(-4)}
+        </label>
+      )}
+
       {/* Drop Zone */}
       <div
         onDragOver={handleDragOver}
@@ -348,79 +840,30 @@ export const ShareTab = memo(() => {
           Upload
         </button>
 
-        {isUploading ? (() => {
-          // ASCII terminal progress bar - wider for better visibility
-          const barWidth = 28;
-          const progressPercent = Math.round(displayProgress);
-          const filled = Math.round((displayProgress / 100) * barWidth);
-          const empty = barWidth - filled;
-          const bar = '█'.repeat(filled) + '░'.repeat(empty);
-
-          return (
-            <div style={{
-              width: '100%',
-              margin: '0 auto',
-              fontFamily: 'monospace',
-            }}>
-              {/* File counter */}
-              {totalFiles > 1 && (
-                <div style={{
-                  color: 'var(--foreground2)',
-                  fontSize: '0.8rem',
-                  textAlign: 'center',
-                  marginBottom: '0.5rem',
-                }}>
-                  [{currentFileIndex}/{totalFiles}]
-                </div>
-              )}
-
-              {/* Current file name */}
-              <div style={{
-                color: 'var(--foreground0)',
-                fontSize: '0.85rem',
-                textAlign: 'center',
-                marginBottom: '0.75rem',
-                overflow: 'hidden',
-                textOverflow: 'ellipsis',
-                whiteSpace: 'nowrap',
-              }}>
-                {currentFileName}
-              </div>
-
-              {/* Terminal ASCII progress bar */}
-              <div style={{
-                background: 'var(--background0)',
-                border: '1px solid var(--background2)',
-                padding: '1rem',
-                textAlign: 'center',
-              }}>
-                <div style={{
-                  fontSize: '1rem',
-                  letterSpacing: '0px',
-                  color: '#F25D94',
-                  whiteSpace: 'nowrap',
-                  overflow: 'hidden',
-                }}>
-                  [{bar}] {progressPercent}%
-                </div>
-              </div>
-            </div>
-          );
-        })() : (
+        {isSending ? (
+          <div style={{ color: 'var(--foreground2)', fontSize: '0.9rem', fontFamily: 'monospace' }}>
+            Sending files...
+          </div>
+        ) : (
           <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', gap: 0, border: 'none' }}>
             <span style={{
               color: 'var(--foreground0)',
               fontSize: '1.1rem',
               fontWeight: 500,
             }}>
-              {isDragging ? 'Drop to upload' : 'Drop files here'}
+              {isDragging ? 'Drop to upload' : 'Drop files or folders here'}
             </span>
             <span style={{ color: 'var(--foreground2)', fontSize: '0.85rem', marginTop: '0.5rem' }}>
               or click to browse
             </span>
             <span style={{ color: 'var(--foreground2)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
-              Images, Videos, PDFs (max 2GB)
+              Images, Videos, PDFs, Zips (max 2GB)
             </span>
+            {quotaSummary && (
+              <span style={{ color: 'var(--foreground2)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                {quotaSummary}
+              </span>
+            )}
           </div>
         )}
 
@@ -428,12 +871,61 @@ export const ShareTab = memo(() => {
           ref={fileInputRef}
           type="file"
           multiple
-          accept="image/*,video/*,.svg,.pdf,application/pdf"
+          accept="image/*,video/*,.svg,.pdf,application/pdf,.zip,application/zip"
           onChange={handleFileSelect}
           style={{ display: 'none' }}
         />
       </div>
 
+      {/* Per-file progress */}
+      {uploads.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+          {uploads.map(item => {
+            // ASCII terminal progress bar
+            const barWidth = 20;
+            const filled = Math.round((item.progress / 100) * barWidth);
+            const bar = '█'.repeat(filled) + '░'.repeat(barWidth - filled);
+            const failed = item.phase === 'failed';
+
+            return (
+              <div
+                key={item.key}
+                style={{
+                  background: 'var(--background0)',
+                  border: `1px solid ${failed ? 'var(--pink)' : 'var(--background2)'}`,
+                  borderRadius: '8px',
+                  padding: '0.5rem 0.75rem',
+                  fontFamily: 'monospace',
+                }}
+              >
+                <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', fontSize: '0.8rem' }}>
+                  <span style={{
+                    color: 'var(--foreground0)',
+                    overflow: 'hidden',
+                    textOverflow: 'ellipsis',
+                    whiteSpace: 'nowrap',
+                  }}>
+                    {item.name}
+                  </span>
+                  <span style={{ color: failed ? 'var(--pink)' : 'var(--foreground2)', flexShrink: 0 }}>
+                    {PHASE_LABELS[item.phase]}
+                  </span>
+                </div>
+                {failed ? (
+                  <div style={{ color: 'var(--pink)', fontSize: '0.75rem', marginTop: '0.25rem' }}>
+                    {item.error}
+                  </div>
+                ) : (
+                  <div style={{ color: '#F25D94', fontSize: '0.85rem', whiteSpace: 'nowrap', overflow: 'hidden' }}>
+                    [{bar}] {Math.round(item.progress)}%
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {/* Error Message */}
       {error && (
         <div style={{
@@ -496,6 +988,17 @@ export const ShareTab = memo(() => {
               </svg>
               Copy Folder Link
             </button>
+            {currentManageToken && (
+              <button
+                type="button"
+                is-="button"
+                variant-="background2"
+                onClick={deleteFolder}
+                style={{ width: '100%', padding: '0.5rem', fontSize: '0.8rem' }}
+              >
+                Delete Folder Link
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -523,20 +1026,40 @@ export const ShareTab = memo(() => {
                   padding: '0.75rem',
                 }}
               >
-                {/* File name and size */}
-                <div style={{ marginBottom: '0.5rem' }}>
-                  <div style={{
-                    color: 'var(--foreground0)',
-                    fontSize: '0.85rem',
-                    fontWeight: 500,
-                    overflow: 'hidden',
-                    textOverflow: 'ellipsis',
-                    whiteSpace: 'nowrap',
-                  }}>
-                    {file.name}
-                  </div>
-                  <div style={{ color: 'var(--foreground2)', fontSize: '0.7rem' }}>
-                    {formatFileSize(file.size)}
+                {/* Thumbnail, file name and size */}
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+                  {file.thumbnailUrl && (
+                    <img
+                      src={file.thumbnailUrl}
+                      alt=""
+                      loading="lazy"
+                      style={{
+                        width: '40px',
+                        height: '40px',
+                        objectFit: 'cover',
+                        borderRadius: '4px',
+                        border: '1px solid var(--background2)',
+                        flexShrink: 0,
+                      }}
+                    />
+                  )}
+                  <div style={{ minWidth: 0 }}>
+                    <div style={{
+                      color: 'var(--foreground0)',
+                      fontSize: '0.85rem',
+                      fontWeight: 500,
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                      whiteSpace: 'nowrap',
+                    }}>
+                      {file.name}
+                    </div>
+                    <div style={{ color: 'var(--foreground2)', fontSize: '0.7rem' }}>
+                      {formatFileSize(file.size)}
+                      {file.contentHash && (
+                        <span title={`SHA-256 ${file.contentHash}`}> · sha256 {file.contentHash.slice(0, 12)}</span>
+                      )}
+                    </div>
                   </div>
                 </div>
 
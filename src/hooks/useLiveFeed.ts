@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react'
+import { backendApi, type BlobData, type LiveBlob, type LiveFeedHandlers, type LiveTopic } from '../api/backend'
+
+type LiveEventHandlers = Omit<LiveFeedHandlers, 'onConnectionChange'>
+
+/**
+ * Subscribe to the live feed while the component is mounted. Components with
+ * the same topics share one stream. Returns whether the stream is connected,
+ * so the component can poll while it isn't.
+ */
+export function useLiveFeed(topics: LiveTopic[], handlers: LiveEventHandlers): boolean {
+  const [connected, setConnected] = useState(false)
+  // Latest handlers, so re-renders don't reopen the stream
+  const handlersRef = useRef(handlers)
+  handlersRef.current = handlers
+  const topicList = topics.join(',')
+
+  useEffect(() => {
+    return backendApi.subscribeLiveFeed(topicList.split(',') as LiveTopic[], {
+      onBlob: (blob) => handlersRef.current.onBlob?.(blob),
+      onActivity: (activity) => handlersRef.current.onActivity?.(activity),
+      onReset: (resetTopics) => handlersRef.current.onReset?.(resetTopics),
+      onConnectionChange: setConnected,
+    })
+  }, [topicList])
+
+  return connected
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B'
+  const k = 1024
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB']
+  const i = Math.floor(Math.log(bytes) / Math.log(k))
+  return `${(bytes / k ** i).toFixed(2)} ${sizes[i]}`
+}
+
+/**
+ * A live blob in the shape /api/blobs/recent returns
+ */
+export function toBlobData(blob: LiveBlob): BlobData {
+  return {
+    id: blob.blobId || blob.version,
+    owner: blob.owner.length <= 12 ? blob.owner : `${blob.owner.slice(0, 6)}...${blob.owner.slice(-5)}`,
+    ownerAddress: blob.owner,
+    name: blob.name,
+    encoding: blob.encoding ?? 'unknown',
+    expires: blob.expiresAt === null ? 'Never' : new Date(blob.expiresAt).toLocaleDateString('en-US'),
+    size: formatBytes(blob.sizeBytes),
+    sizeBytes: blob.sizeBytes,
+    version: blob.version,
+  }
+}